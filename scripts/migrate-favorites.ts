@@ -0,0 +1,120 @@
+#!/usr/bin/env bun
+// Usage: bun run scripts/migrate-favorites.ts
+//
+// Moves the favoriteBookIds/favoriteAuthorIds arrays stored on users into the
+// favorites collection, then removes those arrays and the favoritedByIds
+// arrays on books and authors. The arrays carry no dates, so migrated
+// favorites are dated at migration time and keep their order as the manual
+// order. Safe to run again: favorites that already exist are skipped.
+import { FavoriteTargetType, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+type RawObjectId = { $oid: string };
+
+interface LegacyUser {
+  _id: RawObjectId;
+  favoriteBookIds?: RawObjectId[];
+  favoriteAuthorIds?: RawObjectId[];
+}
+
+// Ids of records that no longer exist are dropped
+const existingIds = async (targetType: FavoriteTargetType, ids: string[]) => {
+  const where = { id: { in: ids } };
+  const records =
+    targetType === FavoriteTargetType.BOOK
+      ? await prisma.book.findMany({ where, select: { id: true } })
+      : await prisma.author.findMany({ where, select: { id: true } });
+  const found = new Set(records.map((record) => record.id));
+  return ids.filter((id) => found.has(id));
+};
+
+const migrateUserFavorites = async (
+  userId: string,
+  targetType: FavoriteTargetType,
+  legacyIds: RawObjectId[] = []
+) => {
+  const current = await prisma.favorite.findMany({
+    where: { userId, targetType },
+    select: { targetId: true, position: true },
+  });
+  const alreadyFavorited = new Set(
+    current.map((favorite) => favorite.targetId)
+  );
+  const ids = await existingIds(targetType, [
+    ...new Set(legacyIds.map((id) => id.$oid)),
+  ]);
+  const missingIds = ids.filter((id) => !alreadyFavorited.has(id));
+  const firstPosition =
+    Math.max(-1, ...current.map((favorite) => favorite.position)) + 1;
+
+  if (missingIds.length > 0) {
+    await prisma.favorite.createMany({
+      data: missingIds.map((targetId, index) => ({
+        userId,
+        targetType,
+        targetId,
+        position: firstPosition + index,
+      })),
+    });
+  }
+  return missingIds.length;
+};
+
+const unsetFields = (collection: string, fields: string[], userId?: string) =>
+  prisma.$runCommandRaw({
+    update: collection,
+    updates: [
+      {
+        q: userId ? { _id: { $oid: userId } } : {},
+        u: { $unset: Object.fromEntries(fields.map((field) => [field, ""])) },
+        multi: true,
+      },
+    ],
+  });
+
+async function migrateFavorites() {
+  try {
+    const users = (await prisma.user.findRaw({
+      filter: {
+        $or: [
+          { favoriteBookIds: { $exists: true } },
+          { favoriteAuthorIds: { $exists: true } },
+        ],
+      },
+      options: { projection: { favoriteBookIds: 1, favoriteAuthorIds: 1 } },
+    })) as unknown as LegacyUser[];
+
+    let created = 0;
+    for (const user of users) {
+      const userId = user._id.$oid;
+      created += await migrateUserFavorites(
+        userId,
+        FavoriteTargetType.BOOK,
+        user.favoriteBookIds
+      );
+      created += await migrateUserFavorites(
+        userId,
+        FavoriteTargetType.AUTHOR,
+        user.favoriteAuthorIds
+      );
+      await unsetFields(
+        "users",
+        ["favoriteBookIds", "favoriteAuthorIds"],
+        userId
+      );
+    }
+
+    await unsetFields("books", ["favoritedByIds"]);
+    await unsetFields("authors", ["favoritedByIds"]);
+
+    console.log(`✅ Migrated ${created} favorites from ${users.length} users.`);
+  } catch (error) {
+    console.error("🚨 Could not migrate favorites:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateFavorites();
@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+// Usage: bun run scripts/recount-favorites.ts
+//
+// Recomputes the favoriteCount stored on every book and author from the
+// favorites collection. Run it once after upgrading, since existing records
+// have no count yet, and again whenever the counts may have drifted (for
+// example after running migrate-favorites). Safe to run at any time.
+import { FavoriteTargetType, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const setCounts = (
+  targetType: FavoriteTargetType,
+  where: { id?: { in: string[] } },
+  favoriteCount: number
+) =>
+  targetType === FavoriteTargetType.BOOK
+    ? prisma.book.updateMany({ where, data: { favoriteCount } })
+    : prisma.author.updateMany({ where, data: { favoriteCount } });
+
+const recount = async (targetType: FavoriteTargetType) => {
+  const groups = await prisma.favorite.groupBy({
+    by: ["targetId"],
+    where: { targetType },
+    _count: { targetId: true },
+  });
+
+  // One update per distinct count instead of one per record
+  const idsByCount = new Map<number, string[]>();
+  for (const group of groups) {
+    const ids = idsByCount.get(group._count.targetId) ?? [];
+    ids.push(group.targetId);
+    idsByCount.set(group._count.targetId, ids);
+  }
+
+  await setCounts(targetType, {}, 0);
+  for (const [count, ids] of idsByCount) {
+    await setCounts(targetType, { id: { in: ids } }, count);
+  }
+  return groups.length;
+};
+
+async function recountFavorites() {
+  try {
+    const books = await recount(FavoriteTargetType.BOOK);
+    const authors = await recount(FavoriteTargetType.AUTHOR);
+    console.log(
+      `✅ Recounted favorites: ${books} favorited books, ${authors} favorited authors.`
+    );
+  } catch (error) {
+    console.error("🚨 Could not recount favorites:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+recountFavorites();
@@ -0,0 +1,42 @@
+#!/usr/bin/env bun
+// Usage: bun run scripts/recount-ratings.ts
+//
+// Recomputes averageRating and ratingCount on every book from its reviews.
+// Run it once after upgrading, since existing books have no rating fields
+// yet, and again whenever the figures may have drifted. Safe to run at any
+// time.
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+async function recountRatings() {
+  try {
+    const ratings = await prisma.review.groupBy({
+      by: ["bookId"],
+      _avg: { rating: true },
+      _count: { rating: true },
+    });
+
+    await prisma.book.updateMany({
+      data: { averageRating: null, ratingCount: 0 },
+    });
+    for (const rating of ratings) {
+      await prisma.book.updateMany({
+        where: { id: rating.bookId },
+        data: {
+          averageRating: rating._avg.rating,
+          ratingCount: rating._count.rating,
+        },
+      });
+    }
+
+    console.log(`✅ Recounted ratings of ${ratings.length} reviewed books.`);
+  } catch (error) {
+    console.error("🚨 Could not recount ratings:", error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+recountRatings();
@@ -0,0 +1,32 @@
+#!/usr/bin/env bun
+// Usage: bun run scripts/set-user-role.ts <email> <user|editor|admin>
+import { PrismaClient, Role } from "@prisma/client";
+
+const [email, role] = process.argv.slice(2);
+const roles = Object.values(Role);
+
+if (!email || !roles.includes(role as Role)) {
+  console.error(
+    `Usage: bun run scripts/set-user-role.ts <email> <${roles.join("|")}>`
+  );
+  process.exit(1);
+}
+
+const prisma = new PrismaClient();
+
+async function setUserRole() {
+  try {
+    const user = await prisma.user.update({
+      where: { email: email!.toLowerCase() },
+      data: { role: role as Role },
+    });
+    console.log(`✅ ${user.email} is now ${user.role}.`);
+  } catch (error) {
+    console.error(`🚨 Could not update the role of ${email}:`, error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+setUserRole();
@@ -1,3 +1,4 @@
+import { parseDurationSeconds } from "@/utils/duration";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -17,19 +18,212 @@ const getConfigValue = (key: string, defaultValue?: string) => {
   throw new Error(`FATAL ERROR: Environment variable ${key} is not set.`);
 };
 
+// Token lifetimes are checked at boot so a typo cannot fail every sign-in
+const getDurationConfigValue = (key: string, defaultValue: string) => {
+  const value = getConfigValue(key, defaultValue);
+  try {
+    parseDurationSeconds(value);
+  } catch {
+    throw new Error(
+      `FATAL ERROR: Environment variable ${key} must be a duration such as "15m", "7 days" or "1w", got "${value}".`
+    );
+  }
+  return value;
+};
+
 export const config = {
   port: parseInt(getConfigValue("PORT", "3000"), 10),
   nodeEnv: getConfigValue("NODE_ENV", "development"),
 
   databaseUrl: getConfigValue("DATABASE_URL"),
 
+  // Number of reverse proxies in front of the app, so req.ip is the client's address
+  trustProxyHops: parseInt(getConfigValue("TRUST_PROXY_HOPS", "0"), 10),
+
+  // Base URL of the client application, used to build links sent by email
+  appUrl: getConfigValue("APP_URL", "http://localhost:3000"),
+
+  // Public base URL of this API, used to build OIDC callback URLs
+  apiBaseUrl: getConfigValue("API_BASE_URL", "http://localhost:3000"),
+
   jwt: {
-    secret: getConfigValue("JWT_SECRET"),
-    expiresIn: getConfigValue("JWT_EXPIRES_IN", "1d"),
+    // HS256 fallback, only used to sign when no asymmetric keys are configured
+    secret: getConfigValue("JWT_SECRET", ""),
+    expiresIn: getDurationConfigValue("JWT_EXPIRES_IN", "15m"),
+    issuer: getConfigValue("JWT_ISSUER", "beehive-api"),
+    audience: getConfigValue("JWT_AUDIENCE", "beehive-api"),
+    // JSON array of { kid, privateKey?, publicKey? } with PEM-encoded RSA or Ed25519 keys
+    keys: getConfigValue("JWT_KEYS", ""),
+    // Directory of <kid>.pem files; private keys can sign, public keys only verify
+    keysDir: getConfigValue("JWT_KEYS_DIR", ""),
+    // Key used for new tokens; optional when exactly one private key is loaded
+    signingKeyId: getConfigValue("JWT_SIGNING_KEY_ID", ""),
+  },
+
+  refreshToken: {
+    expiresInDays: parseInt(
+      getConfigValue("REFRESH_TOKEN_EXPIRES_IN_DAYS", "30"),
+      10
+    ),
+  },
+
+  impersonation: {
+    expiresIn: getDurationConfigValue("IMPERSONATION_TOKEN_EXPIRES_IN", "15m"),
+    // Rejects every non-GET request made with an impersonation token
+    blockWrites:
+      getConfigValue("IMPERSONATION_BLOCK_WRITES", "false") === "true",
+  },
+
+  dataExport: {
+    // Each user may download this many exports per window
+    maxPerWindow: parseInt(
+      getConfigValue("DATA_EXPORT_MAX_PER_WINDOW", "3"),
+      10
+    ),
+    windowMinutes: parseInt(
+      getConfigValue("DATA_EXPORT_WINDOW_MINUTES", "1440"),
+      10
+    ),
+  },
+
+  session: {
+    // protect rewrites Session.lastSeenAt at most this often per session
+    lastSeenUpdateIntervalSeconds: parseInt(
+      getConfigValue("SESSION_LAST_SEEN_UPDATE_INTERVAL_SECONDS", "60"),
+      10
+    ),
+  },
+
+  passwordReset: {
+    tokenTtlMinutes: parseInt(
+      getConfigValue("PASSWORD_RESET_TOKEN_TTL_MINUTES", "30"),
+      10
+    ),
+  },
+
+  magicLink: {
+    tokenTtlMinutes: parseInt(
+      getConfigValue("MAGIC_LINK_TOKEN_TTL_MINUTES", "15"),
+      10
+    ),
+  },
+
+  emailVerification: {
+    tokenTtlHours: parseInt(
+      getConfigValue("EMAIL_VERIFICATION_TOKEN_TTL_HOURS", "24"),
+      10
+    ),
+    // When enabled, unverified users cannot create, update or delete books and authors
+    requiredForWrites:
+      getConfigValue("REQUIRE_VERIFIED_EMAIL_FOR_WRITES", "false") === "true",
+  },
+
+  bruteForce: {
+    // Failures are counted within this sliding window
+    windowMinutes: parseInt(
+      getConfigValue("BRUTE_FORCE_WINDOW_MINUTES", "15"),
+      10
+    ),
+    lockoutMinutes: parseInt(
+      getConfigValue("BRUTE_FORCE_LOCKOUT_MINUTES", "15"),
+      10
+    ),
+    maxLoginFailuresPerAccount: parseInt(
+      getConfigValue("LOGIN_MAX_FAILURES_PER_ACCOUNT", "5"),
+      10
+    ),
+    maxLoginFailuresPerIp: parseInt(
+      getConfigValue("LOGIN_MAX_FAILURES_PER_IP", "20"),
+      10
+    ),
+    // Each failure after this many doubles the delay, up to maxDelayMs
+    delayAfterFailures: parseInt(
+      getConfigValue("LOGIN_DELAY_AFTER_FAILURES", "2"),
+      10
+    ),
+    baseDelayMs: parseInt(getConfigValue("LOGIN_DELAY_BASE_MS", "500"), 10),
+    maxDelayMs: parseInt(getConfigValue("LOGIN_DELAY_MAX_MS", "8000"), 10),
+    maxRegistrationsPerIp: parseInt(
+      getConfigValue("REGISTER_MAX_ATTEMPTS_PER_IP", "10"),
+      10
+    ),
+    maxPasswordResetsPerAccount: parseInt(
+      getConfigValue("PASSWORD_RESET_MAX_ATTEMPTS_PER_ACCOUNT", "5"),
+      10
+    ),
+    maxPasswordResetsPerIp: parseInt(
+      getConfigValue("PASSWORD_RESET_MAX_ATTEMPTS_PER_IP", "20"),
+      10
+    ),
+    maxMagicLinksPerAccount: parseInt(
+      getConfigValue("MAGIC_LINK_MAX_ATTEMPTS_PER_ACCOUNT", "5"),
+      10
+    ),
+    maxMagicLinksPerIp: parseInt(
+      getConfigValue("MAGIC_LINK_MAX_ATTEMPTS_PER_IP", "20"),
+      10
+    ),
+    maxVerificationResendsPerAccount: parseInt(
+      getConfigValue("VERIFICATION_RESEND_MAX_ATTEMPTS_PER_ACCOUNT", "5"),
+      10
+    ),
+    maxVerificationResendsPerIp: parseInt(
+      getConfigValue("VERIFICATION_RESEND_MAX_ATTEMPTS_PER_IP", "20"),
+      10
+    ),
+  },
+
+  oidc: {
+    // JSON array of { name, issuer, clientId, clientSecret?, scopes?, redirectUri? }
+    providers: getConfigValue("OIDC_PROVIDERS", "[]"),
+    loginTtlMinutes: parseInt(
+      getConfigValue("OIDC_LOGIN_TTL_MINUTES", "10"),
+      10
+    ),
+  },
+
+  twoFactor: {
+    // Shown as the account label prefix in authenticator apps
+    issuer: getConfigValue("TOTP_ISSUER", "Beehive"),
+    // Lifetime of the challenge token returned by login when 2FA is enabled
+    challengeExpiresIn: getDurationConfigValue(
+      "MFA_CHALLENGE_EXPIRES_IN",
+      "5m"
+    ),
+  },
+
+  mail: {
+    transport: getConfigValue(
+      "MAIL_TRANSPORT",
+      process.env.NODE_ENV === "production" ? "smtp" : "outbox"
+    ),
+    from: getConfigValue("MAIL_FROM", "Beehive <no-reply@beehive.local>"),
+    outboxDir: process.env.MAIL_OUTBOX_DIR,
+    smtp: {
+      host: getConfigValue("SMTP_HOST", "localhost"),
+      port: parseInt(getConfigValue("SMTP_PORT", "587"), 10),
+      secure: getConfigValue("SMTP_SECURE", "false") === "true",
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
   },
 
   bcryptSaltRounds: parseInt(getConfigValue("BCRYPT_SALT_ROUNDS", "10"), 10),
 
+  passwordHashing: {
+    // "bcrypt" or "scrypt". Hashes made with another algorithm or older
+    // parameters are upgraded on the user's next successful login
+    algorithm: getConfigValue("PASSWORD_HASH_ALGORITHM", "bcrypt"),
+    scrypt: {
+      cost: parseInt(getConfigValue("SCRYPT_COST", "16384"), 10),
+      blockSize: parseInt(getConfigValue("SCRYPT_BLOCK_SIZE", "8"), 10),
+      parallelization: parseInt(
+        getConfigValue("SCRYPT_PARALLELIZATION", "1"),
+        10
+      ),
+    },
+  },
+
   logLevel:
     process.env.LOG_LEVEL ||
     (process.env.NODE_ENV === "production" ? "info" : "debug"),
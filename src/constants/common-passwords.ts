@@ -0,0 +1,158 @@
+// Frequently breached passwords, lowercased. The list is local so validation
+// never sends passwords to a third party; it covers variants that pass the
+// complexity rules by capitalising a letter or appending a digit or symbol
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "123456",
+  "123456789",
+  "12345678",
+  "password",
+  "qwerty123",
+  "qwerty",
+  "1q2w3e4r",
+  "111111",
+  "12345",
+  "1234567",
+  "123123",
+  "abc123",
+  "password1",
+  "iloveyou",
+  "000000",
+  "qwertyuiop",
+  "1234567890",
+  "123321",
+  "654321",
+  "666666",
+  "987654321",
+  "123qwe",
+  "7777777",
+  "1qaz2wsx",
+  "zaq12wsx",
+  "asdfghjkl",
+  "dragon",
+  "monkey",
+  "letmein",
+  "football",
+  "baseball",
+  "sunshine",
+  "princess",
+  "welcome",
+  "shadow",
+  "superman",
+  "michael",
+  "master",
+  "trustno1",
+  "starwars",
+  "whatever",
+  "freedom",
+  "hello123",
+  "charlie",
+  "donald",
+  "batman",
+  "passw0rd",
+  "p@ssw0rd",
+  "p@ssword",
+  "password!",
+  "password1!",
+  "password12",
+  "password12!",
+  "password123",
+  "password123!",
+  "password1234",
+  "password1234!",
+  "password2024",
+  "password2024!",
+  "password2025",
+  "password2025!",
+  "password@123",
+  "password#1",
+  "password$1",
+  "passw0rd!",
+  "passw0rd1",
+  "passw0rd1!",
+  "p@ssw0rd1",
+  "p@ssw0rd!",
+  "p@ssw0rd123",
+  "p@ssword1",
+  "p@ssword123",
+  "p@$$w0rd",
+  "welcome1",
+  "welcome1!",
+  "welcome123",
+  "welcome123!",
+  "welcome@123",
+  "welcome2024!",
+  "letmein1",
+  "letmein1!",
+  "letmein123!",
+  "qwerty1!",
+  "qwerty123!",
+  "qwerty@123",
+  "qwertyuiop1!",
+  "asdf1234!",
+  "asdfgh123!",
+  "1qaz2wsx!",
+  "1qaz@wsx",
+  "zaq1@wsx",
+  "admin123",
+  "admin123!",
+  "admin@123",
+  "administrator1!",
+  "root1234!",
+  "changeme",
+  "changeme1",
+  "changeme1!",
+  "changeme123!",
+  "iloveyou1",
+  "iloveyou1!",
+  "iloveyou123!",
+  "sunshine1!",
+  "princess1!",
+  "football1!",
+  "baseball1!",
+  "monkey123!",
+  "dragon123!",
+  "master123!",
+  "shadow123!",
+  "superman1!",
+  "batman123!",
+  "michael1!",
+  "summer2024!",
+  "summer2025!",
+  "winter2024!",
+  "winter2025!",
+  "spring2024!",
+  "spring2025!",
+  "autumn2024!",
+  "autumn2025!",
+  "company123!",
+  "secret123!",
+  "secret1!",
+  "abcd1234!",
+  "abc@1234",
+  "abc12345!",
+  "test1234!",
+  "test@123",
+  "testing123!",
+  "hello@123",
+  "hello123!",
+  "helloworld1!",
+  "login123!",
+  "access123!",
+  "default123!",
+  "guest1234!",
+  "user1234!",
+  "temp1234!",
+  "temp@123",
+  "pass@123",
+  "pass@word1",
+  "pass1234!",
+  "mypassword1!",
+  "newpassword1!",
+  "startrek1!",
+  "computer1!",
+  "internet1!",
+  "whatever1!",
+  "trustno1!",
+  "freedom1!",
+  "starwars1!",
+]);
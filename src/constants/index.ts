@@ -7,15 +7,87 @@ export const ErrorMessages = {
     "Invalid Object ID format. Please provide a valid 24-character hex string.",
   CONFLICT_ERROR:
     "The request could not be completed due to a conflict with the current state of the resource",
+  WRITE_CONFLICT:
+    "The record was changed by a concurrent request. Please try again.",
 
   USER_NOT_FOUND: "User not found.",
   INVALID_CREDENTIALS: "Invalid email or password. Please try again.",
   EMAIL_ALREADY_EXISTS: "An account with this email address already exists.",
   UNAUTHENTICATED: "Not authenticated. Please log in to access this resource.",
   UNAUTHORIZED_ACTION: "You are not authorized to perform this action.",
+  INSUFFICIENT_PERMISSIONS:
+    "Your role does not have permission to perform this action.",
   TOKEN_INVALID: "Authentication token is invalid, malformed, or has expired.",
   USER_FOR_TOKEN_NOT_FOUND:
     "The user associated with this token no longer exists.",
+  TOKEN_REVOKED: "Authentication token has been revoked. Please log in again.",
+  REFRESH_TOKEN_INVALID:
+    "Refresh token is invalid or has expired. Please log in again.",
+  REFRESH_TOKEN_REUSED:
+    "Refresh token has already been used. All sessions for this token have been revoked. Please log in again.",
+  PASSWORD_RESET_TOKEN_INVALID:
+    "Password reset link is invalid or has expired. Please request a new one.",
+  MAGIC_LINK_TOKEN_INVALID:
+    "Sign-in link is invalid or has expired. Please request a new one.",
+  EMAIL_VERIFICATION_TOKEN_INVALID:
+    "Email verification link is invalid or has expired. Please request a new one.",
+  EMAIL_ALREADY_VERIFIED: "Your email address is already verified.",
+  EMAIL_NOT_VERIFIED:
+    "Please verify your email address before performing this action.",
+  CURRENT_PASSWORD_INCORRECT: "Current password is incorrect.",
+  NEW_PASSWORD_SAME_AS_CURRENT:
+    "New password must be different from the current password.",
+  EMAIL_UNCHANGED: "The new email address is the same as the current one.",
+  EMAIL_CHANGE_TOKEN_INVALID:
+    "Email change link is invalid or has expired. Please request a new one.",
+  ACCOUNT_SUSPENDED:
+    "This account has been suspended. Please contact support for assistance.",
+  USER_ALREADY_SUSPENDED: "This user is already suspended.",
+  USER_NOT_SUSPENDED: "This user is not suspended.",
+  CANNOT_MODIFY_OWN_ACCOUNT:
+    "Administrators cannot suspend, change the role of, force-logout or impersonate their own account.",
+  CANNOT_IMPERSONATE_ADMIN: "Administrators cannot be impersonated.",
+  IMPERSONATION_REVOKED:
+    "The administrator behind this impersonation token can no longer impersonate users.",
+  IMPERSONATION_WRITES_BLOCKED:
+    "Changes cannot be made while impersonating a user.",
+  IMPERSONATION_NOT_ALLOWED:
+    "This action is not available while impersonating a user.",
+  TWO_FACTOR_ALREADY_ENABLED:
+    "Two-factor authentication is already enabled for this account.",
+  TWO_FACTOR_NOT_ENABLED:
+    "Two-factor authentication is not enabled for this account.",
+  TWO_FACTOR_SETUP_NOT_STARTED: "Start two-factor setup before confirming it.",
+  TWO_FACTOR_CODE_INVALID: "The authentication code is invalid or has expired.",
+  MFA_TOKEN_INVALID:
+    "Two-factor login challenge is invalid or has expired. Please log in again.",
+  API_KEY_INVALID: "API key is invalid, revoked, or has expired.",
+  API_KEY_READ_ONLY: "This API key is read-only and cannot modify data.",
+  API_KEY_SCOPE_NOT_ALLOWED:
+    "API keys can only be granted scopes available to your role.",
+  INSUFFICIENT_SCOPE:
+    "This token or API key does not have the scope required for this action.",
+  API_KEY_NOT_FOUND: "API key not found.",
+  API_KEY_NOT_ALLOWED:
+    "API keys cannot be used for this action. Please log in with your password.",
+  API_KEY_EXPIRY_IN_PAST: "API key expiry must be in the future.",
+  TOO_MANY_ATTEMPTS: "Too many attempts. Please wait before trying again.",
+  DATA_EXPORT_RATE_LIMITED:
+    "You have requested too many data exports. Please wait before trying again.",
+  SESSION_REVOKED: "This session has been signed out. Please log in again.",
+  SESSION_NOT_FOUND: "Session not found.",
+  LOGOUT_SESSION_REQUIRED:
+    "This credential has no session to log out. Send the refresh token of the device.",
+  OIDC_PROVIDER_NOT_FOUND: "Unknown login provider.",
+  OIDC_LOGIN_REQUEST_INVALID:
+    "Login request is invalid or has expired. Please start the login again.",
+  OIDC_LOGIN_FAILED: "Login with the identity provider failed.",
+  OIDC_EMAIL_NOT_VERIFIED:
+    "The identity provider did not confirm that your email address is verified.",
+  OIDC_ACCOUNT_EMAIL_NOT_VERIFIED:
+    "An account with this email exists but its email is not verified. Log in with your password and verify your email first.",
+  PASSWORD_TOO_COMMON:
+    "This password is too common and appears in data breaches. Please choose a different one.",
   PASSWORD_TOO_SHORT: (minLength: number) =>
     `Password must be at least ${minLength} characters long.`,
   NAME_TOO_SHORT: (minLength: number) =>
@@ -29,6 +101,15 @@ export const ErrorMessages = {
     `${item} is already in your favorites.`,
   ITEM_NOT_IN_FAVORITES: (item = "Item") =>
     `${item} is not in your favorites to remove.`,
+  FAVORITE_NOT_FOUND: (item = "Item") => `${item} is not in your favorites.`,
+  BULK_FAVORITES_REJECTED:
+    "No favorites were changed because some operations cannot be applied.",
+  COLLECTION_NOT_FOUND: "Collection not found.",
+  BOOK_ALREADY_IN_COLLECTION: "This book is already in the collection.",
+  BOOK_NOT_IN_COLLECTION: "This book is not in the collection.",
+  REVIEW_NOT_FOUND: "You have not reviewed this book.",
+  REVIEW_ALREADY_EXISTS:
+    "You have already reviewed this book. Update your review instead.",
   AUTHOR_IDS_REQUIRED:
     "At least one valid author ID is required to create or update a book.",
   AUTHOR_ID_INVALID: (id: string) =>
@@ -41,6 +122,19 @@ export const ErrorMessages = {
   ISBN_ALREADY_EXISTS: "ISBN already exists.",
 };
 
+export const ErrorCodes = {
+  ACCOUNT_SUSPENDED: "ACCOUNT_SUSPENDED",
+  TOO_MANY_ATTEMPTS: "TOO_MANY_ATTEMPTS",
+  INSUFFICIENT_SCOPE: "INSUFFICIENT_SCOPE",
+} as const;
+
 export const DEFAULT_PAGE_NUMBER = 1;
 export const DEFAULT_PAGE_LIMIT = 10;
 export const MAX_PAGE_LIMIT = 100;
+
+// Days of favorites counted by each popularity window; "all" has no cutoff
+export const POPULARITY_WINDOW_DAYS = {
+  "7d": 7,
+  "30d": 30,
+  all: null,
+} as const;
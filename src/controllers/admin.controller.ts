@@ -0,0 +1,145 @@
+import type { ChangeUserRoleDto, SuspendUserDto } from "@/dto/admin.dto";
+import type { IdParamDto, PaginationQueryDto } from "@/dto/shared.dto";
+import AdminService from "@/services/admin.service";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+class AdminController {
+  async listUsers(
+    req: Request<object, object, object, PaginationQueryDto> & {
+      pagination?: { page: number; limit: number };
+    },
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const paginationQueryDto: PaginationQueryDto = {
+        page: req.pagination?.page ?? Number(req.query.page),
+        limit: req.pagination?.limit ?? Number(req.query.limit),
+        sortBy: req.query.sortBy,
+        search: req.query.search,
+      };
+
+      const result = await AdminService.listUsers(paginationQueryDto);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getUser(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AdminService.getUser(req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async suspendUser(
+    req: Request<IdParamDto, object, SuspendUserDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AdminService.suspendUser(
+        req.user!,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "User suspended successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unsuspendUser(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AdminService.unsuspendUser(req.user!, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "User unsuspended successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changeUserRole(
+    req: Request<IdParamDto, object, ChangeUserRoleDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AdminService.changeUserRole(
+        req.user!,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "User role updated successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async forceLogoutUser(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await AdminService.forceLogoutUser(req.user!, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "User has been logged out of all sessions.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async impersonateUser(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const impersonation = await AdminService.impersonateUser(
+        req.user!,
+        req.params.id
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Impersonation token issued.",
+        data: impersonation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new AdminController();
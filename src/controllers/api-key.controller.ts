@@ -0,0 +1,55 @@
+import type { CreateApiKeyDto } from "@/dto/api-key.dto";
+import type { IdParamDto } from "@/dto/shared.dto";
+import ApiKeyService from "@/services/api-key.service";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+class ApiKeyController {
+  async create(
+    req: Request<object, object, CreateApiKeyDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const createdKey = await ApiKeyService.createApiKey(req.user!, req.body);
+      res.status(StatusCodes.CREATED).json({
+        status: "success",
+        message: "API key created. Copy it now; it will not be shown again.",
+        data: createdKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async list(req: Request, res: Response, next: NextFunction) {
+    try {
+      const apiKeys = await ApiKeyService.listApiKeys(req.user!);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: apiKeys,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revoke(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await ApiKeyService.revokeApiKey(req.user!.id, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "API key revoked successfully.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ApiKeyController();
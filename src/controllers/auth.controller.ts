@@ -1,5 +1,29 @@
-import type { LoginUserDto, RegisterUserDto } from "@/dto/auth.dto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type {
+  ChangeEmailDto,
+  ChangePasswordDto,
+  ConfirmEmailChangeDto,
+  ConfirmTwoFactorDto,
+  ConsumeMagicLinkDto,
+  DeleteAccountDto,
+  DisableTwoFactorDto,
+  ForgotPasswordDto,
+  LoginUserDto,
+  LogoutDto,
+  MagicLinkDto,
+  MfaLoginDto,
+  RefreshTokenDto,
+  RegisterUserDto,
+  ResetPasswordDto,
+  UpdateProfileDto,
+  VerifyEmailDto,
+} from "@/dto/auth.dto";
 import AuthService from "@/services/auth.service";
+import DataExportService from "@/services/data-export.service";
+import TwoFactorService from "@/services/two-factor.service";
+import appLogger from "@/utils/logger";
+import { getRequestContext } from "@/utils/request";
 import type { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 
@@ -10,7 +34,10 @@ class AuthController {
     next: NextFunction
   ) {
     try {
-      const authResponse = await AuthService.registerUser(req.body);
+      const authResponse = await AuthService.registerUser(
+        req.body,
+        getRequestContext(req)
+      );
       res.status(StatusCodes.CREATED).json({
         status: "success",
         message: "User registered successfully. Please log in.",
@@ -27,7 +54,32 @@ class AuthController {
     next: NextFunction
   ) {
     try {
-      const authResponse = await AuthService.loginUser(req.body);
+      const authResponse = await AuthService.loginUser(
+        req.body,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: authResponse.mfaRequired
+          ? "Two-factor authentication required."
+          : "Login successful.",
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async loginMfa(
+    req: Request<object, object, MfaLoginDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authResponse = await AuthService.completeMfaLogin(
+        req.body,
+        getRequestContext(req)
+      );
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Login successful.",
@@ -38,6 +90,181 @@ class AuthController {
     }
   }
 
+  async requestMagicLink(
+    req: Request<object, object, MagicLinkDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await AuthService.requestMagicLink(
+        req.body.email,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message:
+          "If an account exists for this email, a sign-in link has been sent.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async consumeMagicLink(
+    req: Request<object, object, ConsumeMagicLinkDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authResponse = await AuthService.consumeMagicLink(
+        req.body,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: authResponse.mfaRequired
+          ? "Two-factor authentication required."
+          : "Login successful.",
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async refresh(
+    req: Request<object, object, RefreshTokenDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authResponse = await AuthService.refreshAuthTokens(
+        req.body.refreshToken,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Token refreshed successfully.",
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async logout(
+    req: Request<object, object, LogoutDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      await AuthService.logoutUser(
+        userId,
+        req.body.refreshToken,
+        req.sessionId
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Logged out successfully.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async logoutAll(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.id;
+      await AuthService.logoutAllSessions(userId);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Logged out from all sessions successfully.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async forgotPassword(
+    req: Request<object, object, ForgotPasswordDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await AuthService.requestPasswordReset(
+        req.body.email,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message:
+          "If an account exists for this email, a password reset link has been sent.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resetPassword(
+    req: Request<object, object, ResetPasswordDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await AuthService.resetPassword(req.body);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Password has been reset successfully. Please log in.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyEmail(
+    req: Request<object, object, VerifyEmailDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AuthService.verifyEmail(req.body.token);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Email verified successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyEmailFromLink(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await AuthService.verifyEmail(String(req.query.token));
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Email verified successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resendVerification(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.id;
+      await AuthService.resendEmailVerification(userId, getRequestContext(req));
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Verification email sent.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getMe(req: Request, res: Response, next: NextFunction) {
     try {
       const userId = req.user?.id;
@@ -54,6 +281,170 @@ class AuthController {
       next(error);
     }
   }
+
+  // Streams the download; once the first bytes are out, a failure can only
+  // abort the response, as the status line has already been sent
+  async exportMe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { fileName, content } = await DataExportService.createUserExport(
+        req.user!.id
+      );
+      res.status(StatusCodes.OK);
+      res.type("application/json");
+      res.attachment(fileName);
+      await pipeline(Readable.from(content), res);
+    } catch (error) {
+      if (!res.headersSent) return next(error);
+      appLogger.error("Data export failed while streaming", error, {
+        userId: req.user?.id,
+      });
+      res.destroy();
+    }
+  }
+
+  async updateMe(
+    req: Request<object, object, UpdateProfileDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      const user = await AuthService.updateProfile(userId, req.body);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Profile updated successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changePassword(
+    req: Request<object, object, ChangePasswordDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      const authResponse = await AuthService.changePassword(
+        userId,
+        req.body,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Password changed successfully.",
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changeEmail(
+    req: Request<object, object, ChangeEmailDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      await AuthService.requestEmailChange(userId, req.body);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "A confirmation link has been sent to the new email address.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async confirmEmailChange(
+    req: Request<object, object, ConfirmEmailChangeDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const user = await AuthService.confirmEmailChange(req.body.token);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Email address changed successfully.",
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteMe(
+    req: Request<object, object, DeleteAccountDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      await AuthService.deleteAccount(userId, req.body.currentPassword);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Account deleted successfully.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setupTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+      const setupData = await TwoFactorService.startSetup(req.user!.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message:
+          "Add the secret to your authenticator app, then confirm with a code.",
+        data: setupData,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async confirmTwoFactor(
+    req: Request<object, object, ConfirmTwoFactorDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const recoveryData = await TwoFactorService.confirmSetup(
+        req.user!.id,
+        req.body.code
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message:
+          "Two-factor authentication enabled. Store the recovery codes somewhere safe.",
+        data: recoveryData,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async disableTwoFactor(
+    req: Request<object, object, DisableTwoFactorDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await TwoFactorService.disable(req.user!.id, req.body);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Two-factor authentication disabled.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new AuthController();
@@ -1,11 +1,9 @@
-import { ErrorMessages } from "@/constants";
 import type {
   AuthorOutput,
   CreateAuthorDto,
   UpdateAuthorDto,
 } from "@/dto/author.dto";
-import type { IdParamDto, PaginationQueryDto } from "@/dto/shared.dto";
-import { ForbiddenError } from "@/errors/error-types";
+import type { CatalogQueryDto, IdParamDto } from "@/dto/shared.dto";
 import AuthorService from "@/services/author.service";
 import type { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
@@ -43,10 +41,6 @@ class AuthorController {
         requestingUserId
       );
 
-      if (!author.createdById || author.createdById !== requestingUserId) {
-        throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-      }
-
       res.status(StatusCodes.OK).json({
         status: "success",
         data: author,
@@ -57,7 +51,7 @@ class AuthorController {
   }
 
   async getAllAuthors(
-    req: Request<object, object, object, PaginationQueryDto> & {
+    req: Request<object, object, object, CatalogQueryDto> & {
       pagination?: { page: number; limit: number };
     },
     res: Response,
@@ -66,11 +60,12 @@ class AuthorController {
     try {
       const userId = req.user!.id;
 
-      const paginationQueryDto: PaginationQueryDto = {
+      const paginationQueryDto: CatalogQueryDto = {
         page: req.pagination?.page ?? Number(req.query.page),
         limit: req.pagination?.limit ?? Number(req.query.limit),
         sortBy: req.query.sortBy,
         search: req.query.search,
+        mine: req.query.mine,
       };
 
       const result = await AuthorService.getAllAuthors(
@@ -92,12 +87,11 @@ class AuthorController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const authorIdFromParams = req.params.id;
       const author = await AuthorService.updateAuthor(
         authorIdFromParams,
         req.body,
-        userId
+        req.user!
       );
       res.status(StatusCodes.OK).json({
         status: "success",
@@ -115,9 +109,8 @@ class AuthorController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const authorIdFromParams = req.params.id;
-      await AuthorService.deleteAuthor(authorIdFromParams, userId);
+      await AuthorService.deleteAuthor(authorIdFromParams, req.user!);
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Author deleted successfully.",
@@ -1,7 +1,5 @@
-import { ErrorMessages } from "@/constants";
 import type { CreateBookDto, UpdateBookDto } from "@/dto/book.dto";
-import type { IdParamDto, PaginationQueryDto } from "@/dto/shared.dto";
-import { ForbiddenError } from "@/errors/error-types";
+import type { CatalogQueryDto, IdParamDto } from "@/dto/shared.dto";
 import BookService from "@/services/book.service";
 import type { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
@@ -38,10 +36,6 @@ class BookController {
         requestingUserId
       );
 
-      if (!book.createdById || book.createdById !== requestingUserId) {
-        throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-      }
-
       res.status(StatusCodes.OK).json({
         status: "success",
         data: book,
@@ -56,7 +50,7 @@ class BookController {
       object,
       object,
       object,
-      PaginationQueryDto & { authorId?: string }
+      CatalogQueryDto & { authorId?: string }
     > & {
       pagination?: { page: number; limit: number };
     },
@@ -70,6 +64,7 @@ class BookController {
         limit: req.pagination?.limit ?? Number(req.query.limit),
         sortBy: req.query.sortBy,
         search: req.query.search,
+        mine: req.query.mine,
         authorId: req.query.authorId,
       };
 
@@ -89,12 +84,11 @@ class BookController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const bookIdFromParams = req.params.id;
       const book = await BookService.updateBook(
         bookIdFromParams,
         req.body,
-        userId
+        req.user!
       );
 
       res.status(StatusCodes.OK).json({
@@ -113,9 +107,8 @@ class BookController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const bookIdFromParams = req.params.id;
-      await BookService.deleteBook(bookIdFromParams, userId);
+      await BookService.deleteBook(bookIdFromParams, req.user!);
 
       res.status(StatusCodes.OK).json({
         status: "success",
@@ -0,0 +1,265 @@
+import type {
+  AddCollectionItemDto,
+  CollectionItemParamsDto,
+  CreateCollectionDto,
+  UpdateCollectionDto,
+  UpdateCollectionItemDto,
+} from "@/dto/collection.dto";
+import type { IdParamDto, PaginationQueryDto } from "@/dto/shared.dto";
+import CollectionService from "@/services/collection.service";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+type PaginatedRequest<P = object> = Request<
+  P,
+  object,
+  object,
+  PaginationQueryDto
+> & {
+  pagination?: { page: number; limit: number };
+};
+
+const getPaginationQuery = (req: PaginatedRequest<any>) => ({
+  page: req.pagination?.page ?? Number(req.query.page),
+  limit: req.pagination?.limit ?? Number(req.query.limit),
+  sortBy: req.query.sortBy,
+  search: req.query.search,
+});
+
+class CollectionController {
+  async createCollection(
+    req: Request<object, object, CreateCollectionDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const collection = await CollectionService.createCollection(
+        req.user!.id,
+        req.body
+      );
+      res.status(StatusCodes.CREATED).json({
+        status: "success",
+        message: "Collection created successfully.",
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMyCollections(
+    req: PaginatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const result = await CollectionService.getMyCollections(
+        req.user!.id,
+        getPaginationQuery(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCollectionById(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const collection = await CollectionService.getCollection(
+        req.user!.id,
+        req.params.id
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateCollection(
+    req: Request<IdParamDto, object, UpdateCollectionDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const collection = await CollectionService.updateCollection(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Collection updated successfully.",
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteCollection(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await CollectionService.deleteCollection(req.user!.id, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Collection deleted successfully.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCollectionItems(
+    req: PaginatedRequest<IdParamDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const result = await CollectionService.getCollectionItems(
+        req.user!.id,
+        req.params.id,
+        getPaginationQuery(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async addCollectionItem(
+    req: Request<IdParamDto, object, AddCollectionItemDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const item = await CollectionService.addCollectionItem(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.CREATED).json({
+        status: "success",
+        message: "Book added to collection successfully.",
+        data: item,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateCollectionItem(
+    req: Request<CollectionItemParamsDto, object, UpdateCollectionItemDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const item = await CollectionService.updateCollectionItem(
+        req.user!.id,
+        req.params.id,
+        req.params.bookId,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Collection item updated successfully.",
+        data: item,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async removeCollectionItem(
+    req: Request<CollectionItemParamsDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await CollectionService.removeCollectionItem(
+        req.user!.id,
+        req.params.id,
+        req.params.bookId
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Book removed from collection successfully.",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPublicCollections(
+    req: PaginatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const result = await CollectionService.getPublicCollections(
+        getPaginationQuery(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSharedCollectionById(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const collection = await CollectionService.getSharedCollection(
+        req.params.id
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSharedCollectionItems(
+    req: PaginatedRequest<IdParamDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const result = await CollectionService.getSharedCollectionItems(
+        req.params.id,
+        getPaginationQuery(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CollectionController();
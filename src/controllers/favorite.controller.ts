@@ -1,23 +1,37 @@
 import { DEFAULT_PAGE_LIMIT, DEFAULT_PAGE_NUMBER } from "@/constants";
-import type { IdParamDto, PaginationQueryDto } from "@/dto/shared.dto";
+import type {
+  AddFavoriteDto,
+  BulkFavoritesDto,
+  SetFavoriteDto,
+  UpdateFavoriteDto,
+} from "@/dto/favorite.dto";
+import type {
+  IdParamDto,
+  PaginationQueryDto,
+  PopularQueryDto,
+} from "@/dto/shared.dto";
 import FavoriteService from "@/services/favorite.service";
 import type { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 
 class FavoriteController {
   async addAuthorToFavorites(
-    req: Request<IdParamDto, object, object>,
+    req: Request<IdParamDto, object, AddFavoriteDto | undefined>,
     res: Response,
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const authorId = req.params.id;
 
-      await FavoriteService.addAuthorToFavorites(userId, authorId);
+      const favorite = await FavoriteService.addAuthorToFavorites(
+        req.user!.id,
+        authorId,
+        req.body
+      );
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Author added to favorites successfully.",
+        data: favorite,
       });
     } catch (error) {
       next(error);
@@ -30,10 +44,9 @@ class FavoriteController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const authorId = req.params.id;
 
-      await FavoriteService.removeAuthorFromFavorites(userId, authorId);
+      await FavoriteService.removeAuthorFromFavorites(req.user!.id, authorId);
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Author removed from favorites successfully.",
@@ -43,6 +56,26 @@ class FavoriteController {
     }
   }
 
+  async setAuthorFavorite(
+    req: Request<IdParamDto, object, SetFavoriteDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const state = await FavoriteService.setAuthorFavorite(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: state,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getMyFavoriteAuthors(
     req: Request<object, object, object, PaginationQueryDto>,
     res: Response,
@@ -78,19 +111,202 @@ class FavoriteController {
     }
   }
 
-  async addBookToFavorites(
-    req: Request<IdParamDto, object, object>,
+  async getMyFavoriteBooks(
+    req: Request<object, object, object, PaginationQueryDto>,
     res: Response,
     next: NextFunction
   ) {
     try {
       const userId = req.user!.id;
+
+      const paginationData = (req as any).pagination;
+
+      const page =
+        paginationData?.page ?? Number(req.query.page ?? DEFAULT_PAGE_NUMBER);
+      const limit =
+        paginationData?.limit ?? Number(req.query.limit ?? DEFAULT_PAGE_LIMIT);
+
+      const serviceQueryDto: PaginationQueryDto = {
+        page: page,
+        limit: limit,
+        sortBy: req.query.sortBy,
+        search: req.query.search,
+      };
+
+      const result = await FavoriteService.getFavoriteBooks(
+        userId,
+        serviceQueryDto
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPopularBooks(
+    req: Request<object, object, object, PopularQueryDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const paginationData = (req as any).pagination;
+
+      const result = await FavoriteService.getPopularBooks(
+        {
+          page: paginationData?.page ?? Number(req.query.page),
+          limit: paginationData?.limit ?? Number(req.query.limit),
+          window: req.query.window,
+        },
+        req.user!.id
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPopularAuthors(
+    req: Request<object, object, object, PopularQueryDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const paginationData = (req as any).pagination;
+
+      const result = await FavoriteService.getPopularAuthors(
+        {
+          page: paginationData?.page ?? Number(req.query.page),
+          limit: paginationData?.limit ?? Number(req.query.limit),
+          window: req.query.window,
+        },
+        req.user!.id
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateFavoriteAuthor(
+    req: Request<IdParamDto, object, UpdateFavoriteDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const favorite = await FavoriteService.updateFavoriteAuthor(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Favorite updated successfully.",
+        data: favorite,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateFavoriteBook(
+    req: Request<IdParamDto, object, UpdateFavoriteDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const favorite = await FavoriteService.updateFavoriteBook(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Favorite updated successfully.",
+        data: favorite,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async applyBulkFavorites(
+    req: Request<object, object, BulkFavoritesDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const results = await FavoriteService.applyBulkFavorites(
+        req.user!.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Favorites updated successfully.",
+        data: results,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMyFavoritesSummary(req: Request, res: Response, next: NextFunction) {
+    try {
+      const summary = await FavoriteService.getFavoritesSummary(req.user!.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async addBookToFavorites(
+    req: Request<IdParamDto, object, AddFavoriteDto | undefined>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
       const bookId = req.params.id;
 
-      await FavoriteService.addBookToFavorites(userId, bookId);
+      const favorite = await FavoriteService.addBookToFavorites(
+        req.user!.id,
+        bookId,
+        req.body
+      );
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Book added to favorites successfully.",
+        data: favorite,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setBookFavorite(
+    req: Request<IdParamDto, object, SetFavoriteDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const state = await FavoriteService.setBookFavorite(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: state,
       });
     } catch (error) {
       next(error);
@@ -103,10 +319,9 @@ class FavoriteController {
     next: NextFunction
   ) {
     try {
-      const userId = req.user!.id;
       const bookId = req.params.id;
 
-      await FavoriteService.removeBookFromFavorites(userId, bookId);
+      await FavoriteService.removeBookFromFavorites(req.user!.id, bookId);
       res.status(StatusCodes.OK).json({
         status: "success",
         message: "Book removed from favorites successfully.",
@@ -0,0 +1,47 @@
+import type { OidcCallbackQueryDto } from "@/dto/oidc.dto";
+import OidcService from "@/services/oidc.service";
+import { getRequestContext } from "@/utils/request";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+class OidcController {
+  async start(
+    req: Request<{ provider: string }>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authorizationUrl = await OidcService.startLogin(
+        req.params.provider
+      );
+      res.redirect(StatusCodes.MOVED_TEMPORARILY, authorizationUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async callback(
+    req: Request<{ provider: string }, object, object, OidcCallbackQueryDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const authResponse = await OidcService.completeLogin(
+        req.params.provider,
+        req.query,
+        getRequestContext(req)
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: authResponse.mfaRequired
+          ? "Two-factor authentication required."
+          : "Login successful.",
+        data: authResponse,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new OidcController();
@@ -0,0 +1,94 @@
+import type {
+  CreateReviewDto,
+  ReviewsQueryDto,
+  UpdateReviewDto,
+} from "@/dto/review.dto";
+import type { IdParamDto } from "@/dto/shared.dto";
+import ReviewService from "@/services/review.service";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+class ReviewController {
+  async getBookReviews(
+    req: Request<IdParamDto, object, object, ReviewsQueryDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const paginationData = (req as any).pagination;
+
+      const result = await ReviewService.getBookReviews(req.params.id, {
+        page: paginationData?.page ?? Number(req.query.page),
+        limit: paginationData?.limit ?? Number(req.query.limit),
+        sortBy: req.query.sortBy,
+      });
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createReview(
+    req: Request<IdParamDto, object, CreateReviewDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const review = await ReviewService.createReview(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.CREATED).json({
+        status: "success",
+        message: "Review created successfully.",
+        data: review,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateReview(
+    req: Request<IdParamDto, object, UpdateReviewDto>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const review = await ReviewService.updateReview(
+        req.user!.id,
+        req.params.id,
+        req.body
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Review updated successfully.",
+        data: review,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteReview(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await ReviewService.deleteReview(req.user!.id, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Review deleted successfully.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ReviewController();
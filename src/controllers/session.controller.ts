@@ -0,0 +1,40 @@
+import type { IdParamDto } from "@/dto/shared.dto";
+import SessionService from "@/services/session.service";
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+
+class SessionController {
+  async list(req: Request, res: Response, next: NextFunction) {
+    try {
+      const sessions = await SessionService.listSessions(
+        req.user!.id,
+        req.sessionId
+      );
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        data: sessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revoke(
+    req: Request<IdParamDto, object, object>,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      await SessionService.revokeSession(req.user!.id, req.params.id);
+      res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Session signed out successfully.",
+        data: null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SessionController();
@@ -0,0 +1,77 @@
+import { prisma } from "@/db/client";
+import type { Scope } from "@/policies/scope.policy";
+import type { ApiKeyScope } from "@prisma/client";
+
+// lastUsedAt is only rewritten once per interval so busy keys do not cause a write per request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+class ApiKeyDao {
+  async createApiKey(keyData: {
+    userId: string;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scope: ApiKeyScope;
+    scopes: Scope[];
+    expiresAt?: Date;
+  }) {
+    return prisma.apiKey.create({
+      data: {
+        userId: keyData.userId,
+        name: keyData.name,
+        prefix: keyData.prefix,
+        keyHash: keyData.keyHash,
+        scope: keyData.scope,
+        scopes: keyData.scopes,
+        expiresAt: keyData.expiresAt ?? null,
+      },
+    });
+  }
+
+  async findApiKeysByUser(userId: string) {
+    return prisma.apiKey.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async findActiveApiKeyByHash(keyHash: string) {
+    if (!keyHash) return null;
+    return prisma.apiKey.findFirst({
+      where: {
+        keyHash,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+  }
+
+  // Scoped to the owner, so users can only revoke their own keys
+  async revokeApiKey(id: string, userId: string) {
+    const result = await prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async touchLastUsed(id: string) {
+    const now = new Date();
+    return prisma.apiKey.updateMany({
+      where: {
+        id,
+        OR: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              lt: new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS),
+            },
+          },
+        ],
+      },
+      data: { lastUsedAt: now },
+    });
+  }
+}
+
+export default new ApiKeyDao();
@@ -0,0 +1,32 @@
+import { prisma } from "@/db/client";
+import type { AuditAction, Prisma } from "@prisma/client";
+
+class AuditLogDao {
+  async createAuditLog(entry: {
+    action: AuditAction;
+    actorId: string;
+    targetUserId?: string;
+    details?: Prisma.InputJsonValue;
+  }) {
+    return prisma.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: entry.actorId,
+        targetUserId: entry.targetUserId,
+        details: entry.details,
+      },
+    });
+  }
+
+  // Entries where the user acted or was acted upon, oldest first
+  async findAuditLogsForUser(userId: string, skip: number, take: number) {
+    return prisma.auditLog.findMany({
+      where: { OR: [{ actorId: userId }, { targetUserId: userId }] },
+      orderBy: { createdAt: "asc" },
+      skip,
+      take,
+    });
+  }
+}
+
+export default new AuditLogDao();
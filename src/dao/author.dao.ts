@@ -1,6 +1,40 @@
 import { prisma } from "@/db/client";
 import type { CreateAuthorDto, UpdateAuthorDto } from "@/dto/author.dto";
-import type { Author, Prisma } from "@prisma/client";
+import { type Author, FavoriteTargetType, type Prisma } from "@prisma/client";
+
+const authorSearchWhere = (search: string): Prisma.AuthorWhereInput => ({
+  OR: [
+    {
+      name: { contains: search, mode: "insensitive" as Prisma.QueryMode },
+    },
+    {
+      bio: { contains: search, mode: "insensitive" as Prisma.QueryMode },
+    },
+  ],
+});
+
+// Adds isFavorite for the requesting user, or leaves it undefined without one
+const withFavoriteStatus = async <T extends { id: string }>(
+  authors: T[],
+  requestingUserId?: string
+) => {
+  if (!requestingUserId || authors.length === 0) {
+    return authors.map((author) => ({ ...author, isFavorite: undefined }));
+  }
+  const favorites = await prisma.favorite.findMany({
+    where: {
+      userId: requestingUserId,
+      targetType: FavoriteTargetType.AUTHOR,
+      targetId: { in: authors.map((author) => author.id) },
+    },
+    select: { targetId: true },
+  });
+  const favoriteIds = new Set(favorites.map((favorite) => favorite.targetId));
+  return authors.map((author) => ({
+    ...author,
+    isFavorite: favoriteIds.has(author.id),
+  }));
+};
 
 class AuthorDao {
   async createAuthor(authorData: CreateAuthorDto, userId: string) {
@@ -21,28 +55,57 @@ class AuthorDao {
 
     const authorData = await prisma.author.findUnique({
       where: { id },
-      include: {
-        ...(requestingUserId && {
-          favoritedBy: {
-            where: { id: requestingUserId },
-            select: { id: true },
-          },
-        }),
-      },
     });
 
     if (!authorData) return null;
 
-    if (requestingUserId) {
-      const { favoritedBy, ...restOfAuthor } = authorData as any;
-      return {
-        ...restOfAuthor,
-        isFavorite: favoritedBy && favoritedBy.length > 0,
-      };
-    }
+    const [author] = await withFavoriteStatus([authorData], requestingUserId);
+    return author!;
+  }
+
+  // The given ids that match the search, in no particular order
+  async findMatchingAuthorIds(ids: string[], search: string) {
+    if (ids.length === 0) return [];
+    const authors = await prisma.author.findMany({
+      where: { id: { in: ids }, ...authorSearchWhere(search) },
+      select: { id: true },
+    });
+    return authors.map((author) => author.id);
+  }
+
+  async findAuthorsByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+    return prisma.author.findMany({
+      where: { id: { in: ids } },
+      orderBy: { id: "asc" },
+    });
+  }
+
+  async findAuthorsByIdsForUser(ids: string[], requestingUserId?: string) {
+    const authors = await this.findAuthorsByIds(ids);
+    return withFavoriteStatus(authors, requestingUserId);
+  }
 
-    const { favoritedBy, ...restOfAuthor } = authorData as any;
-    return { ...restOfAuthor, isFavorite: undefined };
+  // Favorited authors by favoriteCount, most first. Ties are broken by id
+  async findMostFavoritedAuthors(
+    page: number,
+    limit: number,
+    requestingUserId?: string
+  ) {
+    const where: Prisma.AuthorWhereInput = { favoriteCount: { gt: 0 } };
+    const [authors, totalItems] = await Promise.all([
+      prisma.author.findMany({
+        skip: (page - 1) * limit,
+        take: limit,
+        where,
+        orderBy: [{ favoriteCount: "desc" }, { id: "asc" }],
+      }),
+      prisma.author.count({ where }),
+    ]);
+    return {
+      authors: await withFavoriteStatus(authors, requestingUserId),
+      totalItems,
+    };
   }
 
   async findAuthorsByName(name: string, createdById?: string, limit = 10) {
@@ -66,7 +129,8 @@ class AuthorDao {
     sortBy?: string,
     search?: string,
     filterByCreatedById?: string,
-    requestingUserId?: string
+    requestingUserId?: string,
+    filterByIds?: string[]
   ): Promise<{
     authors: (Author & { isFavorite?: boolean })[];
     totalItems: number;
@@ -96,18 +160,12 @@ class AuthorDao {
       where.createdById = filterByCreatedById;
     }
 
+    if (filterByIds) {
+      where.id = { in: filterByIds };
+    }
+
     if (search) {
-      const searchCondition = {
-        OR: [
-          {
-            name: { contains: search, mode: "insensitive" as Prisma.QueryMode },
-          },
-          {
-            bio: { contains: search, mode: "insensitive" as Prisma.QueryMode },
-          },
-        ],
-      };
-      where.OR = searchCondition.OR;
+      where.OR = authorSearchWhere(search).OR;
     }
 
     const authorsFromDb = await prisma.author.findMany({
@@ -115,27 +173,12 @@ class AuthorDao {
       take: limit,
       orderBy,
       where,
-      include: {
-        ...(requestingUserId && {
-          favoritedBy: {
-            where: { id: requestingUserId },
-            select: { id: true },
-          },
-        }),
-      },
     });
 
-    const authorsWithFavoriteStatus = authorsFromDb.map((authorData) => {
-      if (requestingUserId) {
-        const { favoritedBy, ...restOfAuthor } = authorData as any;
-        return {
-          ...restOfAuthor,
-          isFavorite: favoritedBy && favoritedBy.length > 0,
-        };
-      }
-      const { favoritedBy, ...restOfAuthor } = authorData as any;
-      return { ...restOfAuthor, isFavorite: undefined };
-    });
+    const authorsWithFavoriteStatus = await withFavoriteStatus(
+      authorsFromDb,
+      requestingUserId
+    );
 
     const totalItems = await prisma.author.count({ where });
     return { authors: authorsWithFavoriteStatus, totalItems };
@@ -155,9 +198,15 @@ class AuthorDao {
     });
   }
 
+  // Favorites only reference the author by id, so they are removed with it
   async deleteAuthor(id: string) {
-    return prisma.author.delete({
-      where: { id },
+    return prisma.$transaction(async (tx) => {
+      await tx.favorite.deleteMany({
+        where: { targetType: FavoriteTargetType.AUTHOR, targetId: id },
+      });
+      return tx.author.delete({
+        where: { id },
+      });
     });
   }
 }
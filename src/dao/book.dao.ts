@@ -1,6 +1,46 @@
 import { prisma } from "@/db/client";
 import type { CreateBookDto, UpdateBookDto } from "@/dto/book.dto";
-import type { Book, Prisma } from "@prisma/client";
+import { type Book, FavoriteTargetType, type Prisma } from "@prisma/client";
+
+const bookSearchWhere = (search: string): Prisma.BookWhereInput => ({
+  OR: [
+    {
+      title: {
+        contains: search,
+        mode: "insensitive" as Prisma.QueryMode,
+      },
+    },
+    {
+      isbn: {
+        contains: search,
+        mode: "insensitive" as Prisma.QueryMode,
+      },
+    },
+  ],
+});
+
+// Adds isFavorite for the requesting user, or leaves it undefined without one
+const withFavoriteStatus = async <T extends { id: string }>(
+  books: T[],
+  requestingUserId?: string
+) => {
+  if (!requestingUserId || books.length === 0) {
+    return books.map((book) => ({ ...book, isFavorite: undefined }));
+  }
+  const favorites = await prisma.favorite.findMany({
+    where: {
+      userId: requestingUserId,
+      targetType: FavoriteTargetType.BOOK,
+      targetId: { in: books.map((book) => book.id) },
+    },
+    select: { targetId: true },
+  });
+  const favoriteIds = new Set(favorites.map((favorite) => favorite.targetId));
+  return books.map((book) => ({
+    ...book,
+    isFavorite: favoriteIds.has(book.id),
+  }));
+};
 
 class BookDao {
   async createBook(bookData: CreateBookDto, userId: string) {
@@ -52,29 +92,81 @@ class BookDao {
             },
           },
         },
-        ...(requestingUserId && {
-          favoritedBy: {
-            where: { id: requestingUserId },
-            select: { id: true },
-          },
-        }),
       },
     });
 
     if (!bookData) return null;
 
-    if (requestingUserId) {
-      const { favoritedBy, ...restOfBook } = bookData as any;
-      return {
-        ...restOfBook,
-        isFavorite: favoritedBy && favoritedBy.length > 0,
-      };
-    }
+    const [book] = await withFavoriteStatus([bookData], requestingUserId);
+    return book!;
+  }
+
+  // The given ids that match the search, in no particular order
+  async findMatchingBookIds(ids: string[], search: string) {
+    if (ids.length === 0) return [];
+    const books = await prisma.book.findMany({
+      where: { id: { in: ids }, ...bookSearchWhere(search) },
+      select: { id: true },
+    });
+    return books.map((book) => book.id);
+  }
+
+  async findBooksByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+    return prisma.book.findMany({
+      where: { id: { in: ids } },
+      orderBy: { id: "asc" },
+      include: {
+        authors: {
+          include: {
+            author: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
 
-    const { favoritedBy, ...restOfBook } = bookData as any;
+  async findBooksByIdsForUser(ids: string[], requestingUserId?: string) {
+    const books = await this.findBooksByIds(ids);
+    return withFavoriteStatus(books, requestingUserId);
+  }
+
+  // Favorited books by favoriteCount, most first. Ties are broken by id
+  async findMostFavoritedBooks(
+    page: number,
+    limit: number,
+    requestingUserId?: string
+  ) {
+    const where: Prisma.BookWhereInput = { favoriteCount: { gt: 0 } };
+    const [books, totalItems] = await Promise.all([
+      prisma.book.findMany({
+        skip: (page - 1) * limit,
+        take: limit,
+        where,
+        orderBy: [{ favoriteCount: "desc" }, { id: "asc" }],
+        include: {
+          authors: {
+            include: {
+              author: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.book.count({ where }),
+    ]);
     return {
-      ...restOfBook,
-      isFavorite: undefined,
+      books: await withFavoriteStatus(books, requestingUserId),
+      totalItems,
     };
   }
 
@@ -125,7 +217,8 @@ class BookDao {
     search?: string,
     filterByCreatedById?: string,
     filterByAuthorId?: string,
-    requestingUserId?: string
+    requestingUserId?: string,
+    filterByIds?: string[]
   ): Promise<{
     books: (Book & { isFavorite?: boolean; authors: any[] })[];
     totalItems: number;
@@ -139,9 +232,15 @@ class BookDao {
         "asc" | "desc",
       ];
 
-      if (
+      const validDirection = direction === "asc" || direction === "desc";
+
+      if (validDirection && (field as string) === "rating") {
+        // Unrated books have no averageRating and sort below every rating.
+        // Among equal averages, more ratings count as a higher rating
+        orderBy.push({ averageRating: direction }, { ratingCount: direction });
+      } else if (
         field &&
-        (direction === "asc" || direction === "desc") &&
+        validDirection &&
         Object.keys(prisma.book.fields).includes(field as string)
       ) {
         orderBy.push({ [field]: direction });
@@ -158,6 +257,10 @@ class BookDao {
       where.createdById = filterByCreatedById;
     }
 
+    if (filterByIds) {
+      where.id = { in: filterByIds };
+    }
+
     if (filterByAuthorId) {
       where.authors = {
         some: {
@@ -167,20 +270,7 @@ class BookDao {
     }
 
     if (search) {
-      where.OR = [
-        {
-          title: {
-            contains: search,
-            mode: "insensitive" as Prisma.QueryMode,
-          },
-        },
-        {
-          isbn: {
-            contains: search,
-            mode: "insensitive" as Prisma.QueryMode,
-          },
-        },
-      ];
+      where.OR = bookSearchWhere(search).OR;
     }
 
     const booksFromDb = await prisma.book.findMany({
@@ -199,30 +289,13 @@ class BookDao {
             },
           },
         },
-        ...(requestingUserId && {
-          favoritedBy: {
-            where: { id: requestingUserId },
-            select: { id: true },
-          },
-        }),
       },
     });
 
-    const booksWithFavoriteStatus = booksFromDb.map((bookData) => {
-      if (requestingUserId) {
-        const { favoritedBy, ...restOfBook } = bookData as any;
-        return {
-          ...restOfBook,
-          isFavorite: favoritedBy && favoritedBy.length > 0,
-        };
-      }
-
-      const { favoritedBy, ...restOfBook } = bookData as any;
-      return {
-        ...restOfBook,
-        isFavorite: undefined,
-      };
-    });
+    const booksWithFavoriteStatus = await withFavoriteStatus(
+      booksFromDb,
+      requestingUserId
+    );
 
     const totalItems = await prisma.book.count({ where });
 
@@ -302,9 +375,18 @@ class BookDao {
     }
   }
 
+  // Favorites only reference the book by id, so they are removed with it,
+  // and the book leaves every collection it was in
   async deleteBook(id: string) {
-    return prisma.book.delete({
-      where: { id },
+    return prisma.$transaction(async (tx) => {
+      await tx.favorite.deleteMany({
+        where: { targetType: FavoriteTargetType.BOOK, targetId: id },
+      });
+      await tx.collectionItem.deleteMany({ where: { bookId: id } });
+      await tx.review.deleteMany({ where: { bookId: id } });
+      return tx.book.delete({
+        where: { id },
+      });
     });
   }
 }
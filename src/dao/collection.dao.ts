@@ -0,0 +1,223 @@
+import { prisma } from "@/db/client";
+import type {
+  CreateCollectionDto,
+  UpdateCollectionDto,
+} from "@/dto/collection.dto";
+import type { CollectionVisibility, Prisma } from "@prisma/client";
+
+const withItemCount = {
+  _count: { select: { items: true } },
+} satisfies Prisma.CollectionInclude;
+
+const withBook = {
+  book: {
+    include: {
+      authors: {
+        include: {
+          author: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.CollectionItemInclude;
+
+class CollectionDao {
+  async createCollection(collectionData: CreateCollectionDto, userId: string) {
+    return prisma.collection.create({
+      data: {
+        name: collectionData.name,
+        description: collectionData.description,
+        visibility: collectionData.visibility,
+        userId,
+      },
+      include: withItemCount,
+    });
+  }
+
+  async findCollectionById(id: string) {
+    if (!id) return null;
+    return prisma.collection.findUnique({
+      where: { id },
+      include: withItemCount,
+    });
+  }
+
+  async findAllCollections(
+    page: number,
+    limit: number,
+    sortBy?: string,
+    search?: string,
+    filterByUserId?: string,
+    filterByVisibility?: CollectionVisibility
+  ) {
+    const skip = (page - 1) * limit;
+    const orderBy: Prisma.CollectionOrderByWithRelationInput[] = [];
+
+    const [field, direction] = (sortBy ?? "").split(":");
+    if (
+      field &&
+      (direction === "asc" || direction === "desc") &&
+      Object.keys(prisma.collection.fields).includes(field)
+    ) {
+      orderBy.push({ [field]: direction });
+    } else {
+      orderBy.push({ updatedAt: "desc" });
+    }
+
+    const where: Prisma.CollectionWhereInput = {};
+
+    if (filterByUserId) {
+      where.userId = filterByUserId;
+    }
+
+    if (filterByVisibility) {
+      where.visibility = filterByVisibility;
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: "insensitive" } },
+        { description: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const [collections, totalItems] = await Promise.all([
+      prisma.collection.findMany({
+        skip,
+        take: limit,
+        orderBy,
+        where,
+        include: withItemCount,
+      }),
+      prisma.collection.count({ where }),
+    ]);
+
+    return { collections, totalItems };
+  }
+
+  // Every collection of the user with its items in order, oldest first
+  async findCollectionsWithItemsByUser(userId: string) {
+    return prisma.collection.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        items: { orderBy: [{ position: "asc" }, { id: "asc" }] },
+      },
+    });
+  }
+
+  async updateCollection(id: string, collectionData: UpdateCollectionDto) {
+    return prisma.collection.update({
+      where: { id },
+      data: {
+        name: collectionData.name,
+        description: collectionData.description,
+        visibility: collectionData.visibility,
+      },
+      include: withItemCount,
+    });
+  }
+
+  async deleteCollection(id: string) {
+    return prisma.$transaction(async (tx) => {
+      await tx.collectionItem.deleteMany({ where: { collectionId: id } });
+      return tx.collection.delete({ where: { id } });
+    });
+  }
+
+  async findCollectionItem(collectionId: string, bookId: string) {
+    return prisma.collectionItem.findUnique({
+      where: { collectionId_bookId: { collectionId, bookId } },
+      include: withBook,
+    });
+  }
+
+  async findCollectionItems(collectionId: string, page: number, limit: number) {
+    const where = { collectionId };
+    const [items, totalItems] = await Promise.all([
+      prisma.collectionItem.findMany({
+        skip: (page - 1) * limit,
+        take: limit,
+        where,
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        include: withBook,
+      }),
+      prisma.collectionItem.count({ where }),
+    ]);
+    return { items, totalItems };
+  }
+
+  // New items go to the end of the collection
+  async addCollectionItem(
+    collectionId: string,
+    itemData: { bookId: string; note?: string }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const last = await tx.collectionItem.findFirst({
+        where: { collectionId },
+        orderBy: { position: "desc" },
+        select: { position: true },
+      });
+      return tx.collectionItem.create({
+        data: {
+          collectionId,
+          bookId: itemData.bookId,
+          note: itemData.note ?? null,
+          position: last ? last.position + 1 : 0,
+        },
+        include: withBook,
+      });
+    });
+  }
+
+  async updateCollectionItemNote(id: string, note: string | null) {
+    return prisma.collectionItem.update({
+      where: { id },
+      data: { note },
+      include: withBook,
+    });
+  }
+
+  // Moves the item to a zero-based index, numbering the collection's items
+  // from 0 again
+  async moveCollectionItem(collectionId: string, id: string, position: number) {
+    return prisma.$transaction(async (tx) => {
+      const items = await tx.collectionItem.findMany({
+        where: { collectionId },
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        select: { id: true, position: true },
+      });
+      const ordered = items.filter((item) => item.id !== id);
+      ordered.splice(Math.min(position, ordered.length), 0, {
+        id,
+        position: -1,
+      });
+
+      for (const [index, item] of ordered.entries()) {
+        if (item.position !== index) {
+          await tx.collectionItem.update({
+            where: { id: item.id },
+            data: { position: index },
+          });
+        }
+      }
+      return tx.collectionItem.findUniqueOrThrow({
+        where: { id },
+        include: withBook,
+      });
+    });
+  }
+
+  async deleteCollectionItem(collectionId: string, bookId: string) {
+    return prisma.collectionItem.deleteMany({
+      where: { collectionId, bookId },
+    });
+  }
+}
+
+export default new CollectionDao();
@@ -0,0 +1,268 @@
+import { prisma } from "@/db/client";
+import { retryOnWriteConflict } from "@/db/transaction";
+import type { FavoriteTarget } from "@/dto/favorite.dto";
+import { FavoriteTargetType, type Prisma } from "@prisma/client";
+
+// Keeps favoriteCount on books and authors in step with the favorites. Call
+// it in the transaction that adds or removes the favorites
+export const adjustFavoriteCounts = async (
+  tx: Prisma.TransactionClient,
+  targets: FavoriteTarget[],
+  delta: 1 | -1
+) => {
+  for (const targetType of Object.values(FavoriteTargetType)) {
+    const ids = targets
+      .filter((target) => target.targetType === targetType)
+      .map((target) => target.targetId);
+    if (ids.length === 0) continue;
+
+    const update = {
+      where: { id: { in: ids } },
+      data: { favoriteCount: { increment: delta } },
+    };
+    if (targetType === FavoriteTargetType.BOOK) {
+      await tx.book.updateMany(update);
+    } else {
+      await tx.author.updateMany(update);
+    }
+  }
+};
+
+// Number of distinct targets favorited since the date. Counted by the
+// database, so the favorites of the window are never loaded
+const countTargetsFavoritedSince = async (
+  targetType: FavoriteTargetType,
+  since: Date
+) => {
+  const [result] = (await prisma.favorite.aggregateRaw({
+    pipeline: [
+      {
+        $match: {
+          targetType,
+          createdAt: { $gte: { $date: since.toISOString() } },
+        },
+      },
+      { $group: { _id: "$targetId" } },
+      { $count: "total" },
+    ],
+  })) as unknown as { total: number }[];
+  return result?.total ?? 0;
+};
+
+class FavoriteDao {
+  async findFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    targetId: string
+  ) {
+    return prisma.favorite.findUnique({
+      where: { userId_targetType_targetId: { userId, targetType, targetId } },
+    });
+  }
+
+  // All favorites of one type; favorites are per user, so the list stays small.
+  // Ties are broken by id, which follows creation order
+  async findFavoritesByUser(
+    userId: string,
+    targetType: FavoriteTargetType,
+    sortField: "createdAt" | "position" = "position",
+    direction: Prisma.SortOrder = "asc"
+  ) {
+    return prisma.favorite.findMany({
+      where: { userId, targetType },
+      orderBy: [{ [sortField]: direction }, { id: direction }],
+    });
+  }
+
+  // Favorites of every type, oldest first
+  async findAllFavoritesByUser(userId: string) {
+    return prisma.favorite.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findFavoritesForTargets(userId: string, targets: FavoriteTarget[]) {
+    if (targets.length === 0) return [];
+    return prisma.favorite.findMany({
+      where: {
+        userId,
+        OR: targets.map(({ targetType, targetId }) => ({
+          targetType,
+          targetId,
+        })),
+      },
+    });
+  }
+
+  // Targets of one type by how many favorites they gained since the date,
+  // most first. Ties are broken by id
+  async findMostFavoritedSince(
+    targetType: FavoriteTargetType,
+    since: Date,
+    skip: number,
+    take: number
+  ) {
+    const [groups, totalItems] = await Promise.all([
+      prisma.favorite.groupBy({
+        by: ["targetId"],
+        where: { targetType, createdAt: { gte: since } },
+        _count: { targetId: true },
+        orderBy: [{ _count: { targetId: "desc" } }, { targetId: "asc" }],
+        skip,
+        take,
+      }),
+      countTargetsFavoritedSince(targetType, since),
+    ]);
+    return {
+      counts: groups.map((group) => ({
+        targetId: group.targetId,
+        count: group._count.targetId,
+      })),
+      totalItems,
+    };
+  }
+
+  async countFavorites(userId: string, targetType: FavoriteTargetType) {
+    return prisma.favorite.count({ where: { userId, targetType } });
+  }
+
+  // New favorites go to the end of the manual order
+  async createFavorite(favoriteData: {
+    userId: string;
+    targetType: FavoriteTargetType;
+    targetId: string;
+    note?: string;
+  }) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        const last = await tx.favorite.findFirst({
+          where: {
+            userId: favoriteData.userId,
+            targetType: favoriteData.targetType,
+          },
+          orderBy: { position: "desc" },
+          select: { position: true },
+        });
+        const favorite = await tx.favorite.create({
+          data: {
+            userId: favoriteData.userId,
+            targetType: favoriteData.targetType,
+            targetId: favoriteData.targetId,
+            note: favoriteData.note ?? null,
+            position: last ? last.position + 1 : 0,
+          },
+        });
+        await adjustFavoriteCounts(tx, [favorite], 1);
+        return favorite;
+      })
+    );
+  }
+
+  // Removes and adds favorites in one transaction. Added favorites go to the
+  // end of the manual order, in the order given
+  async applyFavoriteChanges(
+    userId: string,
+    changes: { added: FavoriteTarget[]; removed: FavoriteTarget[] }
+  ) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        if (changes.removed.length > 0) {
+          const removed = await tx.favorite.findMany({
+            where: {
+              userId,
+              OR: changes.removed.map(({ targetType, targetId }) => ({
+                targetType,
+                targetId,
+              })),
+            },
+            select: { id: true, targetType: true, targetId: true },
+          });
+          await tx.favorite.deleteMany({
+            where: { id: { in: removed.map((favorite) => favorite.id) } },
+          });
+          await adjustFavoriteCounts(tx, removed, -1);
+        }
+
+        for (const targetType of Object.values(FavoriteTargetType)) {
+          const added = changes.added.filter(
+            (target) => target.targetType === targetType
+          );
+          if (added.length === 0) continue;
+
+          const last = await tx.favorite.findFirst({
+            where: { userId, targetType },
+            orderBy: { position: "desc" },
+            select: { position: true },
+          });
+          const firstPosition = last ? last.position + 1 : 0;
+          await tx.favorite.createMany({
+            data: added.map(({ targetId }, index) => ({
+              userId,
+              targetType,
+              targetId,
+              position: firstPosition + index,
+            })),
+          });
+          await adjustFavoriteCounts(tx, added, 1);
+        }
+      })
+    );
+  }
+
+  async updateFavoriteNote(id: string, note: string | null) {
+    return prisma.favorite.update({ where: { id }, data: { note } });
+  }
+
+  // Moves the favorite to a zero-based index in the manual order, numbering
+  // the user's favorites of that type from 0 again
+  async moveFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    id: string,
+    position: number
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const favorites = await tx.favorite.findMany({
+        where: { userId, targetType },
+        orderBy: [{ position: "asc" }, { id: "asc" }],
+        select: { id: true, position: true },
+      });
+      const ordered = favorites.filter((favorite) => favorite.id !== id);
+      ordered.splice(Math.min(position, ordered.length), 0, {
+        id,
+        position: -1,
+      });
+
+      for (const [index, favorite] of ordered.entries()) {
+        if (favorite.position !== index) {
+          await tx.favorite.update({
+            where: { id: favorite.id },
+            data: { position: index },
+          });
+        }
+      }
+      return tx.favorite.findUniqueOrThrow({ where: { id } });
+    });
+  }
+
+  async deleteFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    targetId: string
+  ) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        const result = await tx.favorite.deleteMany({
+          where: { userId, targetType, targetId },
+        });
+        if (result.count > 0) {
+          await adjustFavoriteCounts(tx, [{ targetType, targetId }], -1);
+        }
+        return result;
+      })
+    );
+  }
+}
+
+export default new FavoriteDao();
@@ -0,0 +1,65 @@
+import { prisma } from "@/db/client";
+
+class OidcDao {
+  async createLoginRequest(requestData: {
+    provider: string;
+    stateHash: string;
+    nonce: string;
+    codeVerifier: string;
+    expiresAt: Date;
+  }) {
+    // Abandoned logins are cleaned up here since nothing else reads them
+    await prisma.oidcLoginRequest.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return prisma.oidcLoginRequest.create({ data: requestData });
+  }
+
+  // Deletes and returns an unexpired request, so a state can only be used once
+  async consumeLoginRequest(stateHash: string) {
+    const request = await prisma.oidcLoginRequest.findUnique({
+      where: { stateHash },
+    });
+    if (!request) return null;
+
+    const { count } = await prisma.oidcLoginRequest.deleteMany({
+      where: { id: request.id },
+    });
+    if (count === 0 || request.expiresAt <= new Date()) return null;
+    return request;
+  }
+
+  async findIdentity(provider: string, subject: string) {
+    return prisma.oidcIdentity.findUnique({
+      where: { provider_subject: { provider, subject } },
+      include: { user: true },
+    });
+  }
+
+  async findIdentitiesByUser(userId: string) {
+    return prisma.oidcIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async createIdentity(identityData: {
+    provider: string;
+    subject: string;
+    email: string;
+    userId: string;
+  }) {
+    return prisma.oidcIdentity.create({
+      data: { ...identityData, lastLoginAt: new Date() },
+    });
+  }
+
+  async touchIdentity(id: string) {
+    return prisma.oidcIdentity.update({
+      where: { id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+}
+
+export default new OidcDao();
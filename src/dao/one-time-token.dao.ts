@@ -0,0 +1,52 @@
+import { prisma } from "@/db/client";
+import type { OneTimeTokenPurpose } from "@prisma/client";
+
+class OneTimeTokenDao {
+  async createToken(tokenData: {
+    userId: string;
+    purpose: OneTimeTokenPurpose;
+    tokenHash: string;
+    expiresAt: Date;
+    email?: string;
+  }) {
+    return prisma.oneTimeToken.create({
+      data: {
+        userId: tokenData.userId,
+        purpose: tokenData.purpose,
+        tokenHash: tokenData.tokenHash,
+        expiresAt: tokenData.expiresAt,
+        email: tokenData.email,
+      },
+    });
+  }
+
+  async findActiveTokenByHash(tokenHash: string, purpose: OneTimeTokenPurpose) {
+    if (!tokenHash) return null;
+    return prisma.oneTimeToken.findFirst({
+      where: {
+        tokenHash,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+  }
+
+  // Returns false if the token was already consumed by a concurrent request
+  async consumeToken(id: string) {
+    const result = await prisma.oneTimeToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async invalidateTokensForUser(userId: string, purpose: OneTimeTokenPurpose) {
+    return prisma.oneTimeToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+}
+
+export default new OneTimeTokenDao();
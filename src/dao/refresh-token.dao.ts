@@ -0,0 +1,52 @@
+import { prisma } from "@/db/client";
+
+class RefreshTokenDao {
+  async createRefreshToken(tokenData: {
+    userId: string;
+    tokenHash: string;
+    familyId: string;
+    expiresAt: Date;
+  }) {
+    return prisma.refreshToken.create({
+      data: {
+        userId: tokenData.userId,
+        tokenHash: tokenData.tokenHash,
+        familyId: tokenData.familyId,
+        expiresAt: tokenData.expiresAt,
+      },
+    });
+  }
+
+  async findRefreshTokenByHash(tokenHash: string) {
+    if (!tokenHash) return null;
+    return prisma.refreshToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  // Only succeeds for a token that is still unused, so two concurrent
+  // refreshes with the same token cannot both rotate it
+  async markRefreshTokenAsUsed(id: string) {
+    const result = await prisma.refreshToken.updateMany({
+      where: { id, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async revokeTokenFamily(familyId: string) {
+    return prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAllTokensForUser(userId: string) {
+    return prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
+
+export default new RefreshTokenDao();
@@ -0,0 +1,135 @@
+import { prisma } from "@/db/client";
+import { retryOnWriteConflict } from "@/db/transaction";
+import type { CreateReviewDto, UpdateReviewDto } from "@/dto/review.dto";
+import type { Prisma } from "@prisma/client";
+
+const includeReviewer = {
+  user: { select: { id: true, name: true } },
+} satisfies Prisma.ReviewInclude;
+
+// Recomputes averageRating and ratingCount on the books from their reviews.
+// Call it in the transaction that changes the reviews
+export const refreshBookRatings = async (
+  tx: Prisma.TransactionClient,
+  bookIds: string[]
+) => {
+  const uniqueIds = [...new Set(bookIds)];
+  if (uniqueIds.length === 0) return;
+
+  const ratings = await tx.review.groupBy({
+    by: ["bookId"],
+    where: { bookId: { in: uniqueIds } },
+    _avg: { rating: true },
+    _count: { rating: true },
+  });
+  const ratingsByBookId = new Map(
+    ratings.map((rating) => [rating.bookId, rating])
+  );
+
+  for (const bookId of uniqueIds) {
+    const rating = ratingsByBookId.get(bookId);
+    await tx.book.updateMany({
+      where: { id: bookId },
+      data: {
+        averageRating: rating?._avg.rating ?? null,
+        ratingCount: rating?._count.rating ?? 0,
+      },
+    });
+  }
+};
+
+class ReviewDao {
+  async findReview(userId: string, bookId: string) {
+    return prisma.review.findUnique({
+      where: { userId_bookId: { userId, bookId } },
+      include: includeReviewer,
+    });
+  }
+
+  async findReviewsByBook(
+    bookId: string,
+    page: number,
+    limit: number,
+    sortField: "createdAt" | "rating",
+    direction: "asc" | "desc"
+  ) {
+    const where = { bookId };
+    const [reviews, totalItems] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        // Newest first among reviews with the same rating
+        orderBy:
+          sortField === "rating"
+            ? [{ rating: direction }, { createdAt: "desc" }, { id: "desc" }]
+            : [{ createdAt: direction }, { id: direction }],
+        include: includeReviewer,
+      }),
+      prisma.review.count({ where }),
+    ]);
+    return { reviews, totalItems };
+  }
+
+  async findReviewsByUser(userId: string) {
+    return prisma.review.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async createReview(
+    userId: string,
+    bookId: string,
+    reviewData: CreateReviewDto
+  ) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        const review = await tx.review.create({
+          data: {
+            userId,
+            bookId,
+            rating: reviewData.rating,
+            title: reviewData.title,
+            body: reviewData.body,
+          },
+          include: includeReviewer,
+        });
+        await refreshBookRatings(tx, [bookId]);
+        return review;
+      })
+    );
+  }
+
+  async updateReview(id: string, reviewData: UpdateReviewDto) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        const review = await tx.review.update({
+          where: { id },
+          data: reviewData,
+          include: includeReviewer,
+        });
+        if (reviewData.rating !== undefined) {
+          await refreshBookRatings(tx, [review.bookId]);
+        }
+        return review;
+      })
+    );
+  }
+
+  async deleteReview(userId: string, bookId: string) {
+    return retryOnWriteConflict(() =>
+      prisma.$transaction(async (tx) => {
+        const result = await tx.review.deleteMany({
+          where: { userId, bookId },
+        });
+        if (result.count > 0) {
+          await refreshBookRatings(tx, [bookId]);
+        }
+        return result;
+      })
+    );
+  }
+}
+
+export default new ReviewDao();
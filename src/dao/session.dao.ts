@@ -0,0 +1,75 @@
+import { prisma } from "@/db/client";
+
+class SessionDao {
+  // Starts the session for a new refresh token family, or extends the
+  // existing one on refresh. Families issued before sessions existed get
+  // their session on their first refresh
+  async upsertSession(sessionData: {
+    userId: string;
+    familyId: string;
+    userAgent?: string;
+    ip?: string;
+    expiresAt: Date;
+  }) {
+    return prisma.session.upsert({
+      where: { familyId: sessionData.familyId },
+      create: {
+        userId: sessionData.userId,
+        familyId: sessionData.familyId,
+        userAgent: sessionData.userAgent ?? null,
+        ip: sessionData.ip ?? null,
+        expiresAt: sessionData.expiresAt,
+      },
+      update: { expiresAt: sessionData.expiresAt, lastSeenAt: new Date() },
+    });
+  }
+
+  async findSessionById(id: string) {
+    return prisma.session.findUnique({ where: { id } });
+  }
+
+  async findActiveSessionsByUser(userId: string) {
+    return prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: "desc" },
+    });
+  }
+
+  // Includes revoked and expired sessions
+  async findSessionsByUser(userId: string) {
+    return prisma.session.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async touchLastSeen(id: string, lastSeenBefore: Date) {
+    return prisma.session.updateMany({
+      where: { id, lastSeenAt: { lt: lastSeenBefore } },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  async revokeSession(id: string) {
+    return prisma.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeSessionByFamily(familyId: string) {
+    return prisma.session.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAllSessionsForUser(userId: string) {
+    return prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
+
+export default new SessionDao();
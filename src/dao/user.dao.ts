@@ -1,16 +1,22 @@
+import { adjustFavoriteCounts } from "@/dao/favorite.dao";
+import { refreshBookRatings } from "@/dao/review.dao";
 import { prisma } from "@/db/client";
-import type { RegisterUserDto } from "@/dto/auth.dto";
-import type { Prisma } from "@prisma/client";
+import type { RegisterUserDto, UpdateProfileDto } from "@/dto/auth.dto";
+import { FavoriteTargetType, type Prisma, type Role } from "@prisma/client";
 
 class UserDao {
-  async createUser(userData: RegisterUserDto & { passwordHash: string }) {
+  async createUser(
+    userData: Omit<RegisterUserDto, "password"> & {
+      passwordHash: string;
+      emailVerifiedAt?: Date;
+    }
+  ) {
     return prisma.user.create({
       data: {
         email: userData.email,
         password: userData.passwordHash,
         name: userData.name,
-        favoriteAuthorIds: [],
-        favoriteBookIds: [],
+        emailVerifiedAt: userData.emailVerifiedAt ?? null,
       },
     });
   }
@@ -30,85 +36,298 @@ class UserDao {
     });
   }
 
-  async addAuthorToFavorites(userId: string, authorId: string) {
+  async findAllUsers(
+    page: number,
+    limit: number,
+    sortBy?: string,
+    search?: string
+  ) {
+    const skip = (page - 1) * limit;
+    const orderBy: Prisma.UserOrderByWithRelationInput[] = [];
+    if (sortBy) {
+      const [field, direction] = sortBy.split(":") as [
+        keyof Prisma.UserOrderByWithRelationInput,
+        "asc" | "desc",
+      ];
+      if (
+        field &&
+        field !== "password" &&
+        (direction === "asc" || direction === "desc") &&
+        Object.keys(prisma.user.fields).includes(field as string)
+      ) {
+        orderBy.push({ [field]: direction });
+      } else {
+        orderBy.push({ createdAt: "desc" });
+      }
+    } else {
+      orderBy.push({ createdAt: "desc" });
+    }
+
+    const where: Prisma.UserWhereInput = {};
+    if (search) {
+      where.OR = [
+        { email: { contains: search, mode: "insensitive" } },
+        { name: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const users = await prisma.user.findMany({
+      skip,
+      take: limit,
+      orderBy,
+      where,
+    });
+    const totalItems = await prisma.user.count({ where });
+
+    return { users, totalItems };
+  }
+
+  async updateProfile(userId: string, profileData: UpdateProfileDto) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { name: profileData.name },
+    });
+  }
+
+  // The new address was proven by the confirmation link, so it counts as verified
+  async updateEmail(userId: string, email: string) {
     return prisma.user.update({
       where: { id: userId },
       data: {
-        favoriteAuthorIds: {
-          push: authorId,
-        },
-        favoriteAuthors: {
-          connect: { id: authorId },
-        },
+        email: email.toLowerCase(),
+        emailVerifiedAt: new Date(),
       },
     });
   }
 
-  async removeAuthorFromFavorites(userId: string, authorId: string) {
-    const user = await prisma.user.findUnique({
+  // Changing the password always bumps tokenVersion so existing tokens stop working
+  async updatePassword(userId: string, passwordHash: string) {
+    return prisma.user.update({
       where: { id: userId },
-      select: { favoriteAuthorIds: true },
+      data: {
+        password: passwordHash,
+        tokenVersion: { increment: 1 },
+      },
     });
+  }
 
-    if (!user) {
-      return null;
-    }
+  // Replaces the stored hash of an unchanged password, so sessions stay valid
+  async updatePasswordHash(userId: string, passwordHash: string) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { password: passwordHash },
+    });
+  }
 
-    const updatedFavoriteAuthorIds = user.favoriteAuthorIds.filter(
-      (id) => id !== authorId
-    );
+  async markEmailVerified(userId: string) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
 
+  async updateRole(userId: string, role: Role) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { role },
+    });
+  }
+
+  // Suspending also bumps tokenVersion so access tokens stop working at once
+  async suspendUser(userId: string, reason?: string) {
     return prisma.user.update({
       where: { id: userId },
       data: {
-        favoriteAuthorIds: {
-          set: updatedFavoriteAuthorIds,
-        },
-        favoriteAuthors: {
-          disconnect: { id: authorId },
-        },
+        suspendedAt: new Date(),
+        suspensionReason: reason ?? null,
+        tokenVersion: { increment: 1 },
       },
     });
   }
 
-  async addBookToFavorites(userId: string, bookId: string) {
+  async unsuspendUser(userId: string) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { suspendedAt: null, suspensionReason: null },
+    });
+  }
+
+  // Replaces any unconfirmed secret; 2FA stays off until enableTwoFactor
+  async setPendingTotpSecret(userId: string, secret: string) {
     return prisma.user.update({
       where: { id: userId },
       data: {
-        favoriteBookIds: {
-          push: bookId,
-        },
-        favoriteBooks: {
-          connect: { id: bookId },
-        },
+        totpSecret: secret,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: { set: [] },
       },
     });
   }
 
-  async removeBookFromFavorites(userId: string, bookId: string) {
-    const user = await prisma.user.findUnique({
+  async enableTwoFactor(
+    userId: string,
+    confirmedStep: number,
+    recoveryCodeHashes: string[]
+  ) {
+    return prisma.user.update({
       where: { id: userId },
-      select: { favoriteBookIds: true },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: confirmedStep,
+        totpRecoveryCodes: { set: recoveryCodeHashes },
+      },
     });
+  }
 
-    if (!user) {
-      return null;
-    }
+  async disableTwoFactor(userId: string) {
+    return prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: { set: [] },
+      },
+    });
+  }
+
+  // Only succeeds for a step newer than the last accepted one, so a code
+  // cannot be used twice even by concurrent requests
+  async claimTotpStep(userId: string, step: number) {
+    const result = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return result.count > 0;
+  }
 
-    const updatedFavoriteBookIds = user.favoriteBookIds.filter(
-      (id) => id !== bookId
-    );
+  // Guarded by the list the caller read, so concurrent redemptions cannot
+  // both succeed or resurrect each other's codes
+  async consumeRecoveryCode(
+    userId: string,
+    currentCodeHashes: string[],
+    codeHash: string
+  ) {
+    const result = await prisma.user.updateMany({
+      where: { id: userId, totpRecoveryCodes: { equals: currentCodeHashes } },
+      data: {
+        totpRecoveryCodes: {
+          set: currentCodeHashes.filter((hash) => hash !== codeHash),
+        },
+      },
+    });
+    return result.count > 0;
+  }
 
+  async incrementTokenVersion(userId: string) {
     return prisma.user.update({
       where: { id: userId },
-      data: {
-        favoriteBookIds: {
-          set: updatedFavoriteBookIds,
+      data: { tokenVersion: { increment: 1 } },
+    });
+  }
+
+  // Deletes the user together with everything they created. Books created by
+  // the user are removed, and so are their authors unless a book of another
+  // user credits them; those stay in the catalog without a creator. The
+  // user's favorites and every favorite of the removed records are deleted in
+  // the same transaction.
+  async deleteUserAccount(userId: string) {
+    return prisma.$transaction(async (tx) => {
+      const createdBooks = await tx.book.findMany({
+        where: { createdById: userId },
+        select: { id: true },
+      });
+      const createdAuthors = await tx.author.findMany({
+        where: { createdById: userId },
+        select: { id: true },
+      });
+      const createdBookIds = createdBooks.map((book) => book.id);
+
+      const sharedLinks = await tx.bookAuthor.findMany({
+        where: {
+          authorId: { in: createdAuthors.map((author) => author.id) },
+          bookId: { notIn: createdBookIds },
         },
-        favoriteBooks: {
-          disconnect: { id: bookId },
+        select: { authorId: true },
+      });
+      const sharedAuthorIds = [
+        ...new Set(sharedLinks.map((link) => link.authorId)),
+      ];
+      const createdAuthorIds = createdAuthors
+        .map((author) => author.id)
+        .filter((authorId) => !sharedAuthorIds.includes(authorId));
+
+      await tx.bookAuthor.deleteMany({
+        where: { bookId: { in: createdBookIds } },
+      });
+
+      const ownFavorites = await tx.favorite.findMany({
+        where: { userId },
+        select: { targetType: true, targetId: true },
+      });
+      await adjustFavoriteCounts(tx, ownFavorites, -1);
+
+      await tx.favorite.deleteMany({
+        where: {
+          OR: [
+            { userId },
+            {
+              targetType: FavoriteTargetType.BOOK,
+              targetId: { in: createdBookIds },
+            },
+            {
+              targetType: FavoriteTargetType.AUTHOR,
+              targetId: { in: createdAuthorIds },
+            },
+          ],
         },
-      },
+      });
+
+      const collections = await tx.collection.findMany({
+        where: { userId },
+        select: { id: true },
+      });
+      await tx.collectionItem.deleteMany({
+        where: {
+          OR: [
+            {
+              collectionId: {
+                in: collections.map((collection) => collection.id),
+              },
+            },
+            { bookId: { in: createdBookIds } },
+          ],
+        },
+      });
+      await tx.collection.deleteMany({ where: { userId } });
+
+      const ownReviews = await tx.review.findMany({
+        where: { userId },
+        select: { bookId: true },
+      });
+      await tx.review.deleteMany({
+        where: { OR: [{ userId }, { bookId: { in: createdBookIds } }] },
+      });
+      const createdBookIdSet = new Set(createdBookIds);
+      await refreshBookRatings(
+        tx,
+        ownReviews
+          .map((review) => review.bookId)
+          .filter((bookId) => !createdBookIdSet.has(bookId))
+      );
+
+      await tx.book.deleteMany({ where: { id: { in: createdBookIds } } });
+      await tx.author.deleteMany({ where: { id: { in: createdAuthorIds } } });
+      await tx.author.updateMany({
+        where: { id: { in: sharedAuthorIds } },
+        data: { createdById: null },
+      });
+
+      return tx.user.delete({ where: { id: userId } });
     });
   }
 }
@@ -0,0 +1,22 @@
+import { Prisma } from "@prisma/client";
+
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+const isWriteConflict = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2034";
+
+// MongoDB aborts a transaction that writes a document another transaction
+// changed first (e.g. two reviews refreshing the same book's rating). Runs
+// the transaction again a few times before giving up with the conflict
+export const retryOnWriteConflict = async <T>(run: () => Promise<T>) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!isWriteConflict(error) || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
@@ -0,0 +1,90 @@
+import "zod-openapi/extend";
+import { Role } from "@prisma/client";
+import { z } from "zod";
+import { UserOutputSchema } from "./auth.dto";
+
+const MAX_SUSPENSION_REASON_LENGTH = 500;
+
+export const AdminUserOutputSchema = UserOutputSchema.extend({
+  suspendedAt: z.date().nullable().openapi({
+    description: "Timestamp of suspension, or null if the user is active.",
+    type: "string",
+    format: "date-time",
+  }),
+  suspensionReason: z.string().nullable().openapi({
+    description: "Reason given by the administrator who suspended the user.",
+    example: "Repeated spam submissions.",
+  }),
+}).openapi({
+  ref: "AdminUserOutput",
+  description: "A user as seen by administrators (password excluded).",
+});
+
+export const SuspendUserInputSchema = z
+  .object({
+    reason: z
+      .string({ invalid_type_error: "Reason must be a string." })
+      .trim()
+      .min(1, "Reason cannot be empty.")
+      .max(
+        MAX_SUSPENSION_REASON_LENGTH,
+        `Reason cannot exceed ${MAX_SUSPENSION_REASON_LENGTH} characters.`
+      )
+      .optional()
+      .openapi({
+        description: "Optional reason for the suspension, kept for auditing.",
+        example: "Repeated spam submissions.",
+      }),
+  })
+  .openapi({
+    ref: "SuspendUserInput",
+    description: "Optional details for suspending a user.",
+  });
+
+export const ChangeUserRoleInputSchema = z
+  .object({
+    role: z
+      .nativeEnum(Role, {
+        required_error: "Role is required.",
+        invalid_type_error: "Role must be one of: user, editor, admin.",
+      })
+      .openapi({
+        description: "The new role of the user.",
+        example: "editor",
+      }),
+  })
+  .openapi({
+    ref: "ChangeUserRoleInput",
+    description: "The role to assign to the user.",
+  });
+
+export const ImpersonationDataSchema = z
+  .object({
+    token: z.string().openapi({
+      description:
+        "Short-lived access token for the user. It carries an `act` claim naming the administrator and cannot be refreshed.",
+      example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+    }),
+    expiresIn: z.string().openapi({
+      description: "Lifetime of the token.",
+      example: "15m",
+    }),
+    user: AdminUserOutputSchema,
+  })
+  .openapi({
+    ref: "ImpersonationData",
+    description: "An access token to act as another user.",
+  });
+
+export const SuspendUserRequestSchema = z.object({
+  body: SuspendUserInputSchema.default({}),
+});
+
+export const ChangeUserRoleRequestSchema = z.object({
+  body: ChangeUserRoleInputSchema,
+});
+
+export type AdminUserOutput = z.infer<typeof AdminUserOutputSchema>;
+export type SuspendUserDto = z.infer<typeof SuspendUserInputSchema>;
+export type ChangeUserRoleDto = z.infer<typeof ChangeUserRoleInputSchema>;
+export type ImpersonationData = z.infer<typeof ImpersonationDataSchema>;
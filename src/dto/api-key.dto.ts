@@ -0,0 +1,116 @@
+import "zod-openapi/extend";
+import { ErrorMessages } from "@/constants";
+import { Scope } from "@/policies/scope.policy";
+import { ApiKeyScope } from "@prisma/client";
+import { z } from "zod";
+import { ZodObjectId } from "./shared.dto";
+
+const MAX_API_KEY_NAME_LENGTH = 100;
+
+const ScopeSchema = z.nativeEnum(Scope);
+
+export const CreateApiKeyInputSchema = z
+  .object({
+    name: z
+      .string({
+        required_error: "API key name is required.",
+        invalid_type_error: "API key name must be a string.",
+      })
+      .trim()
+      .min(1, "API key name cannot be empty.")
+      .max(
+        MAX_API_KEY_NAME_LENGTH,
+        `API key name cannot exceed ${MAX_API_KEY_NAME_LENGTH} characters.`
+      )
+      .openapi({
+        description: "Label to recognise the key by, e.g. the script using it.",
+        example: "Nightly import job",
+      }),
+    scope: z.nativeEnum(ApiKeyScope).default(ApiKeyScope.read_only).openapi({
+      description:
+        "read_only keys can only make GET requests; read_write keys can also create, update and delete.",
+      example: "read_only",
+    }),
+    scopes: z
+      .array(ScopeSchema)
+      .min(1, "At least one scope is required.")
+      .optional()
+      .openapi({
+        description:
+          "Scopes the key is limited to. Defaults to every scope of your role. A read_only key still can only make GET requests.",
+        example: ["books:read", "favorites:write"],
+      }),
+    expiresAt: z
+      .string()
+      .datetime({ message: "Expiry must be in ISO format." })
+      .optional()
+      .transform((val) => (val ? new Date(val) : undefined))
+      .refine((date) => !date || date > new Date(), {
+        message: ErrorMessages.API_KEY_EXPIRY_IN_PAST,
+      })
+      .openapi({
+        description:
+          "Optional expiry in ISO format. Omit for a key that never expires.",
+        example: "2030-01-01T00:00:00Z",
+      }),
+  })
+  .openapi({
+    ref: "CreateApiKeyInput",
+    description: "Data required to create a personal API key.",
+  });
+
+export const ApiKeyOutputSchema = z
+  .object({
+    id: ZodObjectId.openapi({ description: "Unique identifier of the key." }),
+    name: z.string().openapi({ example: "Nightly import job" }),
+    prefix: z.string().openapi({
+      description: "First characters of the key, to tell keys apart.",
+      example: "bh_3kX9aQ",
+    }),
+    scope: z.nativeEnum(ApiKeyScope).openapi({ example: "read_only" }),
+    scopes: z.array(ScopeSchema).openapi({
+      description: "Scopes the key is limited to.",
+      example: ["books:read", "favorites:write"],
+    }),
+    expiresAt: z.date().nullable().openapi({
+      description: "Expiry of the key, or null if it never expires.",
+      type: "string",
+      format: "date-time",
+    }),
+    lastUsedAt: z.date().nullable().openapi({
+      description:
+        "When the key was last used (updated at most once a minute), or null if never.",
+      type: "string",
+      format: "date-time",
+    }),
+    createdAt: z.date().openapi({
+      description: "Timestamp of key creation.",
+      type: "string",
+      format: "date-time",
+    }),
+  })
+  .openapi({
+    ref: "ApiKeyOutput",
+    description: "A personal API key. The secret itself is never returned.",
+  });
+
+export const CreatedApiKeyDataSchema = z
+  .object({
+    apiKey: ApiKeyOutputSchema,
+    key: z.string().openapi({
+      description:
+        "The API key. It is only shown once; send it in the X-API-Key header or as 'Authorization: ApiKey <key>'.",
+      example: "bh_3kX9aQ7mP2vW...",
+    }),
+  })
+  .openapi({
+    ref: "CreatedApiKeyData",
+    description: "The new key and its metadata.",
+  });
+
+export const CreateApiKeyRequestSchema = z.object({
+  body: CreateApiKeyInputSchema,
+});
+
+export type CreateApiKeyDto = z.infer<typeof CreateApiKeyInputSchema>;
+export type ApiKeyOutput = z.infer<typeof ApiKeyOutputSchema>;
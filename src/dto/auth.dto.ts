@@ -1,5 +1,7 @@
 import "zod-openapi/extend";
 import { ErrorMessages } from "@/constants";
+import { COMMON_PASSWORDS } from "@/constants/common-passwords";
+import { Role } from "@prisma/client";
 import { z } from "zod";
 import { ZodObjectId } from "./shared.dto";
 
@@ -72,10 +74,16 @@ export const PasswordInputSchema = z
           "Password must include at least one special character (e.g., @, $, !, %, *, ?, &).",
       });
     }
+    if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: ErrorMessages.PASSWORD_TOO_COMMON,
+      });
+    }
   })
   .openapi({
     description:
-      "User password for registration. Must meet complexity requirements.",
+      "User password for registration. Must meet complexity requirements and must not be a commonly used password.",
     example: "Str0ngP@ss!",
     format: "password",
   });
@@ -129,6 +137,21 @@ export const UserOutputSchema = z
     name: UserNameSchema.optional().openapi({
       description: "User's display name (if provided).",
     }),
+    role: z.nativeEnum(Role).openapi({
+      description:
+        "Role of the user. Editors and admins can manage books and authors created by anyone.",
+      example: "user",
+    }),
+    emailVerifiedAt: z.date().nullable().openapi({
+      description:
+        "Timestamp of email verification, or null if the email has not been verified yet.",
+      type: "string",
+      format: "date-time",
+    }),
+    twoFactorEnabled: z.boolean().openapi({
+      description: "Whether TOTP two-factor authentication is enabled.",
+      example: false,
+    }),
     createdAt: z.date().openapi({
       description: "Timestamp of user creation.",
       type: "string",
@@ -153,12 +176,320 @@ export const AuthResponseDataSchema = z
       description: "JWT authentication token for subsequent requests.",
       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJ1c2VySWQiOiI2...",
     }),
+    refreshToken: z.string().openapi({
+      description:
+        "Opaque, single-use refresh token. Exchange it at /auth/refresh for a new token pair.",
+      example: "pP3q0vK2m8YwZ4...",
+    }),
   })
   .openapi({
     ref: "AuthResponseData",
     description: "Contains the authenticated user details and JWT token.",
   });
 
+export const MfaChallengeDataSchema = z
+  .object({
+    mfaRequired: z.literal(true).openapi({
+      description: "Always true. Finish the login at /auth/login/mfa.",
+    }),
+    mfaToken: z.string().openapi({
+      description:
+        "Short-lived challenge token proving the password step. It cannot be used as an access token.",
+      example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJ1c2VySWQiOiI2...",
+    }),
+  })
+  .openapi({
+    ref: "MfaChallengeData",
+    description:
+      "Returned by login instead of tokens when the account has two-factor authentication enabled.",
+  });
+
+export const RefreshTokenInputSchema = z
+  .object({
+    refreshToken: z
+      .string({
+        required_error: "Refresh token is required.",
+        invalid_type_error: "Refresh token must be a string.",
+      })
+      .min(1, "Refresh token cannot be empty.")
+      .openapi({
+        description: "Refresh token previously issued by the API.",
+        example: "pP3q0vK2m8YwZ4...",
+      }),
+  })
+  .openapi({
+    ref: "RefreshTokenInput",
+    description: "Refresh token to exchange for a new token pair.",
+  });
+
+export const LogoutInputSchema = z
+  .object({
+    refreshToken: z
+      .string({ invalid_type_error: "Refresh token must be a string." })
+      .min(1, "Refresh token cannot be empty.")
+      .optional()
+      .openapi({
+        description:
+          "Refresh token of the device to sign out. When omitted, the session of the access token used for the request is signed out.",
+        example: "pP3q0vK2m8YwZ4...",
+      }),
+  })
+  .openapi({
+    ref: "LogoutInput",
+    description: "Optional refresh token to revoke on logout.",
+  });
+
+export const ForgotPasswordInputSchema = z
+  .object({
+    email: EmailSchema,
+  })
+  .openapi({
+    ref: "ForgotPasswordInput",
+    description: "Email address of the account to recover.",
+  });
+
+export const ResetPasswordInputSchema = z
+  .object({
+    token: z
+      .string({
+        required_error: "Reset token is required.",
+        invalid_type_error: "Reset token must be a string.",
+      })
+      .min(1, "Reset token cannot be empty.")
+      .openapi({
+        description: "Password reset token from the emailed link.",
+        example: "q4Xk2l9Zb7...",
+      }),
+    password: PasswordInputSchema.openapi({
+      description: "The new password. Must meet complexity requirements.",
+    }),
+  })
+  .openapi({
+    ref: "ResetPasswordInput",
+    description: "Reset token and the new password to set.",
+  });
+
+export const MagicLinkInputSchema = z
+  .object({
+    email: EmailSchema,
+  })
+  .openapi({
+    ref: "MagicLinkInput",
+    description: "Email address of the account to sign in to.",
+  });
+
+export const ConsumeMagicLinkInputSchema = z
+  .object({
+    token: z
+      .string({
+        required_error: "Sign-in token is required.",
+        invalid_type_error: "Sign-in token must be a string.",
+      })
+      .min(1, "Sign-in token cannot be empty.")
+      .openapi({
+        description: "Sign-in token from the emailed link.",
+        example: "Hs7cK0pWq3...",
+      }),
+  })
+  .openapi({
+    ref: "ConsumeMagicLinkInput",
+    description: "Sign-in token from a magic link.",
+  });
+
+const VerificationTokenSchema = z
+  .string({
+    required_error: "Verification token is required.",
+    invalid_type_error: "Verification token must be a string.",
+  })
+  .min(1, "Verification token cannot be empty.")
+  .openapi({
+    description: "Email verification token from the emailed link.",
+    example: "Vd8rT1mQ0x...",
+  });
+
+export const VerifyEmailInputSchema = z
+  .object({
+    token: VerificationTokenSchema,
+  })
+  .openapi({
+    ref: "VerifyEmailInput",
+    description: "Email verification token.",
+  });
+
+export const UpdateProfileInputSchema = z
+  .object({
+    name: UserNameSchema,
+  })
+  .openapi({
+    ref: "UpdateProfileInput",
+    description: "Profile fields of the authenticated user to update.",
+  });
+
+const CurrentPasswordSchema = z
+  .string({
+    required_error: "Current password is required.",
+    invalid_type_error: "Current password must be a string.",
+  })
+  .min(1, "Current password cannot be empty.")
+  .max(
+    MAX_PASSWORD_LENGTH,
+    `Password cannot exceed ${MAX_PASSWORD_LENGTH} characters.`
+  )
+  .openapi({
+    description: "The user's current password.",
+    example: "Str0ngP@ss!",
+    format: "password",
+  });
+
+export const ChangePasswordInputSchema = z
+  .object({
+    currentPassword: CurrentPasswordSchema,
+    newPassword: PasswordInputSchema.openapi({
+      description: "The new password. Must meet complexity requirements.",
+      example: "N3wStr0ngP@ss!",
+    }),
+  })
+  .openapi({
+    ref: "ChangePasswordInput",
+    description: "Current password and the new password to set.",
+  });
+
+export const ChangeEmailInputSchema = z
+  .object({
+    email: EmailSchema.openapi({
+      description: "The new email address. A confirmation link is sent to it.",
+      example: "new.address@example.com",
+    }),
+    currentPassword: CurrentPasswordSchema,
+  })
+  .openapi({
+    ref: "ChangeEmailInput",
+    description: "New email address and the current password.",
+  });
+
+export const ConfirmEmailChangeInputSchema = z
+  .object({
+    token: z
+      .string({
+        required_error: "Confirmation token is required.",
+        invalid_type_error: "Confirmation token must be a string.",
+      })
+      .min(1, "Confirmation token cannot be empty.")
+      .openapi({
+        description: "Email change token from the emailed link.",
+        example: "Ce5tY8pLq2...",
+      }),
+  })
+  .openapi({
+    ref: "ConfirmEmailChangeInput",
+    description: "Email change confirmation token.",
+  });
+
+export const DeleteAccountInputSchema = z
+  .object({
+    currentPassword: CurrentPasswordSchema,
+  })
+  .openapi({
+    ref: "DeleteAccountInput",
+    description: "Current password, required to confirm account deletion.",
+  });
+
+const TotpCodeSchema = z
+  .string({
+    required_error: "Authentication code is required.",
+    invalid_type_error: "Authentication code must be a string.",
+  })
+  .trim()
+  .regex(/^\d{6}$/, "Authentication code must be 6 digits.")
+  .openapi({
+    description: "Current 6-digit code from the authenticator app.",
+    example: "492039",
+  });
+
+// Either a TOTP code or one of the recovery codes
+const SecondFactorCodeSchema = z
+  .string({
+    required_error: "Authentication code is required.",
+    invalid_type_error: "Authentication code must be a string.",
+  })
+  .trim()
+  .min(1, "Authentication code cannot be empty.")
+  .max(32, "Authentication code cannot exceed 32 characters.")
+  .openapi({
+    description:
+      "Current 6-digit code from the authenticator app, or an unused recovery code.",
+    example: "492039",
+  });
+
+export const ConfirmTwoFactorInputSchema = z
+  .object({
+    code: TotpCodeSchema,
+  })
+  .openapi({
+    ref: "ConfirmTwoFactorInput",
+    description: "Code from the authenticator app, proving enrollment worked.",
+  });
+
+export const DisableTwoFactorInputSchema = z
+  .object({
+    currentPassword: CurrentPasswordSchema,
+    code: SecondFactorCodeSchema,
+  })
+  .openapi({
+    ref: "DisableTwoFactorInput",
+    description: "Current password and a second-factor code.",
+  });
+
+export const MfaLoginInputSchema = z
+  .object({
+    mfaToken: z
+      .string({
+        required_error: "MFA token is required.",
+        invalid_type_error: "MFA token must be a string.",
+      })
+      .min(1, "MFA token cannot be empty.")
+      .openapi({
+        description: "Challenge token returned by /auth/login.",
+        example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJ1c2VySWQiOiI2...",
+      }),
+    code: SecondFactorCodeSchema,
+  })
+  .openapi({
+    ref: "MfaLoginInput",
+    description: "Login challenge token and a second-factor code.",
+  });
+
+export const TwoFactorSetupDataSchema = z
+  .object({
+    secret: z.string().openapi({
+      description: "Base32 TOTP secret, for manual entry.",
+      example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+    }),
+    otpauthUri: z.string().openapi({
+      description: "otpauth:// URI, usually rendered as a QR code.",
+      example:
+        "otpauth://totp/Beehive%3Atest.user%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Beehive&algorithm=SHA1&digits=6&period=30",
+    }),
+  })
+  .openapi({
+    ref: "TwoFactorSetupData",
+    description: "Secret to add to an authenticator app.",
+  });
+
+export const RecoveryCodesDataSchema = z
+  .object({
+    recoveryCodes: z.array(z.string()).openapi({
+      description:
+        "One-time recovery codes. They are only shown once; each can replace a TOTP code a single time.",
+      example: ["a1b2c-3d4e5", "f6a7b-8c9d0"],
+    }),
+  })
+  .openapi({
+    ref: "RecoveryCodesData",
+    description:
+      "Recovery codes issued when two-factor authentication is enabled.",
+  });
+
 export const RegisterUserRequestSchema = z.object({
   body: UserRegistrationInputSchema,
 });
@@ -167,7 +498,88 @@ export const LoginUserRequestSchema = z.object({
   body: LoginUserInputSchema,
 });
 
+export const RefreshTokenRequestSchema = z.object({
+  body: RefreshTokenInputSchema,
+});
+
+export const LogoutRequestSchema = z.object({
+  body: LogoutInputSchema.default({}),
+});
+
+export const ForgotPasswordRequestSchema = z.object({
+  body: ForgotPasswordInputSchema,
+});
+
+export const ResetPasswordRequestSchema = z.object({
+  body: ResetPasswordInputSchema,
+});
+
+export const MagicLinkRequestSchema = z.object({
+  body: MagicLinkInputSchema,
+});
+
+export const ConsumeMagicLinkRequestSchema = z.object({
+  body: ConsumeMagicLinkInputSchema,
+});
+
+export const VerifyEmailRequestSchema = z.object({
+  body: VerifyEmailInputSchema,
+});
+
+export const VerifyEmailQueryRequestSchema = z.object({
+  query: z.object({ token: VerificationTokenSchema }),
+});
+
+export const UpdateProfileRequestSchema = z.object({
+  body: UpdateProfileInputSchema,
+});
+
+export const ChangePasswordRequestSchema = z.object({
+  body: ChangePasswordInputSchema,
+});
+
+export const ChangeEmailRequestSchema = z.object({
+  body: ChangeEmailInputSchema,
+});
+
+export const ConfirmEmailChangeRequestSchema = z.object({
+  body: ConfirmEmailChangeInputSchema,
+});
+
+export const DeleteAccountRequestSchema = z.object({
+  body: DeleteAccountInputSchema,
+});
+
+export const ConfirmTwoFactorRequestSchema = z.object({
+  body: ConfirmTwoFactorInputSchema,
+});
+
+export const DisableTwoFactorRequestSchema = z.object({
+  body: DisableTwoFactorInputSchema,
+});
+
+export const MfaLoginRequestSchema = z.object({
+  body: MfaLoginInputSchema,
+});
+
 export type RegisterUserDto = z.infer<typeof UserRegistrationInputSchema>;
 export type LoginUserDto = z.infer<typeof LoginUserInputSchema>;
+export type RefreshTokenDto = z.infer<typeof RefreshTokenInputSchema>;
+export type LogoutDto = z.infer<typeof LogoutInputSchema>;
+export type ForgotPasswordDto = z.infer<typeof ForgotPasswordInputSchema>;
+export type ResetPasswordDto = z.infer<typeof ResetPasswordInputSchema>;
+export type MagicLinkDto = z.infer<typeof MagicLinkInputSchema>;
+export type ConsumeMagicLinkDto = z.infer<typeof ConsumeMagicLinkInputSchema>;
+export type VerifyEmailDto = z.infer<typeof VerifyEmailInputSchema>;
+export type UpdateProfileDto = z.infer<typeof UpdateProfileInputSchema>;
+export type ChangePasswordDto = z.infer<typeof ChangePasswordInputSchema>;
+export type ChangeEmailDto = z.infer<typeof ChangeEmailInputSchema>;
+export type ConfirmEmailChangeDto = z.infer<
+  typeof ConfirmEmailChangeInputSchema
+>;
+export type DeleteAccountDto = z.infer<typeof DeleteAccountInputSchema>;
+export type ConfirmTwoFactorDto = z.infer<typeof ConfirmTwoFactorInputSchema>;
+export type DisableTwoFactorDto = z.infer<typeof DisableTwoFactorInputSchema>;
+export type MfaLoginDto = z.infer<typeof MfaLoginInputSchema>;
 
 export type UserOutput = z.infer<typeof UserOutputSchema>;
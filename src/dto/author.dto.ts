@@ -1,7 +1,7 @@
 import "zod-openapi/extend";
 import { ErrorMessages } from "@/constants";
 import { z } from "zod";
-import { ZodObjectId } from "./shared.dto";
+import { PopularityOutputSchema, ZodObjectId } from "./shared.dto";
 
 const MIN_AUTHOR_NAME_LENGTH = 2;
 const MAX_AUTHOR_NAME_LENGTH = 100;
@@ -82,6 +82,10 @@ export const AuthorOutputSchema = z
       type: "string",
       format: "date-time",
     }),
+    favoriteCount: z.number().int().openapi({
+      description: "Number of users who have favorited the author.",
+      example: 42,
+    }),
     isFavorite: z.boolean().optional().openapi({
       description:
         "Indicates if the author is favorited by the currently authenticated user. Only present when the context provides this information.",
@@ -94,6 +98,13 @@ export const AuthorOutputSchema = z
       "Represents an author object as returned by the API. May include 'isFavorite' status.",
   });
 
+export const PopularAuthorOutputSchema = AuthorOutputSchema.extend({
+  popularity: PopularityOutputSchema,
+}).openapi({
+  ref: "PopularAuthorOutput",
+  description: "An author in the most favorited list.",
+});
+
 export const CreateAuthorRequestSchema = z.object({
   body: CreateAuthorInputSchema,
 });
@@ -105,3 +116,4 @@ export const UpdateAuthorRequestSchema = z.object({
 export type CreateAuthorDto = z.infer<typeof CreateAuthorInputSchema>;
 export type UpdateAuthorDto = z.infer<typeof UpdateAuthorInputSchema>;
 export type AuthorOutput = z.infer<typeof AuthorOutputSchema>;
+export type PopularAuthorOutput = z.infer<typeof PopularAuthorOutputSchema>;
@@ -1,7 +1,7 @@
 import "zod-openapi/extend";
 import { ErrorMessages } from "@/constants";
 import { z } from "zod";
-import { ZodObjectId } from "./shared.dto";
+import { PopularityOutputSchema, ZodObjectId } from "./shared.dto";
 
 const MIN_BOOK_TITLE_LENGTH = 2;
 const MAX_BOOK_TITLE_LENGTH = 200;
@@ -138,6 +138,19 @@ export const BookOutputSchema = z
     authors: z.array(BookAuthorSchema).openapi({
       description: "List of authors who wrote this book.",
     }),
+    favoriteCount: z.number().int().openapi({
+      description: "Number of users who have favorited the book.",
+      example: 42,
+    }),
+    averageRating: z.number().nullable().openapi({
+      description:
+        "Mean star rating of the book's reviews, or null if it has none.",
+      example: 4.25,
+    }),
+    ratingCount: z.number().int().openapi({
+      description: "Number of reviews of the book.",
+      example: 8,
+    }),
     isFavorite: z.boolean().optional().openapi({
       description:
         "Indicates if the book is favorited by the currently authenticated user. Only present when the context provides this information.",
@@ -150,6 +163,13 @@ export const BookOutputSchema = z
       "Represents a book object as returned by the API. May include 'isFavorite' status and author information.",
   });
 
+export const PopularBookOutputSchema = BookOutputSchema.extend({
+  popularity: PopularityOutputSchema,
+}).openapi({
+  ref: "PopularBookOutput",
+  description: "A book in the most favorited list.",
+});
+
 export const CreateBookRequestSchema = z.object({
   body: CreateBookInputSchema,
 });
@@ -161,4 +181,5 @@ export const UpdateBookRequestSchema = z.object({
 export type CreateBookDto = z.infer<typeof CreateBookInputSchema>;
 export type UpdateBookDto = z.infer<typeof UpdateBookInputSchema>;
 export type BookOutput = z.infer<typeof BookOutputSchema>;
+export type PopularBookOutput = z.infer<typeof PopularBookOutputSchema>;
 export type BookAuthorDto = z.infer<typeof BookAuthorSchema>;
@@ -0,0 +1,244 @@
+import "zod-openapi/extend";
+import { ErrorMessages } from "@/constants";
+import { CollectionVisibility } from "@prisma/client";
+import { z } from "zod";
+import { BookOutputSchema } from "./book.dto";
+import {
+  IdParamSchema,
+  PaginationQuerySchema,
+  ZodObjectId,
+} from "./shared.dto";
+
+const MAX_COLLECTION_NAME_LENGTH = 100;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 1000;
+const MAX_COLLECTION_ITEM_NOTE_LENGTH = 500;
+
+const CollectionNameSchema = z
+  .string({
+    required_error: "Collection name is required.",
+    invalid_type_error: "Collection name must be a string.",
+  })
+  .trim()
+  .min(1, "Collection name cannot be empty.")
+  .max(
+    MAX_COLLECTION_NAME_LENGTH,
+    `Collection name cannot exceed ${MAX_COLLECTION_NAME_LENGTH} characters.`
+  )
+  .openapi({
+    description: "The name of the collection.",
+    example: "Summer 2026",
+  });
+
+const CollectionDescriptionSchema = z
+  .string({ invalid_type_error: "Description must be a string." })
+  .trim()
+  .max(
+    MAX_COLLECTION_DESCRIPTION_LENGTH,
+    `Description cannot exceed ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters.`
+  )
+  .openapi({
+    description: "What the collection is about.",
+    example: "Beach reads for the long weekends.",
+  });
+
+const CollectionVisibilitySchema = z
+  .nativeEnum(CollectionVisibility, {
+    errorMap: () => ({
+      message: "Visibility must be one of PRIVATE, UNLISTED or PUBLIC.",
+    }),
+  })
+  .openapi({
+    description:
+      "PRIVATE collections are only visible to their owner. UNLISTED ones can be read by anyone with the id, and PUBLIC ones are also listed.",
+    example: "PUBLIC",
+  });
+
+const CollectionItemNoteSchema = z
+  .string({ invalid_type_error: "Note must be a string." })
+  .trim()
+  .max(
+    MAX_COLLECTION_ITEM_NOTE_LENGTH,
+    `Note cannot exceed ${MAX_COLLECTION_ITEM_NOTE_LENGTH} characters.`
+  )
+  .openapi({
+    description: "A note about the book within this collection.",
+    example: "Start with this one.",
+  });
+
+export const CreateCollectionInputSchema = z
+  .object({
+    name: CollectionNameSchema,
+    description: CollectionDescriptionSchema.optional(),
+    visibility: CollectionVisibilitySchema.default(
+      CollectionVisibility.PRIVATE
+    ),
+  })
+  .openapi({
+    ref: "CreateCollectionInput",
+    description: "Data required to create a collection. It starts empty.",
+  });
+
+export const UpdateCollectionInputSchema = z
+  .object({
+    name: CollectionNameSchema.optional(),
+    description: CollectionDescriptionSchema.nullable().optional().openapi({
+      description: "The new description, or null to remove it.",
+    }),
+    visibility: CollectionVisibilitySchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.description !== undefined ||
+      data.visibility !== undefined,
+    {
+      message: ErrorMessages.NO_UPDATE_DATA,
+      path: [],
+    }
+  )
+  .openapi({
+    ref: "UpdateCollectionInput",
+    description:
+      "Data for updating a collection. At least one field must be provided.",
+  });
+
+export const AddCollectionItemInputSchema = z
+  .object({
+    bookId: ZodObjectId.openapi({
+      description: "Id of the book to add.",
+    }),
+    note: CollectionItemNoteSchema.optional(),
+  })
+  .openapi({
+    ref: "AddCollectionItemInput",
+    description:
+      "A book to add to the end of the collection, with an optional note.",
+  });
+
+export const UpdateCollectionItemInputSchema = z
+  .object({
+    note: CollectionItemNoteSchema.nullable().optional().openapi({
+      description: "The new note, or null to remove it.",
+    }),
+    position: z
+      .number({ invalid_type_error: "Position must be a number." })
+      .int({ message: "Position must be an integer." })
+      .min(0, { message: "Position cannot be negative." })
+      .optional()
+      .openapi({
+        description:
+          "Zero-based index to move the book to. Values past the end move it to the end.",
+        example: 0,
+      }),
+  })
+  .refine((data) => data.note !== undefined || data.position !== undefined, {
+    message: ErrorMessages.NO_UPDATE_DATA,
+    path: [],
+  })
+  .openapi({
+    ref: "UpdateCollectionItemInput",
+    description:
+      "Changes to a book in a collection. At least one field (note or position) must be provided.",
+  });
+
+export const CollectionOutputSchema = z
+  .object({
+    id: ZodObjectId.openapi({
+      description: "Unique identifier of the collection.",
+    }),
+    name: CollectionNameSchema,
+    description: z.string().nullable().openapi({
+      description: "What the collection is about, or null.",
+      example: "Beach reads for the long weekends.",
+    }),
+    visibility: CollectionVisibilitySchema,
+    itemCount: z.number().int().openapi({
+      description: "Number of books in the collection.",
+      example: 5,
+    }),
+    createdAt: z.date().openapi({
+      description: "Timestamp of collection creation.",
+      type: "string",
+      format: "date-time",
+    }),
+    updatedAt: z.date().openapi({
+      description: "Timestamp of the last change to the collection's details.",
+      type: "string",
+      format: "date-time",
+    }),
+  })
+  .openapi({
+    ref: "CollectionOutput",
+    description: "A named, ordered list of books.",
+  });
+
+export const CollectionItemOutputSchema = z
+  .object({
+    book: BookOutputSchema,
+    note: z.string().nullable().openapi({
+      description: "The note about the book, or null.",
+      example: "Start with this one.",
+    }),
+    position: z.number().int().openapi({
+      description: "Place in the collection, lowest first.",
+      example: 0,
+    }),
+    addedAt: z.date().openapi({
+      description: "When the book was added to the collection.",
+      type: "string",
+      format: "date-time",
+    }),
+  })
+  .openapi({
+    ref: "CollectionItemOutput",
+    description: "A book in a collection.",
+  });
+
+const CollectionItemParamsSchema = z.object({
+  id: ZodObjectId.openapi({
+    description: "The unique identifier of the collection.",
+  }),
+  bookId: ZodObjectId.openapi({
+    description: "The unique identifier of the book.",
+  }),
+});
+
+export const CreateCollectionRequestSchema = z.object({
+  body: CreateCollectionInputSchema,
+});
+
+export const UpdateCollectionRequestSchema = IdParamSchema.extend({
+  body: UpdateCollectionInputSchema,
+});
+
+export const AddCollectionItemRequestSchema = IdParamSchema.extend({
+  body: AddCollectionItemInputSchema,
+});
+
+export const CollectionItemRequestSchema = z.object({
+  params: CollectionItemParamsSchema,
+  query: z.any().optional(),
+  body: z.any().optional(),
+});
+
+export const UpdateCollectionItemRequestSchema =
+  CollectionItemRequestSchema.extend({
+    body: UpdateCollectionItemInputSchema,
+  });
+
+// Items are always listed in the collection's order
+export const CollectionItemsQuerySchema = IdParamSchema.extend({
+  query: PaginationQuerySchema.shape.query.pick({ page: true, limit: true }),
+});
+
+export type CreateCollectionDto = z.infer<typeof CreateCollectionInputSchema>;
+export type UpdateCollectionDto = z.infer<typeof UpdateCollectionInputSchema>;
+export type AddCollectionItemDto = z.infer<typeof AddCollectionItemInputSchema>;
+export type UpdateCollectionItemDto = z.infer<
+  typeof UpdateCollectionItemInputSchema
+>;
+export type CollectionOutput = z.infer<typeof CollectionOutputSchema>;
+export type CollectionItemOutput = z.infer<typeof CollectionItemOutputSchema>;
+export type CollectionItemParamsDto = z.infer<
+  typeof CollectionItemParamsSchema
+>;
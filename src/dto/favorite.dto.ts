@@ -0,0 +1,260 @@
+import "zod-openapi/extend";
+import { ErrorMessages } from "@/constants";
+import { FavoriteTargetType } from "@prisma/client";
+import { z } from "zod";
+import {
+  IdParamSchema,
+  PaginationQuerySchema,
+  ZodObjectId,
+} from "./shared.dto";
+
+const MAX_FAVORITE_NOTE_LENGTH = 500;
+const MAX_BULK_FAVORITE_OPERATIONS = 100;
+
+const FavoriteNoteSchema = z
+  .string({ invalid_type_error: "Note must be a string." })
+  .trim()
+  .max(
+    MAX_FAVORITE_NOTE_LENGTH,
+    `Note cannot exceed ${MAX_FAVORITE_NOTE_LENGTH} characters.`
+  )
+  .openapi({
+    description: "A personal note about why the item was saved.",
+    example: "Recommended by Sam, read before the book club.",
+  });
+
+export const AddFavoriteInputSchema = z
+  .object({
+    note: FavoriteNoteSchema.optional(),
+  })
+  .openapi({
+    ref: "AddFavoriteInput",
+    description:
+      "Optional details for a new favorite. The request body may be omitted.",
+  });
+
+export const SetFavoriteInputSchema = z
+  .object({
+    isFavorite: z
+      .boolean({
+        required_error: "isFavorite is required.",
+        invalid_type_error: "isFavorite must be a boolean.",
+      })
+      .openapi({
+        description: "Whether the item should be a favorite afterwards.",
+        example: true,
+      }),
+    note: FavoriteNoteSchema.nullable().optional().openapi({
+      description:
+        "Note to store on the favorite, or null to remove it. Left unchanged when omitted.",
+    }),
+  })
+  .refine((data) => data.isFavorite || data.note === undefined, {
+    message: "A note can only be set when isFavorite is true.",
+    path: ["note"],
+  })
+  .openapi({
+    ref: "SetFavoriteInput",
+    description:
+      "The favorite state to put in place. Repeating the request changes nothing.",
+  });
+
+export const UpdateFavoriteInputSchema = z
+  .object({
+    note: FavoriteNoteSchema.nullable().optional().openapi({
+      description: "The new note, or null to remove it.",
+    }),
+    position: z
+      .number({ invalid_type_error: "Position must be a number." })
+      .int({ message: "Position must be an integer." })
+      .min(0, { message: "Position cannot be negative." })
+      .optional()
+      .openapi({
+        description:
+          "Zero-based index to move the favorite to in the manual order. Values past the end move it to the end.",
+        example: 0,
+      }),
+  })
+  .refine((data) => data.note !== undefined || data.position !== undefined, {
+    message: ErrorMessages.NO_UPDATE_DATA,
+    path: [],
+  })
+  .openapi({
+    ref: "UpdateFavoriteInput",
+    description:
+      "Changes to a favorite. At least one field (note or position) must be provided.",
+  });
+
+export const FavoriteDetailsSchema = z
+  .object({
+    note: z.string().nullable().openapi({
+      description: "The personal note, or null.",
+      example: "Recommended by Sam, read before the book club.",
+    }),
+    position: z.number().int().openapi({
+      description:
+        "Place in the manual order among favorites of the same type, lowest first.",
+      example: 0,
+    }),
+    addedAt: z.date().openapi({
+      description: "When the item was favorited.",
+      type: "string",
+      format: "date-time",
+    }),
+  })
+  .openapi({
+    ref: "FavoriteDetails",
+    description: "The current user's note, position and date for a favorite.",
+  });
+
+export const FavoriteOutputSchema = FavoriteDetailsSchema.extend({
+  targetType: z.nativeEnum(FavoriteTargetType).openapi({ example: "BOOK" }),
+  targetId: ZodObjectId.openapi({
+    description: "Id of the favorited book or author.",
+  }),
+}).openapi({
+  ref: "FavoriteOutput",
+  description: "A favorite of the current user.",
+});
+
+export const FavoriteStateSchema = z
+  .object({
+    targetType: z.nativeEnum(FavoriteTargetType).openapi({ example: "BOOK" }),
+    targetId: ZodObjectId.openapi({
+      description: "Id of the book or author.",
+    }),
+    isFavorite: z.boolean().openapi({ example: true }),
+    favorite: FavoriteDetailsSchema.nullable().openapi({
+      description: "The favorite's details, or null when it is not a favorite.",
+    }),
+  })
+  .openapi({
+    ref: "FavoriteState",
+    description: "Whether an item is a favorite of the current user.",
+  });
+
+const BulkFavoriteOperationSchema = z
+  .object({
+    action: z.enum(["add", "remove"]).openapi({ example: "add" }),
+    targetType: z.nativeEnum(FavoriteTargetType).openapi({ example: "BOOK" }),
+    targetId: ZodObjectId.openapi({
+      description: "Id of the book or author.",
+    }),
+  })
+  .openapi({
+    ref: "BulkFavoriteOperation",
+    description: "Adds or removes one favorite.",
+  });
+
+export const BulkFavoritesInputSchema = z
+  .object({
+    operations: z
+      .array(BulkFavoriteOperationSchema)
+      .min(1, "At least one operation is required.")
+      .max(
+        MAX_BULK_FAVORITE_OPERATIONS,
+        `No more than ${MAX_BULK_FAVORITE_OPERATIONS} operations are allowed.`
+      ),
+  })
+  .openapi({
+    ref: "BulkFavoritesInput",
+    description:
+      "Favorite operations applied in order and all together, or not at all.",
+  });
+
+export const BulkFavoriteResultSchema = BulkFavoriteOperationSchema.extend({
+  result: z.enum(["added", "removed", "unchanged"]).openapi({
+    description:
+      "What the operation did. Adding an existing favorite or removing a non-favorite is unchanged.",
+    example: "added",
+  }),
+}).openapi({
+  ref: "BulkFavoriteResult",
+  description: "The outcome of one bulk operation.",
+});
+
+// Sort options for the favorites listings. position is the manual order
+const FAVORITE_SORT_FIELDS = ["addedAt", "position"] as const;
+
+const favoriteSortBySchema = <T extends string>(titleField: T) =>
+  z
+    .string()
+    .trim()
+    .regex(
+      new RegExp(
+        `^(${[...FAVORITE_SORT_FIELDS, titleField].join("|")}):(asc|desc)$`
+      ),
+      {
+        message: `Sort must be one of ${[...FAVORITE_SORT_FIELDS, titleField].join(", ")} followed by :asc or :desc.`,
+      }
+    )
+    .default("addedAt:desc")
+    .openapi({
+      description: `Field to sort by and direction: addedAt, position (the manual order) or ${titleField}.`,
+      example: "position:asc",
+    });
+
+export const FavoriteBooksQuerySchema = PaginationQuerySchema.extend({
+  query: PaginationQuerySchema.shape.query.extend({
+    sortBy: favoriteSortBySchema("title"),
+  }),
+});
+
+export const FavoriteAuthorsQuerySchema = PaginationQuerySchema.extend({
+  query: PaginationQuerySchema.shape.query.extend({
+    sortBy: favoriteSortBySchema("name"),
+  }),
+});
+
+export const AddFavoriteRequestSchema = IdParamSchema.extend({
+  body: AddFavoriteInputSchema.optional(),
+});
+
+export const SetFavoriteRequestSchema = IdParamSchema.extend({
+  body: SetFavoriteInputSchema,
+});
+
+export const BulkFavoritesRequestSchema = z.object({
+  body: BulkFavoritesInputSchema,
+  query: z.any().optional(),
+  params: z.any().optional(),
+});
+
+export const UpdateFavoriteRequestSchema = IdParamSchema.extend({
+  body: UpdateFavoriteInputSchema,
+});
+
+export const FavoritesSummarySchema = z
+  .object({
+    bookCount: z.number().int().openapi({
+      description: "Number of books the user has marked as favorite.",
+      example: 12,
+    }),
+    authorCount: z.number().int().openapi({
+      description: "Number of authors the user has marked as favorite.",
+      example: 4,
+    }),
+    totalCount: z.number().int().openapi({
+      description: "Number of favorites of any kind.",
+      example: 16,
+    }),
+  })
+  .openapi({
+    ref: "FavoritesSummary",
+    description: "How many favorites the current user has, by kind.",
+  });
+
+export type FavoritesSummary = z.infer<typeof FavoritesSummarySchema>;
+
+export type AddFavoriteDto = z.infer<typeof AddFavoriteInputSchema>;
+export type UpdateFavoriteDto = z.infer<typeof UpdateFavoriteInputSchema>;
+export type FavoriteDetails = z.infer<typeof FavoriteDetailsSchema>;
+export type FavoriteOutput = z.infer<typeof FavoriteOutputSchema>;
+export type SetFavoriteDto = z.infer<typeof SetFavoriteInputSchema>;
+export type FavoriteState = z.infer<typeof FavoriteStateSchema>;
+export type BulkFavoritesDto = z.infer<typeof BulkFavoritesInputSchema>;
+export type BulkFavoriteResult = z.infer<typeof BulkFavoriteResultSchema>;
+export type FavoriteTarget = Omit<
+  z.infer<typeof BulkFavoriteOperationSchema>,
+  "action"
+>;
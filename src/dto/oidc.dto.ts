@@ -0,0 +1,36 @@
+import "zod-openapi/extend";
+import { z } from "zod";
+
+export const OidcProviderParamSchema = z.object({
+  provider: z.string().openapi({
+    description: "Name of a configured OpenID Connect provider.",
+    example: "acme",
+  }),
+});
+
+// Providers send either a code or an error back with the state
+export const OidcCallbackQuerySchema = z
+  .object({
+    state: z.string({ required_error: "State is required." }).min(1).openapi({
+      description: "State value returned by the provider.",
+    }),
+    code: z.string().optional().openapi({
+      description: "Authorization code returned by the provider.",
+    }),
+    error: z.string().optional().openapi({
+      description: "Error code returned by the provider instead of a code.",
+    }),
+    error_description: z.string().optional(),
+  })
+  .openapi({ ref: "OidcCallbackQuery" });
+
+export const OidcStartRequestSchema = z.object({
+  params: OidcProviderParamSchema,
+});
+
+export const OidcCallbackRequestSchema = z.object({
+  params: OidcProviderParamSchema,
+  query: OidcCallbackQuerySchema,
+});
+
+export type OidcCallbackQueryDto = z.infer<typeof OidcCallbackQuerySchema>;
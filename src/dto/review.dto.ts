@@ -0,0 +1,163 @@
+import "zod-openapi/extend";
+import { ErrorMessages } from "@/constants";
+import { z } from "zod";
+import {
+  IdParamSchema,
+  PaginationQuerySchema,
+  ZodObjectId,
+} from "./shared.dto";
+
+const MIN_REVIEW_RATING = 1;
+const MAX_REVIEW_RATING = 5;
+const MAX_REVIEW_TITLE_LENGTH = 200;
+const MAX_REVIEW_BODY_LENGTH = 5000;
+
+const ReviewRatingSchema = z
+  .number({
+    required_error: "Rating is required.",
+    invalid_type_error: "Rating must be a number.",
+  })
+  .int({ message: "Rating must be a whole number of stars." })
+  .min(MIN_REVIEW_RATING, `Rating must be at least ${MIN_REVIEW_RATING}.`)
+  .max(MAX_REVIEW_RATING, `Rating cannot exceed ${MAX_REVIEW_RATING}.`)
+  .openapi({
+    description: `Star rating from ${MIN_REVIEW_RATING} to ${MAX_REVIEW_RATING}.`,
+    example: 4,
+  });
+
+const ReviewTitleSchema = z
+  .string({ invalid_type_error: "Title must be a string." })
+  .trim()
+  .min(1, "Title cannot be empty.")
+  .max(
+    MAX_REVIEW_TITLE_LENGTH,
+    `Title cannot exceed ${MAX_REVIEW_TITLE_LENGTH} characters.`
+  )
+  .openapi({
+    description: "A short headline for the review.",
+    example: "A slow start, then unputdownable",
+  });
+
+const ReviewBodySchema = z
+  .string({ invalid_type_error: "Body must be a string." })
+  .trim()
+  .min(1, "Body cannot be empty.")
+  .max(
+    MAX_REVIEW_BODY_LENGTH,
+    `Body cannot exceed ${MAX_REVIEW_BODY_LENGTH} characters.`
+  )
+  .openapi({
+    description: "The written review.",
+    example: "The first hundred pages drag, but the ending makes up for it.",
+  });
+
+export const CreateReviewInputSchema = z
+  .object({
+    rating: ReviewRatingSchema,
+    title: ReviewTitleSchema.optional(),
+    body: ReviewBodySchema.optional(),
+  })
+  .openapi({
+    ref: "CreateReviewInput",
+    description:
+      "A star rating for the book, with an optional title and written review.",
+  });
+
+export const UpdateReviewInputSchema = z
+  .object({
+    rating: ReviewRatingSchema.optional(),
+    title: ReviewTitleSchema.nullable().optional().openapi({
+      description: "The new title, or null to remove it.",
+    }),
+    body: ReviewBodySchema.nullable().optional().openapi({
+      description: "The new written review, or null to remove it.",
+    }),
+  })
+  .refine(
+    (data) =>
+      data.rating !== undefined ||
+      data.title !== undefined ||
+      data.body !== undefined,
+    {
+      message: ErrorMessages.NO_UPDATE_DATA,
+      path: [],
+    }
+  )
+  .openapi({
+    ref: "UpdateReviewInput",
+    description:
+      "Changes to your review of the book. At least one field must be provided.",
+  });
+
+export const ReviewOutputSchema = z
+  .object({
+    id: ZodObjectId.openapi({
+      description: "Unique identifier of the review.",
+    }),
+    bookId: ZodObjectId.openapi({
+      description: "The reviewed book.",
+    }),
+    rating: ReviewRatingSchema,
+    title: z.string().nullable().openapi({
+      description: "The review's headline, or null.",
+      example: "A slow start, then unputdownable",
+    }),
+    body: z.string().nullable().openapi({
+      description: "The written review, or null for a rating only.",
+      example: "The first hundred pages drag, but the ending makes up for it.",
+    }),
+    reviewer: z
+      .object({
+        id: ZodObjectId,
+        name: z.string().nullable().openapi({ example: "Sam Reader" }),
+      })
+      .openapi({ description: "The user who wrote the review." }),
+    createdAt: z.date().openapi({
+      description: "Timestamp of review creation.",
+      type: "string",
+      format: "date-time",
+    }),
+    updatedAt: z.date().openapi({
+      description: "Timestamp of the last change to the review.",
+      type: "string",
+      format: "date-time",
+    }),
+  })
+  .openapi({
+    ref: "ReviewOutput",
+    description: "A user's rating of a book, with an optional written review.",
+  });
+
+// Sort options for a book's reviews
+const REVIEW_SORT_FIELDS = ["createdAt", "rating"] as const;
+
+export const ReviewsQuerySchema = IdParamSchema.extend({
+  query: PaginationQuerySchema.shape.query
+    .pick({ page: true, limit: true })
+    .extend({
+      sortBy: z
+        .string()
+        .trim()
+        .regex(new RegExp(`^(${REVIEW_SORT_FIELDS.join("|")}):(asc|desc)$`), {
+          message: `Sort must be one of ${REVIEW_SORT_FIELDS.join(", ")} followed by :asc or :desc.`,
+        })
+        .default("createdAt:desc")
+        .openapi({
+          description: "Field to sort by and direction: createdAt or rating.",
+          example: "rating:desc",
+        }),
+    }),
+});
+
+export const CreateReviewRequestSchema = IdParamSchema.extend({
+  body: CreateReviewInputSchema,
+});
+
+export const UpdateReviewRequestSchema = IdParamSchema.extend({
+  body: UpdateReviewInputSchema,
+});
+
+export type CreateReviewDto = z.infer<typeof CreateReviewInputSchema>;
+export type UpdateReviewDto = z.infer<typeof UpdateReviewInputSchema>;
+export type ReviewOutput = z.infer<typeof ReviewOutputSchema>;
+export type ReviewsQueryDto = z.infer<typeof ReviewsQuerySchema>["query"];
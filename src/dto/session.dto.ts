@@ -0,0 +1,39 @@
+import "zod-openapi/extend";
+import { z } from "zod";
+import { ZodObjectId } from "./shared.dto";
+
+export const SessionOutputSchema = z
+  .object({
+    id: ZodObjectId.openapi({
+      description: "Unique identifier of the session.",
+    }),
+    userAgent: z.string().nullable().openapi({
+      description: "User agent of the device that logged in.",
+      example: "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) ...",
+    }),
+    ip: z.string().nullable().openapi({
+      description: "IP address the login came from.",
+      example: "203.0.113.7",
+    }),
+    createdAt: z.date().openapi({
+      description: "When the session was started by a login.",
+      type: "string",
+      format: "date-time",
+    }),
+    lastSeenAt: z.date().openapi({
+      description:
+        "When the session was last used. Updated at most once per configured interval.",
+      type: "string",
+      format: "date-time",
+    }),
+    current: z.boolean().openapi({
+      description: "Whether this is the session making the request.",
+      example: true,
+    }),
+  })
+  .openapi({
+    ref: "SessionOutput",
+    description: "A device or browser the user is logged in on.",
+  });
+
+export type SessionOutput = z.infer<typeof SessionOutputSchema>;
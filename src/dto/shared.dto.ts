@@ -4,6 +4,7 @@ import {
   DEFAULT_PAGE_NUMBER,
   ErrorMessages,
   MAX_PAGE_LIMIT,
+  POPULARITY_WINDOW_DAYS,
 } from "@/constants";
 import { z } from "zod";
 
@@ -69,6 +70,70 @@ export const PaginationQuerySchema = z.object({
   body: z.any().optional(),
 });
 
+// Book and author listings cover the whole catalog unless mine=true
+const ActualCatalogQueryObjectSchema = ActualPaginationQueryObjectSchema.extend(
+  {
+    mine: z
+      .enum(["true", "false"], {
+        errorMap: () => ({ message: "Mine must be true or false." }),
+      })
+      .transform((value) => value === "true")
+      .optional()
+      .openapi({
+        description: "Only list records created by the current user.",
+        example: "true",
+      }),
+  }
+);
+
+export const CatalogQuerySchema = z.object({
+  query: ActualCatalogQueryObjectSchema,
+  params: z.any().optional(),
+  body: z.any().optional(),
+});
+
+const POPULARITY_WINDOWS = Object.keys(POPULARITY_WINDOW_DAYS) as [
+  keyof typeof POPULARITY_WINDOW_DAYS,
+  ...(keyof typeof POPULARITY_WINDOW_DAYS)[],
+];
+
+const ActualPopularQueryObjectSchema = ActualPaginationQueryObjectSchema.pick({
+  page: true,
+  limit: true,
+}).extend({
+  window: z
+    .enum(POPULARITY_WINDOWS, {
+      errorMap: () => ({
+        message: `Window must be one of ${POPULARITY_WINDOWS.join(", ")}.`,
+      }),
+    })
+    .default("all")
+    .openapi({
+      description:
+        "Count favorites added in the last 7 days, the last 30 days, or all of them.",
+      example: "7d",
+    }),
+});
+
+export const PopularQuerySchema = z.object({
+  query: ActualPopularQueryObjectSchema,
+  params: z.any().optional(),
+  body: z.any().optional(),
+});
+
+export const PopularityOutputSchema = z
+  .object({
+    window: z.enum(POPULARITY_WINDOWS).openapi({ example: "7d" }),
+    favoriteCount: z.number().int().openapi({
+      description:
+        "Favorites added within the window that are still in place. For the all window this is the item's favoriteCount.",
+      example: 12,
+    }),
+  })
+  .openapi({
+    description: "How popular an item is within the requested window.",
+  });
+
 export const PaginationMetaSchema = z
   .object({
     totalItems: z.number().int().openapi({
@@ -113,6 +178,11 @@ export const ErrorResponseSchema = z
         "'fail' for client errors (4xx), 'error' for server errors (5xx).",
     }),
     message: z.string().openapi({ example: "Resource not found." }),
+    code: z.string().optional().openapi({
+      description:
+        "Machine-readable error code, present for errors clients may need to handle specifically.",
+      example: "ACCOUNT_SUSPENDED",
+    }),
     reqId: z.string().uuid().optional().openapi({
       description: "Unique request identifier for tracing.",
       example: "0b69f2f8-5fa3-4215-bb47-c7391760b91c",
@@ -131,3 +201,6 @@ export type IdParamDto = z.infer<typeof ActualIdParamObjectSchema>;
 export type PaginationQueryDto = z.infer<
   typeof ActualPaginationQueryObjectSchema
 >;
+export type CatalogQueryDto = z.infer<typeof ActualCatalogQueryObjectSchema>;
+export type PopularQueryDto = z.infer<typeof ActualPopularQueryObjectSchema>;
+export type PopularityOutput = z.infer<typeof PopularityOutputSchema>;
@@ -4,12 +4,15 @@ export class ApiError extends Error {
   public readonly statusCode: StatusCodes;
   public readonly isOperational: boolean;
   public readonly errors?: Record<string, any>[] | string[];
+  // Stable, machine-readable identifier for errors clients need to branch on
+  public readonly code?: string;
 
   constructor(
     statusCode: StatusCodes,
     message: string,
     isOperational = true,
-    errors?: Record<string, any>[] | string[]
+    errors?: Record<string, any>[] | string[],
+    code?: string
   ) {
     super(message);
 
@@ -19,6 +22,7 @@ export class ApiError extends Error {
     this.statusCode = statusCode;
     this.isOperational = isOperational;
     this.errors = errors;
+    this.code = code;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, this.constructor);
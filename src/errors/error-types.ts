@@ -1,4 +1,4 @@
-import { ErrorMessages } from "@/constants";
+import { ErrorCodes, ErrorMessages } from "@/constants";
 import { StatusCodes } from "http-status-codes";
 import { ApiError } from "./api-error";
 
@@ -18,14 +18,17 @@ export class BadRequestError extends ApiError {
 }
 
 export class UnauthorizedError extends ApiError {
-  constructor(message: string = ErrorMessages.UNAUTHENTICATED) {
-    super(StatusCodes.UNAUTHORIZED, message);
+  constructor(message: string = ErrorMessages.UNAUTHENTICATED, code?: string) {
+    super(StatusCodes.UNAUTHORIZED, message, true, undefined, code);
   }
 }
 
 export class ForbiddenError extends ApiError {
-  constructor(message: string = ErrorMessages.UNAUTHORIZED_ACTION) {
-    super(StatusCodes.FORBIDDEN, message);
+  constructor(
+    message: string = ErrorMessages.UNAUTHORIZED_ACTION,
+    code?: string
+  ) {
+    super(StatusCodes.FORBIDDEN, message, true, undefined, code);
   }
 }
 
@@ -34,3 +37,19 @@ export class ConflictError extends ApiError {
     super(StatusCodes.CONFLICT, message);
   }
 }
+
+export class TooManyRequestsError extends ApiError {
+  constructor(
+    message: string = ErrorMessages.TOO_MANY_ATTEMPTS,
+    // Sent to the client as the Retry-After header
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(
+      StatusCodes.TOO_MANY_REQUESTS,
+      message,
+      true,
+      undefined,
+      ErrorCodes.TOO_MANY_ATTEMPTS
+    );
+  }
+}
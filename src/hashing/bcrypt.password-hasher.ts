@@ -0,0 +1,26 @@
+import bcrypt from "bcryptjs";
+import type { PasswordHasher } from "./password-hasher";
+
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$/;
+
+export class BcryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = "bcrypt";
+
+  constructor(private readonly saltRounds: number) {}
+
+  hash(password: string) {
+    return bcrypt.hash(password, this.saltRounds);
+  }
+
+  canVerify(encodedHash: string) {
+    return BCRYPT_HASH_PATTERN.test(encodedHash);
+  }
+
+  verify(password: string, encodedHash: string) {
+    return bcrypt.compare(password, encodedHash);
+  }
+
+  needsRehash(encodedHash: string) {
+    return bcrypt.getRounds(encodedHash) !== this.saltRounds;
+  }
+}
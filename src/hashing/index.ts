@@ -0,0 +1,29 @@
+import { config } from "@/config";
+import { BcryptPasswordHasher } from "./bcrypt.password-hasher";
+import type { PasswordHasher } from "./password-hasher";
+import { ScryptPasswordHasher } from "./scrypt.password-hasher";
+
+// Built per call so parameter changes in config apply immediately
+const createPasswordHashers = (): PasswordHasher[] => [
+  new BcryptPasswordHasher(config.bcryptSaltRounds),
+  new ScryptPasswordHasher(config.passwordHashing.scrypt),
+];
+
+// The hasher new passwords are hashed with
+export const getPasswordHasher = () => {
+  const hasher = createPasswordHashers().find(
+    (candidate) => candidate.algorithm === config.passwordHashing.algorithm
+  );
+  if (!hasher) {
+    throw new Error(
+      `Unsupported PASSWORD_HASH_ALGORITHM "${config.passwordHashing.algorithm}". Use "bcrypt" or "scrypt".`
+    );
+  }
+  return hasher;
+};
+
+// The hasher that produced an existing hash, whatever is configured now
+export const findPasswordHasherFor = (encodedHash: string) =>
+  createPasswordHashers().find((hasher) => hasher.canVerify(encodedHash));
+
+export type { PasswordHasher } from "./password-hasher";
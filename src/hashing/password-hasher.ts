@@ -0,0 +1,13 @@
+export interface PasswordHasher {
+  readonly algorithm: string;
+
+  hash(password: string): Promise<string>;
+
+  // Whether the encoded hash was produced by this hasher
+  canVerify(encodedHash: string): boolean;
+
+  verify(password: string, encodedHash: string): Promise<boolean>;
+
+  // True when the hash was made with parameters other than the configured ones
+  needsRehash(encodedHash: string): boolean;
+}
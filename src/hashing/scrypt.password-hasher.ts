@@ -0,0 +1,96 @@
+import {
+  type ScryptOptions,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "node:crypto";
+import type { PasswordHasher } from "./password-hasher";
+
+export interface ScryptParameters {
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+}
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const PREFIX = "$scrypt$";
+
+// $scrypt$n=<cost>,r=<blockSize>,p=<parallelization>$<salt>$<key>, both base64url
+const SCRYPT_HASH_PATTERN =
+  /^\$scrypt\$n=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9_-]+)\$([A-Za-z0-9_-]+)$/;
+
+const deriveKey = (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  params: ScryptParameters
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const options: ScryptOptions = {
+      N: params.cost,
+      r: params.blockSize,
+      p: params.parallelization,
+      // Node rejects parameters needing more than 32 MiB unless told otherwise
+      maxmem: 256 * params.cost * params.blockSize * params.parallelization,
+    };
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+
+const parseHash = (encodedHash: string) => {
+  const match = SCRYPT_HASH_PATTERN.exec(encodedHash);
+  if (!match) return null;
+  const [, cost, blockSize, parallelization, salt, key] = match;
+  return {
+    params: {
+      cost: Number(cost),
+      blockSize: Number(blockSize),
+      parallelization: Number(parallelization),
+    },
+    salt: Buffer.from(salt!, "base64url"),
+    key: Buffer.from(key!, "base64url"),
+  };
+};
+
+export class ScryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = "scrypt";
+
+  constructor(private readonly params: ScryptParameters) {}
+
+  async hash(password: string) {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(password, salt, KEY_LENGTH, this.params);
+    const { cost, blockSize, parallelization } = this.params;
+    return `${PREFIX}n=${cost},r=${blockSize},p=${parallelization}$${salt.toString("base64url")}$${key.toString("base64url")}`;
+  }
+
+  canVerify(encodedHash: string) {
+    return encodedHash.startsWith(PREFIX);
+  }
+
+  async verify(password: string, encodedHash: string) {
+    const parsed = parseHash(encodedHash);
+    if (!parsed) return false;
+
+    const key = await deriveKey(
+      password,
+      parsed.salt,
+      parsed.key.length,
+      parsed.params
+    );
+    return timingSafeEqual(key, parsed.key);
+  }
+
+  needsRehash(encodedHash: string) {
+    const parsed = parseHash(encodedHash);
+    if (!parsed) return true;
+    return (
+      parsed.params.cost !== this.params.cost ||
+      parsed.params.blockSize !== this.params.blockSize ||
+      parsed.params.parallelization !== this.params.parallelization ||
+      parsed.key.length !== KEY_LENGTH
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { config } from "@/config";
+import type { Mailer } from "./mailer";
+import { OutboxMailer } from "./outbox.mailer";
+import { SmtpMailer } from "./smtp.mailer";
+
+const createMailer = (): Mailer => {
+  if (config.mail.transport === "smtp") {
+    return new SmtpMailer({ ...config.mail.smtp, from: config.mail.from });
+  }
+  return new OutboxMailer(config.mail.from, config.mail.outboxDir);
+};
+
+export const mailer = createMailer();
+
+export type { MailMessage, Mailer } from "./mailer";
@@ -0,0 +1,12 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Every transport (SMTP, local outbox, ...) implements this contract so
+// services never depend on how mail is actually delivered
+export interface Mailer {
+  sendMail(message: MailMessage): Promise<void>;
+}
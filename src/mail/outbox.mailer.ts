@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import appLogger from "@/utils/logger";
+import type { MailMessage, Mailer } from "./mailer";
+
+export interface OutboxMessage extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: Date;
+}
+
+// Keeps sent mail in memory (and optionally as JSON files on disk) instead of
+// delivering it, so local development and tests can read the links it contains
+export class OutboxMailer implements Mailer {
+  private readonly messages: OutboxMessage[] = [];
+
+  constructor(
+    private readonly from: string,
+    private readonly outboxDir?: string
+  ) {}
+
+  async sendMail(message: MailMessage) {
+    const outboxMessage: OutboxMessage = {
+      ...message,
+      id: randomUUID(),
+      from: this.from,
+      sentAt: new Date(),
+    };
+    this.messages.push(outboxMessage);
+
+    if (this.outboxDir) {
+      await mkdir(this.outboxDir, { recursive: true });
+      await writeFile(
+        path.join(
+          this.outboxDir,
+          `${outboxMessage.sentAt.getTime()}-${outboxMessage.id}.json`
+        ),
+        JSON.stringify(outboxMessage, null, 2),
+        "utf-8"
+      );
+    }
+
+    appLogger.debug(`Mail stored in outbox: "${message.subject}"`, {
+      to: message.to,
+    });
+  }
+
+  getMessages(to?: string) {
+    if (!to) return [...this.messages];
+    const recipient = to.toLowerCase();
+    return this.messages.filter((m) => m.to.toLowerCase() === recipient);
+  }
+
+  getLatestMessage(to: string) {
+    return this.getMessages(to).at(-1);
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
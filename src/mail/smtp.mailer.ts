@@ -0,0 +1,40 @@
+import appLogger from "@/utils/logger";
+import nodemailer, { type Transporter } from "nodemailer";
+import type { MailMessage, Mailer } from "./mailer";
+
+export interface SmtpMailerOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpMailer implements Mailer {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(options: SmtpMailerOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && {
+        auth: { user: options.user, pass: options.pass },
+      }),
+    });
+  }
+
+  async sendMail(message: MailMessage) {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+    appLogger.debug(`Mail sent via SMTP: "${message.subject}"`);
+  }
+}
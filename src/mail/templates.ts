@@ -0,0 +1,121 @@
+import type { MailMessage } from "./mailer";
+
+export const passwordResetMail = (
+  to: string,
+  resetLink: string,
+  expiresInMinutes: number
+): MailMessage => ({
+  to,
+  subject: "Reset your password",
+  text: [
+    "We received a request to reset the password for your account.",
+    `Use the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.`,
+    "",
+    resetLink,
+    "",
+    "If you did not request a password reset, you can safely ignore this email.",
+  ].join("\n"),
+  html: `<p>We received a request to reset the password for your account.</p>
+<p>Use the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.</p>
+<p><a href="${resetLink}">Reset your password</a></p>
+<p>If you did not request a password reset, you can safely ignore this email.</p>`,
+});
+
+export const magicLinkMail = (
+  to: string,
+  signInLink: string,
+  expiresInMinutes: number
+): MailMessage => ({
+  to,
+  subject: "Your sign-in link",
+  text: [
+    "We received a request to sign in to your account without a password.",
+    `Use the link below to sign in. It expires in ${expiresInMinutes} minutes and can only be used once.`,
+    "",
+    signInLink,
+    "",
+    "If you did not request this link, you can safely ignore this email.",
+  ].join("\n"),
+  html: `<p>We received a request to sign in to your account without a password.</p>
+<p>Use the link below to sign in. It expires in ${expiresInMinutes} minutes and can only be used once.</p>
+<p><a href="${signInLink}">Sign in</a></p>
+<p>If you did not request this link, you can safely ignore this email.</p>`,
+});
+
+export const emailVerificationMail = (
+  to: string,
+  verificationLink: string,
+  expiresInHours: number
+): MailMessage => ({
+  to,
+  subject: "Verify your email address",
+  text: [
+    "Please confirm that this email address belongs to you.",
+    `Use the link below to verify it. The link expires in ${expiresInHours} hours.`,
+    "",
+    verificationLink,
+    "",
+    "If you did not create an account, you can safely ignore this email.",
+  ].join("\n"),
+  html: `<p>Please confirm that this email address belongs to you.</p>
+<p>Use the link below to verify it. The link expires in ${expiresInHours} hours.</p>
+<p><a href="${verificationLink}">Verify your email address</a></p>
+<p>If you did not create an account, you can safely ignore this email.</p>`,
+});
+
+export const emailChangeConfirmationMail = (
+  to: string,
+  confirmationLink: string,
+  expiresInHours: number
+): MailMessage => ({
+  to,
+  subject: "Confirm your new email address",
+  text: [
+    "We received a request to change the email address of your account to this address.",
+    `Use the link below to confirm the change. The link expires in ${expiresInHours} hours.`,
+    "",
+    confirmationLink,
+    "",
+    "If you did not request this change, you can safely ignore this email.",
+  ].join("\n"),
+  html: `<p>We received a request to change the email address of your account to this address.</p>
+<p>Use the link below to confirm the change. The link expires in ${expiresInHours} hours.</p>
+<p><a href="${confirmationLink}">Confirm your new email address</a></p>
+<p>If you did not request this change, you can safely ignore this email.</p>`,
+});
+
+export const emailChangedNoticeMail = (
+  to: string,
+  newEmail: string
+): MailMessage => ({
+  to,
+  subject: "Your email address was changed",
+  text: [
+    `The email address of your account was changed to ${newEmail}.`,
+    "",
+    "If you did not make this change, please reset your password and contact support immediately.",
+  ].join("\n"),
+  html: `<p>The email address of your account was changed to ${newEmail}.</p>
+<p>If you did not make this change, please reset your password and contact support immediately.</p>`,
+});
+
+export const accountLockedMail = (
+  to: string,
+  unlockAt: Date,
+  resetPasswordLink: string
+): MailMessage => ({
+  to,
+  subject: "Your account was temporarily locked",
+  text: [
+    "We locked sign-in to your account after several failed login attempts.",
+    `It unlocks automatically at ${unlockAt.toUTCString()}.`,
+    "",
+    "If these attempts were not you, reset your password now. Resetting it also unlocks your account right away:",
+    "",
+    resetPasswordLink,
+  ].join("\n"),
+  html: `<p>We locked sign-in to your account after several failed login attempts.</p>
+<p>It unlocks automatically at ${unlockAt.toUTCString()}.</p>
+<p>If these attempts were not you, reset your password now. Resetting it also unlocks your account right away.</p>
+<p><a href="${resetPasswordLink}">Reset your password</a></p>`,
+});
@@ -3,6 +3,7 @@ import { config } from "@/config";
 import { prisma } from "@/db/client";
 import { errorHandler } from "@/middlewares/error.middleware";
 import mainRouter from "@/routes";
+import { getJwtKeyRing, getPublicJwks } from "@/utils/jwt-keys";
 import appLogger from "@/utils/logger";
 import { apiReference } from "@scalar/express-api-reference";
 import cors from "cors";
@@ -15,6 +16,8 @@ import swaggerOutput from "./swagger_output.json";
 
 const app = express();
 
+app.set("trust proxy", config.trustProxyHops);
+
 const connectSources = ["'self'", "https://cdn.jsdelivr.net"];
 
 if (
@@ -178,6 +181,12 @@ app.get("/health", (req: Request, res: Response) => {
   });
 });
 
+// Public signing keys so other services can verify our access tokens
+app.get("/.well-known/jwks.json", (req: Request, res: Response) => {
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.status(StatusCodes.OK).json(getPublicJwks());
+});
+
 app.use(mainRouter);
 
 app.all("/{*splat}", (req: Request, res: Response) => {
@@ -217,6 +226,9 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 
 export const startServer = async () => {
   try {
+    // Fail fast on a misconfigured key set instead of at the first login
+    getJwtKeyRing();
+
     appLogger.info("Attempting to connect to the database...");
     await prisma.$connect();
     appLogger.info("Database connection established successfully.");
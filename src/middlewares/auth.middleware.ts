@@ -1,15 +1,113 @@
-import { ErrorMessages } from "@/constants";
+import { config } from "@/config";
+import { ErrorCodes, ErrorMessages } from "@/constants";
+import AuditLogDao from "@/dao/audit-log.dao";
 import UserDao from "@/dao/user.dao";
-import { UnauthorizedError } from "@/errors/error-types";
+import { ForbiddenError, UnauthorizedError } from "@/errors/error-types";
+import { Permission, hasPermission } from "@/policies/access.policy";
+import {
+  type Scope,
+  getRoleScopes,
+  hasScopes,
+  parseScopeClaim,
+} from "@/policies/scope.policy";
+import ApiKeyService from "@/services/api-key.service";
+import SessionService from "@/services/session.service";
 import { verifyToken } from "@/utils/jwt";
+import appLogger from "@/utils/logger";
+import { ApiKeyScope, AuditAction, type User } from "@prisma/client";
 import type { NextFunction, Request, Response } from "express";
 
+const API_KEY_SCHEME = "ApiKey ";
+const READ_ONLY_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+const assertAccountActive = (user: User) => {
+  if (user.suspendedAt) {
+    throw new ForbiddenError(
+      ErrorMessages.ACCOUNT_SUSPENDED,
+      ErrorCodes.ACCOUNT_SUSPENDED
+    );
+  }
+};
+
+// The administrator must still be allowed to manage users when the token is used
+const getImpersonator = async (actorId: string) => {
+  const impersonator = await UserDao.findUserById(actorId);
+  if (
+    !impersonator ||
+    impersonator.suspendedAt ||
+    !hasPermission(impersonator.role, Permission.USERS_MANAGE)
+  ) {
+    throw new UnauthorizedError(ErrorMessages.IMPERSONATION_REVOKED);
+  }
+  return impersonator;
+};
+
+// Recorded once the response is sent, so the entry includes the outcome
+const auditImpersonatedWrite = (
+  req: Request,
+  res: Response,
+  impersonator: User,
+  user: User
+) => {
+  res.on("finish", () => {
+    AuditLogDao.createAuditLog({
+      action: AuditAction.IMPERSONATED_WRITE,
+      actorId: impersonator.id,
+      targetUserId: user.id,
+      details: {
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+      },
+    }).catch((error) => {
+      appLogger.error("Failed to audit impersonated write", error, {
+        actorId: impersonator.id,
+        targetUserId: user.id,
+      });
+    });
+  });
+};
+
+// Accepts "X-API-Key: <key>" or "Authorization: ApiKey <key>"
+const getApiKeyFromRequest = (req: Request) => {
+  const headerKey = req.headers["x-api-key"];
+  if (typeof headerKey === "string" && headerKey) {
+    return headerKey.trim();
+  }
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith(API_KEY_SCHEME)) {
+    return authHeader.slice(API_KEY_SCHEME.length).trim();
+  }
+  return undefined;
+};
+
 export const protect = async (
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKey = getApiKeyFromRequest(req);
+    if (apiKey) {
+      const {
+        apiKey: storedKey,
+        user,
+        scopes,
+      } = await ApiKeyService.authenticate(apiKey);
+      assertAccountActive(user);
+      if (
+        storedKey.scope === ApiKeyScope.read_only &&
+        !READ_ONLY_METHODS.has(req.method)
+      ) {
+        throw new ForbiddenError(ErrorMessages.API_KEY_READ_ONLY);
+      }
+
+      req.user = user;
+      req.apiKey = storedKey;
+      req.scopes = scopes;
+      return next();
+    }
+
     let token: string | undefined;
     const authHeader = req.headers.authorization;
 
@@ -33,10 +131,106 @@ export const protect = async (
       throw new UnauthorizedError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
     }
 
+    assertAccountActive(currentUser);
+
+    if (decodedPayload.tokenVersion !== currentUser.tokenVersion) {
+      throw new UnauthorizedError(ErrorMessages.TOKEN_REVOKED);
+    }
+
+    if (decodedPayload.sid) {
+      await SessionService.assertSessionActive(
+        decodedPayload.sid,
+        currentUser.id
+      );
+    }
+
+    if (decodedPayload.act) {
+      const impersonator = await getImpersonator(decodedPayload.act.sub);
+      if (!READ_ONLY_METHODS.has(req.method)) {
+        if (config.impersonation.blockWrites) {
+          throw new ForbiddenError(ErrorMessages.IMPERSONATION_WRITES_BLOCKED);
+        }
+        auditImpersonatedWrite(req, res, impersonator, currentUser);
+      }
+      req.impersonator = impersonator;
+    }
+
     req.user = currentUser;
+    req.sessionId = decodedPayload.sid;
+    req.scopes =
+      decodedPayload.scope === undefined
+        ? getRoleScopes(currentUser.role)
+        : parseScopeClaim(decodedPayload.scope);
 
     next();
   } catch (error) {
     next(error);
   }
 };
+
+// Must run after `protect`. For actions that need the account owner's own
+// login: machine keys and administrators impersonating the user are refused
+export const disallowApiKey = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (req.apiKey) {
+    return next(new ForbiddenError(ErrorMessages.API_KEY_NOT_ALLOWED));
+  }
+  if (req.impersonator) {
+    return next(new ForbiddenError(ErrorMessages.IMPERSONATION_NOT_ALLOWED));
+  }
+  next();
+};
+
+// Must run after `protect`. Only enforced when the verified-email switch is on.
+export const requireVerifiedEmail = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (
+    config.emailVerification.requiredForWrites &&
+    !req.user?.emailVerifiedAt
+  ) {
+    return next(new ForbiddenError(ErrorMessages.EMAIL_NOT_VERIFIED));
+  }
+  next();
+};
+
+// Must run after `protect`. The role is read from the freshly loaded user, so
+// role changes take effect without waiting for tokens to expire.
+export const authorize =
+  (...permissions: Permission[]) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError(ErrorMessages.UNAUTHENTICATED));
+    }
+    const isAllowed = permissions.every((permission) =>
+      hasPermission(req.user!.role, permission)
+    );
+    if (!isAllowed) {
+      return next(new ForbiddenError(ErrorMessages.INSUFFICIENT_PERMISSIONS));
+    }
+    next();
+  };
+
+// Must run after `protect`. Checks the scopes of the credential, not the
+// user's role; combine with `authorize` where the role matters too.
+export const requireScope =
+  (...scopes: Scope[]) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError(ErrorMessages.UNAUTHENTICATED));
+    }
+    if (!hasScopes(req.scopes ?? [], scopes)) {
+      return next(
+        new ForbiddenError(
+          ErrorMessages.INSUFFICIENT_SCOPE,
+          ErrorCodes.INSUFFICIENT_SCOPE
+        )
+      );
+    }
+    next();
+  };
@@ -6,6 +6,7 @@ import { ZodError } from "zod";
 import { config } from "@/config";
 import { ErrorMessages } from "@/constants";
 import { ApiError } from "@/errors/api-error";
+import { TooManyRequestsError } from "@/errors/error-types";
 import appLogger from "@/utils/logger";
 
 export type StatusType = "fail" | "error";
@@ -45,11 +46,13 @@ export const errorHandler = (
   let statusCode = StatusCodes.INTERNAL_SERVER_ERROR;
   let responseMessage: string = ReasonPhrases.INTERNAL_SERVER_ERROR;
   let detailedErrors: unknown[] | undefined;
+  let errorCode: string | undefined;
 
   if (err instanceof ApiError) {
     statusCode = err.statusCode;
     responseMessage = err.message;
     detailedErrors = err.errors;
+    errorCode = err.code;
     appLogger.debug(
       `[ErrorHandler] ApiError instance. Set statusCode: ${statusCode}, message: "${responseMessage}". ReqId: ${requestId}`
     );
@@ -97,6 +100,15 @@ export const errorHandler = (
         );
         break;
       }
+      // A transaction still lost to a concurrent one after its retries
+      case "P2034": {
+        statusCode = StatusCodes.CONFLICT;
+        responseMessage = ErrorMessages.WRITE_CONFLICT;
+        appLogger.debug(
+          `[ErrorHandler] P2034 branch hit. Set responseMessage to: "${responseMessage}". ReqId: ${requestId}`
+        );
+        break;
+      }
       case "P2025": {
         statusCode = StatusCodes.NOT_FOUND;
         responseMessage =
@@ -163,6 +175,10 @@ export const errorHandler = (
     reqId: requestId,
   };
 
+  if (errorCode) {
+    responsePayload.code = errorCode;
+  }
+
   if (detailedErrors?.length) {
     responsePayload.errors = detailedErrors;
   }
@@ -172,6 +188,9 @@ export const errorHandler = (
   );
 
   if (!res.headersSent) {
+    if (err instanceof TooManyRequestsError && err.retryAfterSeconds) {
+      res.setHeader("Retry-After", String(err.retryAfterSeconds));
+    }
     res.status(statusCode).json(responsePayload);
   } else {
     appLogger.fatal(
@@ -0,0 +1,50 @@
+import { ErrorMessages } from "@/constants";
+import { ForbiddenError } from "@/errors/error-types";
+import type { Role, User } from "@prisma/client";
+
+// Reads are intentionally open: every signed-in user can read, favorite,
+// review and collect any book or author, so there is no read permission and
+// those services only take the user's id. Creating and changing records is
+// what the policy controls
+export const Permission = {
+  // Create books and authors
+  CATALOG_CREATE: "catalog:create",
+  // Update or delete books and authors created by anyone
+  CATALOG_MANAGE_ANY: "catalog:manage_any",
+  // Manage user accounts
+  USERS_MANAGE: "users:manage",
+} as const;
+
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+const rolePermissions: Record<Role, readonly Permission[]> = {
+  user: [Permission.CATALOG_CREATE],
+  editor: [Permission.CATALOG_CREATE, Permission.CATALOG_MANAGE_ANY],
+  admin: [
+    Permission.CATALOG_CREATE,
+    Permission.CATALOG_MANAGE_ANY,
+    Permission.USERS_MANAGE,
+  ],
+};
+
+// The subset of a user the policies need; controllers can pass `req.user` as-is
+export type Actor = Pick<User, "id" | "role">;
+
+// Anything that records who created it (books, authors). Authors left behind
+// by a deleted account have no creator and only editors can manage them
+export interface OwnedRecord {
+  createdById: string | null;
+}
+
+export const hasPermission = (role: Role, permission: Permission) =>
+  rolePermissions[role].includes(permission);
+
+export const canManageRecord = (actor: Actor, record: OwnedRecord) =>
+  record.createdById === actor.id ||
+  hasPermission(actor.role, Permission.CATALOG_MANAGE_ANY);
+
+export const assertCanManageRecord = (actor: Actor, record: OwnedRecord) => {
+  if (!canManageRecord(actor, record)) {
+    throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
+  }
+};
@@ -0,0 +1,64 @@
+import type { Role } from "@prisma/client";
+
+// OAuth-style scopes carried by access tokens and API keys. They only narrow
+// what a credential may do; the role permissions still apply on top.
+export const Scope = {
+  // Read books, authors, reviews, favorites and your own collections
+  BOOKS_READ: "books:read",
+  // Create, update and delete books
+  BOOKS_WRITE: "books:write",
+  // Create, update and delete authors
+  AUTHORS_WRITE: "authors:write",
+  // Add and remove favorites
+  FAVORITES_WRITE: "favorites:write",
+  // Create, update and delete collections and their items
+  COLLECTIONS_WRITE: "collections:write",
+  // Write, update and delete your own book reviews
+  REVIEWS_WRITE: "reviews:write",
+  // Use the /admin endpoints
+  ADMIN: "admin",
+} as const;
+
+export type Scope = (typeof Scope)[keyof typeof Scope];
+
+export const ALL_SCOPES = Object.values(Scope);
+
+const roleScopes: Record<Role, readonly Scope[]> = {
+  user: [
+    Scope.BOOKS_READ,
+    Scope.BOOKS_WRITE,
+    Scope.AUTHORS_WRITE,
+    Scope.FAVORITES_WRITE,
+    Scope.COLLECTIONS_WRITE,
+    Scope.REVIEWS_WRITE,
+  ],
+  editor: [
+    Scope.BOOKS_READ,
+    Scope.BOOKS_WRITE,
+    Scope.AUTHORS_WRITE,
+    Scope.FAVORITES_WRITE,
+    Scope.COLLECTIONS_WRITE,
+    Scope.REVIEWS_WRITE,
+  ],
+  admin: ALL_SCOPES,
+};
+
+const isScope = (value: string): value is Scope =>
+  (ALL_SCOPES as string[]).includes(value);
+
+// Every scope a credential of this role may be granted
+export const getRoleScopes = (role: Role): Scope[] => [...roleScopes[role]];
+
+// Unknown values, e.g. scopes that were since removed, are dropped
+export const parseScopes = (values: readonly string[]) =>
+  values.filter(isScope);
+
+// The "scope" claim is a space-delimited list (RFC 8693)
+export const parseScopeClaim = (claim: string) => parseScopes(claim.split(" "));
+
+export const formatScopeClaim = (scopes: readonly Scope[]) => scopes.join(" ");
+
+export const hasScopes = (
+  granted: readonly string[],
+  required: readonly Scope[]
+) => required.every((scope) => granted.includes(scope));
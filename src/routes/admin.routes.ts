@@ -0,0 +1,68 @@
+import AdminController from "@/controllers/admin.controller";
+import {
+  ChangeUserRoleRequestSchema,
+  SuspendUserRequestSchema,
+} from "@/dto/admin.dto";
+import { IdParamSchema, PaginationQuerySchema } from "@/dto/shared.dto";
+import {
+  authorize,
+  disallowApiKey,
+  protect,
+  requireScope,
+} from "@/middlewares/auth.middleware";
+import { validate } from "@/middlewares/validation.middleware";
+import { Permission } from "@/policies/access.policy";
+import { Scope } from "@/policies/scope.policy";
+import { withPagination } from "@/utils/request";
+import { Router } from "express";
+
+const router = Router();
+
+router.use(
+  protect,
+  requireScope(Scope.ADMIN),
+  authorize(Permission.USERS_MANAGE)
+);
+
+router.get(
+  "/users",
+  validate(PaginationQuerySchema),
+  withPagination(AdminController.listUsers)
+);
+
+router.get("/users/:id", validate(IdParamSchema), AdminController.getUser);
+
+router.post(
+  "/users/:id/suspend",
+  validate(IdParamSchema),
+  validate(SuspendUserRequestSchema),
+  AdminController.suspendUser
+);
+
+router.post(
+  "/users/:id/unsuspend",
+  validate(IdParamSchema),
+  AdminController.unsuspendUser
+);
+
+router.patch(
+  "/users/:id/role",
+  validate(IdParamSchema),
+  validate(ChangeUserRoleRequestSchema),
+  AdminController.changeUserRole
+);
+
+router.post(
+  "/users/:id/force-logout",
+  validate(IdParamSchema),
+  AdminController.forceLogoutUser
+);
+
+router.post(
+  "/users/:id/impersonate",
+  disallowApiKey,
+  validate(IdParamSchema),
+  AdminController.impersonateUser
+);
+
+export default router;
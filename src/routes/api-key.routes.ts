@@ -0,0 +1,19 @@
+import ApiKeyController from "@/controllers/api-key.controller";
+import { CreateApiKeyRequestSchema } from "@/dto/api-key.dto";
+import { IdParamSchema } from "@/dto/shared.dto";
+import { disallowApiKey, protect } from "@/middlewares/auth.middleware";
+import { validate } from "@/middlewares/validation.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+// Keys are managed with a password login, so a leaked key cannot mint more keys
+router.use(protect, disallowApiKey);
+
+router.post("/", validate(CreateApiKeyRequestSchema), ApiKeyController.create);
+
+router.get("/", ApiKeyController.list);
+
+router.delete("/:id", validate(IdParamSchema), ApiKeyController.revoke);
+
+export default router;
@@ -1,9 +1,25 @@
 import AuthController from "@/controllers/auth.controller";
 import {
+  ChangeEmailRequestSchema,
+  ChangePasswordRequestSchema,
+  ConfirmEmailChangeRequestSchema,
+  ConfirmTwoFactorRequestSchema,
+  ConsumeMagicLinkRequestSchema,
+  DeleteAccountRequestSchema,
+  DisableTwoFactorRequestSchema,
+  ForgotPasswordRequestSchema,
   LoginUserRequestSchema,
+  LogoutRequestSchema,
+  MagicLinkRequestSchema,
+  MfaLoginRequestSchema,
+  RefreshTokenRequestSchema,
   RegisterUserRequestSchema,
+  ResetPasswordRequestSchema,
+  UpdateProfileRequestSchema,
+  VerifyEmailQueryRequestSchema,
+  VerifyEmailRequestSchema,
 } from "@/dto/auth.dto";
-import { protect } from "@/middlewares/auth.middleware";
+import { disallowApiKey, protect } from "@/middlewares/auth.middleware";
 import { validate } from "@/middlewares/validation.middleware";
 import { Router } from "express";
 
@@ -17,6 +33,128 @@ router.post(
 
 router.post("/login", validate(LoginUserRequestSchema), AuthController.login);
 
+router.post(
+  "/login/mfa",
+  validate(MfaLoginRequestSchema),
+  AuthController.loginMfa
+);
+
+router.post(
+  "/magic-link",
+  validate(MagicLinkRequestSchema),
+  AuthController.requestMagicLink
+);
+
+router.post(
+  "/magic-link/consume",
+  validate(ConsumeMagicLinkRequestSchema),
+  AuthController.consumeMagicLink
+);
+
+router.post(
+  "/refresh",
+  validate(RefreshTokenRequestSchema),
+  AuthController.refresh
+);
+
+router.post(
+  "/logout",
+  protect,
+  validate(LogoutRequestSchema),
+  AuthController.logout
+);
+
+router.post("/logout-all", protect, disallowApiKey, AuthController.logoutAll);
+
+router.post(
+  "/forgot-password",
+  validate(ForgotPasswordRequestSchema),
+  AuthController.forgotPassword
+);
+
+router.post(
+  "/reset-password",
+  validate(ResetPasswordRequestSchema),
+  AuthController.resetPassword
+);
+
+router.get(
+  "/verify-email",
+  validate(VerifyEmailQueryRequestSchema),
+  AuthController.verifyEmailFromLink
+);
+
+router.post(
+  "/verify-email",
+  validate(VerifyEmailRequestSchema),
+  AuthController.verifyEmail
+);
+
+router.post("/verify-email/resend", protect, AuthController.resendVerification);
+
 router.get("/me", protect, AuthController.getMe);
 
+router.get("/me/export", protect, disallowApiKey, AuthController.exportMe);
+
+router.patch(
+  "/me",
+  protect,
+  disallowApiKey,
+  validate(UpdateProfileRequestSchema),
+  AuthController.updateMe
+);
+
+router.delete(
+  "/me",
+  protect,
+  disallowApiKey,
+  validate(DeleteAccountRequestSchema),
+  AuthController.deleteMe
+);
+
+router.post(
+  "/me/password",
+  protect,
+  disallowApiKey,
+  validate(ChangePasswordRequestSchema),
+  AuthController.changePassword
+);
+
+router.post(
+  "/me/email",
+  protect,
+  disallowApiKey,
+  validate(ChangeEmailRequestSchema),
+  AuthController.changeEmail
+);
+
+router.post(
+  "/me/email/confirm",
+  validate(ConfirmEmailChangeRequestSchema),
+  AuthController.confirmEmailChange
+);
+
+router.post(
+  "/me/2fa/setup",
+  protect,
+  disallowApiKey,
+  AuthController.setupTwoFactor
+);
+
+router.post(
+  "/me/2fa/confirm",
+  protect,
+  disallowApiKey,
+  validate(ConfirmTwoFactorRequestSchema),
+  AuthController.confirmTwoFactor
+);
+
+router.delete(
+  "/me/2fa",
+  protect,
+  disallowApiKey,
+  validate(DisableTwoFactorRequestSchema),
+  AuthController.disableTwoFactor
+);
+
 export default router;
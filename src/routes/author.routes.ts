@@ -4,9 +4,24 @@ import {
   CreateAuthorRequestSchema,
   UpdateAuthorRequestSchema,
 } from "@/dto/author.dto";
-import { IdParamSchema, PaginationQuerySchema } from "@/dto/shared.dto";
-import { protect } from "@/middlewares/auth.middleware";
+import {
+  AddFavoriteRequestSchema,
+  SetFavoriteRequestSchema,
+} from "@/dto/favorite.dto";
+import {
+  CatalogQuerySchema,
+  IdParamSchema,
+  PopularQuerySchema,
+} from "@/dto/shared.dto";
+import {
+  authorize,
+  protect,
+  requireScope,
+  requireVerifiedEmail,
+} from "@/middlewares/auth.middleware";
 import { validate } from "@/middlewares/validation.middleware";
+import { Permission } from "@/policies/access.policy";
+import { Scope } from "@/policies/scope.policy";
 import { withPagination } from "@/utils/request";
 import { Router } from "express";
 
@@ -15,6 +30,9 @@ const router = Router();
 router.post(
   "/",
   protect,
+  requireScope(Scope.AUTHORS_WRITE),
+  authorize(Permission.CATALOG_CREATE),
+  requireVerifiedEmail,
   validate(CreateAuthorRequestSchema),
   AuthorController.createAuthor
 );
@@ -22,13 +40,24 @@ router.post(
 router.get(
   "/",
   protect,
-  validate(PaginationQuerySchema),
+  requireScope(Scope.BOOKS_READ),
+  validate(CatalogQuerySchema),
   withPagination(AuthorController.getAllAuthors)
 );
 
+// Registered before /:id so "popular" is not read as an id
+router.get(
+  "/popular",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(PopularQuerySchema),
+  withPagination(FavoriteController.getPopularAuthors)
+);
+
 router.get(
   "/:id",
   protect,
+  requireScope(Scope.BOOKS_READ),
   validate(IdParamSchema),
   AuthorController.getAuthorById
 );
@@ -36,6 +65,8 @@ router.get(
 router.patch(
   "/:id",
   protect,
+  requireScope(Scope.AUTHORS_WRITE),
+  requireVerifiedEmail,
   validate(IdParamSchema),
   validate(UpdateAuthorRequestSchema),
   AuthorController.updateAuthor
@@ -44,6 +75,8 @@ router.patch(
 router.delete(
   "/:id",
   protect,
+  requireScope(Scope.AUTHORS_WRITE),
+  requireVerifiedEmail,
   validate(IdParamSchema),
   AuthorController.deleteAuthor
 );
@@ -51,13 +84,23 @@ router.delete(
 router.post(
   "/:id/favorite",
   protect,
-  validate(IdParamSchema),
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(AddFavoriteRequestSchema),
   FavoriteController.addAuthorToFavorites
 );
 
+router.put(
+  "/:id/favorite",
+  protect,
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(SetFavoriteRequestSchema),
+  FavoriteController.setAuthorFavorite
+);
+
 router.delete(
   "/:id/favorite",
   protect,
+  requireScope(Scope.FAVORITES_WRITE),
   validate(IdParamSchema),
   FavoriteController.removeAuthorFromFavorites
 );
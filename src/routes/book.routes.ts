@@ -1,12 +1,33 @@
 import BookController from "@/controllers/book.controller";
 import FavoriteController from "@/controllers/favorite.controller";
+import ReviewController from "@/controllers/review.controller";
 import {
   CreateBookRequestSchema,
   UpdateBookRequestSchema,
 } from "@/dto/book.dto";
-import { IdParamSchema, PaginationQuerySchema } from "@/dto/shared.dto";
-import { protect } from "@/middlewares/auth.middleware";
+import {
+  AddFavoriteRequestSchema,
+  SetFavoriteRequestSchema,
+} from "@/dto/favorite.dto";
+import {
+  CreateReviewRequestSchema,
+  ReviewsQuerySchema,
+  UpdateReviewRequestSchema,
+} from "@/dto/review.dto";
+import {
+  CatalogQuerySchema,
+  IdParamSchema,
+  PopularQuerySchema,
+} from "@/dto/shared.dto";
+import {
+  authorize,
+  protect,
+  requireScope,
+  requireVerifiedEmail,
+} from "@/middlewares/auth.middleware";
 import { validate } from "@/middlewares/validation.middleware";
+import { Permission } from "@/policies/access.policy";
+import { Scope } from "@/policies/scope.policy";
 import { withPagination } from "@/utils/request";
 import { Router } from "express";
 
@@ -15,6 +36,9 @@ const router = Router();
 router.post(
   "/",
   protect,
+  requireScope(Scope.BOOKS_WRITE),
+  authorize(Permission.CATALOG_CREATE),
+  requireVerifiedEmail,
   validate(CreateBookRequestSchema),
   BookController.createBook
 );
@@ -22,13 +46,24 @@ router.post(
 router.get(
   "/",
   protect,
-  validate(PaginationQuerySchema),
+  requireScope(Scope.BOOKS_READ),
+  validate(CatalogQuerySchema),
   withPagination(BookController.getAllBooks)
 );
 
+// Registered before /:id so "popular" is not read as an id
+router.get(
+  "/popular",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(PopularQuerySchema),
+  withPagination(FavoriteController.getPopularBooks)
+);
+
 router.get(
   "/:id",
   protect,
+  requireScope(Scope.BOOKS_READ),
   validate(IdParamSchema),
   BookController.getBookById
 );
@@ -36,6 +71,8 @@ router.get(
 router.patch(
   "/:id",
   protect,
+  requireScope(Scope.BOOKS_WRITE),
+  requireVerifiedEmail,
   validate(IdParamSchema),
   validate(UpdateBookRequestSchema),
   BookController.updateBook
@@ -44,6 +81,8 @@ router.patch(
 router.delete(
   "/:id",
   protect,
+  requireScope(Scope.BOOKS_WRITE),
+  requireVerifiedEmail,
   validate(IdParamSchema),
   BookController.deleteBook
 );
@@ -51,15 +90,61 @@ router.delete(
 router.post(
   "/:id/favorite",
   protect,
-  validate(IdParamSchema),
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(AddFavoriteRequestSchema),
   FavoriteController.addBookToFavorites
 );
 
+router.put(
+  "/:id/favorite",
+  protect,
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(SetFavoriteRequestSchema),
+  FavoriteController.setBookFavorite
+);
+
 router.delete(
   "/:id/favorite",
   protect,
+  requireScope(Scope.FAVORITES_WRITE),
   validate(IdParamSchema),
   FavoriteController.removeBookFromFavorites
 );
 
+router.get(
+  "/:id/reviews",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(ReviewsQuerySchema),
+  withPagination(ReviewController.getBookReviews)
+);
+
+// A user has at most one review per book, so these act on the caller's own
+router.post(
+  "/:id/reviews",
+  protect,
+  requireScope(Scope.REVIEWS_WRITE),
+  requireVerifiedEmail,
+  validate(CreateReviewRequestSchema),
+  ReviewController.createReview
+);
+
+router.patch(
+  "/:id/reviews",
+  protect,
+  requireScope(Scope.REVIEWS_WRITE),
+  requireVerifiedEmail,
+  validate(UpdateReviewRequestSchema),
+  ReviewController.updateReview
+);
+
+router.delete(
+  "/:id/reviews",
+  protect,
+  requireScope(Scope.REVIEWS_WRITE),
+  requireVerifiedEmail,
+  validate(IdParamSchema),
+  ReviewController.deleteReview
+);
+
 export default router;
@@ -0,0 +1,110 @@
+import CollectionController from "@/controllers/collection.controller";
+import {
+  AddCollectionItemRequestSchema,
+  CollectionItemRequestSchema,
+  CollectionItemsQuerySchema,
+  CreateCollectionRequestSchema,
+  UpdateCollectionItemRequestSchema,
+  UpdateCollectionRequestSchema,
+} from "@/dto/collection.dto";
+import { IdParamSchema, PaginationQuerySchema } from "@/dto/shared.dto";
+import { protect, requireScope } from "@/middlewares/auth.middleware";
+import { validate } from "@/middlewares/validation.middleware";
+import { Scope } from "@/policies/scope.policy";
+import { withPagination } from "@/utils/request";
+import { Router } from "express";
+
+const router = Router();
+
+// Shared collections can be read without logging in. Registered before /:id
+router.get(
+  "/public",
+  validate(PaginationQuerySchema),
+  withPagination(CollectionController.getPublicCollections)
+);
+
+router.get(
+  "/public/:id",
+  validate(IdParamSchema),
+  CollectionController.getSharedCollectionById
+);
+
+router.get(
+  "/public/:id/items",
+  validate(CollectionItemsQuerySchema),
+  withPagination(CollectionController.getSharedCollectionItems)
+);
+
+router.post(
+  "/",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(CreateCollectionRequestSchema),
+  CollectionController.createCollection
+);
+
+router.get(
+  "/",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(PaginationQuerySchema),
+  withPagination(CollectionController.getMyCollections)
+);
+
+router.get(
+  "/:id",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(IdParamSchema),
+  CollectionController.getCollectionById
+);
+
+router.patch(
+  "/:id",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(UpdateCollectionRequestSchema),
+  CollectionController.updateCollection
+);
+
+router.delete(
+  "/:id",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(IdParamSchema),
+  CollectionController.deleteCollection
+);
+
+router.get(
+  "/:id/items",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(CollectionItemsQuerySchema),
+  withPagination(CollectionController.getCollectionItems)
+);
+
+router.post(
+  "/:id/items",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(AddCollectionItemRequestSchema),
+  CollectionController.addCollectionItem
+);
+
+router.patch(
+  "/:id/items/:bookId",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(UpdateCollectionItemRequestSchema),
+  CollectionController.updateCollectionItem
+);
+
+router.delete(
+  "/:id/items/:bookId",
+  protect,
+  requireScope(Scope.COLLECTIONS_WRITE),
+  validate(CollectionItemRequestSchema),
+  CollectionController.removeCollectionItem
+);
+
+export default router;
@@ -1,17 +1,63 @@
 import FavoriteController from "@/controllers/favorite.controller";
-import { PaginationQuerySchema } from "@/dto/shared.dto";
-import { protect } from "@/middlewares/auth.middleware";
+import {
+  BulkFavoritesRequestSchema,
+  FavoriteAuthorsQuerySchema,
+  FavoriteBooksQuerySchema,
+  UpdateFavoriteRequestSchema,
+} from "@/dto/favorite.dto";
+import { protect, requireScope } from "@/middlewares/auth.middleware";
 import { validate } from "@/middlewares/validation.middleware";
+import { Scope } from "@/policies/scope.policy";
 import { withPagination } from "@/utils/request";
 import { Router } from "express";
 
 const router = Router();
 
+router.get(
+  "/",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  FavoriteController.getMyFavoritesSummary
+);
+
+router.get(
+  "/books",
+  protect,
+  requireScope(Scope.BOOKS_READ),
+  validate(FavoriteBooksQuerySchema),
+  withPagination(FavoriteController.getMyFavoriteBooks)
+);
+
+router.patch(
+  "/books/:id",
+  protect,
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(UpdateFavoriteRequestSchema),
+  FavoriteController.updateFavoriteBook
+);
+
 router.get(
   "/authors",
   protect,
-  validate(PaginationQuerySchema),
+  requireScope(Scope.BOOKS_READ),
+  validate(FavoriteAuthorsQuerySchema),
   withPagination(FavoriteController.getMyFavoriteAuthors)
 );
 
+router.patch(
+  "/authors/:id",
+  protect,
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(UpdateFavoriteRequestSchema),
+  FavoriteController.updateFavoriteAuthor
+);
+
+router.post(
+  "/bulk",
+  protect,
+  requireScope(Scope.FAVORITES_WRITE),
+  validate(BulkFavoritesRequestSchema),
+  FavoriteController.applyBulkFavorites
+);
+
 export default router;
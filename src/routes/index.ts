@@ -1,15 +1,25 @@
 import { Router } from "express";
+import adminRoutes from "./admin.routes";
+import apiKeyRoutes from "./api-key.routes";
 import authRoutes from "./auth.routes";
 import authorRoutes from "./author.routes";
 import bookRoutes from "./book.routes";
+import collectionRoutes from "./collection.routes";
 import favoriteRoutes from "./favorite.routes";
+import oidcRoutes from "./oidc.routes";
+import sessionRoutes from "./session.routes";
 
 const mainRouter = Router();
 const API_PREFIX = "/api/v1";
 
+mainRouter.use(`${API_PREFIX}/auth/api-keys`, apiKeyRoutes);
+mainRouter.use(`${API_PREFIX}/auth/oidc`, oidcRoutes);
+mainRouter.use(`${API_PREFIX}/auth/sessions`, sessionRoutes);
 mainRouter.use(`${API_PREFIX}/auth`, authRoutes);
 mainRouter.use(`${API_PREFIX}/authors`, authorRoutes);
 mainRouter.use(`${API_PREFIX}/favorites`, favoriteRoutes);
 mainRouter.use(`${API_PREFIX}/books`, bookRoutes);
+mainRouter.use(`${API_PREFIX}/collections`, collectionRoutes);
+mainRouter.use(`${API_PREFIX}/admin`, adminRoutes);
 
 export default mainRouter;
@@ -0,0 +1,23 @@
+import OidcController from "@/controllers/oidc.controller";
+import {
+  OidcCallbackRequestSchema,
+  OidcStartRequestSchema,
+} from "@/dto/oidc.dto";
+import { validate } from "@/middlewares/validation.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+router.get(
+  "/:provider/start",
+  validate(OidcStartRequestSchema),
+  OidcController.start
+);
+
+router.get(
+  "/:provider/callback",
+  validate(OidcCallbackRequestSchema),
+  OidcController.callback
+);
+
+export default router;
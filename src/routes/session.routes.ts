@@ -0,0 +1,16 @@
+import SessionController from "@/controllers/session.controller";
+import { IdParamSchema } from "@/dto/shared.dto";
+import { disallowApiKey, protect } from "@/middlewares/auth.middleware";
+import { validate } from "@/middlewares/validation.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+// Sessions are login devices; API keys are not tied to one
+router.use(protect, disallowApiKey);
+
+router.get("/", SessionController.list);
+
+router.delete("/:id", validate(IdParamSchema), SessionController.revoke);
+
+export default router;
@@ -0,0 +1,179 @@
+import { config } from "@/config";
+import {
+  DEFAULT_PAGE_LIMIT,
+  DEFAULT_PAGE_NUMBER,
+  ErrorMessages,
+} from "@/constants";
+import AuditLogDao from "@/dao/audit-log.dao";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
+import UserDao from "@/dao/user.dao";
+import type { ChangeUserRoleDto, SuspendUserDto } from "@/dto/admin.dto";
+import type { PaginationQueryDto } from "@/dto/shared.dto";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "@/errors/error-types";
+import {
+  type Actor,
+  Permission,
+  hasPermission,
+} from "@/policies/access.policy";
+import { formatScopeClaim, getRoleScopes } from "@/policies/scope.policy";
+import { signImpersonationToken } from "@/utils/jwt";
+import { generateAdminUserObject } from "@/utils/user";
+import { AuditAction } from "@prisma/client";
+
+class AdminService {
+  async listUsers(query: PaginationQueryDto) {
+    const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+    const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+
+    const { users, totalItems } = await UserDao.findAllUsers(
+      page,
+      limit,
+      query.sortBy,
+      query.search
+    );
+
+    const totalPages = limit > 0 ? Math.ceil(totalItems / limit) : 0;
+
+    return {
+      data: users.map(generateAdminUserObject),
+      meta: {
+        totalItems,
+        itemCount: users.length,
+        itemsPerPage: limit,
+        totalPages,
+        currentPage: page,
+      },
+    };
+  }
+
+  async getUser(userId: string) {
+    const user = await this.findTargetUser(userId);
+    return generateAdminUserObject(user);
+  }
+
+  async suspendUser(admin: Actor, userId: string, suspendData: SuspendUserDto) {
+    this.assertNotSelf(admin, userId);
+    const user = await this.findTargetUser(userId);
+    if (user.suspendedAt) {
+      throw new BadRequestError(ErrorMessages.USER_ALREADY_SUSPENDED);
+    }
+
+    const suspendedUser = await UserDao.suspendUser(
+      user.id,
+      suspendData.reason
+    );
+    await RefreshTokenDao.revokeAllTokensForUser(user.id);
+    await SessionDao.revokeAllSessionsForUser(user.id);
+    await AuditLogDao.createAuditLog({
+      action: AuditAction.USER_SUSPENDED,
+      actorId: admin.id,
+      targetUserId: user.id,
+      details: { reason: suspendData.reason ?? null },
+    });
+
+    return generateAdminUserObject(suspendedUser);
+  }
+
+  async unsuspendUser(admin: Actor, userId: string) {
+    this.assertNotSelf(admin, userId);
+    const user = await this.findTargetUser(userId);
+    if (!user.suspendedAt) {
+      throw new BadRequestError(ErrorMessages.USER_NOT_SUSPENDED);
+    }
+
+    const activeUser = await UserDao.unsuspendUser(user.id);
+    await AuditLogDao.createAuditLog({
+      action: AuditAction.USER_UNSUSPENDED,
+      actorId: admin.id,
+      targetUserId: user.id,
+    });
+
+    return generateAdminUserObject(activeUser);
+  }
+
+  async changeUserRole(
+    admin: Actor,
+    userId: string,
+    roleData: ChangeUserRoleDto
+  ) {
+    this.assertNotSelf(admin, userId);
+    const user = await this.findTargetUser(userId);
+
+    const updatedUser = await UserDao.updateRole(user.id, roleData.role);
+    await AuditLogDao.createAuditLog({
+      action: AuditAction.USER_ROLE_CHANGED,
+      actorId: admin.id,
+      targetUserId: user.id,
+      details: { from: user.role, to: roleData.role },
+    });
+
+    return generateAdminUserObject(updatedUser);
+  }
+
+  async forceLogoutUser(admin: Actor, userId: string) {
+    this.assertNotSelf(admin, userId);
+    const user = await this.findTargetUser(userId);
+
+    await UserDao.incrementTokenVersion(user.id);
+    await RefreshTokenDao.revokeAllTokensForUser(user.id);
+    await SessionDao.revokeAllSessionsForUser(user.id);
+    await AuditLogDao.createAuditLog({
+      action: AuditAction.USER_FORCE_LOGOUT,
+      actorId: admin.id,
+      targetUserId: user.id,
+    });
+  }
+
+  // The token acts as the user for reads; writes made with it are audited
+  // under the administrator by protect
+  async impersonateUser(admin: Actor, userId: string) {
+    this.assertNotSelf(admin, userId);
+    const user = await this.findTargetUser(userId);
+    if (hasPermission(user.role, Permission.USERS_MANAGE)) {
+      throw new ForbiddenError(ErrorMessages.CANNOT_IMPERSONATE_ADMIN);
+    }
+
+    const token = signImpersonationToken({
+      userId: user.id,
+      email: user.email,
+      tokenVersion: user.tokenVersion,
+      role: user.role,
+      scope: formatScopeClaim(getRoleScopes(user.role)),
+      act: { sub: admin.id },
+    });
+    await AuditLogDao.createAuditLog({
+      action: AuditAction.USER_IMPERSONATED,
+      actorId: admin.id,
+      targetUserId: user.id,
+      details: { expiresIn: config.impersonation.expiresIn },
+    });
+
+    return {
+      token,
+      expiresIn: config.impersonation.expiresIn,
+      user: generateAdminUserObject(user),
+    };
+  }
+
+  private async findTargetUser(userId: string) {
+    const user = await UserDao.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
+    }
+    return user;
+  }
+
+  // Prevents an administrator from locking themselves out
+  private assertNotSelf(admin: Actor, userId: string) {
+    if (admin.id === userId) {
+      throw new BadRequestError(ErrorMessages.CANNOT_MODIFY_OWN_ACCOUNT);
+    }
+  }
+}
+
+export default new AdminService();
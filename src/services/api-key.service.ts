@@ -0,0 +1,96 @@
+import { ErrorMessages } from "@/constants";
+import ApiKeyDao from "@/dao/api-key.dao";
+import UserDao from "@/dao/user.dao";
+import type { ApiKeyOutput, CreateApiKeyDto } from "@/dto/api-key.dto";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "@/errors/error-types";
+import type { Actor } from "@/policies/access.policy";
+import {
+  type Scope,
+  getRoleScopes,
+  parseScopes,
+} from "@/policies/scope.policy";
+import { generateOpaqueToken, hashToken } from "@/utils/token";
+import type { ApiKey, Role } from "@prisma/client";
+
+// Makes leaked keys easy to recognise in logs and secret scanners
+const API_KEY_PREFIX = "bh_";
+const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Keys created before scopes existed have none stored and keep the owner's role scopes
+const getApiKeyScopes = (apiKey: ApiKey, ownerRole: Role): Scope[] =>
+  apiKey.scopes.length > 0
+    ? parseScopes(apiKey.scopes)
+    : getRoleScopes(ownerRole);
+
+const generateApiKeyObject = (
+  apiKey: ApiKey,
+  ownerRole: Role
+): ApiKeyOutput => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scope: apiKey.scope,
+  scopes: getApiKeyScopes(apiKey, ownerRole),
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+class ApiKeyService {
+  // The plain key is only returned here; only its hash is stored
+  async createApiKey(owner: Actor, keyData: CreateApiKeyDto) {
+    const roleScopes = getRoleScopes(owner.role);
+    const scopes = keyData.scopes ?? roleScopes;
+    if (!scopes.every((scope) => roleScopes.includes(scope))) {
+      throw new ForbiddenError(ErrorMessages.API_KEY_SCOPE_NOT_ALLOWED);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateOpaqueToken(32)}`;
+    const apiKey = await ApiKeyDao.createApiKey({
+      userId: owner.id,
+      name: keyData.name,
+      prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+      keyHash: hashToken(key),
+      scope: keyData.scope,
+      scopes: [...new Set(scopes)],
+      expiresAt: keyData.expiresAt,
+    });
+
+    return { apiKey: generateApiKeyObject(apiKey, owner.role), key };
+  }
+
+  async listApiKeys(owner: Actor) {
+    const apiKeys = await ApiKeyDao.findApiKeysByUser(owner.id);
+    return apiKeys.map((apiKey) => generateApiKeyObject(apiKey, owner.role));
+  }
+
+  async revokeApiKey(userId: string, apiKeyId: string) {
+    const isRevoked = await ApiKeyDao.revokeApiKey(apiKeyId, userId);
+    if (!isRevoked) {
+      throw new NotFoundError(ErrorMessages.API_KEY_NOT_FOUND);
+    }
+  }
+
+  // Resolves a presented key to its owner and records the use
+  async authenticate(key: string) {
+    const apiKey = await ApiKeyDao.findActiveApiKeyByHash(hashToken(key));
+    if (!apiKey) {
+      throw new UnauthorizedError(ErrorMessages.API_KEY_INVALID);
+    }
+
+    const user = await UserDao.findUserById(apiKey.userId);
+    if (!user) {
+      throw new UnauthorizedError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+
+    await ApiKeyDao.touchLastUsed(apiKey.id);
+
+    return { apiKey, user, scopes: getApiKeyScopes(apiKey, user.role) };
+  }
+}
+
+export default new ApiKeyService();
@@ -1,21 +1,66 @@
-import { ErrorMessages } from "@/constants";
+import { randomUUID } from "node:crypto";
+import { config } from "@/config";
+import { ErrorCodes, ErrorMessages } from "@/constants";
+import OneTimeTokenDao from "@/dao/one-time-token.dao";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
 import UserDao from "@/dao/user.dao";
-import type { LoginUserDto, RegisterUserDto } from "@/dto/auth.dto";
+import type {
+  ChangeEmailDto,
+  ChangePasswordDto,
+  ConsumeMagicLinkDto,
+  LoginUserDto,
+  MfaLoginDto,
+  RegisterUserDto,
+  ResetPasswordDto,
+  UpdateProfileDto,
+} from "@/dto/auth.dto";
 import {
   BadRequestError,
+  ForbiddenError,
   NotFoundError,
   UnauthorizedError,
 } from "@/errors/error-types";
-import { type JwtPayload, signToken } from "@/utils/jwt";
+import { mailer } from "@/mail";
+import {
+  accountLockedMail,
+  emailChangeConfirmationMail,
+  emailChangedNoticeMail,
+  emailVerificationMail,
+  magicLinkMail,
+  passwordResetMail,
+} from "@/mail/templates";
+import { formatScopeClaim, getRoleScopes } from "@/policies/scope.policy";
+import BruteForceService from "@/services/brute-force.service";
+import TwoFactorService from "@/services/two-factor.service";
+import {
+  type JwtPayload,
+  signMfaChallengeToken,
+  signToken,
+  verifyMfaChallengeToken,
+} from "@/utils/jwt";
+import appLogger from "@/utils/logger";
 import {
   comparePassword,
   hashPassword,
   omitPasswordFromResult,
+  verifyPassword,
 } from "@/utils/password";
+import type { RequestContext } from "@/utils/request";
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  generateOpaqueToken,
+  hashToken,
+} from "@/utils/token";
 import { generateSimpleUserObject } from "@/utils/user";
+import { OneTimeTokenPurpose, type User } from "@prisma/client";
 
 class AuthService {
-  async registerUser(userData: RegisterUserDto) {
+  async registerUser(userData: RegisterUserDto, context: RequestContext) {
+    await BruteForceService.guardRegistration(context.ip);
+
     const existingUser = await UserDao.findUserByEmail(userData.email);
     if (existingUser) {
       throw new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS);
@@ -23,35 +68,312 @@ class AuthService {
 
     const passwordHash = await hashPassword(userData.password);
     const newUser = await UserDao.createUser({ ...userData, passwordHash });
+    await this.sendEmailVerification(newUser);
 
-    const tokenPayload: JwtPayload = {
-      userId: newUser.id,
-      email: newUser.email,
-    };
-
-    const token = signToken(tokenPayload);
+    const tokens = await this.issueAuthTokens(newUser, context);
 
-    return { user: generateSimpleUserObject(newUser), token };
+    return { user: generateSimpleUserObject(newUser), ...tokens };
   }
 
-  async loginUser(loginData: LoginUserDto) {
+  async loginUser(loginData: LoginUserDto, context: RequestContext) {
+    await BruteForceService.guardLogin(loginData.email, context.ip);
+
     const user = await UserDao.findUserByEmail(loginData.email);
     if (!user) {
+      // Unknown emails are counted too, so lockouts do not reveal which accounts exist
+      await this.recordFailedLogin(loginData.email, context);
       throw new UnauthorizedError(ErrorMessages.INVALID_CREDENTIALS);
     }
 
-    const isPasswordMatch = await comparePassword(
+    const { isMatch, needsRehash } = await verifyPassword(
       loginData.password,
       user.password
     );
-    if (!isPasswordMatch) {
+    if (!isMatch) {
+      await this.recordFailedLogin(user.email, context, user);
       throw new UnauthorizedError(ErrorMessages.INVALID_CREDENTIALS);
     }
+    if (needsRehash) {
+      await this.upgradePasswordHash(user, loginData.password);
+    }
+    // With 2FA on, the password alone only earns a challenge for /login/mfa,
+    // so failures keep counting until the second factor is verified too
+    const authResponse = await this.signInVerifiedUser(user, context);
+    if (!authResponse.mfaRequired) {
+      await BruteForceService.clearLoginFailures(user.email);
+    }
+    return authResponse;
+  }
 
-    const tokenPayload: JwtPayload = { userId: user.id, email: user.email };
-    const token = signToken(tokenPayload);
+  // Shared by every login method once the first factor has been verified,
+  // e.g. by a password or an external identity provider
+  async signInVerifiedUser(user: User, context: RequestContext) {
+    this.assertNotSuspended(user);
+
+    if (user.totpEnabledAt) {
+      return {
+        mfaRequired: true as const,
+        mfaToken: signMfaChallengeToken({
+          userId: user.id,
+          tokenVersion: user.tokenVersion,
+        }),
+      };
+    }
+
+    const tokens = await this.issueAuthTokens(user, context);
+
+    return { user: generateSimpleUserObject(user), ...tokens };
+  }
+
+  // Always resolves the same way so the response never reveals whether an
+  // account exists for the given email
+  async requestMagicLink(email: string, context: RequestContext) {
+    await BruteForceService.guardMagicLink(email, context.ip);
+
+    const user = await UserDao.findUserByEmail(email);
+    if (!user) return;
+
+    await OneTimeTokenDao.invalidateTokensForUser(
+      user.id,
+      OneTimeTokenPurpose.MAGIC_LINK
+    );
+
+    const signInToken = generateOpaqueToken();
+    await OneTimeTokenDao.createToken({
+      userId: user.id,
+      purpose: OneTimeTokenPurpose.MAGIC_LINK,
+      tokenHash: hashToken(signInToken),
+      expiresAt: addMinutes(new Date(), config.magicLink.tokenTtlMinutes),
+      email: user.email,
+    });
 
-    return { user: generateSimpleUserObject(user), token };
+    const signInLink = `${config.appUrl}/magic-link?token=${encodeURIComponent(signInToken)}`;
+    try {
+      await mailer.sendMail(
+        magicLinkMail(user.email, signInLink, config.magicLink.tokenTtlMinutes)
+      );
+    } catch (error) {
+      appLogger.error("Failed to send magic link email", error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  async consumeMagicLink(
+    magicLinkData: ConsumeMagicLinkDto,
+    context: RequestContext
+  ) {
+    const storedToken = await OneTimeTokenDao.findActiveTokenByHash(
+      hashToken(magicLinkData.token),
+      OneTimeTokenPurpose.MAGIC_LINK
+    );
+    if (!storedToken) {
+      throw new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID);
+    }
+
+    const isConsumed = await OneTimeTokenDao.consumeToken(storedToken.id);
+    if (!isConsumed) {
+      throw new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID);
+    }
+
+    // The link only proves control of the address it was sent to, so it
+    // stops working once the account's email has changed
+    const user = await UserDao.findUserById(storedToken.userId);
+    if (!user || user.email !== storedToken.email) {
+      throw new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID);
+    }
+
+    const authResponse = await this.signInVerifiedUser(user, context);
+    if (!authResponse.mfaRequired) {
+      await BruteForceService.clearLoginFailures(user.email);
+    }
+    return authResponse;
+  }
+
+  async completeMfaLogin(mfaData: MfaLoginDto, context: RequestContext) {
+    const challenge = verifyMfaChallengeToken(mfaData.mfaToken);
+    if (!challenge) {
+      throw new UnauthorizedError(ErrorMessages.MFA_TOKEN_INVALID);
+    }
+
+    const user = await UserDao.findUserById(challenge.userId);
+    if (!user || user.tokenVersion !== challenge.tokenVersion) {
+      throw new UnauthorizedError(ErrorMessages.MFA_TOKEN_INVALID);
+    }
+    this.assertNotSuspended(user);
+    await BruteForceService.guardLogin(user.email, context.ip);
+
+    if (!(await TwoFactorService.verifySecondFactor(user, mfaData.code))) {
+      await this.recordFailedLogin(user.email, context, user);
+      throw new UnauthorizedError(ErrorMessages.TWO_FACTOR_CODE_INVALID);
+    }
+
+    await BruteForceService.clearLoginFailures(user.email);
+    const tokens = await this.issueAuthTokens(user, context);
+
+    return { user: generateSimpleUserObject(user), ...tokens };
+  }
+
+  async refreshAuthTokens(refreshToken: string, context: RequestContext) {
+    const storedToken = await RefreshTokenDao.findRefreshTokenByHash(
+      hashToken(refreshToken)
+    );
+    if (!storedToken) {
+      throw new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_INVALID);
+    }
+
+    // A token that was already rotated or revoked is being replayed, so the
+    // whole family is treated as compromised
+    if (storedToken.usedAt || storedToken.revokedAt) {
+      await this.revokeCompromisedFamily(storedToken.familyId);
+    }
+
+    if (storedToken.expiresAt <= new Date()) {
+      throw new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_INVALID);
+    }
+
+    const isClaimed = await RefreshTokenDao.markRefreshTokenAsUsed(
+      storedToken.id
+    );
+    if (!isClaimed) {
+      await this.revokeCompromisedFamily(storedToken.familyId);
+    }
+
+    const user = await UserDao.findUserById(storedToken.userId);
+    if (!user) {
+      throw new UnauthorizedError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+    this.assertNotSuspended(user);
+
+    const tokens = await this.issueAuthTokens(
+      user,
+      context,
+      storedToken.familyId
+    );
+
+    return { user: generateSimpleUserObject(user), ...tokens };
+  }
+
+  // Signs out the device of the supplied refresh token or, without one, the
+  // session of the access token used for the request
+  async logoutUser(userId: string, refreshToken?: string, sessionId?: string) {
+    if (refreshToken) {
+      const storedToken = await RefreshTokenDao.findRefreshTokenByHash(
+        hashToken(refreshToken)
+      );
+      if (storedToken && storedToken.userId === userId) {
+        await RefreshTokenDao.revokeTokenFamily(storedToken.familyId);
+        await SessionDao.revokeSessionByFamily(storedToken.familyId);
+      }
+      return;
+    }
+
+    // API keys and tokens issued before sessions existed have no session
+    if (!sessionId) {
+      throw new BadRequestError(ErrorMessages.LOGOUT_SESSION_REQUIRED);
+    }
+    const session = await SessionDao.findSessionById(sessionId);
+    if (session && session.userId === userId) {
+      await SessionDao.revokeSession(session.id);
+      await RefreshTokenDao.revokeTokenFamily(session.familyId);
+    }
+  }
+
+  async logoutAllSessions(userId: string) {
+    await UserDao.incrementTokenVersion(userId);
+    await RefreshTokenDao.revokeAllTokensForUser(userId);
+    await SessionDao.revokeAllSessionsForUser(userId);
+  }
+
+  // Always resolves the same way so the response never reveals whether an
+  // account exists for the given email
+  async requestPasswordReset(email: string, context: RequestContext) {
+    await BruteForceService.guardPasswordReset(email, context.ip);
+
+    const user = await UserDao.findUserByEmail(email);
+    if (!user) return;
+
+    await OneTimeTokenDao.invalidateTokensForUser(
+      user.id,
+      OneTimeTokenPurpose.PASSWORD_RESET
+    );
+
+    const resetToken = generateOpaqueToken();
+    await OneTimeTokenDao.createToken({
+      userId: user.id,
+      purpose: OneTimeTokenPurpose.PASSWORD_RESET,
+      tokenHash: hashToken(resetToken),
+      expiresAt: addMinutes(new Date(), config.passwordReset.tokenTtlMinutes),
+    });
+
+    const resetLink = `${config.appUrl}/reset-password?token=${encodeURIComponent(resetToken)}`;
+    try {
+      await mailer.sendMail(
+        passwordResetMail(
+          user.email,
+          resetLink,
+          config.passwordReset.tokenTtlMinutes
+        )
+      );
+    } catch (error) {
+      appLogger.error("Failed to send password reset email", error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  async resetPassword(resetData: ResetPasswordDto) {
+    const storedToken = await OneTimeTokenDao.findActiveTokenByHash(
+      hashToken(resetData.token),
+      OneTimeTokenPurpose.PASSWORD_RESET
+    );
+    if (!storedToken) {
+      throw new BadRequestError(ErrorMessages.PASSWORD_RESET_TOKEN_INVALID);
+    }
+
+    const isConsumed = await OneTimeTokenDao.consumeToken(storedToken.id);
+    if (!isConsumed) {
+      throw new BadRequestError(ErrorMessages.PASSWORD_RESET_TOKEN_INVALID);
+    }
+
+    const passwordHash = await hashPassword(resetData.password);
+    const user = await UserDao.updatePassword(storedToken.userId, passwordHash);
+    await RefreshTokenDao.revokeAllTokensForUser(storedToken.userId);
+    await SessionDao.revokeAllSessionsForUser(storedToken.userId);
+    // Proving control of the mailbox lifts a lockout caused by someone else
+    await BruteForceService.clearLoginFailures(user.email);
+  }
+
+  async verifyEmail(token: string) {
+    const storedToken = await OneTimeTokenDao.findActiveTokenByHash(
+      hashToken(token),
+      OneTimeTokenPurpose.EMAIL_VERIFICATION
+    );
+    if (!storedToken) {
+      throw new BadRequestError(ErrorMessages.EMAIL_VERIFICATION_TOKEN_INVALID);
+    }
+
+    const isConsumed = await OneTimeTokenDao.consumeToken(storedToken.id);
+    if (!isConsumed) {
+      throw new BadRequestError(ErrorMessages.EMAIL_VERIFICATION_TOKEN_INVALID);
+    }
+
+    const user = await UserDao.markEmailVerified(storedToken.userId);
+    return generateSimpleUserObject(user);
+  }
+
+  async resendEmailVerification(userId: string, context: RequestContext) {
+    await BruteForceService.guardVerificationResend(userId, context.ip);
+
+    const user = await UserDao.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+    if (user.emailVerifiedAt) {
+      throw new BadRequestError(ErrorMessages.EMAIL_ALREADY_VERIFIED);
+    }
+
+    await this.sendEmailVerification(user);
   }
 
   async getMe(userId: string) {
@@ -61,6 +383,267 @@ class AuthService {
     }
     return omitPasswordFromResult(user);
   }
+
+  async updateProfile(userId: string, profileData: UpdateProfileDto) {
+    const user = await UserDao.updateProfile(userId, profileData);
+    return generateSimpleUserObject(user);
+  }
+
+  // Every other session is signed out; the caller gets a fresh token pair
+  async changePassword(
+    userId: string,
+    passwordData: ChangePasswordDto,
+    context: RequestContext
+  ) {
+    const user = await this.getUserWithCurrentPassword(
+      userId,
+      passwordData.currentPassword
+    );
+
+    if (await comparePassword(passwordData.newPassword, user.password)) {
+      throw new BadRequestError(ErrorMessages.NEW_PASSWORD_SAME_AS_CURRENT);
+    }
+
+    const passwordHash = await hashPassword(passwordData.newPassword);
+    const updatedUser = await UserDao.updatePassword(user.id, passwordHash);
+    await RefreshTokenDao.revokeAllTokensForUser(user.id);
+    await SessionDao.revokeAllSessionsForUser(user.id);
+
+    const tokens = await this.issueAuthTokens(updatedUser, context);
+
+    return { user: generateSimpleUserObject(updatedUser), ...tokens };
+  }
+
+  // The address is only switched once the link sent to the new address is used
+  async requestEmailChange(userId: string, emailData: ChangeEmailDto) {
+    const user = await this.getUserWithCurrentPassword(
+      userId,
+      emailData.currentPassword
+    );
+
+    if (emailData.email === user.email) {
+      throw new BadRequestError(ErrorMessages.EMAIL_UNCHANGED);
+    }
+    if (await UserDao.findUserByEmail(emailData.email)) {
+      throw new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS);
+    }
+
+    await OneTimeTokenDao.invalidateTokensForUser(
+      user.id,
+      OneTimeTokenPurpose.EMAIL_CHANGE
+    );
+
+    const changeToken = generateOpaqueToken();
+    await OneTimeTokenDao.createToken({
+      userId: user.id,
+      purpose: OneTimeTokenPurpose.EMAIL_CHANGE,
+      tokenHash: hashToken(changeToken),
+      expiresAt: addHours(new Date(), config.emailVerification.tokenTtlHours),
+      email: emailData.email,
+    });
+
+    const confirmationLink = `${config.appUrl}/confirm-email-change?token=${encodeURIComponent(changeToken)}`;
+    await mailer.sendMail(
+      emailChangeConfirmationMail(
+        emailData.email,
+        confirmationLink,
+        config.emailVerification.tokenTtlHours
+      )
+    );
+  }
+
+  async confirmEmailChange(token: string) {
+    const storedToken = await OneTimeTokenDao.findActiveTokenByHash(
+      hashToken(token),
+      OneTimeTokenPurpose.EMAIL_CHANGE
+    );
+    if (!storedToken?.email) {
+      throw new BadRequestError(ErrorMessages.EMAIL_CHANGE_TOKEN_INVALID);
+    }
+
+    // The address may have been taken since the change was requested
+    if (await UserDao.findUserByEmail(storedToken.email)) {
+      throw new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS);
+    }
+
+    const isConsumed = await OneTimeTokenDao.consumeToken(storedToken.id);
+    if (!isConsumed) {
+      throw new BadRequestError(ErrorMessages.EMAIL_CHANGE_TOKEN_INVALID);
+    }
+
+    const previousUser = await UserDao.findUserById(storedToken.userId);
+    if (!previousUser) {
+      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
+    }
+
+    const user = await UserDao.updateEmail(
+      storedToken.userId,
+      storedToken.email
+    );
+
+    try {
+      await mailer.sendMail(
+        emailChangedNoticeMail(previousUser.email, user.email)
+      );
+    } catch (error) {
+      appLogger.error("Failed to send email change notice", error, {
+        userId: user.id,
+      });
+    }
+
+    return generateSimpleUserObject(user);
+  }
+
+  async deleteAccount(userId: string, currentPassword: string) {
+    const user = await this.getUserWithCurrentPassword(userId, currentPassword);
+    await UserDao.deleteUserAccount(user.id);
+  }
+
+  private async getUserWithCurrentPassword(
+    userId: string,
+    currentPassword: string
+  ) {
+    const user = await UserDao.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+
+    const isPasswordMatch = await comparePassword(
+      currentPassword,
+      user.password
+    );
+    if (!isPasswordMatch) {
+      throw new BadRequestError(ErrorMessages.CURRENT_PASSWORD_INCORRECT);
+    }
+
+    return user;
+  }
+
+  // A failed upgrade is retried on the next login, so it never blocks this one
+  private async upgradePasswordHash(user: User, password: string) {
+    try {
+      await UserDao.updatePasswordHash(user.id, await hashPassword(password));
+    } catch (error) {
+      appLogger.error("Failed to upgrade password hash", error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  private assertNotSuspended(user: User) {
+    if (user.suspendedAt) {
+      throw new ForbiddenError(
+        ErrorMessages.ACCOUNT_SUSPENDED,
+        ErrorCodes.ACCOUNT_SUSPENDED
+      );
+    }
+  }
+
+  // Each refresh token family is one session; access tokens carry its id so
+  // protect can reject them once the session is revoked
+  private async issueAuthTokens(
+    user: User,
+    context: RequestContext,
+    familyId: string = randomUUID()
+  ) {
+    const expiresAt = addDays(new Date(), config.refreshToken.expiresInDays);
+    const session = await SessionDao.upsertSession({
+      userId: user.id,
+      familyId,
+      userAgent: context.userAgent,
+      ip: context.ip,
+      expiresAt,
+    });
+
+    const tokenPayload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      tokenVersion: user.tokenVersion,
+      role: user.role,
+      scope: formatScopeClaim(getRoleScopes(user.role)),
+      sid: session.id,
+    };
+    const token = signToken(tokenPayload);
+
+    const refreshToken = generateOpaqueToken();
+    await RefreshTokenDao.createRefreshToken({
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      expiresAt,
+    });
+
+    return { token, refreshToken };
+  }
+
+  private async sendEmailVerification(user: User) {
+    await OneTimeTokenDao.invalidateTokensForUser(
+      user.id,
+      OneTimeTokenPurpose.EMAIL_VERIFICATION
+    );
+
+    const verificationToken = generateOpaqueToken();
+    await OneTimeTokenDao.createToken({
+      userId: user.id,
+      purpose: OneTimeTokenPurpose.EMAIL_VERIFICATION,
+      tokenHash: hashToken(verificationToken),
+      expiresAt: addHours(new Date(), config.emailVerification.tokenTtlHours),
+    });
+
+    const verificationLink = `${config.appUrl}/verify-email?token=${encodeURIComponent(verificationToken)}`;
+    try {
+      await mailer.sendMail(
+        emailVerificationMail(
+          user.email,
+          verificationLink,
+          config.emailVerification.tokenTtlHours
+        )
+      );
+    } catch (error) {
+      appLogger.error("Failed to send email verification", error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  private async recordFailedLogin(
+    email: string,
+    context: RequestContext,
+    user?: User
+  ) {
+    const lockedUntil = await BruteForceService.recordLoginFailure(
+      email,
+      context.ip
+    );
+    if (!lockedUntil || !user) return;
+
+    appLogger.warn("Account locked after repeated failed logins", {
+      userId: user.id,
+      lockedUntil,
+    });
+    try {
+      await mailer.sendMail(
+        accountLockedMail(
+          user.email,
+          lockedUntil,
+          `${config.appUrl}/forgot-password`
+        )
+      );
+    } catch (error) {
+      appLogger.error("Failed to send account locked email", error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  private async revokeCompromisedFamily(familyId: string): Promise<never> {
+    await RefreshTokenDao.revokeTokenFamily(familyId);
+    await SessionDao.revokeSessionByFamily(familyId);
+    appLogger.warn("Refresh token reuse detected; token family revoked", {
+      familyId,
+    });
+    throw new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_REUSED);
+  }
 }
 
 export default new AuthService();
@@ -9,12 +9,9 @@ import type {
   CreateAuthorDto,
   UpdateAuthorDto,
 } from "@/dto/author.dto";
-import type { PaginationQueryDto } from "@/dto/shared.dto";
-import {
-  ConflictError,
-  ForbiddenError,
-  NotFoundError,
-} from "@/errors/error-types";
+import type { CatalogQueryDto } from "@/dto/shared.dto";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import { type Actor, assertCanManageRecord } from "@/policies/access.policy";
 import { Prisma } from "@prisma/client";
 
 class AuthorService {
@@ -33,7 +30,7 @@ class AuthorService {
   }
 
   async getAllAuthors(
-    query: PaginationQueryDto,
+    query: CatalogQueryDto,
     requestingUserId?: string
   ): Promise<{ data: AuthorOutput[]; meta: any }> {
     const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
@@ -46,7 +43,7 @@ class AuthorService {
       limit,
       sortBy,
       search,
-      requestingUserId,
+      query.mine ? requestingUserId : undefined,
       requestingUserId
     );
 
@@ -67,7 +64,7 @@ class AuthorService {
   async updateAuthor(
     authorId: string,
     authorData: UpdateAuthorDto,
-    requestingUserId: string
+    requestingUser: Actor
   ) {
     const author = await AuthorDao.findAuthorById(authorId);
 
@@ -75,22 +72,18 @@ class AuthorService {
       throw new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND);
     }
 
-    if (author.createdById !== requestingUserId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
+    assertCanManageRecord(requestingUser, author);
     return AuthorDao.updateAuthor(authorId, authorData);
   }
 
-  async deleteAuthor(authorId: string, requestingUserId: string) {
+  async deleteAuthor(authorId: string, requestingUser: Actor) {
     const author = await AuthorDao.findAuthorById(authorId);
 
     if (!author) {
       throw new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND);
     }
 
-    if (author.createdById !== requestingUserId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
+    assertCanManageRecord(requestingUser, author);
     try {
       await AuthorDao.deleteAuthor(authorId);
     } catch (error) {
@@ -6,12 +6,9 @@ import {
 import AuthorDao from "@/dao/author.dao";
 import BookDao from "@/dao/book.dao";
 import type { BookOutput, CreateBookDto, UpdateBookDto } from "@/dto/book.dto";
-import type { PaginationQueryDto } from "@/dto/shared.dto";
-import {
-  ConflictError,
-  ForbiddenError,
-  NotFoundError,
-} from "@/errors/error-types";
+import type { CatalogQueryDto } from "@/dto/shared.dto";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import { type Actor, assertCanManageRecord } from "@/policies/access.policy";
 
 class BookService {
   async createBook(bookData: CreateBookDto, userId: string) {
@@ -41,7 +38,7 @@ class BookService {
   }
 
   async getAllBooks(
-    query: PaginationQueryDto & { authorId?: string },
+    query: CatalogQueryDto & { authorId?: string },
     requestingUserId?: string
   ) {
     const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
@@ -55,7 +52,7 @@ class BookService {
       limit,
       sortBy,
       search,
-      requestingUserId,
+      query.mine ? requestingUserId : undefined,
       authorId,
       requestingUserId
     );
@@ -78,16 +75,14 @@ class BookService {
   async updateBook(
     bookId: string,
     bookData: UpdateBookDto,
-    requestingUserId: string
+    requestingUser: Actor
   ) {
     const book = await BookDao.findBookById(bookId);
     if (!book) {
       throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
     }
 
-    if (book.createdById !== requestingUserId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
+    assertCanManageRecord(requestingUser, book);
 
     if (bookData.authorIds) {
       for (const authorId of bookData.authorIds) {
@@ -108,15 +103,13 @@ class BookService {
     return BookDao.updateBook(bookId, bookData);
   }
 
-  async deleteBook(bookId: string, requestingUserId: string) {
+  async deleteBook(bookId: string, requestingUser: Actor) {
     const book = await BookDao.findBookById(bookId);
     if (!book) {
       throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
     }
 
-    if (book.createdById !== requestingUserId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
+    assertCanManageRecord(requestingUser, book);
 
     return BookDao.deleteBook(bookId);
   }
@@ -0,0 +1,156 @@
+import { config } from "@/config";
+import { TooManyRequestsError } from "@/errors/error-types";
+import { attemptStore } from "@/throttle";
+import { addMinutes } from "@/utils/token";
+
+const loginAccountKey = (email: string) =>
+  `login:account:${email.toLowerCase()}`;
+const loginIpKey = (ip: string) => `login:ip:${ip}`;
+const registerIpKey = (ip: string) => `register:ip:${ip}`;
+const passwordResetAccountKey = (email: string) =>
+  `forgot-password:account:${email.toLowerCase()}`;
+const passwordResetIpKey = (ip: string) => `forgot-password:ip:${ip}`;
+const magicLinkAccountKey = (email: string) =>
+  `magic-link:account:${email.toLowerCase()}`;
+const magicLinkIpKey = (ip: string) => `magic-link:ip:${ip}`;
+const verificationResendAccountKey = (userId: string) =>
+  `verification-resend:account:${userId}`;
+const verificationResendIpKey = (ip: string) => `verification-resend:ip:${ip}`;
+
+class BruteForceService {
+  // Rejects locked callers, then slows down an account that keeps failing
+  async guardLogin(email: string, ip?: string) {
+    await this.assertNotLocked(
+      loginAccountKey(email),
+      ...(ip ? [loginIpKey(ip)] : [])
+    );
+
+    const failures = await attemptStore.getCount(loginAccountKey(email));
+    const delayMs = this.getLoginDelayMs(failures);
+    if (delayMs > 0) {
+      await this.wait(delayMs);
+    }
+  }
+
+  // Returns the end of the account lockout when this failure triggered it
+  async recordLoginFailure(email: string, ip?: string) {
+    const { bruteForce } = config;
+    if (ip) {
+      await this.recordAttempt(
+        loginIpKey(ip),
+        bruteForce.maxLoginFailuresPerIp
+      );
+    }
+    return this.recordAttempt(
+      loginAccountKey(email),
+      bruteForce.maxLoginFailuresPerAccount
+    );
+  }
+
+  // Called after a successful login or password reset. The per-IP counter is
+  // left alone so one valid account cannot be used to reset an attacker's budget
+  async clearLoginFailures(email: string) {
+    await attemptStore.reset(loginAccountKey(email));
+  }
+
+  async guardRegistration(ip?: string) {
+    if (!ip) return;
+    await this.assertNotLocked(registerIpKey(ip));
+    await this.recordAttempt(
+      registerIpKey(ip),
+      config.bruteForce.maxRegistrationsPerIp
+    );
+  }
+
+  async guardPasswordReset(email: string, ip?: string) {
+    const { bruteForce } = config;
+    await this.guardEmailedLink(
+      passwordResetAccountKey(email),
+      ip && passwordResetIpKey(ip),
+      {
+        perAccount: bruteForce.maxPasswordResetsPerAccount,
+        perIp: bruteForce.maxPasswordResetsPerIp,
+      }
+    );
+  }
+
+  async guardMagicLink(email: string, ip?: string) {
+    const { bruteForce } = config;
+    await this.guardEmailedLink(
+      magicLinkAccountKey(email),
+      ip && magicLinkIpKey(ip),
+      {
+        perAccount: bruteForce.maxMagicLinksPerAccount,
+        perIp: bruteForce.maxMagicLinksPerIp,
+      }
+    );
+  }
+
+  async guardVerificationResend(userId: string, ip?: string) {
+    const { bruteForce } = config;
+    await this.guardEmailedLink(
+      verificationResendAccountKey(userId),
+      ip && verificationResendIpKey(ip),
+      {
+        perAccount: bruteForce.maxVerificationResendsPerAccount,
+        perIp: bruteForce.maxVerificationResendsPerIp,
+      }
+    );
+  }
+
+  // Exponential backoff once the account has failed more than delayAfterFailures times
+  getLoginDelayMs(failures: number) {
+    const { delayAfterFailures, baseDelayMs, maxDelayMs } = config.bruteForce;
+    if (failures < delayAfterFailures) return 0;
+    return Math.min(
+      baseDelayMs * 2 ** (failures - delayAfterFailures),
+      maxDelayMs
+    );
+  }
+
+  // Every request counts, whether or not an account exists for the email
+  private async guardEmailedLink(
+    accountKey: string,
+    ipKey: string | undefined,
+    limits: { perAccount: number; perIp: number }
+  ) {
+    await this.assertNotLocked(accountKey, ...(ipKey ? [ipKey] : []));
+
+    if (ipKey) {
+      await this.recordAttempt(ipKey, limits.perIp);
+    }
+    await this.recordAttempt(accountKey, limits.perAccount);
+  }
+
+  private async assertNotLocked(...keys: string[]) {
+    for (const key of keys) {
+      const lockedUntil = await attemptStore.getLockedUntil(key);
+      if (lockedUntil) {
+        throw new TooManyRequestsError(
+          undefined,
+          Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+        );
+      }
+    }
+  }
+
+  // Counts an attempt and locks the key once it reaches maxAttempts
+  private async recordAttempt(key: string, maxAttempts: number) {
+    const { windowMinutes, lockoutMinutes } = config.bruteForce;
+    const attempts = await attemptStore.increment(
+      key,
+      windowMinutes * 60 * 1000
+    );
+    if (attempts < maxAttempts) return null;
+
+    const lockedUntil = addMinutes(new Date(), lockoutMinutes);
+    await attemptStore.lock(key, lockedUntil);
+    return lockedUntil;
+  }
+
+  private wait(ms: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+export default new BruteForceService();
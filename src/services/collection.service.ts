@@ -0,0 +1,265 @@
+import {
+  DEFAULT_PAGE_LIMIT,
+  DEFAULT_PAGE_NUMBER,
+  ErrorMessages,
+} from "@/constants";
+import BookDao from "@/dao/book.dao";
+import CollectionDao from "@/dao/collection.dao";
+import type { BookOutput } from "@/dto/book.dto";
+import type {
+  AddCollectionItemDto,
+  CollectionItemOutput,
+  CollectionOutput,
+  CreateCollectionDto,
+  UpdateCollectionDto,
+  UpdateCollectionItemDto,
+} from "@/dto/collection.dto";
+import type { PaginationQueryDto } from "@/dto/shared.dto";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import {
+  type Book,
+  type Collection,
+  type CollectionItem,
+  CollectionVisibility,
+  Prisma,
+} from "@prisma/client";
+
+type CollectionWithCount = Collection & { _count: { items: number } };
+type CollectionItemWithBook = CollectionItem & {
+  book: Book & { authors: any[] };
+};
+
+const toCollectionOutput = ({
+  _count,
+  userId,
+  ...collection
+}: CollectionWithCount): CollectionOutput => ({
+  ...collection,
+  itemCount: _count.items,
+});
+
+const toCollectionItemOutput = (
+  item: CollectionItemWithBook
+): CollectionItemOutput => ({
+  book: item.book as BookOutput,
+  note: item.note,
+  position: item.position,
+  addedAt: item.addedAt,
+});
+
+const toPage = <T>(
+  data: T[],
+  totalItems: number,
+  page: number,
+  limit: number
+) => ({
+  data,
+  meta: {
+    totalItems,
+    itemCount: data.length,
+    itemsPerPage: limit,
+    totalPages: limit > 0 ? Math.ceil(totalItems / limit) : 0,
+    currentPage: page,
+  },
+});
+
+class CollectionService {
+  async createCollection(userId: string, collectionData: CreateCollectionDto) {
+    const collection = await CollectionDao.createCollection(
+      collectionData,
+      userId
+    );
+    return toCollectionOutput(collection);
+  }
+
+  async getMyCollections(userId: string, query: PaginationQueryDto) {
+    return this.listCollections(query, userId);
+  }
+
+  // Public collections of every user; unlisted ones are left out
+  async getPublicCollections(query: PaginationQueryDto) {
+    return this.listCollections(query, undefined, CollectionVisibility.PUBLIC);
+  }
+
+  async getCollection(userId: string, collectionId: string) {
+    const collection = await this.getOwnedCollection(userId, collectionId);
+    return toCollectionOutput(collection);
+  }
+
+  async getSharedCollection(collectionId: string) {
+    const collection = await this.getSharedCollectionOrThrow(collectionId);
+    return toCollectionOutput(collection);
+  }
+
+  async updateCollection(
+    userId: string,
+    collectionId: string,
+    collectionData: UpdateCollectionDto
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+    const collection = await CollectionDao.updateCollection(
+      collectionId,
+      collectionData
+    );
+    return toCollectionOutput(collection);
+  }
+
+  async deleteCollection(userId: string, collectionId: string) {
+    await this.getOwnedCollection(userId, collectionId);
+    await CollectionDao.deleteCollection(collectionId);
+  }
+
+  async getCollectionItems(
+    userId: string,
+    collectionId: string,
+    query: Pick<PaginationQueryDto, "page" | "limit">
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+    return this.listItems(collectionId, query);
+  }
+
+  async getSharedCollectionItems(
+    collectionId: string,
+    query: Pick<PaginationQueryDto, "page" | "limit">
+  ) {
+    await this.getSharedCollectionOrThrow(collectionId);
+    return this.listItems(collectionId, query);
+  }
+
+  async addCollectionItem(
+    userId: string,
+    collectionId: string,
+    itemData: AddCollectionItemDto
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const book = await BookDao.findBookById(itemData.bookId);
+    if (!book) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
+    }
+
+    const existing = await CollectionDao.findCollectionItem(
+      collectionId,
+      itemData.bookId
+    );
+    if (existing) {
+      throw new ConflictError(ErrorMessages.BOOK_ALREADY_IN_COLLECTION);
+    }
+
+    try {
+      const item = await CollectionDao.addCollectionItem(
+        collectionId,
+        itemData
+      );
+      return toCollectionItemOutput(item);
+    } catch (error) {
+      // The same book was added by a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new ConflictError(ErrorMessages.BOOK_ALREADY_IN_COLLECTION);
+      }
+      throw error;
+    }
+  }
+
+  async updateCollectionItem(
+    userId: string,
+    collectionId: string,
+    bookId: string,
+    itemData: UpdateCollectionItemDto
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    let item = await CollectionDao.findCollectionItem(collectionId, bookId);
+    if (!item) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_IN_COLLECTION);
+    }
+
+    if (itemData.note !== undefined) {
+      item = await CollectionDao.updateCollectionItemNote(
+        item.id,
+        itemData.note
+      );
+    }
+    if (itemData.position !== undefined) {
+      item = await CollectionDao.moveCollectionItem(
+        collectionId,
+        item.id,
+        itemData.position
+      );
+    }
+    return toCollectionItemOutput(item);
+  }
+
+  async removeCollectionItem(
+    userId: string,
+    collectionId: string,
+    bookId: string
+  ) {
+    await this.getOwnedCollection(userId, collectionId);
+
+    const { count } = await CollectionDao.deleteCollectionItem(
+      collectionId,
+      bookId
+    );
+    if (count === 0) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_IN_COLLECTION);
+    }
+  }
+
+  private async listCollections(
+    query: PaginationQueryDto,
+    userId?: string,
+    visibility?: CollectionVisibility
+  ) {
+    const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+    const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+
+    const { collections, totalItems } = await CollectionDao.findAllCollections(
+      page,
+      limit,
+      query.sortBy,
+      query.search,
+      userId,
+      visibility
+    );
+    return toPage(collections.map(toCollectionOutput), totalItems, page, limit);
+  }
+
+  private async listItems(
+    collectionId: string,
+    query: Pick<PaginationQueryDto, "page" | "limit">
+  ) {
+    const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+    const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+
+    const { items, totalItems } = await CollectionDao.findCollectionItems(
+      collectionId,
+      page,
+      limit
+    );
+    return toPage(items.map(toCollectionItemOutput), totalItems, page, limit);
+  }
+
+  // Collections of other users are reported as missing, so private ones
+  // cannot be discovered by id
+  private async getOwnedCollection(userId: string, collectionId: string) {
+    const collection = await CollectionDao.findCollectionById(collectionId);
+    if (!collection || collection.userId !== userId) {
+      throw new NotFoundError(ErrorMessages.COLLECTION_NOT_FOUND);
+    }
+    return collection;
+  }
+
+  private async getSharedCollectionOrThrow(collectionId: string) {
+    const collection = await CollectionDao.findCollectionById(collectionId);
+    if (!collection || collection.visibility === CollectionVisibility.PRIVATE) {
+      throw new NotFoundError(ErrorMessages.COLLECTION_NOT_FOUND);
+    }
+    return collection;
+  }
+}
+
+export default new CollectionService();
@@ -0,0 +1,202 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import ApiKeyDao from "@/dao/api-key.dao";
+import AuditLogDao from "@/dao/audit-log.dao";
+import AuthorDao from "@/dao/author.dao";
+import BookDao from "@/dao/book.dao";
+import CollectionDao from "@/dao/collection.dao";
+import FavoriteDao from "@/dao/favorite.dao";
+import OidcDao from "@/dao/oidc.dao";
+import ReviewDao from "@/dao/review.dao";
+import SessionDao from "@/dao/session.dao";
+import UserDao from "@/dao/user.dao";
+import { NotFoundError, TooManyRequestsError } from "@/errors/error-types";
+import { attemptStore } from "@/throttle";
+import { omitPasswordFromResult } from "@/utils/password";
+import { FavoriteTargetType, type User } from "@prisma/client";
+
+// Records are read and written in batches so large accounts never sit in memory at once
+const BATCH_SIZE = 100;
+
+const dataExportKey = (userId: string) => `data-export:user:${userId}`;
+
+type Section = () => AsyncIterable<unknown>;
+
+// Yields one page at a time until a page comes back short
+async function* paginate<T>(fetchPage: (page: number) => Promise<T[]>) {
+  for (let page = 1; ; page++) {
+    const items = await fetchPage(page);
+    yield* items;
+    if (items.length < BATCH_SIZE) return;
+  }
+}
+
+async function* inBatches<T>(
+  ids: string[],
+  fetchBatch: (ids: string[]) => Promise<T[]>
+) {
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    yield* await fetchBatch(ids.slice(start, start + BATCH_SIZE));
+  }
+}
+
+// The favorited items of one type, in the user's manual order
+async function* favoriteTargets<T>(
+  userId: string,
+  targetType: FavoriteTargetType,
+  fetchBatch: (ids: string[]) => Promise<T[]>
+) {
+  const favorites = await FavoriteDao.findFavoritesByUser(userId, targetType);
+  yield* inBatches(
+    favorites.map((favorite) => favorite.targetId),
+    fetchBatch
+  );
+}
+
+async function* fromList<T>(load: () => Promise<T[]>) {
+  yield* await load();
+}
+
+// Writes { "name": [ ...items ], ... } without building the whole document
+async function* serializeSections(
+  header: Record<string, unknown>,
+  sections: Record<string, Section>
+) {
+  const headerJson = JSON.stringify(header, null, 2);
+  yield headerJson.slice(0, -2);
+
+  for (const [name, section] of Object.entries(sections)) {
+    yield `,\n  ${JSON.stringify(name)}: [`;
+    let isFirst = true;
+    for await (const item of section()) {
+      yield `${isFirst ? "" : ","}\n    ${JSON.stringify(item)}`;
+      isFirst = false;
+    }
+    yield isFirst ? "]" : "\n  ]";
+  }
+  yield "\n}\n";
+}
+
+class DataExportService {
+  // Checks the rate limit before anything is sent, so a refusal is still a
+  // regular JSON error response
+  async createUserExport(userId: string) {
+    await this.guardExportRate(userId);
+
+    const user = await UserDao.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+
+    const exportedAt = new Date();
+    return {
+      fileName: `beehive-export-${user.id}-${exportedAt.toISOString().slice(0, 10)}.json`,
+      content: this.serializeUserData(user, exportedAt),
+    };
+  }
+
+  private serializeUserData(user: User, exportedAt: Date) {
+    const profile = omitPasswordFromResult(user);
+
+    return serializeSections(
+      { exportedAt, profile },
+      {
+        books: () =>
+          paginate(
+            async (page) =>
+              (
+                await BookDao.findAllBooks(
+                  page,
+                  BATCH_SIZE,
+                  "id:asc",
+                  undefined,
+                  user.id
+                )
+              ).books
+          ),
+        authors: () =>
+          paginate(
+            async (page) =>
+              (
+                await AuthorDao.findAllAuthors(
+                  page,
+                  BATCH_SIZE,
+                  "id:asc",
+                  undefined,
+                  user.id
+                )
+              ).authors
+          ),
+        favoriteBooks: () =>
+          favoriteTargets(user.id, FavoriteTargetType.BOOK, (ids) =>
+            BookDao.findBooksByIds(ids)
+          ),
+        favoriteAuthors: () =>
+          favoriteTargets(user.id, FavoriteTargetType.AUTHOR, (ids) =>
+            AuthorDao.findAuthorsByIds(ids)
+          ),
+        favorites: () =>
+          fromList(async () =>
+            (await FavoriteDao.findAllFavoritesByUser(user.id)).map(
+              ({ userId, ...favorite }) => favorite
+            )
+          ),
+        collections: () =>
+          fromList(async () =>
+            (await CollectionDao.findCollectionsWithItemsByUser(user.id)).map(
+              ({ userId, items, ...collection }) => ({
+                ...collection,
+                items: items.map(({ collectionId, ...item }) => item),
+              })
+            )
+          ),
+        reviews: () =>
+          fromList(async () =>
+            (await ReviewDao.findReviewsByUser(user.id)).map(
+              ({ userId, ...review }) => review
+            )
+          ),
+        sessions: () =>
+          fromList(async () =>
+            (await SessionDao.findSessionsByUser(user.id)).map(
+              ({ familyId, ...session }) => session
+            )
+          ),
+        apiKeys: () =>
+          fromList(async () =>
+            (await ApiKeyDao.findApiKeysByUser(user.id)).map(
+              ({ keyHash, ...apiKey }) => apiKey
+            )
+          ),
+        identities: () => fromList(() => OidcDao.findIdentitiesByUser(user.id)),
+        auditLog: () =>
+          paginate((page) =>
+            AuditLogDao.findAuditLogsForUser(
+              user.id,
+              (page - 1) * BATCH_SIZE,
+              BATCH_SIZE
+            )
+          ),
+      }
+    );
+  }
+
+  private async guardExportRate(userId: string) {
+    const key = dataExportKey(userId);
+    const lockedUntil = await attemptStore.getLockedUntil(key);
+    if (lockedUntil) {
+      throw new TooManyRequestsError(
+        ErrorMessages.DATA_EXPORT_RATE_LIMITED,
+        Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+      );
+    }
+
+    const windowMs = config.dataExport.windowMinutes * 60 * 1000;
+    const exports = await attemptStore.increment(key, windowMs);
+    if (exports >= config.dataExport.maxPerWindow) {
+      await attemptStore.lock(key, new Date(Date.now() + windowMs));
+    }
+  }
+}
+
+export default new DataExportService();
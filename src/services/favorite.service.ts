@@ -2,198 +2,647 @@ import {
   DEFAULT_PAGE_LIMIT,
   DEFAULT_PAGE_NUMBER,
   ErrorMessages,
+  POPULARITY_WINDOW_DAYS,
 } from "@/constants";
 import AuthorDao from "@/dao/author.dao";
 import BookDao from "@/dao/book.dao";
-import UserDao from "@/dao/user.dao";
-import { prisma } from "@/db/client";
-import type { PaginationQueryDto } from "@/dto/shared.dto";
+import FavoriteDao from "@/dao/favorite.dao";
+import type {
+  AddFavoriteDto,
+  BulkFavoriteResult,
+  BulkFavoritesDto,
+  FavoriteDetails,
+  FavoriteOutput,
+  FavoriteState,
+  FavoriteTarget,
+  FavoritesSummary,
+  SetFavoriteDto,
+  UpdateFavoriteDto,
+} from "@/dto/favorite.dto";
+import type { PaginationQueryDto, PopularQueryDto } from "@/dto/shared.dto";
 import {
   BadRequestError,
-  ForbiddenError,
+  ConflictError,
   NotFoundError,
 } from "@/errors/error-types";
-import type { Author, Prisma as PrismaTypes, User } from "@prisma/client";
+import {
+  type Author,
+  type Book,
+  type Favorite,
+  FavoriteTargetType,
+  Prisma,
+} from "@prisma/client";
+
+const DEFAULT_FAVORITE_SORT = "addedAt:desc";
+
+type SortDirection = "asc" | "desc";
+
+// How the listings load one kind of favorited item
+interface FavoriteTargetSource<T extends { id: string }> {
+  targetType: FavoriteTargetType;
+  // The item's own field accepted by sortBy, e.g. "title" for books
+  titleField: string;
+  findPageSortedByTitle(
+    ids: string[],
+    page: number,
+    limit: number,
+    direction: SortDirection,
+    search?: string
+  ): Promise<{ items: T[]; totalItems: number }>;
+  findMatchingIds(ids: string[], search: string): Promise<string[]>;
+  findByIds(ids: string[]): Promise<T[]>;
+}
 
-class FavoriteService {
-  async addAuthorToFavorites(userId: string, authorId: string): Promise<User> {
-    const userExists = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, favoriteAuthorIds: true },
-    });
+const bookSource: FavoriteTargetSource<Book & { authors: any[] }> = {
+  targetType: FavoriteTargetType.BOOK,
+  titleField: "title",
+  async findPageSortedByTitle(ids, page, limit, direction, search) {
+    const { books, totalItems } = await BookDao.findAllBooks(
+      page,
+      limit,
+      `title:${direction}`,
+      search,
+      undefined,
+      undefined,
+      undefined,
+      ids
+    );
+    return { items: books, totalItems };
+  },
+  findMatchingIds: (ids, search) => BookDao.findMatchingBookIds(ids, search),
+  findByIds: (ids) => BookDao.findBooksByIds(ids),
+};
+
+const authorSource: FavoriteTargetSource<Author> = {
+  targetType: FavoriteTargetType.AUTHOR,
+  titleField: "name",
+  async findPageSortedByTitle(ids, page, limit, direction, search) {
+    const { authors, totalItems } = await AuthorDao.findAllAuthors(
+      page,
+      limit,
+      `name:${direction}`,
+      search,
+      undefined,
+      undefined,
+      ids
+    );
+    return { items: authors, totalItems };
+  },
+  findMatchingIds: (ids, search) =>
+    AuthorDao.findMatchingAuthorIds(ids, search),
+  findByIds: (ids) => AuthorDao.findAuthorsByIds(ids),
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// How the popularity lists load one kind of favorited item
+interface PopularTargetSource<T extends { id: string; favoriteCount: number }> {
+  targetType: FavoriteTargetType;
+  findMostFavorited(
+    page: number,
+    limit: number,
+    requestingUserId?: string
+  ): Promise<{ items: T[]; totalItems: number }>;
+  findByIds(ids: string[], requestingUserId?: string): Promise<T[]>;
+}
 
-    if (!userExists) {
-      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
+const popularBookSource: PopularTargetSource<Book & { authors: any[] }> = {
+  targetType: FavoriteTargetType.BOOK,
+  async findMostFavorited(page, limit, requestingUserId) {
+    const { books, totalItems } = await BookDao.findMostFavoritedBooks(
+      page,
+      limit,
+      requestingUserId
+    );
+    return { items: books, totalItems };
+  },
+  findByIds: (ids, requestingUserId) =>
+    BookDao.findBooksByIdsForUser(ids, requestingUserId),
+};
+
+const popularAuthorSource: PopularTargetSource<Author> = {
+  targetType: FavoriteTargetType.AUTHOR,
+  async findMostFavorited(page, limit, requestingUserId) {
+    const { authors, totalItems } = await AuthorDao.findMostFavoritedAuthors(
+      page,
+      limit,
+      requestingUserId
+    );
+    return { items: authors, totalItems };
+  },
+  findByIds: (ids, requestingUserId) =>
+    AuthorDao.findAuthorsByIdsForUser(ids, requestingUserId),
+};
+
+const toFavoriteDetails = (favorite: Favorite): FavoriteDetails => ({
+  note: favorite.note,
+  position: favorite.position,
+  addedAt: favorite.createdAt,
+});
+
+const toFavoriteOutput = (favorite: Favorite): FavoriteOutput => ({
+  targetType: favorite.targetType,
+  targetId: favorite.targetId,
+  ...toFavoriteDetails(favorite),
+});
+
+const toFavoriteState = (
+  targetType: FavoriteTargetType,
+  targetId: string,
+  favorite: Favorite | null
+): FavoriteState => ({
+  targetType,
+  targetId,
+  isFavorite: favorite !== null,
+  favorite: favorite && toFavoriteDetails(favorite),
+});
+
+const favoriteKey = ({ targetType, targetId }: FavoriteTarget) =>
+  `${targetType}:${targetId}`;
+
+const isUniqueConstraintError = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+// Sorting by date or manual order happens on the favorites, so the page is
+// cut from the ordered ids before the items are loaded
+const listFavorites = async <T extends { id: string }>(
+  source: FavoriteTargetSource<T>,
+  userId: string,
+  query: PaginationQueryDto
+) => {
+  const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+  const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+  const [field, direction] = (query.sortBy ?? DEFAULT_FAVORITE_SORT).split(
+    ":"
+  ) as [string, SortDirection];
+
+  const favorites = await FavoriteDao.findFavoritesByUser(
+    userId,
+    source.targetType,
+    field === "addedAt" ? "createdAt" : "position",
+    direction
+  );
+  const favoritesByTargetId = new Map(
+    favorites.map((favorite) => [favorite.targetId, favorite])
+  );
+
+  let items: T[] = [];
+  let totalItems = 0;
+  if (favorites.length > 0 && field === source.titleField) {
+    ({ items, totalItems } = await source.findPageSortedByTitle(
+      [...favoritesByTargetId.keys()],
+      page,
+      limit,
+      direction,
+      query.search
+    ));
+  } else if (favorites.length > 0) {
+    let orderedIds = favorites.map((favorite) => favorite.targetId);
+    if (query.search) {
+      const matchingIds = new Set(
+        await source.findMatchingIds(orderedIds, query.search)
+      );
+      orderedIds = orderedIds.filter((id) => matchingIds.has(id));
     }
+    const pageIds = orderedIds.slice((page - 1) * limit, page * limit);
+    const itemsById = new Map(
+      (await source.findByIds(pageIds)).map((item) => [item.id, item])
+    );
+    items = pageIds.flatMap((id) => itemsById.get(id) ?? []);
+    totalItems = orderedIds.length;
+  }
+
+  return {
+    data: items.map((item) => ({
+      ...item,
+      isFavorite: true as const,
+      favorite: toFavoriteDetails(favoritesByTargetId.get(item.id)!),
+    })),
+    meta: {
+      totalItems,
+      itemCount: items.length,
+      itemsPerPage: limit,
+      totalPages: Math.ceil(totalItems / limit),
+      currentPage: page,
+    },
+  };
+};
+
+// The all-time list reads the denormalized favoriteCount. Shorter windows
+// count the favorites added since the cutoff, so favorites removed since
+// then no longer count
+const listPopular = async <T extends { id: string; favoriteCount: number }>(
+  source: PopularTargetSource<T>,
+  query: PopularQueryDto,
+  requestingUserId?: string
+) => {
+  const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+  const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+  const days = POPULARITY_WINDOW_DAYS[query.window];
+
+  let ranked: { item: T; favoriteCount: number }[];
+  let totalItems: number;
+  if (days === null) {
+    const result = await source.findMostFavorited(
+      page,
+      limit,
+      requestingUserId
+    );
+    ranked = result.items.map((item) => ({
+      item,
+      favoriteCount: item.favoriteCount,
+    }));
+    totalItems = result.totalItems;
+  } else {
+    const since = new Date(Date.now() - days * DAY_IN_MS);
+    const result = await FavoriteDao.findMostFavoritedSince(
+      source.targetType,
+      since,
+      (page - 1) * limit,
+      limit
+    );
+    const itemsById = new Map(
+      (
+        await source.findByIds(
+          result.counts.map(({ targetId }) => targetId),
+          requestingUserId
+        )
+      ).map((item) => [item.id, item])
+    );
+    ranked = result.counts.flatMap(({ targetId, count }) => {
+      const item = itemsById.get(targetId);
+      return item ? [{ item, favoriteCount: count }] : [];
+    });
+    totalItems = result.totalItems;
+  }
 
+  return {
+    data: ranked.map(({ item, favoriteCount }) => ({
+      ...item,
+      popularity: { window: query.window, favoriteCount },
+    })),
+    meta: {
+      totalItems,
+      itemCount: ranked.length,
+      itemsPerPage: limit,
+      totalPages: Math.ceil(totalItems / limit),
+      currentPage: page,
+    },
+  };
+};
+
+class FavoriteService {
+  async addAuthorToFavorites(
+    userId: string,
+    authorId: string,
+    favoriteData: AddFavoriteDto = {}
+  ): Promise<FavoriteOutput> {
     const author = await AuthorDao.findAuthorById(authorId);
     if (!author) {
       throw new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND);
     }
 
-    if (author.createdById !== userId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
-
-    if (userExists.favoriteAuthorIds.includes(authorId)) {
-      throw new BadRequestError(
-        ErrorMessages.ITEM_ALREADY_IN_FAVORITES("Author")
-      );
-    }
-    return UserDao.addAuthorToFavorites(userId, authorId);
+    return this.addFavorite(
+      userId,
+      FavoriteTargetType.AUTHOR,
+      authorId,
+      favoriteData,
+      "Author"
+    );
   }
 
   async removeAuthorFromFavorites(
     userId: string,
     authorId: string
-  ): Promise<User | null> {
-    const userExists = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, favoriteAuthorIds: true },
-    });
-
-    if (!userExists) {
-      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
-    }
-
+  ): Promise<void> {
     const author = await AuthorDao.findAuthorById(authorId);
     if (!author) {
       throw new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND);
     }
 
-    if (author.createdById !== userId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
-    }
+    await this.removeFavorite(
+      userId,
+      FavoriteTargetType.AUTHOR,
+      authorId,
+      "Author"
+    );
+  }
 
-    if (!userExists.favoriteAuthorIds.includes(authorId)) {
-      throw new BadRequestError(ErrorMessages.ITEM_NOT_IN_FAVORITES("Author"));
+  async setAuthorFavorite(
+    userId: string,
+    authorId: string,
+    favoriteData: SetFavoriteDto
+  ): Promise<FavoriteState> {
+    const author = await AuthorDao.findAuthorById(authorId);
+    if (!author) {
+      throw new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND);
     }
-    return UserDao.removeAuthorFromFavorites(userId, authorId);
+
+    return this.setFavorite(
+      userId,
+      FavoriteTargetType.AUTHOR,
+      authorId,
+      favoriteData
+    );
   }
 
-  async getFavoriteAuthors(
+  async updateFavoriteAuthor(
     userId: string,
-    query: PaginationQueryDto
-  ): Promise<{ data: Author[]; meta: object }> {
-    const userWithFavoriteIds = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { favoriteAuthorIds: true },
-    });
+    authorId: string,
+    updateData: UpdateFavoriteDto
+  ): Promise<FavoriteOutput> {
+    return this.updateFavorite(
+      userId,
+      FavoriteTargetType.AUTHOR,
+      authorId,
+      updateData,
+      "Author"
+    );
+  }
 
-    if (!userWithFavoriteIds) {
-      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
-    }
-
-    const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
-    const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
-    const skip = (page - 1) * limit;
-
-    if (
-      !userWithFavoriteIds.favoriteAuthorIds ||
-      userWithFavoriteIds.favoriteAuthorIds.length === 0
-    ) {
-      return {
-        data: [],
-        meta: {
-          totalItems: 0,
-          itemCount: 0,
-          itemsPerPage: limit,
-          totalPages: 0,
-          currentPage: page,
-        },
-      };
-    }
-
-    const whereClause: PrismaTypes.AuthorWhereInput = {
-      id: { in: userWithFavoriteIds.favoriteAuthorIds },
-      createdById: userId,
-    };
+  async getFavoriteAuthors(userId: string, query: PaginationQueryDto) {
+    return listFavorites(authorSource, userId, query);
+  }
 
-    const favoriteAuthors = await prisma.author.findMany({
-      where: whereClause,
-      skip: skip,
-      take: limit,
-    });
+  async getFavoriteBooks(userId: string, query: PaginationQueryDto) {
+    return listFavorites(bookSource, userId, query);
+  }
 
-    const totalFavoriteAuthors = await prisma.author.count({
-      where: whereClause,
-    });
+  async getPopularBooks(query: PopularQueryDto, requestingUserId?: string) {
+    return listPopular(popularBookSource, query, requestingUserId);
+  }
 
-    const totalPages = Math.ceil(totalFavoriteAuthors / limit);
-    const itemCount = favoriteAuthors.length;
+  async getPopularAuthors(query: PopularQueryDto, requestingUserId?: string) {
+    return listPopular(popularAuthorSource, query, requestingUserId);
+  }
 
-    const resultData = favoriteAuthors.map((author) => ({
-      ...author,
-      isFavorite: true,
-    }));
+  async getFavoritesSummary(userId: string): Promise<FavoritesSummary> {
+    const [bookCount, authorCount] = await Promise.all([
+      FavoriteDao.countFavorites(userId, FavoriteTargetType.BOOK),
+      FavoriteDao.countFavorites(userId, FavoriteTargetType.AUTHOR),
+    ]);
 
-    return {
-      data: resultData,
-      meta: {
-        totalItems: totalFavoriteAuthors,
-        itemCount,
-        itemsPerPage: limit,
-        totalPages,
-        currentPage: page,
-      },
-    };
+    return { bookCount, authorCount, totalCount: bookCount + authorCount };
   }
 
-  async addBookToFavorites(userId: string, bookId: string): Promise<User> {
-    const userExists = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, favoriteBookIds: true },
-    });
-
-    if (!userExists) {
-      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
+  async addBookToFavorites(
+    userId: string,
+    bookId: string,
+    favoriteData: AddFavoriteDto = {}
+  ): Promise<FavoriteOutput> {
+    const book = await BookDao.findBookById(bookId);
+    if (!book) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
     }
 
+    return this.addFavorite(
+      userId,
+      FavoriteTargetType.BOOK,
+      bookId,
+      favoriteData,
+      "Book"
+    );
+  }
+
+  async removeBookFromFavorites(userId: string, bookId: string): Promise<void> {
     const book = await BookDao.findBookById(bookId);
     if (!book) {
       throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
     }
 
-    if (book.createdById !== userId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
+    await this.removeFavorite(userId, FavoriteTargetType.BOOK, bookId, "Book");
+  }
+
+  async setBookFavorite(
+    userId: string,
+    bookId: string,
+    favoriteData: SetFavoriteDto
+  ): Promise<FavoriteState> {
+    const book = await BookDao.findBookById(bookId);
+    if (!book) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
     }
 
-    if (userExists.favoriteBookIds.includes(bookId)) {
+    return this.setFavorite(
+      userId,
+      FavoriteTargetType.BOOK,
+      bookId,
+      favoriteData
+    );
+  }
+
+  async updateFavoriteBook(
+    userId: string,
+    bookId: string,
+    updateData: UpdateFavoriteDto
+  ): Promise<FavoriteOutput> {
+    return this.updateFavorite(
+      userId,
+      FavoriteTargetType.BOOK,
+      bookId,
+      updateData,
+      "Book"
+    );
+  }
+
+  // Applies the operations in order, checking every added item first: either
+  // all of them take effect or, if any cannot, none do. Removing a favorite
+  // never needs the item to exist, so only additions can be rejected
+  async applyBulkFavorites(
+    userId: string,
+    { operations }: BulkFavoritesDto
+  ): Promise<BulkFavoriteResult[]> {
+    const additions = operations.filter(({ action }) => action === "add");
+    const idsOfType = (targetType: FavoriteTargetType) => [
+      ...new Set(
+        additions
+          .filter((operation) => operation.targetType === targetType)
+          .map(({ targetId }) => targetId)
+      ),
+    ];
+    const [books, authors] = await Promise.all([
+      BookDao.findBooksByIds(idsOfType(FavoriteTargetType.BOOK)),
+      AuthorDao.findAuthorsByIds(idsOfType(FavoriteTargetType.AUTHOR)),
+    ]);
+    const existingTargets = new Set([
+      ...books.map((book) => `${FavoriteTargetType.BOOK}:${book.id}`),
+      ...authors.map((author) => `${FavoriteTargetType.AUTHOR}:${author.id}`),
+    ]);
+
+    const rejected = operations.flatMap((operation, index) => {
+      if (operation.action !== "add") return [];
+      if (existingTargets.has(favoriteKey(operation))) return [];
+      const message =
+        operation.targetType === FavoriteTargetType.BOOK
+          ? ErrorMessages.BOOK_NOT_FOUND
+          : ErrorMessages.AUTHOR_NOT_FOUND;
+      return [{ index, ...operation, message }];
+    });
+    if (rejected.length > 0) {
       throw new BadRequestError(
-        ErrorMessages.ITEM_ALREADY_IN_FAVORITES("Book")
+        ErrorMessages.BULK_FAVORITES_REJECTED,
+        rejected
       );
     }
 
-    return UserDao.addBookToFavorites(userId, bookId);
+    const existing = await FavoriteDao.findFavoritesForTargets(
+      userId,
+      operations
+    );
+    const wasFavorite = new Set(existing.map(favoriteKey));
+    const isFavorite = new Set(wasFavorite);
+    const results = operations.map((operation): BulkFavoriteResult => {
+      const key = favoriteKey(operation);
+      if (operation.action === "add" && !isFavorite.has(key)) {
+        isFavorite.add(key);
+        return { ...operation, result: "added" };
+      }
+      if (operation.action === "remove" && isFavorite.has(key)) {
+        isFavorite.delete(key);
+        return { ...operation, result: "removed" };
+      }
+      return { ...operation, result: "unchanged" };
+    });
+
+    const touched = [
+      ...new Map(
+        operations.map(({ targetType, targetId }) => [
+          favoriteKey({ targetType, targetId }),
+          { targetType, targetId },
+        ])
+      ),
+    ];
+    const changes = {
+      added: touched
+        .filter(([key]) => isFavorite.has(key) && !wasFavorite.has(key))
+        .map(([, target]) => target),
+      removed: touched
+        .filter(([key]) => wasFavorite.has(key) && !isFavorite.has(key))
+        .map(([, target]) => target),
+    };
+    if (changes.added.length > 0 || changes.removed.length > 0) {
+      try {
+        await FavoriteDao.applyFavoriteChanges(userId, changes);
+      } catch (error) {
+        // Another request added one of the favorites in the meantime
+        if (isUniqueConstraintError(error)) {
+          throw new ConflictError();
+        }
+        throw error;
+      }
+    }
+    return results;
   }
 
-  async removeBookFromFavorites(
+  // Idempotent: the favorite ends up in the requested state however often
+  // the request is repeated
+  private async setFavorite(
     userId: string,
-    bookId: string
-  ): Promise<User | null> {
-    const userExists = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, favoriteBookIds: true },
-    });
+    targetType: FavoriteTargetType,
+    targetId: string,
+    { isFavorite, note }: SetFavoriteDto
+  ) {
+    if (!isFavorite) {
+      await FavoriteDao.deleteFavorite(userId, targetType, targetId);
+      return toFavoriteState(targetType, targetId, null);
+    }
 
-    if (!userExists) {
-      throw new NotFoundError(ErrorMessages.USER_NOT_FOUND);
+    let favorite = await FavoriteDao.findFavorite(userId, targetType, targetId);
+    if (!favorite) {
+      try {
+        favorite = await FavoriteDao.createFavorite({
+          userId,
+          targetType,
+          targetId,
+          note: note ?? undefined,
+        });
+      } catch (error) {
+        // A concurrent retry created it first
+        if (!isUniqueConstraintError(error)) throw error;
+        favorite = await FavoriteDao.findFavorite(userId, targetType, targetId);
+      }
+    } else if (note !== undefined && note !== favorite.note) {
+      favorite = await FavoriteDao.updateFavoriteNote(favorite.id, note);
     }
+    return toFavoriteState(targetType, targetId, favorite);
+  }
 
-    const book = await BookDao.findBookById(bookId);
-    if (!book) {
-      throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
+  private async addFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    targetId: string,
+    favoriteData: AddFavoriteDto,
+    itemName: string
+  ) {
+    if (await FavoriteDao.findFavorite(userId, targetType, targetId)) {
+      throw new BadRequestError(
+        ErrorMessages.ITEM_ALREADY_IN_FAVORITES(itemName)
+      );
     }
 
-    if (book.createdById !== userId) {
-      throw new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION);
+    try {
+      const favorite = await FavoriteDao.createFavorite({
+        userId,
+        targetType,
+        targetId,
+        note: favoriteData.note,
+      });
+      return toFavoriteOutput(favorite);
+    } catch (error) {
+      // A concurrent request added it after the check above
+      if (isUniqueConstraintError(error)) {
+        throw new BadRequestError(
+          ErrorMessages.ITEM_ALREADY_IN_FAVORITES(itemName)
+        );
+      }
+      throw error;
     }
+  }
+
+  private async removeFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    targetId: string,
+    itemName: string
+  ) {
+    const { count } = await FavoriteDao.deleteFavorite(
+      userId,
+      targetType,
+      targetId
+    );
+    if (count === 0) {
+      throw new BadRequestError(ErrorMessages.ITEM_NOT_IN_FAVORITES(itemName));
+    }
+  }
 
-    if (!userExists.favoriteBookIds.includes(bookId)) {
-      throw new BadRequestError(ErrorMessages.ITEM_NOT_IN_FAVORITES("Book"));
+  private async updateFavorite(
+    userId: string,
+    targetType: FavoriteTargetType,
+    targetId: string,
+    updateData: UpdateFavoriteDto,
+    itemName: string
+  ) {
+    let favorite = await FavoriteDao.findFavorite(userId, targetType, targetId);
+    if (!favorite) {
+      throw new NotFoundError(ErrorMessages.FAVORITE_NOT_FOUND(itemName));
     }
 
-    return UserDao.removeBookFromFavorites(userId, bookId);
+    if (updateData.note !== undefined) {
+      favorite = await FavoriteDao.updateFavoriteNote(
+        favorite.id,
+        updateData.note
+      );
+    }
+    if (updateData.position !== undefined) {
+      favorite = await FavoriteDao.moveFavorite(
+        userId,
+        targetType,
+        favorite.id,
+        updateData.position
+      );
+    }
+    return toFavoriteOutput(favorite);
   }
 }
 
@@ -0,0 +1,160 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import OidcDao from "@/dao/oidc.dao";
+import UserDao from "@/dao/user.dao";
+import type { OidcCallbackQueryDto } from "@/dto/oidc.dto";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "@/errors/error-types";
+import AuthService from "@/services/auth.service";
+import appLogger from "@/utils/logger";
+import {
+  type OidcIdTokenClaims,
+  type OidcProvider,
+  buildAuthorizationUrl,
+  discoverIssuer,
+  exchangeAuthorizationCode,
+  generatePkcePair,
+  parseOidcProviders,
+  verifyIdToken,
+} from "@/utils/oidc";
+import { hashPassword } from "@/utils/password";
+import type { RequestContext } from "@/utils/request";
+import { addMinutes, generateOpaqueToken, hashToken } from "@/utils/token";
+
+class OidcService {
+  // Returns the provider's authorization URL to redirect the browser to
+  async startLogin(providerName: string) {
+    const provider = this.getProvider(providerName);
+    const metadata = await discoverIssuer(provider.issuer);
+
+    const state = generateOpaqueToken(32);
+    const nonce = generateOpaqueToken(32);
+    const { codeVerifier, codeChallenge } = generatePkcePair();
+    await OidcDao.createLoginRequest({
+      provider: provider.name,
+      stateHash: hashToken(state),
+      nonce,
+      codeVerifier,
+      expiresAt: addMinutes(new Date(), config.oidc.loginTtlMinutes),
+    });
+
+    return buildAuthorizationUrl(metadata, provider, {
+      redirectUri: this.getRedirectUri(provider),
+      state,
+      nonce,
+      codeChallenge,
+    });
+  }
+
+  async completeLogin(
+    providerName: string,
+    callback: OidcCallbackQueryDto,
+    context: RequestContext
+  ) {
+    const provider = this.getProvider(providerName);
+    const loginRequest = await OidcDao.consumeLoginRequest(
+      hashToken(callback.state)
+    );
+    if (!loginRequest || loginRequest.provider !== provider.name) {
+      throw new BadRequestError(ErrorMessages.OIDC_LOGIN_REQUEST_INVALID);
+    }
+    if (callback.error || !callback.code) {
+      appLogger.warn("OIDC provider returned an error", {
+        provider: provider.name,
+        error: callback.error,
+        errorDescription: callback.error_description,
+      });
+      throw new UnauthorizedError(ErrorMessages.OIDC_LOGIN_FAILED);
+    }
+
+    let claims: OidcIdTokenClaims;
+    try {
+      const metadata = await discoverIssuer(provider.issuer);
+      const idToken = await exchangeAuthorizationCode(metadata, provider, {
+        code: callback.code,
+        redirectUri: this.getRedirectUri(provider),
+        codeVerifier: loginRequest.codeVerifier,
+      });
+      claims = await verifyIdToken(
+        metadata,
+        provider,
+        idToken,
+        loginRequest.nonce
+      );
+    } catch (error) {
+      appLogger.warn("OIDC code exchange failed", error, {
+        provider: provider.name,
+      });
+      throw new UnauthorizedError(ErrorMessages.OIDC_LOGIN_FAILED);
+    }
+
+    const user = await this.findOrLinkUser(provider, claims);
+    return AuthService.signInVerifiedUser(user, context);
+  }
+
+  // Known identities sign in directly. Otherwise the provider-verified email
+  // is linked to the account that has it, or to a new account
+  private async findOrLinkUser(
+    provider: OidcProvider,
+    claims: OidcIdTokenClaims
+  ) {
+    const identity = await OidcDao.findIdentity(provider.name, claims.sub);
+    if (identity) {
+      await OidcDao.touchIdentity(identity.id);
+      return identity.user;
+    }
+
+    if (!claims.email || claims.email_verified !== true) {
+      throw new ForbiddenError(ErrorMessages.OIDC_EMAIL_NOT_VERIFIED);
+    }
+    const email = claims.email.toLowerCase();
+
+    let user = await UserDao.findUserByEmail(email);
+    // Someone may have registered the address without owning it, so only
+    // accounts that proved ownership themselves are linked
+    if (user && !user.emailVerifiedAt) {
+      throw new ConflictError(ErrorMessages.OIDC_ACCOUNT_EMAIL_NOT_VERIFIED);
+    }
+    if (!user) {
+      // The random password is never shown; the user can set one with forgot-password
+      user = await UserDao.createUser({
+        email,
+        name: claims.name,
+        passwordHash: await hashPassword(generateOpaqueToken()),
+        emailVerifiedAt: new Date(),
+      });
+    }
+
+    await OidcDao.createIdentity({
+      provider: provider.name,
+      subject: claims.sub,
+      email,
+      userId: user.id,
+    });
+    return user;
+  }
+
+  private getProvider(name: string) {
+    const provider = parseOidcProviders(config.oidc.providers).find(
+      (candidate) => candidate.name === name
+    );
+    if (!provider) {
+      throw new NotFoundError(ErrorMessages.OIDC_PROVIDER_NOT_FOUND);
+    }
+    return provider;
+  }
+
+  private getRedirectUri(provider: OidcProvider) {
+    return (
+      provider.redirectUri ??
+      `${config.apiBaseUrl}/api/v1/auth/oidc/${provider.name}/callback`
+    );
+  }
+}
+
+export default new OidcService();
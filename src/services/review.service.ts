@@ -0,0 +1,123 @@
+import {
+  DEFAULT_PAGE_LIMIT,
+  DEFAULT_PAGE_NUMBER,
+  ErrorMessages,
+} from "@/constants";
+import BookDao from "@/dao/book.dao";
+import ReviewDao from "@/dao/review.dao";
+import type {
+  CreateReviewDto,
+  ReviewOutput,
+  ReviewsQueryDto,
+  UpdateReviewDto,
+} from "@/dto/review.dto";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import { Prisma, type Review } from "@prisma/client";
+
+const DEFAULT_REVIEW_SORT = "createdAt:desc";
+
+type ReviewWithReviewer = Review & {
+  user: { id: string; name: string | null };
+};
+
+const toReviewOutput = ({
+  user,
+  userId,
+  ...review
+}: ReviewWithReviewer): ReviewOutput => ({
+  ...review,
+  reviewer: user,
+});
+
+class ReviewService {
+  async getBookReviews(bookId: string, query: Partial<ReviewsQueryDto>) {
+    await this.getBookOrThrow(bookId);
+
+    const page = Number(query.page ?? DEFAULT_PAGE_NUMBER);
+    const limit = Number(query.limit ?? DEFAULT_PAGE_LIMIT);
+    const [field, direction] = (query.sortBy ?? DEFAULT_REVIEW_SORT).split(
+      ":"
+    ) as ["createdAt" | "rating", "asc" | "desc"];
+
+    const { reviews, totalItems } = await ReviewDao.findReviewsByBook(
+      bookId,
+      page,
+      limit,
+      field,
+      direction
+    );
+
+    return {
+      data: reviews.map(toReviewOutput),
+      meta: {
+        totalItems,
+        itemCount: reviews.length,
+        itemsPerPage: limit,
+        totalPages: limit > 0 ? Math.ceil(totalItems / limit) : 0,
+        currentPage: page,
+      },
+    };
+  }
+
+  async createReview(
+    userId: string,
+    bookId: string,
+    reviewData: CreateReviewDto
+  ) {
+    await this.getBookOrThrow(bookId);
+
+    const existing = await ReviewDao.findReview(userId, bookId);
+    if (existing) {
+      throw new ConflictError(ErrorMessages.REVIEW_ALREADY_EXISTS);
+    }
+
+    try {
+      const review = await ReviewDao.createReview(userId, bookId, reviewData);
+      return toReviewOutput(review);
+    } catch (error) {
+      // The user reviewed the book in a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new ConflictError(ErrorMessages.REVIEW_ALREADY_EXISTS);
+      }
+      throw error;
+    }
+  }
+
+  async updateReview(
+    userId: string,
+    bookId: string,
+    reviewData: UpdateReviewDto
+  ) {
+    await this.getBookOrThrow(bookId);
+
+    const review = await ReviewDao.findReview(userId, bookId);
+    if (!review) {
+      throw new NotFoundError(ErrorMessages.REVIEW_NOT_FOUND);
+    }
+
+    const updated = await ReviewDao.updateReview(review.id, reviewData);
+    return toReviewOutput(updated);
+  }
+
+  async deleteReview(userId: string, bookId: string) {
+    await this.getBookOrThrow(bookId);
+
+    const { count } = await ReviewDao.deleteReview(userId, bookId);
+    if (count === 0) {
+      throw new NotFoundError(ErrorMessages.REVIEW_NOT_FOUND);
+    }
+  }
+
+  private async getBookOrThrow(bookId: string) {
+    const book = await BookDao.findBookById(bookId);
+    if (!book) {
+      throw new NotFoundError(ErrorMessages.BOOK_NOT_FOUND);
+    }
+    return book;
+  }
+}
+
+export default new ReviewService();
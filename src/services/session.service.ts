@@ -0,0 +1,57 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
+import type { SessionOutput } from "@/dto/session.dto";
+import { NotFoundError, UnauthorizedError } from "@/errors/error-types";
+import type { Session } from "@prisma/client";
+
+const generateSessionObject = (
+  session: Session,
+  currentSessionId?: string
+): SessionOutput => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentSessionId,
+});
+
+class SessionService {
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await SessionDao.findActiveSessionsByUser(userId);
+    return sessions.map((session) =>
+      generateSessionObject(session, currentSessionId)
+    );
+  }
+
+  // Signs the device out: its refresh tokens stop working immediately and
+  // protect rejects its access tokens
+  async revokeSession(userId: string, sessionId: string) {
+    const session = await SessionDao.findSessionById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new NotFoundError(ErrorMessages.SESSION_NOT_FOUND);
+    }
+
+    await SessionDao.revokeSession(session.id);
+    await RefreshTokenDao.revokeTokenFamily(session.familyId);
+  }
+
+  // Called by protect for every request made with an access token
+  async assertSessionActive(sessionId: string, userId: string) {
+    const session = await SessionDao.findSessionById(sessionId);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      throw new UnauthorizedError(ErrorMessages.SESSION_REVOKED);
+    }
+
+    const lastSeenBefore = new Date(
+      Date.now() - config.session.lastSeenUpdateIntervalSeconds * 1000
+    );
+    if (session.lastSeenAt < lastSeenBefore) {
+      await SessionDao.touchLastSeen(session.id, lastSeenBefore);
+    }
+  }
+}
+
+export default new SessionService();
@@ -0,0 +1,108 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import UserDao from "@/dao/user.dao";
+import type { DisableTwoFactorDto } from "@/dto/auth.dto";
+import { BadRequestError, NotFoundError } from "@/errors/error-types";
+import { comparePassword } from "@/utils/password";
+import { hashToken } from "@/utils/token";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotpCode,
+} from "@/utils/totp";
+import type { User } from "@prisma/client";
+
+const RECOVERY_CODE_COUNT = 10;
+
+class TwoFactorService {
+  // Enrollment is two-step: the secret only protects logins once a code from
+  // the authenticator app has been confirmed
+  async startSetup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    const secret = generateTotpSecret();
+    await UserDao.setPendingTotpSecret(user.id, secret);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.twoFactor.issuer),
+    };
+  }
+
+  async confirmSetup(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_ALREADY_ENABLED);
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_SETUP_NOT_STARTED);
+    }
+
+    const step = verifyTotpCode(user.totpSecret, code);
+    if (step === null) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_CODE_INVALID);
+    }
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    await UserDao.enableTwoFactor(
+      user.id,
+      step,
+      recoveryCodes.map((recoveryCode) => hashToken(recoveryCode))
+    );
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, disableData: DisableTwoFactorDto) {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    const isPasswordMatch = await comparePassword(
+      disableData.currentPassword,
+      user.password
+    );
+    if (!isPasswordMatch) {
+      throw new BadRequestError(ErrorMessages.CURRENT_PASSWORD_INCORRECT);
+    }
+    if (!(await this.verifySecondFactor(user, disableData.code))) {
+      throw new BadRequestError(ErrorMessages.TWO_FACTOR_CODE_INVALID);
+    }
+
+    await UserDao.disableTwoFactor(user.id);
+  }
+
+  // Accepts a current TOTP code or an unused recovery code, consuming either
+  async verifySecondFactor(user: User, code: string) {
+    if (!user.totpEnabledAt || !user.totpSecret) return false;
+
+    const step = verifyTotpCode(user.totpSecret, code);
+    if (step !== null) {
+      return UserDao.claimTotpStep(user.id, step);
+    }
+
+    const codeHash = hashToken(normalizeRecoveryCode(code));
+    if (!user.totpRecoveryCodes.includes(codeHash)) return false;
+    return UserDao.consumeRecoveryCode(
+      user.id,
+      user.totpRecoveryCodes,
+      codeHash
+    );
+  }
+
+  private async findUser(userId: string) {
+    const user = await UserDao.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND);
+    }
+    return user;
+  }
+}
+
+export default new TwoFactorService();
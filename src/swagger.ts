@@ -1,27 +1,90 @@
 import { writeFile } from "node:fs/promises";
 import path from "node:path";
 import { config } from "@/config";
+import {
+  AdminUserOutputSchema,
+  ChangeUserRoleInputSchema,
+  ImpersonationDataSchema,
+  SuspendUserInputSchema,
+} from "@/dto/admin.dto";
+import {
+  ApiKeyOutputSchema,
+  CreateApiKeyInputSchema,
+  CreatedApiKeyDataSchema,
+} from "@/dto/api-key.dto";
 import {
   AuthResponseDataSchema,
+  ChangeEmailInputSchema,
+  ChangePasswordInputSchema,
+  ConfirmEmailChangeInputSchema,
+  ConfirmTwoFactorInputSchema,
+  ConsumeMagicLinkInputSchema,
+  DeleteAccountInputSchema,
+  DisableTwoFactorInputSchema,
+  ForgotPasswordInputSchema,
   LoginUserInputSchema,
+  LogoutInputSchema,
+  MagicLinkInputSchema,
+  MfaChallengeDataSchema,
+  MfaLoginInputSchema,
+  RecoveryCodesDataSchema,
+  RefreshTokenInputSchema,
+  ResetPasswordInputSchema,
+  TwoFactorSetupDataSchema,
+  UpdateProfileInputSchema,
   UserOutputSchema,
   UserRegistrationInputSchema,
+  VerifyEmailInputSchema,
 } from "@/dto/auth.dto";
 import {
   AuthorOutputSchema,
   CreateAuthorInputSchema,
+  PopularAuthorOutputSchema,
   UpdateAuthorInputSchema,
 } from "@/dto/author.dto";
 import {
   BookOutputSchema,
   CreateBookInputSchema,
+  PopularBookOutputSchema,
   UpdateBookInputSchema,
 } from "@/dto/book.dto";
+import {
+  AddCollectionItemInputSchema,
+  CollectionItemOutputSchema,
+  CollectionOutputSchema,
+  CreateCollectionInputSchema,
+  UpdateCollectionInputSchema,
+  UpdateCollectionItemInputSchema,
+} from "@/dto/collection.dto";
+import {
+  AddFavoriteInputSchema,
+  BulkFavoriteResultSchema,
+  BulkFavoritesInputSchema,
+  FavoriteAuthorsQuerySchema,
+  FavoriteBooksQuerySchema,
+  FavoriteDetailsSchema,
+  FavoriteOutputSchema,
+  FavoriteStateSchema,
+  FavoritesSummarySchema,
+  SetFavoriteInputSchema,
+  UpdateFavoriteInputSchema,
+} from "@/dto/favorite.dto";
+import {
+  OidcCallbackQuerySchema,
+  OidcProviderParamSchema,
+} from "@/dto/oidc.dto";
+import {
+  CreateReviewInputSchema,
+  ReviewOutputSchema,
+  UpdateReviewInputSchema,
+} from "@/dto/review.dto";
+import { SessionOutputSchema } from "@/dto/session.dto";
 import {
   ErrorResponseSchema,
   PaginationMetaSchema,
   ZodObjectId,
 } from "@/dto/shared.dto";
+import { Scope } from "@/policies/scope.policy";
 import { z } from "zod";
 import {
   type ZodOpenApiOperationObject,
@@ -58,6 +121,21 @@ const SearchQueryParameter = z.string().optional().openapi({
   example: "Orwell",
 });
 
+const WindowQueryParameter = z
+  .enum(["7d", "30d", "all"])
+  .optional()
+  .default("all")
+  .openapi({
+    description:
+      "Count favorites added in the last 7 days, the last 30 days, or all of them.",
+    example: "7d",
+  });
+
+const MineQueryParameter = z.enum(["true", "false"]).optional().openapi({
+  description: "Only list records created by the current user.",
+  example: "true",
+});
+
 const AuthorIdQueryParameter = ZodObjectId.optional().openapi({
   description: "Filter books by a specific author ID.",
   example: "60c72b2f9b1e8a5a4c8f0b1a",
@@ -108,22 +186,76 @@ const documentBase = {
         type: "http",
         scheme: "bearer",
         bearerFormat: "JWT",
-        description: 'Enter JWT Bearer token: "Bearer {token}"',
+        description:
+          'Enter JWT Bearer token: "Bearer {token}". Tokens carry every scope of the user\'s role; the scopes an operation needs are listed in its x-required-scopes.',
+      } as const,
+      apiKeyAuth: {
+        type: "apiKey",
+        in: "header",
+        name: "X-API-Key",
+        description:
+          'Personal API key from /auth/api-keys. "Authorization: ApiKey {key}" is also accepted. Keys are limited to the scopes chosen when they were created, and read-only keys can only make GET requests.',
       } as const,
     },
     schemas: {
       UserRegistrationInput: UserRegistrationInputSchema,
       UserLoginInput: LoginUserInputSchema,
+      RefreshTokenInput: RefreshTokenInputSchema,
+      LogoutInput: LogoutInputSchema,
+      ForgotPasswordInput: ForgotPasswordInputSchema,
+      ResetPasswordInput: ResetPasswordInputSchema,
+      MagicLinkInput: MagicLinkInputSchema,
+      ConsumeMagicLinkInput: ConsumeMagicLinkInputSchema,
+      VerifyEmailInput: VerifyEmailInputSchema,
+      UpdateProfileInput: UpdateProfileInputSchema,
+      ChangePasswordInput: ChangePasswordInputSchema,
+      ChangeEmailInput: ChangeEmailInputSchema,
+      ConfirmEmailChangeInput: ConfirmEmailChangeInputSchema,
+      DeleteAccountInput: DeleteAccountInputSchema,
+      ConfirmTwoFactorInput: ConfirmTwoFactorInputSchema,
+      DisableTwoFactorInput: DisableTwoFactorInputSchema,
+      MfaLoginInput: MfaLoginInputSchema,
+      MfaChallengeData: MfaChallengeDataSchema,
+      TwoFactorSetupData: TwoFactorSetupDataSchema,
+      RecoveryCodesData: RecoveryCodesDataSchema,
       AuthResponseData: AuthResponseDataSchema,
       UserOutput: UserOutputSchema,
       CreateAuthorInput: CreateAuthorInputSchema,
       UpdateAuthorInput: UpdateAuthorInputSchema,
       AuthorOutput: AuthorOutputSchema,
+      PopularAuthorOutput: PopularAuthorOutputSchema,
       CreateBookInput: CreateBookInputSchema,
       UpdateBookInput: UpdateBookInputSchema,
       BookOutput: BookOutputSchema,
+      PopularBookOutput: PopularBookOutputSchema,
       ErrorResponse: ErrorResponseSchema,
       PaginationMeta: PaginationMetaSchema,
+      FavoritesSummary: FavoritesSummarySchema,
+      AddFavoriteInput: AddFavoriteInputSchema,
+      UpdateFavoriteInput: UpdateFavoriteInputSchema,
+      FavoriteDetails: FavoriteDetailsSchema,
+      FavoriteOutput: FavoriteOutputSchema,
+      SetFavoriteInput: SetFavoriteInputSchema,
+      FavoriteState: FavoriteStateSchema,
+      BulkFavoritesInput: BulkFavoritesInputSchema,
+      BulkFavoriteResult: BulkFavoriteResultSchema,
+      AdminUserOutput: AdminUserOutputSchema,
+      ImpersonationData: ImpersonationDataSchema,
+      SuspendUserInput: SuspendUserInputSchema,
+      ChangeUserRoleInput: ChangeUserRoleInputSchema,
+      CreateApiKeyInput: CreateApiKeyInputSchema,
+      ApiKeyOutput: ApiKeyOutputSchema,
+      CreatedApiKeyData: CreatedApiKeyDataSchema,
+      SessionOutput: SessionOutputSchema,
+      CreateCollectionInput: CreateCollectionInputSchema,
+      UpdateCollectionInput: UpdateCollectionInputSchema,
+      AddCollectionItemInput: AddCollectionItemInputSchema,
+      UpdateCollectionItemInput: UpdateCollectionItemInputSchema,
+      CollectionOutput: CollectionOutputSchema,
+      CollectionItemOutput: CollectionItemOutputSchema,
+      CreateReviewInput: CreateReviewInputSchema,
+      UpdateReviewInput: UpdateReviewInputSchema,
+      ReviewOutput: ReviewOutputSchema,
     },
   },
   tags: [
@@ -135,17 +267,32 @@ const documentBase = {
     {
       name: "Authors",
       description:
-        "Endpoints for managing Author resources. All operations are scoped to authors created by the authenticated user.",
+        "Endpoints for managing Author resources. Any signed-in user can read any author; users update and delete the authors they created, while editors and admins can manage every author.",
     },
     {
       name: "Books",
       description:
-        "Endpoints for managing Book resources. All operations are scoped to books created by the authenticated user.",
+        "Endpoints for managing Book resources. Any signed-in user can read any book; users update and delete the books they created, while editors and admins can manage every book.",
     },
     {
       name: "Favorites",
       description:
-        "Endpoints for managing the authenticated user's favorite authors and books. Users can only favorite items they have created.",
+        "Endpoints for managing the authenticated user's favorite authors and books. Any book or author may be favorited, whoever created it.",
+    },
+    {
+      name: "Collections",
+      description:
+        "Named, ordered lists of books with optional notes. Collections are private, unlisted (readable by anyone with the id) or public (also listed). The /collections/public endpoints need no authentication.",
+    },
+    {
+      name: "Reviews",
+      description:
+        "Star ratings and written reviews of books. Each user reviews a book at most once; the book's averageRating and ratingCount follow its reviews.",
+    },
+    {
+      name: "Admin",
+      description:
+        "User management for administrators: listing, suspension, roles and forced logout. Every action is recorded in the audit log.",
     },
   ],
 };
@@ -187,6 +334,12 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
+          "429": {
+            description: "Too many registrations from this IP; see Retry-After",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
           "500": {
             description: "Internal Server Error",
             content: {
@@ -200,6 +353,8 @@ const document = createDocument({
       post: {
         tags: ["Auth"],
         summary: "Log in an existing user",
+        description:
+          "If the account has two-factor authentication enabled, no tokens are issued. The response carries an mfaToken challenge instead; finish the login at /auth/login/mfa.",
         requestBody: {
           required: true,
           content: {
@@ -210,13 +365,17 @@ const document = createDocument({
         },
         responses: {
           "200": {
-            description: "User logged in successfully.",
+            description:
+              "User logged in successfully, or a two-factor challenge was issued.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
                   message: z.string().openapi({ example: "Login successful." }),
-                  data: AuthResponseDataSchema,
+                  data: z.union([
+                    AuthResponseDataSchema,
+                    MfaChallengeDataSchema,
+                  ]),
                 }),
               },
             },
@@ -233,6 +392,19 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
+          "403": {
+            description:
+              "Forbidden (account suspended; code ACCOUNT_SUSPENDED)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "429": {
+            description: "Too many failed attempts; see Retry-After",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
           "500": {
             description: "Internal Server Error",
             content: {
@@ -242,26 +414,55 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/auth/me": {
-      get: {
+    "/auth/login/mfa": {
+      post: {
         tags: ["Auth"],
-        summary: "Get current authenticated user profile",
-        security: [{ bearerAuth: [] }],
+        summary: "Complete a login with a second-factor code",
+        description:
+          "Accepts a current TOTP code or one of the unused recovery codes. Each code can only be used once.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: MfaLoginInputSchema,
+            },
+          },
+        },
         responses: {
           "200": {
-            description: "User profile retrieved successfully.",
+            description: "User logged in successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: UserOutputSchema,
+                  message: z.string().openapi({ example: "Login successful." }),
+                  data: AuthResponseDataSchema,
                 }),
               },
             },
           },
+          "400": {
+            description: "Bad Request (e.g., validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
           "401": {
             description:
-              "Unauthorized (e.g., token missing, invalid, or user not found)",
+              "Unauthorized (invalid or expired challenge, or invalid code)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (account suspended; code ACCOUNT_SUSPENDED)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "429": {
+            description: "Too many failed attempts; see Retry-After",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -275,40 +476,96 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/authors": {
+    "/auth/oidc/{provider}/start": {
       get: {
-        tags: ["Authors"],
-        summary: "Get all authors created by the current user",
-        security: [{ bearerAuth: [] }],
+        tags: ["Auth"],
+        summary: "Start a login with an OpenID Connect provider",
+        description:
+          "Redirects the browser to the provider using the authorization-code flow with PKCE. The provider sends the user back to the callback route.",
         requestParams: {
-          query: z.object({
-            page: PageQueryParameter,
-            limit: LimitQueryParameter,
-            sortBy: SortByQueryParameter,
-            search: SearchQueryParameter,
-          }),
+          path: OidcProviderParamSchema,
+        },
+        responses: {
+          "302": {
+            description: "Redirect to the provider's authorization endpoint.",
+            headers: z.object({
+              Location: z.string().openapi({
+                description:
+                  "Authorization URL with state, nonce and PKCE challenge.",
+              }),
+            }),
+          },
+          "404": {
+            description: "Unknown provider",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/oidc/{provider}/callback": {
+      get: {
+        tags: ["Auth"],
+        summary: "Finish a login with an OpenID Connect provider",
+        description:
+          "Exchanges the code for an ID token and signs in the account linked to the provider identity. A new identity is linked by verified email, to an existing account or a new one.",
+        requestParams: {
+          path: OidcProviderParamSchema,
+          query: OidcCallbackQuerySchema,
         },
         responses: {
           "200": {
-            description: "A list of authors created by the current user.",
+            description:
+              "User logged in successfully, or a two-factor challenge was issued.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: z.array(AuthorOutputSchema),
-                  meta: PaginationMetaSchema,
+                  message: z.string().openapi({ example: "Login successful." }),
+                  data: z.union([
+                    AuthResponseDataSchema,
+                    MfaChallengeDataSchema,
+                  ]),
                 }),
               },
             },
           },
           "400": {
-            description: "Bad Request (e.g., validation error on query params)",
+            description: "Bad Request (e.g., unknown or expired state)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "401": {
-            description: "Unauthorized",
+            description:
+              "The provider rejected the login or the ID token is invalid",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "The provider did not confirm the email address is verified",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Unknown provider",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description:
+              "An account with this email exists but its email is not verified",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -321,29 +578,32 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/magic-link": {
       post: {
-        tags: ["Authors"],
-        summary: "Create a new author",
-        security: [{ bearerAuth: [] }],
+        tags: ["Auth"],
+        summary: "Request a passwordless sign-in link",
+        description:
+          "Emails a single-use, short-lived sign-in link bound to the account's current email. The response is identical whether or not an account exists for the email.",
         requestBody: {
           required: true,
           content: {
             "application/json": {
-              schema: CreateAuthorInputSchema,
+              schema: MagicLinkInputSchema,
             },
           },
         },
         responses: {
-          "201": {
-            description: "Author created successfully.",
+          "200": {
+            description: "Request accepted.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  message: z
-                    .string()
-                    .openapi({ example: "Author created successfully." }),
-                  data: AuthorOutputSchema,
+                  message: z.string().openapi({
+                    example:
+                      "If an account exists for this email, a sign-in link has been sent.",
+                  }),
                 }),
               },
             },
@@ -354,8 +614,8 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "401": {
-            description: "Unauthorized",
+          "429": {
+            description: "Too many sign-in link requests; see Retry-After",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -369,46 +629,105 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/authors/{id}": {
-      get: {
-        tags: ["Authors"],
-        summary: "Get a specific author by ID",
-        security: [{ bearerAuth: [] }],
-        requestParams: {
-          path: z.object({ id: IdPathParameter }),
+    "/auth/magic-link/consume": {
+      post: {
+        tags: ["Auth"],
+        summary: "Log in with a magic-link token",
+        description:
+          "Consumes the token and returns the same payload as /auth/login, including the two-factor challenge when 2FA is enabled.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ConsumeMagicLinkInputSchema,
+            },
+          },
         },
         responses: {
           "200": {
-            description: "Details of the author.",
+            description:
+              "User logged in successfully, or a two-factor challenge was issued.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: AuthorOutputSchema,
+                  message: z.string().openapi({ example: "Login successful." }),
+                  data: z.union([
+                    AuthResponseDataSchema,
+                    MfaChallengeDataSchema,
+                  ]),
                 }),
               },
             },
           },
           "400": {
-            description: "Bad Request (invalid ID format)",
+            description:
+              "Bad Request (e.g., invalid, expired or already used token)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "401": {
-            description: "Unauthorized",
+          "403": {
+            description:
+              "Forbidden (account suspended; code ACCOUNT_SUSPENDED)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "403": {
-            description: "Forbidden (user does not own this author)",
+          "500": {
+            description: "Internal Server Error",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "404": {
-            description: "Author not found",
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/refresh": {
+      post: {
+        tags: ["Auth"],
+        summary: "Exchange a refresh token for a new token pair",
+        description:
+          "Refresh tokens are single-use. Each call rotates the refresh token; presenting an already used token revokes every token in its family.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: RefreshTokenInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Token pair rotated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Token refreshed successfully." }),
+                  data: AuthResponseDataSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description:
+              "Unauthorized (e.g., refresh token invalid, expired, or reused)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (account suspended; code ACCOUNT_SUSPENDED)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -421,38 +740,3143 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
-      patch: {
-        tags: ["Authors"],
-        summary: "Update an existing author",
-        security: [{ bearerAuth: [] }],
-        requestParams: {
-          path: z.object({ id: IdPathParameter }),
-        },
+    },
+    "/auth/logout": {
+      post: {
+        tags: ["Auth"],
+        summary: "Log out the current device",
+        description:
+          "Signs out the session of the supplied refresh token or, without one, the session of the access token used for the request. Its refresh tokens stop working and the session's access tokens are rejected.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
         requestBody: {
-          required: true,
+          required: false,
           content: {
             "application/json": {
-              schema: UpdateAuthorInputSchema,
+              schema: LogoutInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Logged out successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Logged out successfully." }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (no refresh token sent with a credential that has no session, e.g. an API key)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
             },
           },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/logout-all": {
+      post: {
+        tags: ["Auth"],
+        summary: "Log out everywhere",
+        description:
+          "Invalidates every access token and refresh token previously issued to the current user.",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": {
+            description: "Logged out from all sessions successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Logged out from all sessions successfully.",
+                  }),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/forgot-password": {
+      post: {
+        tags: ["Auth"],
+        summary: "Request a password reset link",
+        description:
+          "Emails a single-use, time-limited reset link. The response is identical whether or not an account exists for the email.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ForgotPasswordInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Request accepted.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "If an account exists for this email, a password reset link has been sent.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "429": {
+            description: "Too many reset requests; see Retry-After",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/reset-password": {
+      post: {
+        tags: ["Auth"],
+        summary: "Set a new password using a reset token",
+        description:
+          "Consumes the reset token, sets the new password and invalidates every previously issued token.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ResetPasswordInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Password reset successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "Password has been reset successfully. Please log in.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, invalid or expired token)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/verify-email": {
+      get: {
+        tags: ["Auth"],
+        summary: "Verify an email address from the emailed link",
+        requestParams: {
+          query: z.object({
+            token: z.string().openapi({
+              description: "Email verification token from the emailed link.",
+              example: "Vd8rT1mQ0x...",
+            }),
+          }),
+        },
+        responses: {
+          "200": {
+            description: "Email verified successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Email verified successfully." }),
+                  data: UserOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, invalid or expired token)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      post: {
+        tags: ["Auth"],
+        summary: "Verify an email address with a verification token",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: VerifyEmailInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Email verified successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Email verified successfully." }),
+                  data: UserOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, invalid or expired token)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/verify-email/resend": {
+      post: {
+        tags: ["Auth"],
+        summary: "Resend the email verification link",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        responses: {
+          "200": {
+            description: "Verification email sent.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Verification email sent." }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., email already verified)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "429": {
+            description: "Too many resend requests; see Retry-After",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me": {
+      get: {
+        tags: ["Auth"],
+        summary: "Get current authenticated user profile",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        responses: {
+          "200": {
+            description: "User profile retrieved successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: UserOutputSchema,
+                }),
+              },
+            },
+          },
+          "401": {
+            description:
+              "Unauthorized (e.g., token missing, invalid, or user not found)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (account suspended; code ACCOUNT_SUSPENDED)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      patch: {
+        tags: ["Auth"],
+        summary: "Update the authenticated user profile",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateProfileInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Profile updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Profile updated successfully." }),
+                  data: UserOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Auth"],
+        summary: "Delete the authenticated user account",
+        description:
+          "Permanently deletes the account together with the books and authors it created. Authors credited on books of other users are kept without a creator. Favorites referencing the deleted records are cleaned up.",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: DeleteAccountInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Account deleted successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Account deleted successfully." }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, incorrect current password)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/export": {
+      get: {
+        tags: ["Auth"],
+        summary: "Download a copy of your personal data",
+        description:
+          "Streams a JSON document with the profile, created books and authors, favorites with their notes, sessions, API keys, linked identities and audit log entries. Limited per user (DATA_EXPORT_MAX_PER_WINDOW per DATA_EXPORT_WINDOW_MINUTES).",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": {
+            description:
+              "The export, sent as a JSON file download (Content-Disposition: attachment).",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  exportedAt: z.string().openapi({ format: "date-time" }),
+                  profile: z.object({}).passthrough().openapi({
+                    description:
+                      "The account without its password hash and second-factor secrets.",
+                  }),
+                  books: z.array(z.object({}).passthrough()),
+                  authors: z.array(z.object({}).passthrough()),
+                  favoriteBooks: z.array(z.object({}).passthrough()),
+                  favoriteAuthors: z.array(z.object({}).passthrough()),
+                  favorites: z.array(z.object({}).passthrough()),
+                  collections: z.array(z.object({}).passthrough()),
+                  reviews: z.array(z.object({}).passthrough()),
+                  sessions: z.array(z.object({}).passthrough()),
+                  apiKeys: z.array(z.object({}).passthrough()),
+                  identities: z.array(z.object({}).passthrough()),
+                  auditLog: z.array(z.object({}).passthrough()),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot export account data)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "429": {
+            description: "Too many exports requested; see Retry-After",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/password": {
+      post: {
+        tags: ["Auth"],
+        summary: "Change the password of the authenticated user",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ChangePasswordInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Password changed; other sessions are signed out.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Password changed successfully." }),
+                  data: AuthResponseDataSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, incorrect current password)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/email": {
+      post: {
+        tags: ["Auth"],
+        summary: "Request an email address change",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ChangeEmailInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Confirmation link sent to the new address.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "A confirmation link has been sent to the new email address.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., incorrect current password, email already in use)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/email/confirm": {
+      post: {
+        tags: ["Auth"],
+        summary: "Confirm an email address change",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ConfirmEmailChangeInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Email address changed successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Email address changed successfully.",
+                  }),
+                  data: UserOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., invalid or expired token, email already in use)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/2fa/setup": {
+      post: {
+        tags: ["Auth"],
+        summary: "Start two-factor authentication enrollment",
+        description:
+          "Generates a new TOTP secret. Two-factor authentication is not active until it is confirmed at /auth/me/2fa/confirm.",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": {
+            description: "TOTP secret generated.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "Add the secret to your authenticator app, then confirm with a code.",
+                  }),
+                  data: TwoFactorSetupDataSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (two-factor authentication already enabled)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/2fa/confirm": {
+      post: {
+        tags: ["Auth"],
+        summary: "Confirm enrollment and enable two-factor authentication",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ConfirmTwoFactorInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Two-factor authentication enabled.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "Two-factor authentication enabled. Store the recovery codes somewhere safe.",
+                  }),
+                  data: RecoveryCodesDataSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., invalid code, setup not started)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/me/2fa": {
+      delete: {
+        tags: ["Auth"],
+        summary: "Disable two-factor authentication",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: DisableTwoFactorInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Two-factor authentication disabled.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Two-factor authentication disabled.",
+                  }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., incorrect password, invalid code, not enabled)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/api-keys": {
+      post: {
+        tags: ["Auth"],
+        summary: "Create a personal API key",
+        description:
+          "The key is returned once and stored hashed. Requires a JWT from a password login.",
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: CreateApiKeyInputSchema,
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "API key created.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example:
+                      "API key created. Copy it now; it will not be shown again.",
+                  }),
+                  data: CreatedApiKeyDataSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, expiry in the past)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot manage API keys)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      get: {
+        tags: ["Auth"],
+        summary: "List the current user's API keys",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": {
+            description: "API keys retrieved successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(ApiKeyOutputSchema),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot manage API keys)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/api-keys/{id}": {
+      delete: {
+        tags: ["Auth"],
+        summary: "Revoke an API key",
+        security: [{ bearerAuth: [] }],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "API key revoked successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "API key revoked successfully." }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (invalid ID format)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot manage API keys)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "API key not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/sessions": {
+      get: {
+        tags: ["Auth"],
+        summary: "List the current user's active sessions",
+        description:
+          "Every login (password, two-factor, single sign-on or registration) starts a session. The session making the request is flagged as current.",
+        security: [{ bearerAuth: [] }],
+        responses: {
+          "200": {
+            description: "Sessions retrieved successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(SessionOutputSchema),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot manage sessions)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/auth/sessions/{id}": {
+      delete: {
+        tags: ["Auth"],
+        summary: "Sign out a session",
+        description:
+          "Revokes the session's refresh tokens and rejects its access tokens from the next request on.",
+        security: [{ bearerAuth: [] }],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Session signed out successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Session signed out successfully." }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (invalid ID format)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (API keys cannot manage sessions)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Session not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/authors": {
+      get: {
+        tags: ["Authors"],
+        summary: "Get all authors",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            sortBy: SortByQueryParameter,
+            search: SearchQueryParameter,
+            mine: MineQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A list of authors, or of your own with mine=true.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(AuthorOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      post: {
+        tags: ["Authors"],
+        summary: "Create a new author",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.AUTHORS_WRITE],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: CreateAuthorInputSchema,
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Author created successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Author created successfully." }),
+                  data: AuthorOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (email not verified while verification is required)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/authors/popular": {
+      get: {
+        tags: ["Authors"],
+        summary: "Get the most favorited authors",
+        description:
+          "Ranks authors by how many users favorited them. The 7d and 30d windows count favorites added within that period; all uses the total favorite count. Each item carries a popularity object with the window and its count.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            window: WindowQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "Authors ordered by favorites, most first.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(PopularAuthorOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., unknown window)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/authors/{id}": {
+      get: {
+        tags: ["Authors"],
+        summary: "Get a specific author by ID",
+        description: "Any signed-in user can read any author.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Details of the author.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: AuthorOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (invalid ID format)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      patch: {
+        tags: ["Authors"],
+        summary: "Update an existing author",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.AUTHORS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateAuthorInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Author updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Author updated successfully." }),
+                  data: AuthorOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error, no update data)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (not the owner and not an editor or admin, or email not verified)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Authors"],
+        summary: "Delete an author by ID",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.AUTHORS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Author deleted successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Author deleted successfully." }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (not the owner and not an editor or admin, or email not verified)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description: "Conflict (e.g., author has associated books)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/authors/{id}/favorite": {
+      post: {
+        tags: ["Favorites", "Authors"],
+        summary: "Add an author to the current user's favorites",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: false,
+          content: {
+            "application/json": {
+              schema: AddFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Author added to favorites successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Author added to favorites successfully.",
+                  }),
+                  data: FavoriteOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., author already in favorites, invalid ID)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author or User not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      put: {
+        tags: ["Favorites", "Authors"],
+        summary: "Set whether an author is a favorite",
+        description:
+          "Idempotent alternative to POST and DELETE: favorites or unfavorites the author and returns the resulting state. Repeating the request changes nothing. A note given with isFavorite true replaces the current one; without a note the current one is kept.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: SetFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The resulting favorite state of the author",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: FavoriteStateSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Favorites", "Authors"],
+        summary: "Remove an author from the current user's favorites",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Author removed from favorites successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Author removed from favorites successfully.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., author not in favorites, invalid ID)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Author or User not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites": {
+      get: {
+        tags: ["Favorites"],
+        summary: "Get a summary of the current user's favorites",
+        description: "Counts the favorite books and authors that still exist.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        responses: {
+          "200": {
+            description: "Counts of the current user's favorites.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: FavoritesSummarySchema,
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites/books": {
+      get: {
+        tags: ["Favorites"],
+        summary: "Get the current user's favorite books",
+        description:
+          "Retrieves a paginated list of the books the authenticated user has marked as favorite, with their authors and the favorite's note, position and date. Sorts by the date added (newest first by default), the manual order (position) or title; search matches the title or ISBN.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: FavoriteBooksQuerySchema.shape.query,
+        },
+        responses: {
+          "200": {
+            description: "A list of the current user's favorite books.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(
+                    BookOutputSchema.extend({
+                      isFavorite: z.literal(true).openapi({
+                        description: "Always true for books in this list.",
+                        example: true,
+                      }),
+                      favorite: FavoriteDetailsSchema,
+                    })
+                  ),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "User not found (should not happen if token is valid)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites/books/{id}": {
+      patch: {
+        tags: ["Favorites"],
+        summary: "Update a favorite book",
+        description:
+          "Changes the note of a favorite book and/or moves it to a new zero-based position in the manual order. The other favorite books shift to make room. The id is the book's id.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Favorite updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Favorite updated successfully." }),
+                  data: FavoriteOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "The book is not in the user's favorites",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites/authors": {
+      get: {
+        tags: ["Favorites"],
+        summary: "Get the current user's favorite authors",
+        description:
+          "Retrieves a paginated list of the authors the authenticated user has marked as favorite, with the favorite's note, position and date. Sorts by the date added (newest first by default), the manual order (position) or name; search matches the name or bio.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: FavoriteAuthorsQuerySchema.shape.query,
+        },
+        responses: {
+          "200": {
+            description: "A list of the current user's favorite authors.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(
+                    AuthorOutputSchema.extend({
+                      isFavorite: z.literal(true).openapi({
+                        description: "Always true for authors in this list.",
+                        example: true,
+                      }),
+                      favorite: FavoriteDetailsSchema,
+                    })
+                  ),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "User not found (should not happen if token is valid)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites/authors/{id}": {
+      patch: {
+        tags: ["Favorites"],
+        summary: "Update a favorite author",
+        description:
+          "Changes the note of a favorite author and/or moves it to a new zero-based position in the manual order. The other favorite authors shift to make room. The id is the author's id.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Favorite updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Favorite updated successfully." }),
+                  data: FavoriteOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "The author is not in the user's favorites",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/favorites/bulk": {
+      post: {
+        tags: ["Favorites"],
+        summary: "Add and remove several favorites at once",
+        description:
+          "Applies up to 100 add/remove operations on books and authors, in order, in one transaction. If any book or author to add does not exist, nothing is changed and the errors list each rejected operation by index. Each result reports whether the item was added, removed or left unchanged.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: BulkFavoritesInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Favorites updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Favorites updated successfully." }),
+                  data: z.array(BulkFavoriteResultSchema),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (validation error, or some operations cannot be applied)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections": {
+      get: {
+        tags: ["Collections"],
+        summary: "Get the current user's collections",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            sortBy: SortByQueryParameter,
+            search: SearchQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A page of the current user's collections.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(CollectionOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      post: {
+        tags: ["Collections"],
+        summary: "Create a collection",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: CreateCollectionInputSchema,
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Collection created successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Collection created successfully." }),
+                  data: CollectionOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/public": {
+      get: {
+        tags: ["Collections"],
+        summary: "Browse public collections",
+        description:
+          "Needs no authentication. Unlisted collections are not included.",
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            sortBy: SortByQueryParameter,
+            search: SearchQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A page of public collections of all users.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(CollectionOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/public/{id}": {
+      get: {
+        tags: ["Collections"],
+        summary: "Get a public or unlisted collection",
+        description:
+          "Needs no authentication. Private collections are reported as not found.",
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "The collection.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: CollectionOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found or private",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/public/{id}/items": {
+      get: {
+        tags: ["Collections"],
+        summary: "Get the books in a public or unlisted collection",
+        description:
+          "Needs no authentication. Private collections are reported as not found.",
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A page of the collection's books, in order.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(CollectionItemOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found or private",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/{id}": {
+      get: {
+        tags: ["Collections"],
+        summary: "Get one of the current user's collections",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "The collection.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: CollectionOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found (or owned by another user)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      patch: {
+        tags: ["Collections"],
+        summary: "Update a collection",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateCollectionInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Collection updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Collection updated successfully." }),
+                  data: CollectionOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found (or owned by another user)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Collections"],
+        summary: "Delete a collection and its items",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Collection deleted successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Collection deleted successfully." }),
+                  data: z.null(),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found (or owned by another user)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/{id}/items": {
+      get: {
+        tags: ["Collections"],
+        summary: "Get the books in one of the current user's collections",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A page of the collection's books, in order.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(CollectionItemOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found (or owned by another user)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      post: {
+        tags: ["Collections"],
+        summary: "Add a book to the end of a collection",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: AddCollectionItemInputSchema,
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Book added to collection successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Book added to collection successfully.",
+                  }),
+                  data: CollectionItemOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection or book not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description: "The book is already in the collection",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/collections/{id}/items/{bookId}": {
+      patch: {
+        tags: ["Collections"],
+        summary: "Update a book in a collection",
+        description:
+          "Changes the note of a book in the collection and/or moves it to a new zero-based position. The other books shift to make room.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter, bookId: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateCollectionItemInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Collection item updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Collection item updated successfully.",
+                  }),
+                  data: CollectionItemOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found, or the book is not in it",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Collections"],
+        summary: "Remove a book from a collection",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.COLLECTIONS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter, bookId: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Book removed from collection successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Book removed from collection successfully.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Collection not found, or the book is not in it",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/books": {
+      get: {
+        tags: ["Books"],
+        summary: "Get all books",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            sortBy: SortByQueryParameter,
+            search: SearchQueryParameter,
+            mine: MineQueryParameter,
+            authorId: AuthorIdQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "A list of books, or of your own with mine=true.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(BookOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., validation error on query params)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      post: {
+        tags: ["Books"],
+        summary: "Create a new book",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_WRITE],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: CreateBookInputSchema,
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Book created successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Book created successfully." }),
+                  data: BookOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, author not found, ISBN exists)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (email not verified while verification is required)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description: "Conflict (e.g., ISBN already exists)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/books/popular": {
+      get: {
+        tags: ["Books"],
+        summary: "Get the most favorited books",
+        description:
+          "Ranks books by how many users favorited them. The 7d and 30d windows count favorites added within that period; all uses the total favorite count. Each item carries a popularity object with the window and its count.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            window: WindowQueryParameter,
+          }),
+        },
+        responses: {
+          "200": {
+            description: "Books ordered by favorites, most first.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: z.array(PopularBookOutputSchema),
+                  meta: PaginationMetaSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (e.g., unknown window)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/books/{id}": {
+      get: {
+        tags: ["Books"],
+        summary: "Get a specific book by ID",
+        description: "Any signed-in user can read any book.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Details of the book.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: BookOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (invalid ID format)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      patch: {
+        tags: ["Books"],
+        summary: "Update an existing book",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateBookInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Book updated successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Book updated successfully." }),
+                  data: BookOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., validation error, no update data, author not found, ISBN exists)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (not the owner and not an editor or admin, or email not verified)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description: "Conflict (e.g., ISBN already exists)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Books"],
+        summary: "Delete a book by ID",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Book deleted successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Book deleted successfully." }),
+                  data: z.null().openapi({ example: null }),
+                }),
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description:
+              "Forbidden (not the owner and not an editor or admin, or email not verified)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/books/{id}/favorite": {
+      post: {
+        tags: ["Favorites", "Books"],
+        summary: "Add a book to the current user's favorites",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: false,
+          content: {
+            "application/json": {
+              schema: AddFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Book added to favorites successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Book added to favorites successfully.",
+                  }),
+                  data: FavoriteOutputSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., book already in favorites, invalid ID)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book or User not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      put: {
+        tags: ["Favorites", "Books"],
+        summary: "Set whether a book is a favorite",
+        description:
+          "Idempotent alternative to POST and DELETE: favorites or unfavorites the book and returns the resulting state. Repeating the request changes nothing. A note given with isFavorite true replaces the current one; without a note the current one is kept.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: SetFavoriteInputSchema,
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The resulting favorite state of the book",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  data: FavoriteStateSchema,
+                }),
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request (validation error)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+      delete: {
+        tags: ["Favorites", "Books"],
+        summary: "Remove a book from the current user's favorites",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.FAVORITES_WRITE],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
+        responses: {
+          "200": {
+            description: "Book removed from favorites successfully.",
+            content: {
+              "application/json": {
+                schema: z.object({
+                  status: z.string().openapi({ example: "success" }),
+                  message: z.string().openapi({
+                    example: "Book removed from favorites successfully.",
+                  }),
+                }),
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request (e.g., book not in favorites, invalid ID)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "403": {
+            description: "Forbidden (missing scope)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "Book or User not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "500": {
+            description: "Internal Server Error",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+        },
+      } satisfies ZodOpenApiOperationObject,
+    },
+    "/books/{id}/reviews": {
+      get: {
+        tags: ["Reviews", "Books"],
+        summary: "Get the reviews of a book",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.BOOKS_READ],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+          query: z.object({
+            page: PageQueryParameter,
+            limit: LimitQueryParameter,
+            sortBy: z
+              .enum([
+                "createdAt:asc",
+                "createdAt:desc",
+                "rating:asc",
+                "rating:desc",
+              ])
+              .optional()
+              .default("createdAt:desc")
+              .openapi({
+                description: "Field to sort by and direction.",
+                example: "rating:desc",
+              }),
+          }),
         },
         responses: {
           "200": {
-            description: "Author updated successfully.",
+            description: "A page of the book's reviews.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  message: z
-                    .string()
-                    .openapi({ example: "Author updated successfully." }),
-                  data: AuthorOutputSchema,
+                  data: z.array(ReviewOutputSchema),
+                  meta: PaginationMetaSchema,
                 }),
               },
             },
           },
           "400": {
-            description: "Bad Request (e.g., validation error, no update data)",
+            description: "Bad Request (e.g., invalid ID or sort)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -464,13 +3888,13 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own this author)",
+            description: "Forbidden (missing scope)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Author not found",
+            description: "Book not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -483,28 +3907,45 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
-      delete: {
-        tags: ["Authors"],
-        summary: "Delete an author by ID",
-        security: [{ bearerAuth: [] }],
+      post: {
+        tags: ["Reviews", "Books"],
+        summary: "Review a book",
+        description:
+          "Adds the current user's rating of the book, with an optional title and body, and updates the book's averageRating and ratingCount.",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.REVIEWS_WRITE],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: CreateReviewInputSchema,
+            },
+          },
+        },
         responses: {
-          "200": {
-            description: "Author deleted successfully.",
+          "201": {
+            description: "Review created successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
                   message: z
                     .string()
-                    .openapi({ example: "Author deleted successfully." }),
-                  data: z.null().openapi({ example: null }),
+                    .openapi({ example: "Review created successfully." }),
+                  data: ReviewOutputSchema,
                 }),
               },
             },
           },
+          "400": {
+            description: "Bad Request (e.g., rating out of range)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
           "401": {
             description: "Unauthorized",
             content: {
@@ -512,19 +3953,20 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own this author)",
+            description: "Forbidden (missing scope, unverified email)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Author not found",
+            description: "Book not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "409": {
-            description: "Conflict (e.g., author has associated books)",
+            description:
+              "Conflict (you have already reviewed this book, or a concurrent change to its reviews won; try again)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -537,32 +3979,39 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
-    },
-    "/authors/{id}/favorite": {
-      post: {
-        tags: ["Favorites", "Authors"],
-        summary: "Add an author to the current user's favorites",
-        security: [{ bearerAuth: [] }],
+      patch: {
+        tags: ["Reviews", "Books"],
+        summary: "Update your review of a book",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.REVIEWS_WRITE],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: UpdateReviewInputSchema,
+            },
+          },
+        },
         responses: {
           "200": {
-            description: "Author added to favorites successfully.",
+            description: "Review updated successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  message: z.string().openapi({
-                    example: "Author added to favorites successfully.",
-                  }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Review updated successfully." }),
+                  data: ReviewOutputSchema,
                 }),
               },
             },
           },
           "400": {
-            description:
-              "Bad Request (e.g., author already in favorites, invalid ID)",
+            description: "Bad Request (e.g., no fields to update)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -574,13 +4023,20 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own the author to favorite)",
+            description: "Forbidden (missing scope or unverified email)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Author or User not found",
+            description: "Book not found, or you have not reviewed it",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description:
+              "Conflict (a concurrent change to the book's reviews won; try again)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -594,33 +4050,28 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
       delete: {
-        tags: ["Favorites", "Authors"],
-        summary: "Remove an author from the current user's favorites",
-        security: [{ bearerAuth: [] }],
+        tags: ["Reviews", "Books"],
+        summary: "Delete your review of a book",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.REVIEWS_WRITE],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
         responses: {
           "200": {
-            description: "Author removed from favorites successfully.",
+            description: "Review deleted successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  message: z.string().openapi({
-                    example: "Author removed from favorites successfully.",
-                  }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Review deleted successfully." }),
+                  data: z.null(),
                 }),
               },
             },
           },
-          "400": {
-            description:
-              "Bad Request (e.g., author not in favorites, invalid ID)",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
           "401": {
             description: "Unauthorized",
             content: {
@@ -628,14 +4079,20 @@ const document = createDocument({
             },
           },
           "403": {
-            description:
-              "Forbidden (user does not own the author to unfavorite)",
+            description: "Forbidden (missing scope or unverified email)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Author or User not found",
+            description: "Book not found, or you have not reviewed it",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "409": {
+            description:
+              "Conflict (a concurrent change to the book's reviews won; try again)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -649,36 +4106,31 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/favorites/authors": {
+    "/admin/users": {
       get: {
-        tags: ["Favorites"],
-        summary: "Get the current user's favorite authors",
-        description:
-          "Retrieves a paginated list of authors that the authenticated user has marked as favorite. Note: Only authors originally created by this user can be favorited and will appear in this list. The 'sortBy' and 'search' query parameters are accepted by validation but currently not fully implemented for filtering/sorting this specific list by the backend service beyond basic ID matching.",
-        security: [{ bearerAuth: [] }],
+        tags: ["Admin"],
+        summary: "List and search users",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
           query: z.object({
             page: PageQueryParameter,
             limit: LimitQueryParameter,
             sortBy: SortByQueryParameter,
-            search: SearchQueryParameter,
+            search: z.string().optional().openapi({
+              description: "Search term matched against email and name.",
+              example: "jane",
+            }),
           }),
         },
         responses: {
           "200": {
-            description: "A list of the current user's favorite authors.",
+            description: "A paginated list of users.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: z.array(
-                    AuthorOutputSchema.extend({
-                      isFavorite: z.literal(true).openapi({
-                        description: "Always true for authors in this list.",
-                        example: true,
-                      }),
-                    })
-                  ),
+                  data: z.array(AdminUserOutputSchema),
                   meta: PaginationMetaSchema,
                 }),
               },
@@ -696,8 +4148,8 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "404": {
-            description: "User not found (should not happen if token is valid)",
+          "403": {
+            description: "Forbidden (requires the admin role)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -711,35 +4163,29 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/books": {
+    "/admin/users/{id}": {
       get: {
-        tags: ["Books"],
-        summary: "Get all books created by the current user",
-        security: [{ bearerAuth: [] }],
+        tags: ["Admin"],
+        summary: "Get a user by ID",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
-          query: z.object({
-            page: PageQueryParameter,
-            limit: LimitQueryParameter,
-            sortBy: SortByQueryParameter,
-            search: SearchQueryParameter,
-            authorId: AuthorIdQueryParameter,
-          }),
+          path: z.object({ id: IdPathParameter }),
         },
         responses: {
           "200": {
-            description: "A list of books created by the current user.",
+            description: "User retrieved successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: z.array(BookOutputSchema),
-                  meta: PaginationMetaSchema,
+                  data: AdminUserOutputSchema,
                 }),
               },
             },
           },
           "400": {
-            description: "Bad Request (e.g., validation error on query params)",
+            description: "Bad Request (e.g., invalid ID)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -750,6 +4196,18 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
+          "403": {
+            description: "Forbidden (requires the admin role)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "User not found",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
           "500": {
             description: "Internal Server Error",
             content: {
@@ -758,36 +4216,42 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
+    },
+    "/admin/users/{id}/suspend": {
       post: {
-        tags: ["Books"],
-        summary: "Create a new book",
-        security: [{ bearerAuth: [] }],
+        tags: ["Admin"],
+        summary: "Suspend a user",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
+        requestParams: {
+          path: z.object({ id: IdPathParameter }),
+        },
         requestBody: {
-          required: true,
+          required: false,
           content: {
             "application/json": {
-              schema: CreateBookInputSchema,
+              schema: SuspendUserInputSchema,
             },
           },
         },
         responses: {
-          "201": {
-            description: "Book created successfully.",
+          "200": {
+            description: "User suspended; all of their sessions are revoked.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
                   message: z
                     .string()
-                    .openapi({ example: "Book created successfully." }),
-                  data: BookOutputSchema,
+                    .openapi({ example: "User suspended successfully." }),
+                  data: AdminUserOutputSchema,
                 }),
               },
             },
           },
           "400": {
             description:
-              "Bad Request (e.g., validation error, author not found, ISBN exists)",
+              "Bad Request (e.g., already suspended, or the target is the requesting admin)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -798,8 +4262,14 @@ const document = createDocument({
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-          "409": {
-            description: "Conflict (e.g., ISBN already exists)",
+          "403": {
+            description: "Forbidden (requires the admin role)",
+            content: {
+              "application/json": { schema: ErrorResponseSchema },
+            },
+          },
+          "404": {
+            description: "User not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -813,28 +4283,33 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/books/{id}": {
-      get: {
-        tags: ["Books"],
-        summary: "Get a specific book by ID",
-        security: [{ bearerAuth: [] }],
+    "/admin/users/{id}/unsuspend": {
+      post: {
+        tags: ["Admin"],
+        summary: "Unsuspend a user",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
         responses: {
           "200": {
-            description: "Details of the book.",
+            description: "User unsuspended successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  data: BookOutputSchema,
+                  message: z
+                    .string()
+                    .openapi({ example: "User unsuspended successfully." }),
+                  data: AdminUserOutputSchema,
                 }),
               },
             },
           },
           "400": {
-            description: "Bad Request (invalid ID format)",
+            description:
+              "Bad Request (e.g., user is not suspended, or the target is the requesting admin)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -846,13 +4321,13 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own this book)",
+            description: "Forbidden (requires the admin role)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Book not found",
+            description: "User not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -865,10 +4340,13 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
+    },
+    "/admin/users/{id}/role": {
       patch: {
-        tags: ["Books"],
-        summary: "Update an existing book",
-        security: [{ bearerAuth: [] }],
+        tags: ["Admin"],
+        summary: "Change the role of a user",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
@@ -876,86 +4354,32 @@ const document = createDocument({
           required: true,
           content: {
             "application/json": {
-              schema: UpdateBookInputSchema,
+              schema: ChangeUserRoleInputSchema,
             },
           },
         },
         responses: {
           "200": {
-            description: "Book updated successfully.",
+            description: "User role updated successfully.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
                   message: z
                     .string()
-                    .openapi({ example: "Book updated successfully." }),
-                  data: BookOutputSchema,
+                    .openapi({ example: "User role updated successfully." }),
+                  data: AdminUserOutputSchema,
                 }),
               },
             },
           },
           "400": {
             description:
-              "Bad Request (e.g., validation error, no update data, author not found, ISBN exists)",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
-          "401": {
-            description: "Unauthorized",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
-          "403": {
-            description: "Forbidden (user does not own this book)",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
-          "404": {
-            description: "Book not found",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
-          "409": {
-            description: "Conflict (e.g., ISBN already exists)",
-            content: {
-              "application/json": { schema: ErrorResponseSchema },
-            },
-          },
-          "500": {
-            description: "Internal Server Error",
+              "Bad Request (e.g., invalid ID, or the target is the requesting admin)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
-        },
-      } satisfies ZodOpenApiOperationObject,
-      delete: {
-        tags: ["Books"],
-        summary: "Delete a book by ID",
-        security: [{ bearerAuth: [] }],
-        requestParams: {
-          path: z.object({ id: IdPathParameter }),
-        },
-        responses: {
-          "200": {
-            description: "Book deleted successfully.",
-            content: {
-              "application/json": {
-                schema: z.object({
-                  status: z.string().openapi({ example: "success" }),
-                  message: z
-                    .string()
-                    .openapi({ example: "Book deleted successfully." }),
-                  data: z.null().openapi({ example: null }),
-                }),
-              },
-            },
-          },
           "401": {
             description: "Unauthorized",
             content: {
@@ -963,13 +4387,13 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own this book)",
+            description: "Forbidden (requires the admin role)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Book not found",
+            description: "User not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -983,23 +4407,24 @@ const document = createDocument({
         },
       } satisfies ZodOpenApiOperationObject,
     },
-    "/books/{id}/favorite": {
+    "/admin/users/{id}/force-logout": {
       post: {
-        tags: ["Favorites", "Books"],
-        summary: "Add a book to the current user's favorites",
-        security: [{ bearerAuth: [] }],
+        tags: ["Admin"],
+        summary: "Force-logout a user from every session",
+        security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
         responses: {
           "200": {
-            description: "Book added to favorites successfully.",
+            description: "All sessions of the user were revoked.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
                   message: z.string().openapi({
-                    example: "Book added to favorites successfully.",
+                    example: "User has been logged out of all sessions.",
                   }),
                 }),
               },
@@ -1007,7 +4432,7 @@ const document = createDocument({
           },
           "400": {
             description:
-              "Bad Request (e.g., book already in favorites, invalid ID)",
+              "Bad Request (e.g., invalid ID, or the target is the requesting admin)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -1019,13 +4444,13 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own the book to favorite)",
+            description: "Forbidden (requires the admin role)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Book or User not found",
+            description: "User not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -1038,30 +4463,36 @@ const document = createDocument({
           },
         },
       } satisfies ZodOpenApiOperationObject,
-      delete: {
-        tags: ["Favorites", "Books"],
-        summary: "Remove a book from the current user's favorites",
+    },
+    "/admin/users/{id}/impersonate": {
+      post: {
+        tags: ["Admin"],
+        summary: "Issue a short-lived token to act as a user",
+        description:
+          "The token carries an act claim naming the admin, has no refresh token and expires after IMPERSONATION_TOKEN_EXPIRES_IN. Writes made with it are recorded in the audit log, or rejected when IMPERSONATION_BLOCK_WRITES is enabled.",
         security: [{ bearerAuth: [] }],
+        "x-required-scopes": [Scope.ADMIN],
         requestParams: {
           path: z.object({ id: IdPathParameter }),
         },
         responses: {
           "200": {
-            description: "Book removed from favorites successfully.",
+            description: "Impersonation token issued.",
             content: {
               "application/json": {
                 schema: z.object({
                   status: z.string().openapi({ example: "success" }),
-                  message: z.string().openapi({
-                    example: "Book removed from favorites successfully.",
-                  }),
+                  message: z
+                    .string()
+                    .openapi({ example: "Impersonation token issued." }),
+                  data: ImpersonationDataSchema,
                 }),
               },
             },
           },
           "400": {
             description:
-              "Bad Request (e.g., book not in favorites, invalid ID)",
+              "Bad Request (e.g., invalid ID, or the target is the requesting admin)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -1073,13 +4504,14 @@ const document = createDocument({
             },
           },
           "403": {
-            description: "Forbidden (user does not own the book to unfavorite)",
+            description:
+              "Forbidden (requires the admin role and a JWT, and the target must not be an administrator)",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
           },
           "404": {
-            description: "Book or User not found",
+            description: "User not found",
             content: {
               "application/json": { schema: ErrorResponseSchema },
             },
@@ -0,0 +1,230 @@
+import { ErrorMessages } from "@/constants";
+import { prisma } from "@/db/client";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Admin API Endpoints (/api/v1/admin/users)", () => {
+  let admin: TestUser;
+  let member: TestUser;
+
+  beforeEach(async () => {
+    admin = await createUniqueTestUser({ name: "Admin_AdminUsers" });
+    member = await createUniqueTestUser({ name: "Member_AdminUsers" });
+    await prisma.user.update({
+      where: { id: admin.id },
+      data: { role: "admin" },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.auditLog.deleteMany({
+      where: { actorId: admin.id },
+    });
+    await deleteTestUser(admin.id);
+    await deleteTestUser(member.id);
+  });
+
+  describe("Access control", () => {
+    it("should reject non-admin users with 403", async () => {
+      const response = await request
+        .get("/api/v1/admin/users")
+        .set("Authorization", `Bearer ${member.token}`);
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body.message).toBe(
+        ErrorMessages.INSUFFICIENT_PERMISSIONS
+      );
+    });
+
+    it("should reject unauthenticated requests with 401", async () => {
+      const response = await request.get("/api/v1/admin/users");
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+  });
+
+  describe("GET /api/v1/admin/users", () => {
+    it("should search users by email and paginate the result", async () => {
+      const response = await request
+        .get("/api/v1/admin/users")
+        .query({ search: member.email, limit: 5 })
+        .set("Authorization", `Bearer ${admin.token}`);
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].id).toBe(member.id);
+      expect(response.body.data[0]).not.toHaveProperty("password");
+      expect(response.body.meta.itemsPerPage).toBe(5);
+    });
+  });
+
+  describe("POST /api/v1/admin/users/:id/suspend", () => {
+    it("should suspend the user, block their token and record the admin", async () => {
+      const suspendResponse = await request
+        .post(`/api/v1/admin/users/${member.id}/suspend`)
+        .set("Authorization", `Bearer ${admin.token}`)
+        .send({ reason: "Spam" });
+      expect(suspendResponse.status).toBe(StatusCodes.OK);
+      expect(suspendResponse.body.data.suspendedAt).not.toBeNull();
+      expect(suspendResponse.body.data.suspensionReason).toBe("Spam");
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${member.token}`);
+      expect(meResponse.status).toBe(StatusCodes.FORBIDDEN);
+      expect(meResponse.body.code).toBe("ACCOUNT_SUSPENDED");
+
+      const auditEntries = await prisma.auditLog.findMany({
+        where: { targetUserId: member.id },
+      });
+      expect(auditEntries).toHaveLength(1);
+      expect(auditEntries[0]!.action).toBe("USER_SUSPENDED");
+      expect(auditEntries[0]!.actorId).toBe(admin.id);
+    });
+
+    it("should reject login for a suspended user until unsuspended", async () => {
+      await request
+        .post(`/api/v1/admin/users/${member.id}/suspend`)
+        .set("Authorization", `Bearer ${admin.token}`)
+        .send({});
+
+      const blockedLogin = await request
+        .post("/api/v1/auth/login")
+        .send({ email: member.email, password: "ValidPassword123!" });
+      expect(blockedLogin.status).toBe(StatusCodes.FORBIDDEN);
+      expect(blockedLogin.body.code).toBe("ACCOUNT_SUSPENDED");
+
+      const unsuspendResponse = await request
+        .post(`/api/v1/admin/users/${member.id}/unsuspend`)
+        .set("Authorization", `Bearer ${admin.token}`);
+      expect(unsuspendResponse.status).toBe(StatusCodes.OK);
+      expect(unsuspendResponse.body.data.suspendedAt).toBeNull();
+
+      const login = await request
+        .post("/api/v1/auth/login")
+        .send({ email: member.email, password: "ValidPassword123!" });
+      expect(login.status).toBe(StatusCodes.OK);
+    });
+
+    it("should not let an admin suspend themselves", async () => {
+      const response = await request
+        .post(`/api/v1/admin/users/${admin.id}/suspend`)
+        .set("Authorization", `Bearer ${admin.token}`)
+        .send({});
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.message).toBe(
+        ErrorMessages.CANNOT_MODIFY_OWN_ACCOUNT
+      );
+    });
+  });
+
+  describe("PATCH /api/v1/admin/users/:id/role", () => {
+    it("should change the user's role", async () => {
+      const response = await request
+        .patch(`/api/v1/admin/users/${member.id}/role`)
+        .set("Authorization", `Bearer ${admin.token}`)
+        .send({ role: "editor" });
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.role).toBe("editor");
+    });
+
+    it("should reject an unknown role", async () => {
+      const response = await request
+        .patch(`/api/v1/admin/users/${member.id}/role`)
+        .set("Authorization", `Bearer ${admin.token}`)
+        .send({ role: "owner" });
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe("POST /api/v1/admin/users/:id/force-logout", () => {
+    it("should invalidate the user's existing access token", async () => {
+      const response = await request
+        .post(`/api/v1/admin/users/${member.id}/force-logout`)
+        .set("Authorization", `Bearer ${admin.token}`);
+      expect(response.status).toBe(StatusCodes.OK);
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${member.token}`);
+      expect(meResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(meResponse.body.message).toBe(ErrorMessages.TOKEN_REVOKED);
+    });
+  });
+
+  describe("POST /api/v1/admin/users/:id/impersonate", () => {
+    const impersonate = (userId: string) =>
+      request
+        .post(`/api/v1/admin/users/${userId}/impersonate`)
+        .set("Authorization", `Bearer ${admin.token}`);
+
+    it("should issue a token that acts as the user", async () => {
+      const response = await impersonate(member.id);
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.user.id).toBe(member.id);
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${response.body.data.token}`);
+      expect(meResponse.status).toBe(StatusCodes.OK);
+      expect(meResponse.body.data.id).toBe(member.id);
+
+      const auditEntries = await prisma.auditLog.findMany({
+        where: { actorId: admin.id, targetUserId: member.id },
+      });
+      expect(auditEntries.map((entry) => entry.action)).toEqual([
+        "USER_IMPERSONATED",
+      ]);
+    });
+
+    it("should record writes made while impersonating under the admin", async () => {
+      const { token } = (await impersonate(member.id)).body.data;
+
+      const createResponse = await request
+        .post("/api/v1/authors")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "Impersonated Author" });
+      expect(createResponse.status).toBe(StatusCodes.CREATED);
+
+      // The entry is written once the response has finished
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const writeEntry = await prisma.auditLog.findFirst({
+        where: { actorId: admin.id, action: "IMPERSONATED_WRITE" },
+      });
+      expect(writeEntry?.targetUserId).toBe(member.id);
+      expect(writeEntry?.details).toMatchObject({
+        method: "POST",
+        path: "/api/v1/authors",
+        statusCode: StatusCodes.CREATED,
+      });
+    });
+
+    it("should not allow account management while impersonating", async () => {
+      const { token } = (await impersonate(member.id)).body.data;
+
+      const response = await request
+        .get("/api/v1/auth/sessions")
+        .set("Authorization", `Bearer ${token}`);
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body.message).toBe(
+        ErrorMessages.IMPERSONATION_NOT_ALLOWED
+      );
+    });
+
+    it("should refuse to impersonate another administrator", async () => {
+      await prisma.user.update({
+        where: { id: member.id },
+        data: { role: "admin" },
+      });
+
+      const response = await impersonate(member.id);
+      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.body.message).toBe(
+        ErrorMessages.CANNOT_IMPERSONATE_ADMIN
+      );
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { ErrorMessages } from "@/constants";
+import { prisma } from "@/db/client";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("API Key Endpoints (/api/v1/auth/api-keys)", () => {
+  let user: TestUser;
+
+  const createKey = async (body: Record<string, unknown>) => {
+    const response = await request
+      .post("/api/v1/auth/api-keys")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send(body);
+    expect(response.status).toBe(StatusCodes.CREATED);
+    return response.body.data as {
+      apiKey: { id: string; prefix: string };
+      key: string;
+    };
+  };
+
+  beforeEach(async () => {
+    user = await createUniqueTestUser({ name: "ApiKeyUser" });
+  });
+
+  afterEach(async () => {
+    await deleteTestUser(user.id);
+  });
+
+  it("should create a key that is shown once and stored hashed", async () => {
+    const { apiKey, key } = await createKey({ name: "Import script" });
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+
+    const stored = await prisma.apiKey.findUnique({ where: { id: apiKey.id } });
+    expect(stored?.keyHash).not.toBe(key);
+
+    const listResponse = await request
+      .get("/api/v1/auth/api-keys")
+      .set("Authorization", `Bearer ${user.token}`);
+    expect(listResponse.status).toBe(StatusCodes.OK);
+    expect(listResponse.body.data).toHaveLength(1);
+    expect(listResponse.body.data[0]).not.toHaveProperty("key");
+    expect(listResponse.body.data[0]).not.toHaveProperty("keyHash");
+  });
+
+  it("should authenticate with X-API-Key and Authorization: ApiKey and track last use", async () => {
+    const { apiKey, key } = await createKey({ name: "CI job" });
+
+    const headerResponse = await request
+      .get("/api/v1/auth/me")
+      .set("X-API-Key", key);
+    expect(headerResponse.status).toBe(StatusCodes.OK);
+    expect(headerResponse.body.data.id).toBe(user.id);
+
+    const schemeResponse = await request
+      .get("/api/v1/books")
+      .set("Authorization", `ApiKey ${key}`);
+    expect(schemeResponse.status).toBe(StatusCodes.OK);
+
+    const stored = await prisma.apiKey.findUnique({ where: { id: apiKey.id } });
+    expect(stored?.lastUsedAt).not.toBeNull();
+  });
+
+  it("should only allow writes with a read-write key", async () => {
+    const readOnly = await createKey({ name: "Reader" });
+    const readWrite = await createKey({ name: "Writer", scope: "read_write" });
+
+    const readOnlyWrite = await request
+      .post("/api/v1/authors")
+      .set("X-API-Key", readOnly.key)
+      .send({ name: "Key Author" });
+    expect(readOnlyWrite.status).toBe(StatusCodes.FORBIDDEN);
+    expect(readOnlyWrite.body.message).toBe(ErrorMessages.API_KEY_READ_ONLY);
+
+    const readWriteWrite = await request
+      .post("/api/v1/authors")
+      .set("X-API-Key", readWrite.key)
+      .send({ name: "Key Author" });
+    expect(readWriteWrite.status).toBe(StatusCodes.CREATED);
+    await prisma.author.delete({ where: { id: readWriteWrite.body.data.id } });
+  });
+
+  it("should limit a key to the scopes it was created with", async () => {
+    const { apiKey, key } = await createKey({
+      name: "Book importer",
+      scope: "read_write",
+      scopes: ["books:read", "books:write"],
+    });
+    expect(apiKey).toMatchObject({ scopes: ["books:read", "books:write"] });
+
+    const readResponse = await request
+      .get("/api/v1/authors")
+      .set("X-API-Key", key);
+    expect(readResponse.status).toBe(StatusCodes.OK);
+
+    const authorWrite = await request
+      .post("/api/v1/authors")
+      .set("X-API-Key", key)
+      .send({ name: "Out Of Scope Author" });
+    expect(authorWrite.status).toBe(StatusCodes.FORBIDDEN);
+    expect(authorWrite.body.code).toBe("INSUFFICIENT_SCOPE");
+  });
+
+  it("should not grant scopes beyond the owner's role", async () => {
+    const response = await request
+      .post("/api/v1/auth/api-keys")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ name: "Wannabe admin", scopes: ["admin"] });
+    expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    expect(response.body.message).toBe(ErrorMessages.API_KEY_SCOPE_NOT_ALLOWED);
+  });
+
+  it("should reject revoked and expired keys", async () => {
+    const { apiKey, key } = await createKey({ name: "Short-lived" });
+
+    const revokeResponse = await request
+      .delete(`/api/v1/auth/api-keys/${apiKey.id}`)
+      .set("Authorization", `Bearer ${user.token}`);
+    expect(revokeResponse.status).toBe(StatusCodes.OK);
+
+    const revokedUse = await request
+      .get("/api/v1/auth/me")
+      .set("X-API-Key", key);
+    expect(revokedUse.status).toBe(StatusCodes.UNAUTHORIZED);
+    expect(revokedUse.body.message).toBe(ErrorMessages.API_KEY_INVALID);
+
+    const expiring = await createKey({ name: "Expiring" });
+    await prisma.apiKey.update({
+      where: { id: expiring.apiKey.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    const expiredUse = await request
+      .get("/api/v1/auth/me")
+      .set("X-API-Key", expiring.key);
+    expect(expiredUse.status).toBe(StatusCodes.UNAUTHORIZED);
+  });
+
+  it("should not let an API key manage API keys", async () => {
+    const { key } = await createKey({ name: "Writer", scope: "read_write" });
+
+    const response = await request
+      .post("/api/v1/auth/api-keys")
+      .set("X-API-Key", key)
+      .send({ name: "Escalation attempt" });
+    expect(response.status).toBe(StatusCodes.FORBIDDEN);
+    expect(response.body.message).toBe(ErrorMessages.API_KEY_NOT_ALLOWED);
+  });
+
+  it("should reject an expiry in the past", async () => {
+    const response = await request
+      .post("/api/v1/auth/api-keys")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ name: "Already expired", expiresAt: "2000-01-01T00:00:00Z" });
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+  });
+});
@@ -1,9 +1,15 @@
-import { ErrorMessages } from "@/constants";
+import { config } from "@/config";
+import { ErrorCodes, ErrorMessages } from "@/constants";
 import { prisma } from "@/db/client";
+import { generateTotpCode, getTotpStep } from "@/utils/totp";
 import { faker } from "@faker-js/faker";
 import { StatusCodes } from "http-status-codes";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { request } from "./helpers/api.helper";
+import {
+  extractLinkParamFromLatestMail,
+  getOutbox,
+} from "./helpers/mail.helper";
 import {
   type TestUser,
   createUniqueTestUser,
@@ -28,7 +34,7 @@ describe("Auth API Endpoints - /api/v1/auth", () => {
         firstName: "Register",
         lastName: `Success${Date.now()}`,
       });
-      const password = "Password123!";
+      const password = "RegisterSuccess123!";
       const name = "Register Success User";
 
       const response = await request
@@ -57,7 +63,7 @@ describe("Auth API Endpoints - /api/v1/auth", () => {
       const response = await request.post("/api/v1/auth/register").send({
         name: "Another User",
         email: existingUser.email,
-        password: "Password123!",
+        password: "AnotherUser123!",
       });
 
       expect(response.status).toBe(StatusCodes.BAD_REQUEST);
@@ -104,6 +110,26 @@ describe("Auth API Endpoints - /api/v1/auth", () => {
       );
     });
 
+    it("should fail to register with a commonly used password", async () => {
+      const uniqueEmail = faker.internet.email({
+        firstName: "CommonPass",
+        lastName: `User${Date.now()}`,
+      });
+      const response = await request.post("/api/v1/auth/register").send({
+        name: "Common Pass",
+        email: uniqueEmail,
+        password: "Password123!",
+      });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({
+          field: "body.password",
+          message: ErrorMessages.PASSWORD_TOO_COMMON,
+        }),
+      ]);
+    });
+
     it("should fail to register if password does not meet complexity requirements (e.g., missing uppercase)", async () => {
       const uniqueEmail = faker.internet.email({
         firstName: "WeakPass",
@@ -252,6 +278,406 @@ describe("Auth API Endpoints - /api/v1/auth", () => {
     });
   });
 
+  describe("POST /api/v1/auth/refresh", () => {
+    let refreshTestUser: TestUser;
+    const refreshTestPassword = "PasswordForRefresh123!";
+
+    beforeEach(async () => {
+      refreshTestUser = await createUniqueTestUser({
+        name: `RefreshTestUser_${Date.now()}`,
+        password: refreshTestPassword,
+      });
+      createdUserIds.push(refreshTestUser.id);
+    });
+
+    const loginAndGetRefreshToken = async () => {
+      const loginResponse = await request
+        .post("/api/v1/auth/login")
+        .send({ email: refreshTestUser.email, password: refreshTestPassword });
+      return loginResponse.body.data.refreshToken as string;
+    };
+
+    it("should issue a new token pair and rotate the refresh token", async () => {
+      const refreshToken = await loginAndGetRefreshToken();
+
+      const response = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.user.id).toBe(refreshTestUser.id);
+      expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${response.body.data.token}`);
+      expect(meResponse.status).toBe(StatusCodes.OK);
+    });
+
+    it("should revoke the token family when a used refresh token is replayed", async () => {
+      const refreshToken = await loginAndGetRefreshToken();
+
+      const firstRotation = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken });
+      expect(firstRotation.status).toBe(StatusCodes.OK);
+
+      const replay = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken });
+      expect(replay.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(replay.body.message).toBe(ErrorMessages.REFRESH_TOKEN_REUSED);
+
+      const rotatedTokenAfterReuse = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken: firstRotation.body.data.refreshToken });
+      expect(rotatedTokenAfterReuse.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should fail with an unknown refresh token", async () => {
+      const response = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken: "not-a-real-refresh-token" });
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(response.body.message).toBe(ErrorMessages.REFRESH_TOKEN_INVALID);
+    });
+
+    it("should fail validation if refresh token is missing", async () => {
+      const response = await request.post("/api/v1/auth/refresh").send({});
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.message).toBe(ErrorMessages.VALIDATION_ERROR);
+    });
+  });
+
+  describe("POST /api/v1/auth/logout and /logout-all", () => {
+    let logoutTestUser: TestUser;
+    const logoutTestPassword = "PasswordForLogout123!";
+
+    beforeEach(async () => {
+      logoutTestUser = await createUniqueTestUser({
+        name: `LogoutTestUser_${Date.now()}`,
+        password: logoutTestPassword,
+      });
+      createdUserIds.push(logoutTestUser.id);
+    });
+
+    it("should revoke the supplied refresh token on logout", async () => {
+      const loginResponse = await request
+        .post("/api/v1/auth/login")
+        .send({ email: logoutTestUser.email, password: logoutTestPassword });
+      const { token, refreshToken } = loginResponse.body.data;
+
+      const response = await request
+        .post("/api/v1/auth/logout")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ refreshToken });
+      expect(response.status).toBe(StatusCodes.OK);
+
+      const refreshResponse = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken });
+      expect(refreshResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should sign out the current session when no refresh token is sent", async () => {
+      const loginResponse = await request
+        .post("/api/v1/auth/login")
+        .send({ email: logoutTestUser.email, password: logoutTestPassword });
+      const { token, refreshToken } = loginResponse.body.data;
+
+      const response = await request
+        .post("/api/v1/auth/logout")
+        .set("Authorization", `Bearer ${token}`);
+      expect(response.status).toBe(StatusCodes.OK);
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${token}`);
+      expect(meResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(meResponse.body.message).toBe(ErrorMessages.SESSION_REVOKED);
+
+      const refreshResponse = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken });
+      expect(refreshResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should invalidate every previously issued token on logout-all", async () => {
+      const otherDeviceLogin = await request
+        .post("/api/v1/auth/login")
+        .send({ email: logoutTestUser.email, password: logoutTestPassword });
+
+      const response = await request
+        .post("/api/v1/auth/logout-all")
+        .set("Authorization", `Bearer ${logoutTestUser.token}`);
+      expect(response.status).toBe(StatusCodes.OK);
+
+      const meWithOldToken = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${otherDeviceLogin.body.data.token}`);
+      expect(meWithOldToken.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(meWithOldToken.body.message).toBe(ErrorMessages.TOKEN_REVOKED);
+
+      const refreshResponse = await request
+        .post("/api/v1/auth/refresh")
+        .send({ refreshToken: otherDeviceLogin.body.data.refreshToken });
+      expect(refreshResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+
+      const freshLogin = await request
+        .post("/api/v1/auth/login")
+        .send({ email: logoutTestUser.email, password: logoutTestPassword });
+      const meWithNewToken = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${freshLogin.body.data.token}`);
+      expect(meWithNewToken.status).toBe(StatusCodes.OK);
+    });
+
+    it("should require authentication", async () => {
+      const response = await request.post("/api/v1/auth/logout-all");
+
+      expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+  });
+
+  describe("POST /api/v1/auth/forgot-password and /reset-password", () => {
+    let resetTestUser: TestUser;
+    const oldPassword = "PasswordBeforeReset123!";
+    const newPassword = "PasswordAfterReset456!";
+
+    beforeEach(async () => {
+      resetTestUser = await createUniqueTestUser({
+        name: `ResetTestUser_${Date.now()}`,
+        password: oldPassword,
+      });
+      createdUserIds.push(resetTestUser.id);
+    });
+
+    it("should reset the password through the emailed link", async () => {
+      const forgotResponse = await request
+        .post("/api/v1/auth/forgot-password")
+        .send({ email: resetTestUser.email });
+      expect(forgotResponse.status).toBe(StatusCodes.OK);
+
+      const resetToken = extractLinkParamFromLatestMail(resetTestUser.email);
+      expect(resetToken).toBeTruthy();
+
+      const resetResponse = await request
+        .post("/api/v1/auth/reset-password")
+        .send({ token: resetToken, password: newPassword });
+      expect(resetResponse.status).toBe(StatusCodes.OK);
+
+      const oldLogin = await request
+        .post("/api/v1/auth/login")
+        .send({ email: resetTestUser.email, password: oldPassword });
+      expect(oldLogin.status).toBe(StatusCodes.UNAUTHORIZED);
+
+      const newLogin = await request
+        .post("/api/v1/auth/login")
+        .send({ email: resetTestUser.email, password: newPassword });
+      expect(newLogin.status).toBe(StatusCodes.OK);
+
+      const meWithOldToken = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${resetTestUser.token}`);
+      expect(meWithOldToken.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should not allow a reset token to be used twice", async () => {
+      await request
+        .post("/api/v1/auth/forgot-password")
+        .send({ email: resetTestUser.email });
+      const resetToken = extractLinkParamFromLatestMail(resetTestUser.email);
+
+      const firstReset = await request
+        .post("/api/v1/auth/reset-password")
+        .send({ token: resetToken, password: newPassword });
+      expect(firstReset.status).toBe(StatusCodes.OK);
+
+      const secondReset = await request
+        .post("/api/v1/auth/reset-password")
+        .send({ token: resetToken, password: "AnotherPassword789!" });
+      expect(secondReset.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(secondReset.body.message).toBe(
+        ErrorMessages.PASSWORD_RESET_TOKEN_INVALID
+      );
+    });
+
+    it("should respond identically for an unknown email", async () => {
+      const knownResponse = await request
+        .post("/api/v1/auth/forgot-password")
+        .send({ email: resetTestUser.email });
+      const unknownResponse = await request
+        .post("/api/v1/auth/forgot-password")
+        .send({
+          email: faker.internet.email({
+            firstName: "Unknown",
+            lastName: `Reset${Date.now()}`,
+          }),
+        });
+
+      expect(unknownResponse.status).toBe(knownResponse.status);
+      expect(unknownResponse.body.message).toBe(knownResponse.body.message);
+    });
+  });
+
+  describe("POST /api/v1/auth/magic-link and /magic-link/consume", () => {
+    let magicLinkUser: TestUser;
+
+    beforeEach(async () => {
+      magicLinkUser = await createUniqueTestUser({
+        name: `MagicLinkUser_${Date.now()}`,
+      });
+      createdUserIds.push(magicLinkUser.id);
+    });
+
+    it("should log in through the emailed link", async () => {
+      const requestResponse = await request
+        .post("/api/v1/auth/magic-link")
+        .send({ email: magicLinkUser.email });
+      expect(requestResponse.status).toBe(StatusCodes.OK);
+
+      const signInToken = extractLinkParamFromLatestMail(magicLinkUser.email);
+      expect(signInToken).toBeTruthy();
+
+      const consumeResponse = await request
+        .post("/api/v1/auth/magic-link/consume")
+        .send({ token: signInToken });
+      expect(consumeResponse.status).toBe(StatusCodes.OK);
+      expect(consumeResponse.body.data.user.id).toBe(magicLinkUser.id);
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${consumeResponse.body.data.token}`);
+      expect(meResponse.status).toBe(StatusCodes.OK);
+      expect(meResponse.body.data.email).toBe(magicLinkUser.email);
+    });
+
+    it("should not allow a link to be used twice", async () => {
+      await request
+        .post("/api/v1/auth/magic-link")
+        .send({ email: magicLinkUser.email });
+      const signInToken = extractLinkParamFromLatestMail(magicLinkUser.email);
+
+      const firstConsume = await request
+        .post("/api/v1/auth/magic-link/consume")
+        .send({ token: signInToken });
+      expect(firstConsume.status).toBe(StatusCodes.OK);
+
+      const secondConsume = await request
+        .post("/api/v1/auth/magic-link/consume")
+        .send({ token: signInToken });
+      expect(secondConsume.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(secondConsume.body.message).toBe(
+        ErrorMessages.MAGIC_LINK_TOKEN_INVALID
+      );
+    });
+
+    it("should invalidate an earlier link when a new one is requested", async () => {
+      await request
+        .post("/api/v1/auth/magic-link")
+        .send({ email: magicLinkUser.email });
+      const firstToken = extractLinkParamFromLatestMail(magicLinkUser.email);
+      await request
+        .post("/api/v1/auth/magic-link")
+        .send({ email: magicLinkUser.email });
+
+      const response = await request
+        .post("/api/v1/auth/magic-link/consume")
+        .send({ token: firstToken });
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it("should respond identically for an unknown email", async () => {
+      const knownResponse = await request
+        .post("/api/v1/auth/magic-link")
+        .send({ email: magicLinkUser.email });
+      const unknownResponse = await request
+        .post("/api/v1/auth/magic-link")
+        .send({
+          email: faker.internet.email({
+            firstName: "Unknown",
+            lastName: `MagicLink${Date.now()}`,
+          }),
+        });
+
+      expect(unknownResponse.status).toBe(knownResponse.status);
+      expect(unknownResponse.body.message).toBe(knownResponse.body.message);
+    });
+  });
+
+  describe("GET/POST /api/v1/auth/verify-email", () => {
+    let verifyTestUser: TestUser;
+
+    beforeEach(async () => {
+      verifyTestUser = await createUniqueTestUser({
+        name: `VerifyTestUser_${Date.now()}`,
+      });
+      createdUserIds.push(verifyTestUser.id);
+    });
+
+    it("should start unverified and verify through the emailed link", async () => {
+      const meBefore = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${verifyTestUser.token}`);
+      expect(meBefore.body.data.emailVerifiedAt).toBeNull();
+
+      const verificationToken = extractLinkParamFromLatestMail(
+        verifyTestUser.email
+      );
+      expect(verificationToken).toBeTruthy();
+
+      const verifyResponse = await request
+        .get("/api/v1/auth/verify-email")
+        .query({ token: verificationToken });
+      expect(verifyResponse.status).toBe(StatusCodes.OK);
+      expect(verifyResponse.body.data.emailVerifiedAt).toEqual(
+        expect.any(String)
+      );
+
+      const secondAttempt = await request
+        .post("/api/v1/auth/verify-email")
+        .send({ token: verificationToken });
+      expect(secondAttempt.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(secondAttempt.body.message).toBe(
+        ErrorMessages.EMAIL_VERIFICATION_TOKEN_INVALID
+      );
+    });
+
+    it("should invalidate the previous link when a new one is requested", async () => {
+      const firstToken = extractLinkParamFromLatestMail(verifyTestUser.email);
+
+      const resendResponse = await request
+        .post("/api/v1/auth/verify-email/resend")
+        .set("Authorization", `Bearer ${verifyTestUser.token}`);
+      expect(resendResponse.status).toBe(StatusCodes.OK);
+
+      const secondToken = extractLinkParamFromLatestMail(verifyTestUser.email);
+      expect(secondToken).not.toBe(firstToken);
+
+      const staleResponse = await request
+        .post("/api/v1/auth/verify-email")
+        .send({ token: firstToken });
+      expect(staleResponse.status).toBe(StatusCodes.BAD_REQUEST);
+
+      const freshResponse = await request
+        .post("/api/v1/auth/verify-email")
+        .send({ token: secondToken });
+      expect(freshResponse.status).toBe(StatusCodes.OK);
+
+      const resendAfterVerify = await request
+        .post("/api/v1/auth/verify-email/resend")
+        .set("Authorization", `Bearer ${verifyTestUser.token}`);
+      expect(resendAfterVerify.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(resendAfterVerify.body.message).toBe(
+        ErrorMessages.EMAIL_ALREADY_VERIFIED
+      );
+    });
+  });
+
   describe("GET /api/v1/auth/me", () => {
     let meTestUser: TestUser;
 
@@ -337,4 +763,430 @@ describe("Auth API Endpoints - /api/v1/auth", () => {
       );
     });
   });
+
+  describe("Profile management - /api/v1/auth/me", () => {
+    let profileTestUser: TestUser;
+    const profilePassword = "ProfilePassword123!";
+
+    beforeEach(async () => {
+      profileTestUser = await createUniqueTestUser({
+        name: `ProfileTestUser_${Date.now()}`,
+        password: profilePassword,
+      });
+      createdUserIds.push(profileTestUser.id);
+    });
+
+    it("should update the display name with PATCH /me", async () => {
+      const response = await request
+        .patch("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ name: "Renamed Profile User" });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.name).toBe("Renamed Profile User");
+      expect(response.body.data).not.toHaveProperty("password");
+    });
+
+    it("should change the password and sign out previously issued tokens", async () => {
+      const newPassword = "ChangedPassword456!";
+      const response = await request
+        .post("/api/v1/auth/me/password")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ currentPassword: profilePassword, newPassword });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.token).toEqual(expect.any(String));
+
+      const meWithOldToken = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`);
+      expect(meWithOldToken.status).toBe(StatusCodes.UNAUTHORIZED);
+
+      const meWithNewToken = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${response.body.data.token}`);
+      expect(meWithNewToken.status).toBe(StatusCodes.OK);
+
+      const loginWithNewPassword = await request
+        .post("/api/v1/auth/login")
+        .send({ email: profileTestUser.email, password: newPassword });
+      expect(loginWithNewPassword.status).toBe(StatusCodes.OK);
+    });
+
+    it("should reject a password change with an incorrect current password", async () => {
+      const response = await request
+        .post("/api/v1/auth/me/password")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({
+          currentPassword: "WrongPassword123!",
+          newPassword: "ChangedPassword456!",
+        });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.message).toBe(
+        ErrorMessages.CURRENT_PASSWORD_INCORRECT
+      );
+    });
+
+    it("should change the email only after the new address is confirmed", async () => {
+      const newEmail = faker.internet
+        .email({ firstName: "Changed", lastName: `Email${Date.now()}` })
+        .toLowerCase();
+
+      const requestResponse = await request
+        .post("/api/v1/auth/me/email")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ email: newEmail, currentPassword: profilePassword });
+      expect(requestResponse.status).toBe(StatusCodes.OK);
+
+      const meBeforeConfirm = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`);
+      expect(meBeforeConfirm.body.data.email).toBe(profileTestUser.email);
+
+      const changeToken = extractLinkParamFromLatestMail(newEmail);
+      const confirmResponse = await request
+        .post("/api/v1/auth/me/email/confirm")
+        .send({ token: changeToken });
+      expect(confirmResponse.status).toBe(StatusCodes.OK);
+      expect(confirmResponse.body.data.email).toBe(newEmail);
+      expect(confirmResponse.body.data.emailVerifiedAt).toEqual(
+        expect.any(String)
+      );
+
+      const loginWithNewEmail = await request
+        .post("/api/v1/auth/login")
+        .send({ email: newEmail, password: profilePassword });
+      expect(loginWithNewEmail.status).toBe(StatusCodes.OK);
+    });
+
+    it("should delete the account, its created records and favorites pointing at them", async () => {
+      const otherUser = await createUniqueTestUser({
+        name: `ProfileOtherUser_${Date.now()}`,
+      });
+      createdUserIds.push(otherUser.id);
+
+      const authorResponse = await request
+        .post("/api/v1/authors")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ name: `Doomed Author ${Date.now()}` });
+      const authorId = authorResponse.body.data.id;
+
+      const bookResponse = await request
+        .post("/api/v1/books")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ title: `Doomed Book ${Date.now()}`, authorIds: [authorId] });
+      const bookId = bookResponse.body.data.id;
+
+      await prisma.favorite.createMany({
+        data: [
+          {
+            userId: otherUser.id,
+            targetType: "BOOK",
+            targetId: bookId,
+            position: 0,
+          },
+          {
+            userId: otherUser.id,
+            targetType: "AUTHOR",
+            targetId: authorId,
+            position: 0,
+          },
+        ],
+      });
+
+      const deleteResponse = await request
+        .delete("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ currentPassword: profilePassword });
+      expect(deleteResponse.status).toBe(StatusCodes.OK);
+
+      expect(
+        await prisma.user.findUnique({ where: { id: profileTestUser.id } })
+      ).toBeNull();
+      expect(
+        await prisma.book.findUnique({ where: { id: bookId } })
+      ).toBeNull();
+      expect(
+        await prisma.author.findUnique({ where: { id: authorId } })
+      ).toBeNull();
+      expect(await prisma.bookAuthor.count({ where: { bookId } })).toBe(0);
+
+      expect(
+        await prisma.favorite.count({
+          where: { targetId: { in: [bookId, authorId] } },
+        })
+      ).toBe(0);
+
+      const meAfterDelete = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`);
+      expect(meAfterDelete.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should keep authors credited on books of other users", async () => {
+      const otherUser = await createUniqueTestUser({
+        name: `ProfileOtherUser_${Date.now()}`,
+      });
+      createdUserIds.push(otherUser.id);
+
+      const authorResponse = await request
+        .post("/api/v1/authors")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ name: `Shared Author ${Date.now()}` });
+      const authorId = authorResponse.body.data.id;
+
+      const otherBookResponse = await request
+        .post("/api/v1/books")
+        .set("Authorization", `Bearer ${otherUser.token}`)
+        .send({ title: `Surviving Book ${Date.now()}`, authorIds: [authorId] });
+      expect(otherBookResponse.status).toBe(StatusCodes.CREATED);
+      const otherBookId = otherBookResponse.body.data.id;
+
+      const deleteResponse = await request
+        .delete("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ currentPassword: profilePassword });
+      expect(deleteResponse.status).toBe(StatusCodes.OK);
+
+      expect(
+        await prisma.author.findUnique({ where: { id: authorId } })
+      ).toMatchObject({ createdById: null });
+      expect(
+        await prisma.bookAuthor.count({
+          where: { bookId: otherBookId, authorId },
+        })
+      ).toBe(1);
+
+      const bookResponse = await request
+        .get(`/api/v1/books/${otherBookId}`)
+        .set("Authorization", `Bearer ${otherUser.token}`);
+      expect(bookResponse.status).toBe(StatusCodes.OK);
+      expect(bookResponse.body.data.authors[0].author).toMatchObject({
+        id: authorId,
+      });
+
+      await prisma.bookAuthor.deleteMany({ where: { bookId: otherBookId } });
+      await prisma.book.delete({ where: { id: otherBookId } });
+      await prisma.author.delete({ where: { id: authorId } });
+    });
+
+    it("should refuse to delete the account with an incorrect password", async () => {
+      const response = await request
+        .delete("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${profileTestUser.token}`)
+        .send({ currentPassword: "WrongPassword123!" });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(
+        await prisma.user.findUnique({ where: { id: profileTestUser.id } })
+      ).not.toBeNull();
+    });
+  });
+
+  describe("Two-factor authentication - /api/v1/auth/me/2fa and /login/mfa", () => {
+    let mfaTestUser: TestUser;
+    const mfaPassword = "MfaPassword123!";
+
+    // Enrolls the user and returns the secret and recovery codes
+    const enableTwoFactor = async () => {
+      const setupResponse = await request
+        .post("/api/v1/auth/me/2fa/setup")
+        .set("Authorization", `Bearer ${mfaTestUser.token}`);
+      expect(setupResponse.status).toBe(StatusCodes.OK);
+      const { secret, otpauthUri } = setupResponse.body.data;
+      expect(otpauthUri).toContain(`secret=${secret}`);
+
+      const confirmResponse = await request
+        .post("/api/v1/auth/me/2fa/confirm")
+        .set("Authorization", `Bearer ${mfaTestUser.token}`)
+        .send({ code: generateTotpCode(secret, getTotpStep()) });
+      expect(confirmResponse.status).toBe(StatusCodes.OK);
+
+      return {
+        secret: secret as string,
+        recoveryCodes: confirmResponse.body.data.recoveryCodes as string[],
+      };
+    };
+
+    const loginWithPassword = () =>
+      request
+        .post("/api/v1/auth/login")
+        .send({ email: mfaTestUser.email, password: mfaPassword });
+
+    beforeEach(async () => {
+      mfaTestUser = await createUniqueTestUser({
+        name: `MfaTestUser_${Date.now()}`,
+        password: mfaPassword,
+      });
+      createdUserIds.push(mfaTestUser.id);
+    });
+
+    it("should return an MFA challenge from login once 2FA is enabled", async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+      expect(recoveryCodes).toHaveLength(10);
+
+      const loginResponse = await loginWithPassword();
+      expect(loginResponse.status).toBe(StatusCodes.OK);
+      expect(loginResponse.body.data.mfaRequired).toBe(true);
+      expect(loginResponse.body.data).not.toHaveProperty("token");
+
+      const meWithChallenge = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${loginResponse.body.data.mfaToken}`);
+      expect(meWithChallenge.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should finish the login with a TOTP code and reject replaying it", async () => {
+      const { secret } = await enableTwoFactor();
+      // The current step was used to confirm enrollment, so use the next one
+      const code = generateTotpCode(secret, getTotpStep() + 1);
+
+      const loginResponse = await loginWithPassword();
+      const mfaResponse = await request
+        .post("/api/v1/auth/login/mfa")
+        .send({ mfaToken: loginResponse.body.data.mfaToken, code });
+      expect(mfaResponse.status).toBe(StatusCodes.OK);
+      expect(mfaResponse.body.data.token).toEqual(expect.any(String));
+      expect(mfaResponse.body.data.user.twoFactorEnabled).toBe(true);
+
+      const replayResponse = await request
+        .post("/api/v1/auth/login/mfa")
+        .send({ mfaToken: loginResponse.body.data.mfaToken, code });
+      expect(replayResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+      expect(replayResponse.body.message).toBe(
+        ErrorMessages.TWO_FACTOR_CODE_INVALID
+      );
+    });
+
+    it("should accept each recovery code only once", async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+      const loginResponse = await loginWithPassword();
+      const mfaToken = loginResponse.body.data.mfaToken;
+
+      const firstUse = await request
+        .post("/api/v1/auth/login/mfa")
+        .send({ mfaToken, code: recoveryCodes[0] });
+      expect(firstUse.status).toBe(StatusCodes.OK);
+
+      const secondUse = await request
+        .post("/api/v1/auth/login/mfa")
+        .send({ mfaToken, code: recoveryCodes[0] });
+      expect(secondUse.status).toBe(StatusCodes.UNAUTHORIZED);
+    });
+
+    it("should disable 2FA with the password and a recovery code", async () => {
+      const { recoveryCodes } = await enableTwoFactor();
+
+      const disableResponse = await request
+        .delete("/api/v1/auth/me/2fa")
+        .set("Authorization", `Bearer ${mfaTestUser.token}`)
+        .send({ currentPassword: mfaPassword, code: recoveryCodes[1] });
+      expect(disableResponse.status).toBe(StatusCodes.OK);
+
+      const loginResponse = await loginWithPassword();
+      expect(loginResponse.status).toBe(StatusCodes.OK);
+      expect(loginResponse.body.data.token).toEqual(expect.any(String));
+      expect(loginResponse.body.data.user.twoFactorEnabled).toBe(false);
+    });
+
+    it("should not expose the TOTP secret on GET /me", async () => {
+      await enableTwoFactor();
+
+      const meResponse = await request
+        .get("/api/v1/auth/me")
+        .set("Authorization", `Bearer ${mfaTestUser.token}`);
+      expect(meResponse.status).toBe(StatusCodes.OK);
+      expect(meResponse.body.data).not.toHaveProperty("totpSecret");
+      expect(meResponse.body.data).not.toHaveProperty("totpRecoveryCodes");
+    });
+  });
+
+  describe("GET /.well-known/jwks.json", () => {
+    it("should publish the public signing keys as a cacheable JWK set", async () => {
+      const response = await request.get("/.well-known/jwks.json");
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.headers["cache-control"]).toContain("max-age");
+      expect(Array.isArray(response.body.keys)).toBe(true);
+      for (const key of response.body.keys) {
+        expect(key).toHaveProperty("kid");
+        expect(key).not.toHaveProperty("d");
+      }
+    });
+  });
+
+  describe("Brute-force protection", () => {
+    const password = "PasswordForLockout123!";
+    const originalBaseDelayMs = config.bruteForce.baseDelayMs;
+    let lockoutTestUser: TestUser;
+
+    beforeEach(async () => {
+      (config.bruteForce as any).baseDelayMs = 0;
+      lockoutTestUser = await createUniqueTestUser({ password });
+      createdUserIds.push(lockoutTestUser.id);
+    });
+
+    afterEach(() => {
+      (config.bruteForce as any).baseDelayMs = originalBaseDelayMs;
+    });
+
+    const failLogin = () =>
+      request
+        .post("/api/v1/auth/login")
+        .send({ email: lockoutTestUser.email, password: "WrongPassword123!" });
+
+    it("should lock the account with 429 and Retry-After after repeated failures and email the owner", async () => {
+      for (let i = 0; i < config.bruteForce.maxLoginFailuresPerAccount; i++) {
+        const response = await failLogin();
+        expect(response.status).toBe(StatusCodes.UNAUTHORIZED);
+      }
+
+      const lockedResponse = await request
+        .post("/api/v1/auth/login")
+        .send({ email: lockoutTestUser.email, password });
+
+      expect(lockedResponse.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+      expect(lockedResponse.body.code).toBe(ErrorCodes.TOO_MANY_ATTEMPTS);
+      expect(Number(lockedResponse.headers["retry-after"])).toBeGreaterThan(0);
+      expect(getOutbox().getLatestMessage(lockoutTestUser.email)?.subject).toBe(
+        "Your account was temporarily locked"
+      );
+    });
+
+    it("should lift the lockout once the password is reset", async () => {
+      for (let i = 0; i < config.bruteForce.maxLoginFailuresPerAccount; i++) {
+        await failLogin();
+      }
+
+      await request
+        .post("/api/v1/auth/forgot-password")
+        .send({ email: lockoutTestUser.email });
+      const resetToken = extractLinkParamFromLatestMail(lockoutTestUser.email);
+      await request
+        .post("/api/v1/auth/reset-password")
+        .send({ token: resetToken, password: "NewPassword123!" })
+        .expect(StatusCodes.OK);
+
+      const response = await request
+        .post("/api/v1/auth/login")
+        .send({ email: lockoutTestUser.email, password: "NewPassword123!" });
+      expect(response.status).toBe(StatusCodes.OK);
+    });
+
+    it("should limit password reset requests per account", async () => {
+      for (let i = 0; i < config.bruteForce.maxPasswordResetsPerAccount; i++) {
+        await request
+          .post("/api/v1/auth/forgot-password")
+          .send({ email: lockoutTestUser.email })
+          .expect(StatusCodes.OK);
+      }
+
+      const response = await request
+        .post("/api/v1/auth/forgot-password")
+        .send({ email: lockoutTestUser.email });
+      expect(response.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+      expect(response.headers["retry-after"]).toBeDefined();
+    });
+  });
 });
@@ -15,7 +15,7 @@ import {
   deleteTestUser,
 } from "./helpers/user.helper";
 
-describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites)", () => {
+describe("Author API Endpoints (/api/v1/authors) (Favorites Across Owners)", () => {
   let userA: TestUser;
   let userB: TestUser;
 
@@ -59,17 +59,9 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
     authorIdsToClean.length = 0;
 
     const uniqueUserIds = [...new Set(userIdsToClean)];
-    for (const userId of uniqueUserIds) {
-      try {
-        await prisma.user.update({
-          where: { id: userId },
-          data: {
-            favoriteAuthorIds: { set: [] },
-            favoriteAuthors: { set: [] },
-          },
-        });
-      } catch (e) {}
-    }
+    await prisma.favorite.deleteMany({
+      where: { userId: { in: uniqueUserIds } },
+    });
     for (const userId of uniqueUserIds) {
       await deleteTestUser(userId);
     }
@@ -114,9 +106,20 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
   });
 
   describe("GET /api/v1/authors", () => {
-    it("should return only User A's authors when User A requests", async () => {
+    it("should list authors created by other users too", async () => {
       const response = await request
-        .get("/api/v1/authors")
+        .get("/api/v1/authors?limit=100")
+        .set("Authorization", `Bearer ${userA.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      const returnedAuthorIds = response.body.data.map((a: Author) => a.id);
+      expect(returnedAuthorIds).toContain(authorA1.id);
+      expect(returnedAuthorIds).toContain(authorB1.id);
+    });
+
+    it("should return only User A's authors when User A requests mine=true", async () => {
+      const response = await request
+        .get("/api/v1/authors?mine=true")
         .set("Authorization", `Bearer ${userA.token}`);
 
       expect(response.status).toBe(StatusCodes.OK);
@@ -138,7 +141,7 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
         .set("Authorization", `Bearer ${userA.token}`);
 
       const response = await request
-        .get("/api/v1/authors")
+        .get("/api/v1/authors?mine=true")
         .set("Authorization", `Bearer ${userA.token}`);
 
       expect(response.status).toBe(StatusCodes.OK);
@@ -157,7 +160,7 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
 
     it("should support pagination for User A's authors", async () => {
       const response = await request
-        .get("/api/v1/authors?page=1&limit=1")
+        .get("/api/v1/authors?page=1&limit=1&mine=true")
         .set("Authorization", `Bearer ${userA.token}`);
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.body.data.length).toBe(1);
@@ -169,7 +172,7 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
     it("should support search for User A's authors", async () => {
       const searchTerm = authorA1.name.substring(0, 10);
       const response = await request
-        .get(`/api/v1/authors?search=${searchTerm}`)
+        .get(`/api/v1/authors?search=${searchTerm}&mine=true`)
         .set("Authorization", `Bearer ${userA.token}`);
       expect(response.status).toBe(StatusCodes.OK);
       expect(response.body.data.length).toBeGreaterThanOrEqual(1);
@@ -212,12 +215,12 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
       expect(response.body.data.isFavorite).toBe(true);
     });
 
-    it("should forbid User A from getting User B's author (authorB1)", async () => {
+    it("should allow User A to get User B's author (authorB1)", async () => {
       const response = await request
         .get(`/api/v1/authors/${authorB1.id}`)
         .set("Authorization", `Bearer ${userA.token}`);
-      expect(response.status).toBe(StatusCodes.FORBIDDEN);
-      expect(response.body.message).toBe(ErrorMessages.UNAUTHORIZED_ACTION);
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.id).toBe(authorB1.id);
     });
 
     it("should return 404 if author ID does not exist (when requested by owner)", async () => {
@@ -257,6 +260,21 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
       expect(response.body.message).toBe(ErrorMessages.UNAUTHORIZED_ACTION);
     });
 
+    it("should allow an editor to update User B's author (authorB1)", async () => {
+      await prisma.user.update({
+        where: { id: userA.id },
+        data: { role: "editor" },
+      });
+
+      const response = await request
+        .patch(`/api/v1/authors/${authorB1.id}`)
+        .set("Authorization", `Bearer ${userA.token}`)
+        .send(updatePayload);
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.name).toBe(updatePayload.name);
+      expect(response.body.data.createdById).toBe(userB.id);
+    });
+
     it("should return 404 if trying to update a non-existent author (by owner)", async () => {
       const nonExistentId = faker.database.mongodbObjectId();
       const response = await request
@@ -307,6 +325,19 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
       expect(response.body.message).toBe(ErrorMessages.UNAUTHORIZED_ACTION);
     });
 
+    it("should allow an admin to delete User B's author (authorB1)", async () => {
+      await prisma.user.update({
+        where: { id: userA.id },
+        data: { role: "admin" },
+      });
+
+      const response = await request
+        .delete(`/api/v1/authors/${authorB1.id}`)
+        .set("Authorization", `Bearer ${userA.token}`);
+      expect(response.status).toBe(StatusCodes.OK);
+      authorIdsToClean = authorIdsToClean.filter((id) => id !== authorB1.id);
+    });
+
     it("should return 404 if trying to delete a non-existent author (by owner)", async () => {
       const nonExistentId = faker.database.mongodbObjectId();
       const response = await request
@@ -329,11 +360,19 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
       expect(response.status).toBe(StatusCodes.OK);
     });
 
-    it("should forbid User A from favoriting User B's author (authorB1)", async () => {
+    it("should allow User A to favorite User B's author (authorB1)", async () => {
       const response = await request
         .post(`/api/v1/authors/${authorB1.id}/favorite`)
         .set("Authorization", `Bearer ${userA.token}`);
-      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.status).toBe(StatusCodes.OK);
+
+      const favorites = await request
+        .get("/api/v1/favorites/authors")
+        .set("Authorization", `Bearer ${userA.token}`);
+      expect(favorites.status).toBe(StatusCodes.OK);
+      expect(favorites.body.data.map((a: Author) => a.id)).toEqual([
+        authorB1.id,
+      ]);
     });
   });
 
@@ -350,11 +389,15 @@ describe("Author API Endpoints (/api/v1/authors) (Strict Ownership for Favorites
       expect(response.status).toBe(StatusCodes.OK);
     });
 
-    it("should forbid User A from unfavoriting User B's author (authorB1)", async () => {
+    it("should allow User A to unfavorite User B's author (authorB1)", async () => {
+      await request
+        .post(`/api/v1/authors/${authorB1.id}/favorite`)
+        .set("Authorization", `Bearer ${userA.token}`);
+
       const response = await request
         .delete(`/api/v1/authors/${authorB1.id}/favorite`)
         .set("Authorization", `Bearer ${userA.token}`);
-      expect(response.status).toBe(StatusCodes.FORBIDDEN);
+      expect(response.status).toBe(StatusCodes.OK);
     });
   });
 });
@@ -0,0 +1,237 @@
+import { prisma } from "@/db/client";
+import type { Author } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import { createUniqueAuthorViaApi } from "./helpers/author.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Collection API Endpoints (/api/v1/collections)", () => {
+  let user: TestUser;
+  let otherUser: TestUser;
+  let author: Author;
+  let bookIds: string[];
+
+  const createBook = async (title: string) => {
+    const response = await request
+      .post("/api/v1/books")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ title, authorIds: [author.id] });
+    expect(response.status).toBe(StatusCodes.CREATED);
+    bookIds.push(response.body.data.id);
+    return response.body.data.id as string;
+  };
+
+  const createCollection = async (body: object) => {
+    const response = await request
+      .post("/api/v1/collections")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send(body);
+    expect(response.status).toBe(StatusCodes.CREATED);
+    return response.body.data.id as string;
+  };
+
+  const addItem = async (collectionId: string, bookId: string) => {
+    const response = await request
+      .post(`/api/v1/collections/${collectionId}/items`)
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ bookId });
+    expect(response.status).toBe(StatusCodes.CREATED);
+  };
+
+  beforeEach(async () => {
+    bookIds = [];
+    user = await createUniqueTestUser({ name: "CollectionUser" });
+    otherUser = await createUniqueTestUser({ name: "OtherCollectionUser" });
+    author = await createUniqueAuthorViaApi(user.token);
+  });
+
+  afterEach(async () => {
+    const collections = await prisma.collection.findMany({
+      where: { userId: { in: [user.id, otherUser.id] } },
+      select: { id: true },
+    });
+    const collectionIds = collections.map((collection) => collection.id);
+    await prisma.collectionItem.deleteMany({
+      where: { collectionId: { in: collectionIds } },
+    });
+    await prisma.collection.deleteMany({
+      where: { id: { in: collectionIds } },
+    });
+    await prisma.bookAuthor.deleteMany({ where: { bookId: { in: bookIds } } });
+    await prisma.book.deleteMany({ where: { id: { in: bookIds } } });
+    await prisma.author.deleteMany({ where: { id: author.id } });
+    await deleteTestUser(user.id);
+    await deleteTestUser(otherUser.id);
+  });
+
+  describe("Collection CRUD", () => {
+    it("should create, list, update and delete a collection", async () => {
+      const collectionId = await createCollection({ name: "Summer 2026" });
+
+      const list = await request
+        .get("/api/v1/collections")
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(list.status).toBe(StatusCodes.OK);
+      expect(list.body.data).toEqual([
+        expect.objectContaining({
+          id: collectionId,
+          name: "Summer 2026",
+          visibility: "PRIVATE",
+          itemCount: 0,
+        }),
+      ]);
+      expect(list.body.meta.totalItems).toBe(1);
+
+      const updated = await request
+        .patch(`/api/v1/collections/${collectionId}`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ description: "Beach reads", visibility: "UNLISTED" });
+      expect(updated.status).toBe(StatusCodes.OK);
+      expect(updated.body.data).toMatchObject({
+        description: "Beach reads",
+        visibility: "UNLISTED",
+      });
+
+      const deleted = await request
+        .delete(`/api/v1/collections/${collectionId}`)
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(deleted.status).toBe(StatusCodes.OK);
+      expect(
+        await prisma.collection.count({ where: { id: collectionId } })
+      ).toBe(0);
+    });
+
+    it("should hide a collection from other users", async () => {
+      const collectionId = await createCollection({
+        name: "Mine Only",
+        visibility: "PUBLIC",
+      });
+
+      const response = await request
+        .patch(`/api/v1/collections/${collectionId}`)
+        .set("Authorization", `Bearer ${otherUser.token}`)
+        .send({ name: "Taken Over" });
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+  });
+
+  describe("Collection items", () => {
+    it("should add, reorder and remove books", async () => {
+      const collectionId = await createCollection({ name: "Book Club" });
+      const firstId = await createBook("First Pick");
+      const secondId = await createBook("Second Pick");
+      await addItem(collectionId, firstId);
+      await addItem(collectionId, secondId);
+
+      const moved = await request
+        .patch(`/api/v1/collections/${collectionId}/items/${secondId}`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ position: 0, note: "Start here" });
+      expect(moved.status).toBe(StatusCodes.OK);
+      expect(moved.body.data).toMatchObject({
+        position: 0,
+        note: "Start here",
+      });
+
+      const items = await request
+        .get(`/api/v1/collections/${collectionId}/items`)
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(items.status).toBe(StatusCodes.OK);
+      expect(items.body.data.map((item: any) => item.book.title)).toEqual([
+        "Second Pick",
+        "First Pick",
+      ]);
+      expect(items.body.meta.totalItems).toBe(2);
+
+      const removed = await request
+        .delete(`/api/v1/collections/${collectionId}/items/${firstId}`)
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(removed.status).toBe(StatusCodes.OK);
+
+      const again = await request
+        .delete(`/api/v1/collections/${collectionId}/items/${firstId}`)
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(again.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it("should reject adding the same book twice", async () => {
+      const collectionId = await createCollection({ name: "No Duplicates" });
+      const bookId = await createBook("Only Once");
+      await addItem(collectionId, bookId);
+
+      const response = await request
+        .post(`/api/v1/collections/${collectionId}/items`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ bookId });
+
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+    });
+
+    it("should drop a deleted book from the collection", async () => {
+      const collectionId = await createCollection({ name: "Shrinking" });
+      const bookId = await createBook("Soon Gone");
+      await addItem(collectionId, bookId);
+
+      await request
+        .delete(`/api/v1/books/${bookId}`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .expect(StatusCodes.OK);
+
+      expect(
+        await prisma.collectionItem.count({ where: { collectionId } })
+      ).toBe(0);
+    });
+  });
+
+  describe("Public collections", () => {
+    it("should serve public and unlisted collections without authentication", async () => {
+      const publicId = await createCollection({
+        name: "Public Picks",
+        visibility: "PUBLIC",
+      });
+      const unlistedId = await createCollection({
+        name: "Unlisted Picks",
+        visibility: "UNLISTED",
+      });
+      await addItem(unlistedId, await createBook("Shared Book"));
+
+      const listed = await request
+        .get("/api/v1/collections/public")
+        .query({ search: "Picks", limit: 100 });
+      expect(listed.status).toBe(StatusCodes.OK);
+      const listedIds = listed.body.data.map(
+        (collection: any) => collection.id
+      );
+      expect(listedIds).toContain(publicId);
+      expect(listedIds).not.toContain(unlistedId);
+
+      const unlisted = await request.get(
+        `/api/v1/collections/public/${unlistedId}`
+      );
+      expect(unlisted.status).toBe(StatusCodes.OK);
+      expect(unlisted.body.data).toMatchObject({ itemCount: 1 });
+
+      const items = await request.get(
+        `/api/v1/collections/public/${unlistedId}/items`
+      );
+      expect(items.status).toBe(StatusCodes.OK);
+      expect(items.body.data[0].book).toMatchObject({ title: "Shared Book" });
+    });
+
+    it("should report a private collection as not found", async () => {
+      const collectionId = await createCollection({ name: "Secret List" });
+
+      const response = await request.get(
+        `/api/v1/collections/public/${collectionId}`
+      );
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Data export (/api/v1/auth/me/export)", () => {
+  const originalMaxPerWindow = config.dataExport.maxPerWindow;
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await createUniqueTestUser({ name: "ExportUser" });
+  });
+
+  afterEach(async () => {
+    (config.dataExport as any).maxPerWindow = originalMaxPerWindow;
+    await deleteTestUser(user.id);
+  });
+
+  it("should download everything tied to the user as a JSON attachment", async () => {
+    const authorResponse = await request
+      .post("/api/v1/authors")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ name: "Exported Author" });
+    expect(authorResponse.status).toBe(StatusCodes.CREATED);
+    const authorId = authorResponse.body.data.id;
+    await request
+      .post(`/api/v1/favorites/authors/${authorId}/favorite`)
+      .set("Authorization", `Bearer ${user.token}`);
+
+    const response = await request
+      .get("/api/v1/auth/me/export")
+      .set("Authorization", `Bearer ${user.token}`);
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.headers["content-type"]).toMatch(/application\/json/);
+    expect(response.headers["content-disposition"]).toMatch(
+      /^attachment; filename="beehive-export-.+\.json"$/
+    );
+    expect(response.body.profile.id).toBe(user.id);
+    expect(response.body.profile).not.toHaveProperty("password");
+    expect(response.body.authors).toEqual([
+      expect.objectContaining({ id: authorId, name: "Exported Author" }),
+    ]);
+    expect(response.body.favoriteAuthors).toEqual([
+      expect.objectContaining({ id: authorId }),
+    ]);
+    expect(response.body.sessions.length).toBeGreaterThan(0);
+  });
+
+  it("should rate-limit exports per user", async () => {
+    (config.dataExport as any).maxPerWindow = 1;
+
+    const first = await request
+      .get("/api/v1/auth/me/export")
+      .set("Authorization", `Bearer ${user.token}`);
+    expect(first.status).toBe(StatusCodes.OK);
+
+    const second = await request
+      .get("/api/v1/auth/me/export")
+      .set("Authorization", `Bearer ${user.token}`);
+    expect(second.status).toBe(StatusCodes.TOO_MANY_REQUESTS);
+    expect(second.body.message).toBe(ErrorMessages.DATA_EXPORT_RATE_LIMITED);
+    expect(Number(second.headers["retry-after"])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,396 @@
+import { prisma } from "@/db/client";
+import type { Author } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import { createUniqueAuthorViaApi } from "./helpers/author.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Favorite API Endpoints (/api/v1/favorites)", () => {
+  let user: TestUser;
+  let author: Author;
+  let bookIds: string[];
+
+  const createBook = async (title: string) => {
+    const response = await request
+      .post("/api/v1/books")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ title, authorIds: [author.id] });
+    expect(response.status).toBe(StatusCodes.CREATED);
+    bookIds.push(response.body.data.id);
+    return response.body.data.id as string;
+  };
+
+  const favoriteBook = async (bookId: string, note?: string) => {
+    const response = await request
+      .post(`/api/v1/books/${bookId}/favorite`)
+      .set("Authorization", `Bearer ${user.token}`)
+      .send(note === undefined ? undefined : { note });
+    expect(response.status).toBe(StatusCodes.OK);
+    return response.body.data;
+  };
+
+  const listFavoriteTitles = async (sortBy: string) => {
+    const response = await request
+      .get("/api/v1/favorites/books")
+      .query({ sortBy })
+      .set("Authorization", `Bearer ${user.token}`);
+    expect(response.status).toBe(StatusCodes.OK);
+    return response.body.data.map((book: any) => book.title);
+  };
+
+  beforeEach(async () => {
+    bookIds = [];
+    user = await createUniqueTestUser({ name: "FavoriteUser" });
+    author = await createUniqueAuthorViaApi(user.token);
+  });
+
+  afterEach(async () => {
+    await prisma.favorite.deleteMany({ where: { userId: user.id } });
+    await prisma.bookAuthor.deleteMany({ where: { bookId: { in: bookIds } } });
+    await prisma.book.deleteMany({ where: { id: { in: bookIds } } });
+    await prisma.author.deleteMany({ where: { id: author.id } });
+    await deleteTestUser(user.id);
+  });
+
+  describe("GET /api/v1/favorites/books", () => {
+    it("should list only favorite books, with their authors", async () => {
+      const favoriteId = await createBook("Favorite Dune");
+      await createBook("Not A Favorite");
+      await favoriteBook(favoriteId);
+
+      const response = await request
+        .get("/api/v1/favorites/books")
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        id: favoriteId,
+        isFavorite: true,
+      });
+      expect(response.body.data[0].authors[0].author).toMatchObject({
+        id: author.id,
+        name: author.name,
+      });
+      expect(response.body.meta.totalItems).toBe(1);
+    });
+
+    it("should include books created by other users", async () => {
+      const otherUser = await createUniqueTestUser({ name: "OtherFavUser" });
+      try {
+        const bookId = await createBook("Someone Else's Favorite");
+        const favorite = await request
+          .post(`/api/v1/books/${bookId}/favorite`)
+          .set("Authorization", `Bearer ${otherUser.token}`);
+        expect(favorite.status).toBe(StatusCodes.OK);
+
+        const response = await request
+          .get("/api/v1/favorites/books")
+          .set("Authorization", `Bearer ${otherUser.token}`);
+
+        expect(response.status).toBe(StatusCodes.OK);
+        expect(response.body.data.map((book: any) => book.id)).toEqual([
+          bookId,
+        ]);
+      } finally {
+        await deleteTestUser(otherUser.id);
+      }
+    });
+
+    it("should search and sort favorite books like the books list", async () => {
+      for (const title of ["Favorite Beta", "Favorite Alpha", "Other Gamma"]) {
+        await favoriteBook(await createBook(title));
+      }
+
+      const response = await request
+        .get("/api/v1/favorites/books")
+        .query({ search: "favorite", sortBy: "title:asc", limit: 1 })
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map((book: any) => book.title)).toEqual([
+        "Favorite Alpha",
+      ]);
+      expect(response.body.meta).toMatchObject({
+        totalItems: 2,
+        totalPages: 2,
+      });
+    });
+
+    it("should return an empty page when there are no favorites", async () => {
+      const response = await request
+        .get("/api/v1/favorites/books")
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual([]);
+      expect(response.body.meta.totalItems).toBe(0);
+    });
+  });
+
+  describe("Favorite notes and ordering", () => {
+    it("should store a note and list favorites by date added or manual order", async () => {
+      const first = await createBook("First Saved");
+      const second = await createBook("Second Saved");
+      const third = await createBook("Third Saved");
+      const favorite = await favoriteBook(first, "Start here");
+      await favoriteBook(second);
+      await favoriteBook(third);
+
+      expect(favorite).toMatchObject({
+        targetType: "BOOK",
+        targetId: first,
+        note: "Start here",
+        position: 0,
+      });
+      expect(await listFavoriteTitles("addedAt:desc")).toEqual([
+        "Third Saved",
+        "Second Saved",
+        "First Saved",
+      ]);
+      expect(await listFavoriteTitles("position:asc")).toEqual([
+        "First Saved",
+        "Second Saved",
+        "Third Saved",
+      ]);
+    });
+
+    it("should move a favorite and update its note with PATCH", async () => {
+      const first = await createBook("Alpha Saved");
+      const second = await createBook("Beta Saved");
+      const third = await createBook("Gamma Saved");
+      for (const bookId of [first, second, third]) {
+        await favoriteBook(bookId);
+      }
+
+      const response = await request
+        .patch(`/api/v1/favorites/books/${third}`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ position: 0, note: "Read next" });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toMatchObject({
+        targetId: third,
+        note: "Read next",
+        position: 0,
+      });
+      expect(await listFavoriteTitles("position:asc")).toEqual([
+        "Gamma Saved",
+        "Alpha Saved",
+        "Beta Saved",
+      ]);
+
+      const listed = await request
+        .get("/api/v1/favorites/books")
+        .query({ sortBy: "position:asc", limit: 1 })
+        .set("Authorization", `Bearer ${user.token}`);
+      expect(listed.body.data[0].favorite).toMatchObject({
+        note: "Read next",
+        position: 0,
+      });
+    });
+
+    it("should return 404 when patching a book that is not a favorite", async () => {
+      const bookId = await createBook("Never Saved");
+
+      const response = await request
+        .patch(`/api/v1/favorites/books/${bookId}`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ note: "Too late" });
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+
+    it("should reject an unknown sort field", async () => {
+      const response = await request
+        .get("/api/v1/favorites/books")
+        .query({ sortBy: "isbn:asc" })
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe("PUT /api/v1/books/:id/favorite", () => {
+    it("should be idempotent and return the resulting state", async () => {
+      const bookId = await createBook("Put Twice");
+      const setFavorite = (body: object) =>
+        request
+          .put(`/api/v1/books/${bookId}/favorite`)
+          .set("Authorization", `Bearer ${user.token}`)
+          .send(body);
+
+      const first = await setFavorite({ isFavorite: true, note: "Keep" });
+      const second = await setFavorite({ isFavorite: true });
+
+      expect(first.status).toBe(StatusCodes.OK);
+      expect(second.status).toBe(StatusCodes.OK);
+      expect(second.body.data).toMatchObject({
+        targetType: "BOOK",
+        targetId: bookId,
+        isFavorite: true,
+        favorite: { note: "Keep", position: 0 },
+      });
+      expect(await prisma.favorite.count({ where: { userId: user.id } })).toBe(
+        1
+      );
+
+      for (let i = 0; i < 2; i++) {
+        const removed = await setFavorite({ isFavorite: false });
+        expect(removed.status).toBe(StatusCodes.OK);
+        expect(removed.body.data).toMatchObject({
+          isFavorite: false,
+          favorite: null,
+        });
+      }
+    });
+
+    it("should reject a note when unfavoriting", async () => {
+      const bookId = await createBook("Note Without Favorite");
+
+      const response = await request
+        .put(`/api/v1/books/${bookId}/favorite`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ isFavorite: false, note: "Nope" });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+
+  describe("POST /api/v1/favorites/bulk", () => {
+    it("should apply operations across books and authors", async () => {
+      const keptId = await createBook("Bulk Kept");
+      const removedId = await createBook("Bulk Removed");
+      await favoriteBook(removedId);
+
+      const response = await request
+        .post("/api/v1/favorites/bulk")
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({
+          operations: [
+            { action: "add", targetType: "BOOK", targetId: keptId },
+            { action: "add", targetType: "AUTHOR", targetId: author.id },
+            { action: "remove", targetType: "BOOK", targetId: removedId },
+            { action: "remove", targetType: "BOOK", targetId: removedId },
+          ],
+        });
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map((result: any) => result.result)).toEqual([
+        "added",
+        "added",
+        "removed",
+        "unchanged",
+      ]);
+      expect(await listFavoriteTitles("position:asc")).toEqual(["Bulk Kept"]);
+    });
+
+    it("should change nothing when one operation cannot be applied", async () => {
+      const bookId = await createBook("Bulk Rolled Back");
+      const missingId = "000000000000000000000000";
+
+      const response = await request
+        .post("/api/v1/favorites/bulk")
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({
+          operations: [
+            { action: "add", targetType: "BOOK", targetId: bookId },
+            { action: "add", targetType: "AUTHOR", targetId: missingId },
+          ],
+        });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({ index: 1, targetId: missingId }),
+      ]);
+      expect(await prisma.favorite.count({ where: { userId: user.id } })).toBe(
+        0
+      );
+    });
+  });
+
+  describe("GET /api/v1/favorites", () => {
+    it("should count favorite books and authors", async () => {
+      await favoriteBook(await createBook("Summary Book One"));
+      await favoriteBook(await createBook("Summary Book Two"));
+      await request
+        .post(`/api/v1/authors/${author.id}/favorite`)
+        .set("Authorization", `Bearer ${user.token}`);
+
+      const response = await request
+        .get("/api/v1/favorites")
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data).toEqual({
+        bookCount: 2,
+        authorCount: 1,
+        totalCount: 3,
+      });
+    });
+  });
+
+  describe("Favorite counts and popular lists", () => {
+    it("should keep favoriteCount in step and rank popular books", async () => {
+      const otherUser = await createUniqueTestUser({ name: "PopularFavUser" });
+      try {
+        const quietId = await createBook("Quiet Favorite");
+        const popularId = await createBook("Popular Favorite");
+        await favoriteBook(quietId);
+        await favoriteBook(popularId);
+        await request
+          .put(`/api/v1/books/${popularId}/favorite`)
+          .set("Authorization", `Bearer ${otherUser.token}`)
+          .send({ isFavorite: true })
+          .expect(StatusCodes.OK);
+
+        const book = await request
+          .get(`/api/v1/books/${popularId}`)
+          .set("Authorization", `Bearer ${user.token}`);
+        expect(book.body.data.favoriteCount).toBe(2);
+
+        const popular = await request
+          .get("/api/v1/books/popular")
+          .query({ window: "7d", limit: 100 })
+          .set("Authorization", `Bearer ${user.token}`);
+        expect(popular.status).toBe(StatusCodes.OK);
+        expect(popular.body.meta.totalItems).toBeGreaterThanOrEqual(2);
+        const ours = popular.body.data.filter((item: any) =>
+          bookIds.includes(item.id)
+        );
+        expect(
+          ours.map((item: any) => [item.id, item.popularity.favoriteCount])
+        ).toEqual([
+          [popularId, 2],
+          [quietId, 1],
+        ]);
+
+        await request
+          .delete(`/api/v1/books/${popularId}/favorite`)
+          .set("Authorization", `Bearer ${otherUser.token}`)
+          .expect(StatusCodes.OK);
+        const after = await prisma.book.findUnique({
+          where: { id: popularId },
+        });
+        expect(after?.favoriteCount).toBe(1);
+      } finally {
+        await prisma.favorite.deleteMany({ where: { userId: otherUser.id } });
+        await deleteTestUser(otherUser.id);
+      }
+    });
+
+    it("should reject an unknown window", async () => {
+      const response = await request
+        .get("/api/v1/authors/popular")
+        .query({ window: "1y" })
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+  });
+});
@@ -2,6 +2,11 @@ import { prisma } from "@/db/client";
 
 export const clearDatabase = async () => {
   try {
+    await prisma.refreshToken.deleteMany({});
+    await prisma.oneTimeToken.deleteMany({});
+    await prisma.session.deleteMany({});
+    await prisma.oidcIdentity.deleteMany({});
+    await prisma.oidcLoginRequest.deleteMany({});
     await prisma.bookAuthor.deleteMany({});
     await prisma.author.deleteMany({});
     await prisma.book.deleteMany({});
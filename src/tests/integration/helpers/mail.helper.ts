@@ -0,0 +1,22 @@
+import { mailer } from "@/mail";
+import { OutboxMailer } from "@/mail/outbox.mailer";
+
+export const getOutbox = (): OutboxMailer => {
+  if (!(mailer instanceof OutboxMailer)) {
+    throw new Error(
+      "Helper: integration tests require MAIL_TRANSPORT=outbox to read sent mail."
+    );
+  }
+  return mailer;
+};
+
+// Pulls a query parameter (e.g. "token") out of the first link in the latest mail sent to `to`
+export const extractLinkParamFromLatestMail = (
+  to: string,
+  param = "token"
+): string | null => {
+  const message = getOutbox().getLatestMessage(to);
+  const link = message?.text.match(/https?:\/\/\S+/)?.[0];
+  if (!link) return null;
+  return new URL(link).searchParams.get(param);
+};
@@ -0,0 +1,212 @@
+import { createHash, generateKeyPairSync } from "node:crypto";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import jwt from "jsonwebtoken";
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  user: MockOidcUser;
+}
+
+// Minimal OpenID Connect provider on localhost: discovery, an authorize
+// endpoint that logs in `user` without a UI, a PKCE-checking token endpoint
+// and a JWKS. Lets OIDC logins be tested without network access.
+export class MockOidcIssuer {
+  issuer = "";
+  user: MockOidcUser = {
+    sub: "mock-subject",
+    email: "oidc.user@example.com",
+    email_verified: true,
+    name: "OIDC User",
+  };
+  // Merged into the next ID tokens, e.g. to send a wrong nonce or audience
+  idTokenOverrides: Record<string, unknown> = {};
+
+  private readonly keyId = "mock-issuer-key";
+  private readonly keyPair = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  private readonly codes = new Map<string, IssuedCode>();
+  private readonly server: Server;
+  private codeCounter = 0;
+
+  constructor(
+    readonly clientId: string,
+    readonly clientSecret?: string
+  ) {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.sendJson(res, 500, { error: String(error) });
+      });
+    });
+  }
+
+  async start() {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+    return this;
+  }
+
+  async stop() {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  // Follows an authorization URL like a browser would and returns the
+  // code and state the provider sends back to the callback
+  async authorize(authorizationUrl: string) {
+    const response = await fetch(authorizationUrl, { redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status !== 302 || !location) {
+      throw new Error(
+        `Mock issuer did not redirect: ${response.status} ${await response.text()}`
+      );
+    }
+    const callbackUrl = new URL(location);
+    return {
+      callbackUrl,
+      code: callbackUrl.searchParams.get("code") ?? "",
+      state: callbackUrl.searchParams.get("state") ?? "",
+    };
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", this.issuer);
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return this.sendJson(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ["code"],
+        code_challenge_methods_supported: ["S256"],
+        id_token_signing_alg_values_supported: ["RS256"],
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return this.sendJson(res, 200, {
+        keys: [
+          {
+            ...this.keyPair.publicKey.export({ format: "jwk" }),
+            kid: this.keyId,
+            alg: "RS256",
+            use: "sig",
+          },
+        ],
+      });
+    }
+
+    if (url.pathname === "/authorize") {
+      const params = url.searchParams;
+      if (
+        params.get("response_type") !== "code" ||
+        params.get("client_id") !== this.clientId ||
+        params.get("code_challenge_method") !== "S256" ||
+        !params.get("code_challenge")
+      ) {
+        return this.sendJson(res, 400, { error: "invalid_request" });
+      }
+
+      const code = `code-${++this.codeCounter}`;
+      this.codes.set(code, {
+        clientId: this.clientId,
+        redirectUri: params.get("redirect_uri") ?? "",
+        codeChallenge: params.get("code_challenge") ?? "",
+        nonce: params.get("nonce") ?? "",
+        user: { ...this.user },
+      });
+
+      const redirect = new URL(params.get("redirect_uri") ?? "");
+      redirect.searchParams.set("code", code);
+      redirect.searchParams.set("state", params.get("state") ?? "");
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      const form = new URLSearchParams(await this.readBody(req));
+      if (!this.isClientAuthenticated(req)) {
+        return this.sendJson(res, 401, { error: "invalid_client" });
+      }
+
+      const issued = this.codes.get(form.get("code") ?? "");
+      this.codes.delete(form.get("code") ?? "");
+      const challenge = createHash("sha256")
+        .update(form.get("code_verifier") ?? "")
+        .digest("base64url");
+      if (
+        form.get("grant_type") !== "authorization_code" ||
+        !issued ||
+        issued.redirectUri !== form.get("redirect_uri") ||
+        issued.codeChallenge !== challenge
+      ) {
+        return this.sendJson(res, 400, { error: "invalid_grant" });
+      }
+
+      const idToken = jwt.sign(
+        { ...issued.user, nonce: issued.nonce, ...this.idTokenOverrides },
+        this.keyPair.privateKey,
+        {
+          algorithm: "RS256",
+          keyid: this.keyId,
+          issuer: this.issuer,
+          audience: this.clientId,
+          expiresIn: "5m",
+        }
+      );
+      return this.sendJson(res, 200, {
+        access_token: "mock-access-token",
+        token_type: "Bearer",
+        expires_in: 300,
+        id_token: idToken,
+      });
+    }
+
+    return this.sendJson(res, 404, { error: "not_found" });
+  }
+
+  private isClientAuthenticated(req: IncomingMessage) {
+    if (!this.clientSecret) return true;
+    const expected = Buffer.from(
+      `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret)}`
+    ).toString("base64");
+    return req.headers.authorization === `Basic ${expected}`;
+  }
+
+  private readBody(req: IncomingMessage) {
+    return new Promise<string>((resolve, reject) => {
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => resolve(body));
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
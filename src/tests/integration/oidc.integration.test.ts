@@ -0,0 +1,140 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import { prisma } from "@/db/client";
+import { StatusCodes } from "http-status-codes";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import { request } from "./helpers/api.helper";
+import { MockOidcIssuer } from "./helpers/oidc-issuer.helper";
+import { createUniqueTestUser, deleteTestUser } from "./helpers/user.helper";
+
+describe("OIDC Login Endpoints (/api/v1/auth/oidc)", () => {
+  const issuer = new MockOidcIssuer("beehive-client", "beehive-secret");
+  const originalOidcProviders = config.oidc.providers;
+  const createdUserIds: string[] = [];
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    (config.oidc as any).providers = JSON.stringify([
+      {
+        name: "acme",
+        issuer: issuer.issuer,
+        clientId: issuer.clientId,
+        clientSecret: issuer.clientSecret,
+      },
+    ]);
+    const suffix = Date.now();
+    issuer.user = {
+      sub: `subject-${suffix}`,
+      email: `oidc.${suffix}@example.com`,
+      email_verified: true,
+      name: "OIDC User",
+    };
+  });
+
+  afterEach(async () => {
+    (config.oidc as any).providers = originalOidcProviders;
+    for (const userId of createdUserIds) {
+      await deleteTestUser(userId);
+    }
+    createdUserIds.length = 0;
+  });
+
+  // Runs the browser part of the flow and returns the callback response
+  const loginWithProvider = async () => {
+    const startResponse = await request.get("/api/v1/auth/oidc/acme/start");
+    expect(startResponse.status).toBe(StatusCodes.MOVED_TEMPORARILY);
+
+    const { callbackUrl } = await issuer.authorize(
+      startResponse.headers.location!
+    );
+    return request.get(`/api/v1/auth/oidc/acme/callback${callbackUrl.search}`);
+  };
+
+  it("should create a verified account on first login and reuse it afterwards", async () => {
+    const firstLogin = await loginWithProvider();
+
+    expect(firstLogin.status).toBe(StatusCodes.OK);
+    expect(firstLogin.body.data).toMatchObject({
+      user: { email: issuer.user.email, name: "OIDC User" },
+      token: expect.any(String),
+      refreshToken: expect.any(String),
+    });
+    expect(firstLogin.body.data.user.emailVerifiedAt).not.toBeNull();
+    createdUserIds.push(firstLogin.body.data.user.id);
+
+    const secondLogin = await loginWithProvider();
+    expect(secondLogin.status).toBe(StatusCodes.OK);
+    expect(secondLogin.body.data.user.id).toBe(firstLogin.body.data.user.id);
+
+    const identities = await prisma.oidcIdentity.findMany({
+      where: { userId: firstLogin.body.data.user.id },
+    });
+    expect(identities).toHaveLength(1);
+    expect(identities[0]).toMatchObject({
+      provider: "acme",
+      subject: issuer.user.sub,
+    });
+  });
+
+  it("should link an existing account with the same verified email", async () => {
+    const existingUser = await createUniqueTestUser({
+      email: issuer.user.email,
+    });
+    createdUserIds.push(existingUser.id);
+    await prisma.user.update({
+      where: { id: existingUser.id },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    const response = await loginWithProvider();
+
+    expect(response.status).toBe(StatusCodes.OK);
+    expect(response.body.data.user.id).toBe(existingUser.id);
+  });
+
+  it("should refuse to link an account whose email is not verified", async () => {
+    const existingUser = await createUniqueTestUser({
+      email: issuer.user.email,
+    });
+    createdUserIds.push(existingUser.id);
+
+    const response = await loginWithProvider();
+
+    expect(response.status).toBe(StatusCodes.CONFLICT);
+    expect(response.body.message).toBe(
+      ErrorMessages.OIDC_ACCOUNT_EMAIL_NOT_VERIFIED
+    );
+  });
+
+  it("should reject a callback whose state was not issued by /start", async () => {
+    const response = await request.get(
+      "/api/v1/auth/oidc/acme/callback?code=some-code&state=forged-state"
+    );
+
+    expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    expect(response.body.message).toBe(
+      ErrorMessages.OIDC_LOGIN_REQUEST_INVALID
+    );
+  });
+
+  it("should return 404 for a provider that is not configured", async () => {
+    const response = await request.get("/api/v1/auth/oidc/unknown/start");
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+  });
+});
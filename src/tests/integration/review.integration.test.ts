@@ -0,0 +1,192 @@
+import { prisma } from "@/db/client";
+import type { Author } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import { createUniqueAuthorViaApi } from "./helpers/author.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Review API Endpoints (/api/v1/books/:id/reviews)", () => {
+  let user: TestUser;
+  let otherUser: TestUser;
+  let author: Author;
+  let bookIds: string[];
+
+  const createBook = async (title: string) => {
+    const response = await request
+      .post("/api/v1/books")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ title, authorIds: [author.id] });
+    expect(response.status).toBe(StatusCodes.CREATED);
+    bookIds.push(response.body.data.id);
+    return response.body.data.id as string;
+  };
+
+  const review = async (reviewer: TestUser, bookId: string, body: object) => {
+    const response = await request
+      .post(`/api/v1/books/${bookId}/reviews`)
+      .set("Authorization", `Bearer ${reviewer.token}`)
+      .send(body);
+    expect(response.status).toBe(StatusCodes.CREATED);
+    return response.body.data;
+  };
+
+  const getBook = async (bookId: string, reader: TestUser = user) => {
+    const response = await request
+      .get(`/api/v1/books/${bookId}`)
+      .set("Authorization", `Bearer ${reader.token}`);
+    expect(response.status).toBe(StatusCodes.OK);
+    return response.body.data;
+  };
+
+  beforeEach(async () => {
+    bookIds = [];
+    user = await createUniqueTestUser({ name: "ReviewUser" });
+    otherUser = await createUniqueTestUser({ name: "OtherReviewUser" });
+    author = await createUniqueAuthorViaApi(user.token);
+  });
+
+  afterEach(async () => {
+    await prisma.review.deleteMany({ where: { bookId: { in: bookIds } } });
+    await prisma.bookAuthor.deleteMany({ where: { bookId: { in: bookIds } } });
+    await prisma.book.deleteMany({ where: { id: { in: bookIds } } });
+    await prisma.author.deleteMany({ where: { id: author.id } });
+    await deleteTestUser(user.id);
+    await deleteTestUser(otherUser.id);
+  });
+
+  describe("Writing reviews", () => {
+    it("should keep the book's average rating in step with its reviews", async () => {
+      const bookId = await createBook("Rated Book");
+      expect(await getBook(bookId)).toMatchObject({
+        averageRating: null,
+        ratingCount: 0,
+      });
+
+      const created = await review(user, bookId, {
+        rating: 5,
+        title: "Wonderful",
+      });
+      expect(created).toMatchObject({
+        bookId,
+        rating: 5,
+        title: "Wonderful",
+        body: null,
+        reviewer: { id: user.id },
+      });
+      await review(otherUser, bookId, { rating: 2 });
+      // Readers other than the book's creator see the same ratings
+      expect(await getBook(bookId, otherUser)).toMatchObject({
+        averageRating: 3.5,
+        ratingCount: 2,
+      });
+
+      const updated = await request
+        .patch(`/api/v1/books/${bookId}/reviews`)
+        .set("Authorization", `Bearer ${otherUser.token}`)
+        .send({ rating: 4, body: "Grew on me." });
+      expect(updated.status).toBe(StatusCodes.OK);
+      expect(await getBook(bookId)).toMatchObject({ averageRating: 4.5 });
+
+      await request
+        .delete(`/api/v1/books/${bookId}/reviews`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .expect(StatusCodes.OK);
+      expect(await getBook(bookId)).toMatchObject({
+        averageRating: 4,
+        ratingCount: 1,
+      });
+    });
+
+    it("should reject a second review of the same book", async () => {
+      const bookId = await createBook("Reviewed Once");
+      await review(user, bookId, { rating: 3 });
+
+      const response = await request
+        .post(`/api/v1/books/${bookId}/reviews`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ rating: 4 });
+
+      expect(response.status).toBe(StatusCodes.CONFLICT);
+    });
+
+    it("should reject a rating outside 1 to 5 stars", async () => {
+      const bookId = await createBook("Out Of Range");
+
+      const response = await request
+        .post(`/api/v1/books/${bookId}/reviews`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ rating: 6 });
+
+      expect(response.status).toBe(StatusCodes.BAD_REQUEST);
+    });
+
+    it("should return 404 when updating a review that does not exist", async () => {
+      const bookId = await createBook("Never Reviewed");
+
+      const response = await request
+        .patch(`/api/v1/books/${bookId}/reviews`)
+        .set("Authorization", `Bearer ${user.token}`)
+        .send({ rating: 1 });
+
+      expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    });
+  });
+
+  describe("GET /api/v1/books/:id/reviews", () => {
+    it("should list reviews sorted by rating", async () => {
+      const bookId = await createBook("Much Discussed");
+      await review(user, bookId, { rating: 2 });
+      await review(otherUser, bookId, { rating: 5 });
+
+      const response = await request
+        .get(`/api/v1/books/${bookId}/reviews`)
+        .query({ sortBy: "rating:desc" })
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map((item: any) => item.rating)).toEqual([
+        5, 2,
+      ]);
+      expect(response.body.meta.totalItems).toBe(2);
+    });
+  });
+
+  describe("GET /api/v1/books?sortBy=rating", () => {
+    it("should list the best rated books first", async () => {
+      const lowId = await createBook("Rating Sort Low");
+      const highId = await createBook("Rating Sort High");
+      await createBook("Rating Sort Unrated");
+      await review(user, lowId, { rating: 2 });
+      await review(user, highId, { rating: 5 });
+
+      const response = await request
+        .get("/api/v1/books")
+        .query({ sortBy: "rating:desc", search: "Rating Sort" })
+        .set("Authorization", `Bearer ${user.token}`);
+
+      expect(response.status).toBe(StatusCodes.OK);
+      expect(response.body.data.map((book: any) => book.title)).toEqual([
+        "Rating Sort High",
+        "Rating Sort Low",
+        "Rating Sort Unrated",
+      ]);
+    });
+  });
+
+  it("should delete a book's reviews with the book", async () => {
+    const bookId = await createBook("Short Lived");
+    await review(otherUser, bookId, { rating: 4 });
+
+    await request
+      .delete(`/api/v1/books/${bookId}`)
+      .set("Authorization", `Bearer ${user.token}`)
+      .expect(StatusCodes.OK);
+
+    expect(await prisma.review.count({ where: { bookId } })).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { ErrorMessages } from "@/constants";
+import { StatusCodes } from "http-status-codes";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { request } from "./helpers/api.helper";
+import {
+  type TestUser,
+  createUniqueTestUser,
+  deleteTestUser,
+} from "./helpers/user.helper";
+
+describe("Session Endpoints (/api/v1/auth/sessions)", () => {
+  const password = "ValidPassword123!";
+  let user: TestUser;
+
+  const loginFromDevice = async (userAgent: string) => {
+    const response = await request
+      .post("/api/v1/auth/login")
+      .set("User-Agent", userAgent)
+      .send({ email: user.email, password });
+    expect(response.status).toBe(StatusCodes.OK);
+    return response.body.data as { token: string; refreshToken: string };
+  };
+
+  const listSessions = (token: string) =>
+    request
+      .get("/api/v1/auth/sessions")
+      .set("Authorization", `Bearer ${token}`);
+
+  beforeEach(async () => {
+    user = await createUniqueTestUser({ name: "SessionUser", password });
+  });
+
+  afterEach(async () => {
+    await deleteTestUser(user.id);
+  });
+
+  it("should list each login with its device and mark the current one", async () => {
+    const laptop = await loginFromDevice("LaptopBrowser/1.0");
+
+    const response = await listSessions(laptop.token);
+
+    expect(response.status).toBe(StatusCodes.OK);
+    // Registration and the helper's login start sessions too
+    expect(response.body.data).toHaveLength(3);
+    const current = response.body.data.filter(
+      (session: { current: boolean }) => session.current
+    );
+    expect(current).toHaveLength(1);
+    expect(current[0].userAgent).toBe("LaptopBrowser/1.0");
+    expect(current[0]).toHaveProperty("ip");
+    expect(current[0]).toHaveProperty("lastSeenAt");
+    expect(current[0]).not.toHaveProperty("familyId");
+  });
+
+  it("should sign out a revoked device's access and refresh tokens only", async () => {
+    const laptop = await loginFromDevice("LaptopBrowser/1.0");
+    const phone = await loginFromDevice("PhoneApp/2.3");
+
+    const sessions = (await listSessions(laptop.token)).body.data as {
+      id: string;
+      userAgent: string;
+    }[];
+    const phoneSession = sessions.find(
+      (session) => session.userAgent === "PhoneApp/2.3"
+    );
+
+    const revokeResponse = await request
+      .delete(`/api/v1/auth/sessions/${phoneSession!.id}`)
+      .set("Authorization", `Bearer ${laptop.token}`);
+    expect(revokeResponse.status).toBe(StatusCodes.OK);
+
+    const phoneMeResponse = await request
+      .get("/api/v1/auth/me")
+      .set("Authorization", `Bearer ${phone.token}`);
+    expect(phoneMeResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+    expect(phoneMeResponse.body.message).toBe(ErrorMessages.SESSION_REVOKED);
+
+    const phoneRefreshResponse = await request
+      .post("/api/v1/auth/refresh")
+      .send({ refreshToken: phone.refreshToken });
+    expect(phoneRefreshResponse.status).toBe(StatusCodes.UNAUTHORIZED);
+
+    const laptopMeResponse = await request
+      .get("/api/v1/auth/me")
+      .set("Authorization", `Bearer ${laptop.token}`);
+    expect(laptopMeResponse.status).toBe(StatusCodes.OK);
+
+    const remaining = (await listSessions(laptop.token)).body.data;
+    expect(
+      remaining.some(
+        (session: { id: string }) => session.id === phoneSession!.id
+      )
+    ).toBe(false);
+  });
+
+  it("should keep the session when its refresh token is rotated", async () => {
+    const laptop = await loginFromDevice("LaptopBrowser/1.0");
+
+    const refreshResponse = await request
+      .post("/api/v1/auth/refresh")
+      .send({ refreshToken: laptop.refreshToken });
+    expect(refreshResponse.status).toBe(StatusCodes.OK);
+
+    const response = await listSessions(refreshResponse.body.data.token);
+    expect(response.body.data).toHaveLength(3);
+    const current = response.body.data.find(
+      (session: { current: boolean }) => session.current
+    );
+    expect(current.userAgent).toBe("LaptopBrowser/1.0");
+  });
+
+  it("should return 404 for a session of another user", async () => {
+    const otherUser = await createUniqueTestUser({ name: "OtherSessionUser" });
+    const otherSessions = (await listSessions(otherUser.token)).body.data;
+
+    const response = await request
+      .delete(`/api/v1/auth/sessions/${otherSessions[0].id}`)
+      .set("Authorization", `Bearer ${user.token}`);
+
+    expect(response.status).toBe(StatusCodes.NOT_FOUND);
+    await deleteTestUser(otherUser.id);
+  });
+});
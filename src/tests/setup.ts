@@ -0,0 +1,11 @@
+import { attemptStore } from "@/throttle";
+import { MemoryAttemptStore } from "@/throttle/memory.attempt-store";
+import { beforeEach } from "vitest";
+
+// Every supertest request comes from the same IP, so per-IP counters would
+// otherwise leak between tests and lock later ones out
+beforeEach(() => {
+  if (attemptStore instanceof MemoryAttemptStore) {
+    attemptStore.clear();
+  }
+});
@@ -0,0 +1,37 @@
+import { retryOnWriteConflict } from "@/db/transaction";
+import { Prisma } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+const prismaError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError("Transaction failed", {
+    code,
+    clientVersion: "test",
+  });
+
+describe("retryOnWriteConflict", () => {
+  it("should run the transaction again after a write conflict", async () => {
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(prismaError("P2034"))
+      .mockResolvedValueOnce("committed");
+
+    await expect(retryOnWriteConflict(run)).resolves.toBe("committed");
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up with the conflict after three attempts", async () => {
+    const conflict = prismaError("P2034");
+    const run = vi.fn().mockRejectedValue(conflict);
+
+    await expect(retryOnWriteConflict(run)).rejects.toBe(conflict);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry other errors", async () => {
+    const duplicate = prismaError("P2002");
+    const run = vi.fn().mockRejectedValue(duplicate);
+
+    await expect(retryOnWriteConflict(run)).rejects.toBe(duplicate);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { ScryptPasswordHasher } from "@/hashing/scrypt.password-hasher";
+import { describe, expect, it } from "vitest";
+
+// Low cost keeps the tests fast; the format is the same at any cost
+const params = { cost: 1024, blockSize: 8, parallelization: 1 };
+
+describe("ScryptPasswordHasher", () => {
+  const hasher = new ScryptPasswordHasher(params);
+
+  it("should encode the parameters and a random salt in the hash", async () => {
+    const first = await hasher.hash("StrongPassword123!");
+    const second = await hasher.hash("StrongPassword123!");
+
+    expect(first).toMatch(/^\$scrypt\$n=1024,r=8,p=1\$[\w-]+\$[\w-]+$/);
+    expect(first).not.toBe(second);
+    expect(hasher.canVerify(first)).toBe(true);
+  });
+
+  it("should verify the right password only", async () => {
+    const hash = await hasher.hash("StrongPassword123!");
+
+    expect(await hasher.verify("StrongPassword123!", hash)).toBe(true);
+    expect(await hasher.verify("WrongPassword123!", hash)).toBe(false);
+  });
+
+  it("should verify hashes made with other parameters using their own parameters", async () => {
+    const olderHasher = new ScryptPasswordHasher({ ...params, cost: 512 });
+    const hash = await olderHasher.hash("StrongPassword123!");
+
+    expect(await hasher.verify("StrongPassword123!", hash)).toBe(true);
+    expect(hasher.needsRehash(hash)).toBe(true);
+    expect(olderHasher.needsRehash(hash)).toBe(false);
+  });
+
+  it("should reject malformed hashes", async () => {
+    expect(hasher.canVerify("$2b$10$abcdefghijklmnopqrstuv")).toBe(false);
+    expect(await hasher.verify("StrongPassword123!", "$scrypt$garbage")).toBe(
+      false
+    );
+  });
+});
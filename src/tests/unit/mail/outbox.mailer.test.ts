@@ -0,0 +1,56 @@
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { OutboxMailer } from "@/mail/outbox.mailer";
+import { afterEach, describe, expect, it } from "vitest";
+
+describe("OutboxMailer", () => {
+  const from = "Beehive <no-reply@beehive.local>";
+  let outboxDir: string | undefined;
+
+  afterEach(async () => {
+    if (outboxDir) {
+      await rm(outboxDir, { recursive: true, force: true });
+      outboxDir = undefined;
+    }
+  });
+
+  it("should keep sent messages in memory, filterable by recipient", async () => {
+    const outbox = new OutboxMailer(from);
+
+    await outbox.sendMail({ to: "a@example.com", subject: "One", text: "1" });
+    await outbox.sendMail({ to: "b@example.com", subject: "Two", text: "2" });
+    await outbox.sendMail({ to: "A@example.com", subject: "Three", text: "3" });
+
+    expect(outbox.getMessages()).toHaveLength(3);
+    expect(outbox.getMessages("a@example.com")).toHaveLength(2);
+    expect(outbox.getLatestMessage("a@example.com")).toMatchObject({
+      subject: "Three",
+      from,
+    });
+  });
+
+  it("should clear all stored messages", async () => {
+    const outbox = new OutboxMailer(from);
+    await outbox.sendMail({ to: "a@example.com", subject: "One", text: "1" });
+
+    outbox.clear();
+
+    expect(outbox.getMessages()).toHaveLength(0);
+    expect(outbox.getLatestMessage("a@example.com")).toBeUndefined();
+  });
+
+  it("should write each message as a JSON file when an outbox directory is configured", async () => {
+    outboxDir = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    const outbox = new OutboxMailer(from, outboxDir);
+
+    await outbox.sendMail({ to: "a@example.com", subject: "One", text: "1" });
+
+    const files = await readdir(outboxDir);
+    expect(files).toHaveLength(1);
+    const stored = JSON.parse(
+      await readFile(path.join(outboxDir, files[0]!), "utf-8")
+    );
+    expect(stored).toMatchObject({ to: "a@example.com", subject: "One" });
+  });
+});
@@ -0,0 +1,517 @@
+import { EventEmitter } from "node:events";
+import { config } from "@/config";
+import { ErrorCodes, ErrorMessages } from "@/constants";
+import AuditLogDao from "@/dao/audit-log.dao";
+import UserDao from "@/dao/user.dao";
+import { ForbiddenError, UnauthorizedError } from "@/errors/error-types";
+import {
+  authorize,
+  disallowApiKey,
+  protect,
+  requireScope,
+  requireVerifiedEmail,
+} from "@/middlewares/auth.middleware";
+import { Permission } from "@/policies/access.policy";
+import { Scope, getRoleScopes } from "@/policies/scope.policy";
+import ApiKeyService from "@/services/api-key.service";
+import SessionService from "@/services/session.service";
+import { signImpersonationToken, signToken } from "@/utils/jwt";
+import type { ApiKey, AuditLog, User } from "@prisma/client";
+import type { NextFunction, Request, Response } from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/services/api-key.service");
+vi.mock("@/services/session.service");
+vi.mock("@/dao/user.dao");
+vi.mock("@/dao/audit-log.dao");
+
+const mockRequest = (user?: Partial<User>): Request =>
+  ({ user }) as unknown as Request;
+
+const mockResponse = (): Response => ({}) as Response;
+
+describe("Auth Middleware", () => {
+  describe("requireVerifiedEmail", () => {
+    const originalRequiredForWrites =
+      config.emailVerification.requiredForWrites;
+    let next: NextFunction;
+
+    beforeEach(() => {
+      next = vi.fn();
+    });
+
+    afterEach(() => {
+      (config.emailVerification as any).requiredForWrites =
+        originalRequiredForWrites;
+    });
+
+    it("should let unverified users through when verification is not required", () => {
+      (config.emailVerification as any).requiredForWrites = false;
+
+      requireVerifiedEmail(
+        mockRequest({ emailVerifiedAt: null }),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject unverified users with ForbiddenError when verification is required", () => {
+      (config.emailVerification as any).requiredForWrites = true;
+
+      requireVerifiedEmail(
+        mockRequest({ emailVerifiedAt: null }),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.EMAIL_NOT_VERIFIED)
+      );
+    });
+
+    it("should let verified users through when verification is required", () => {
+      (config.emailVerification as any).requiredForWrites = true;
+
+      requireVerifiedEmail(
+        mockRequest({ emailVerifiedAt: new Date() }),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  describe("authorize", () => {
+    let next: NextFunction;
+
+    beforeEach(() => {
+      next = vi.fn();
+    });
+
+    it("should call next without error if the role has every permission", () => {
+      authorize(Permission.CATALOG_CREATE, Permission.USERS_MANAGE)(
+        mockRequest({ role: "admin" }),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject with ForbiddenError if a permission is missing", () => {
+      authorize(Permission.USERS_MANAGE)(
+        mockRequest({ role: "editor" }),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.INSUFFICIENT_PERMISSIONS)
+      );
+    });
+
+    it("should reject with UnauthorizedError if no user is attached", () => {
+      authorize(Permission.CATALOG_CREATE)(mockRequest(), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new UnauthorizedError(ErrorMessages.UNAUTHENTICATED)
+      );
+    });
+  });
+
+  describe("requireScope", () => {
+    let next: NextFunction;
+
+    const scopedRequest = (scopes: Scope[]): Request =>
+      ({ user: { id: "user-id" }, scopes }) as unknown as Request;
+
+    beforeEach(() => {
+      next = vi.fn();
+    });
+
+    it("should call next if every required scope was granted", () => {
+      requireScope(Scope.BOOKS_READ, Scope.BOOKS_WRITE)(
+        scopedRequest([Scope.BOOKS_READ, Scope.BOOKS_WRITE, Scope.ADMIN]),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject with ForbiddenError if a scope is missing", () => {
+      requireScope(Scope.AUTHORS_WRITE)(
+        scopedRequest([Scope.BOOKS_READ, Scope.BOOKS_WRITE]),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(
+          ErrorMessages.INSUFFICIENT_SCOPE,
+          ErrorCodes.INSUFFICIENT_SCOPE
+        )
+      );
+    });
+
+    it("should reject with UnauthorizedError if no user is attached", () => {
+      requireScope(Scope.BOOKS_READ)(mockRequest(), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new UnauthorizedError(ErrorMessages.UNAUTHENTICATED)
+      );
+    });
+  });
+
+  describe("protect with API keys", () => {
+    const mockUser = { id: "user-id", suspendedAt: null } as User;
+    const mockApiKey = { id: "api-key-id", scope: "read_only" } as ApiKey;
+    const mockScopes = [Scope.BOOKS_READ];
+    let next: NextFunction;
+
+    const apiKeyRequest = (
+      headers: Record<string, string>,
+      method = "GET"
+    ): Request => ({ headers, method }) as unknown as Request;
+
+    beforeEach(() => {
+      next = vi.fn();
+      vi.mocked(ApiKeyService.authenticate).mockReset();
+    });
+
+    it("should resolve an X-API-Key header to req.user", async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: mockApiKey,
+        user: mockUser,
+        scopes: mockScopes,
+      });
+      const req = apiKeyRequest({ "x-api-key": "bh_presented-key" });
+
+      await protect(req, mockResponse(), next);
+
+      expect(ApiKeyService.authenticate).toHaveBeenCalledWith(
+        "bh_presented-key"
+      );
+      expect(req.user).toBe(mockUser);
+      expect(req.apiKey).toBe(mockApiKey);
+      expect(req.scopes).toEqual(mockScopes);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should accept the key in an 'Authorization: ApiKey' header", async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: mockApiKey,
+        user: mockUser,
+        scopes: mockScopes,
+      });
+
+      await protect(
+        apiKeyRequest({ authorization: "ApiKey bh_presented-key" }),
+        mockResponse(),
+        next
+      );
+
+      expect(ApiKeyService.authenticate).toHaveBeenCalledWith(
+        "bh_presented-key"
+      );
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject writes made with a read-only key", async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: mockApiKey,
+        user: mockUser,
+        scopes: mockScopes,
+      });
+
+      await protect(
+        apiKeyRequest({ "x-api-key": "bh_presented-key" }, "POST"),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.API_KEY_READ_ONLY)
+      );
+    });
+
+    it("should allow writes made with a read-write key", async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: { ...mockApiKey, scope: "read_write" },
+        user: mockUser,
+        scopes: mockScopes,
+      });
+
+      await protect(
+        apiKeyRequest({ "x-api-key": "bh_presented-key" }, "DELETE"),
+        mockResponse(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject keys belonging to a suspended user", async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: mockApiKey,
+        user: { ...mockUser, suspendedAt: new Date() },
+        scopes: mockScopes,
+      });
+      const req = apiKeyRequest({ "x-api-key": "bh_presented-key" });
+
+      await protect(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(
+          ErrorMessages.ACCOUNT_SUSPENDED,
+          ErrorCodes.ACCOUNT_SUSPENDED
+        )
+      );
+      expect(req.user).toBeUndefined();
+    });
+  });
+
+  describe("protect with session-bound tokens", () => {
+    const mockUser = {
+      id: "user-id",
+      email: "session.user@example.com",
+      role: "user",
+      tokenVersion: 0,
+      suspendedAt: null,
+    } as User;
+    const originalJwtSecret = config.jwt.secret;
+    let next: NextFunction;
+
+    const bearerRequest = (sid?: string, scope?: string): Request =>
+      ({
+        headers: {
+          authorization: `Bearer ${signToken({
+            userId: mockUser.id,
+            email: mockUser.email,
+            role: mockUser.role,
+            tokenVersion: mockUser.tokenVersion,
+            scope,
+            sid,
+          })}`,
+        },
+      }) as unknown as Request;
+
+    beforeEach(() => {
+      (config.jwt as any).secret =
+        "test-super-secret-key-for-unit-tests-min-32-chars";
+      next = vi.fn();
+      vi.mocked(UserDao.findUserById).mockReset();
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUser);
+      vi.mocked(SessionService.assertSessionActive).mockReset();
+    });
+
+    afterEach(() => {
+      (config.jwt as any).secret = originalJwtSecret;
+    });
+
+    it("should check the session and attach its id to the request", async () => {
+      const req = bearerRequest("session-id");
+
+      await protect(req, mockResponse(), next);
+
+      expect(SessionService.assertSessionActive).toHaveBeenCalledWith(
+        "session-id",
+        mockUser.id
+      );
+      expect(req.sessionId).toBe("session-id");
+      expect(req.user).toBe(mockUser);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should reject the token once its session has been revoked", async () => {
+      vi.mocked(SessionService.assertSessionActive).mockRejectedValue(
+        new UnauthorizedError(ErrorMessages.SESSION_REVOKED)
+      );
+      const req = bearerRequest("session-id");
+
+      await protect(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new UnauthorizedError(ErrorMessages.SESSION_REVOKED)
+      );
+      expect(req.user).toBeUndefined();
+    });
+
+    it("should accept tokens issued before sessions existed", async () => {
+      const req = bearerRequest();
+
+      await protect(req, mockResponse(), next);
+
+      expect(SessionService.assertSessionActive).not.toHaveBeenCalled();
+      expect(req.sessionId).toBeUndefined();
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should attach the scopes from the token's scope claim", async () => {
+      const req = bearerRequest("session-id", "books:read favorites:write");
+
+      await protect(req, mockResponse(), next);
+
+      expect(req.scopes).toEqual([Scope.BOOKS_READ, Scope.FAVORITES_WRITE]);
+    });
+
+    it("should give tokens without a scope claim every scope of the role", async () => {
+      const req = bearerRequest("session-id");
+
+      await protect(req, mockResponse(), next);
+
+      expect(req.scopes).toEqual(getRoleScopes("user"));
+    });
+  });
+
+  describe("protect with impersonation tokens", () => {
+    const mockUser = {
+      id: "user-id",
+      email: "impersonated.user@example.com",
+      role: "user",
+      tokenVersion: 0,
+      suspendedAt: null,
+    } as User;
+    const mockAdmin = {
+      id: "admin-id",
+      role: "admin",
+      suspendedAt: null,
+    } as User;
+    const originalJwtSecret = config.jwt.secret;
+    const originalBlockWrites = config.impersonation.blockWrites;
+    let next: NextFunction;
+
+    const impersonationRequest = (method: string): Request =>
+      ({
+        method,
+        originalUrl: "/api/v1/books",
+        headers: {
+          authorization: `Bearer ${signImpersonationToken({
+            userId: mockUser.id,
+            email: mockUser.email,
+            role: mockUser.role,
+            tokenVersion: mockUser.tokenVersion,
+            act: { sub: mockAdmin.id },
+          })}`,
+        },
+      }) as unknown as Request;
+
+    const finishableResponse = () =>
+      Object.assign(new EventEmitter(), {
+        statusCode: 201,
+      }) as unknown as Response & EventEmitter;
+
+    beforeEach(() => {
+      (config.jwt as any).secret =
+        "test-super-secret-key-for-unit-tests-min-32-chars";
+      next = vi.fn();
+      vi.mocked(UserDao.findUserById).mockReset();
+      vi.mocked(UserDao.findUserById).mockImplementation(async (id) =>
+        id === mockAdmin.id ? mockAdmin : mockUser
+      );
+      vi.mocked(AuditLogDao.createAuditLog).mockReset();
+      vi.mocked(AuditLogDao.createAuditLog).mockResolvedValue({} as AuditLog);
+    });
+
+    afterEach(() => {
+      (config.jwt as any).secret = originalJwtSecret;
+      (config.impersonation as any).blockWrites = originalBlockWrites;
+    });
+
+    it("should attach the user and the impersonating admin", async () => {
+      const req = impersonationRequest("GET");
+
+      await protect(req, finishableResponse(), next);
+
+      expect(req.user).toBe(mockUser);
+      expect(req.impersonator).toBe(mockAdmin);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it("should record writes under the admin once the response is sent", async () => {
+      const res = finishableResponse();
+
+      await protect(impersonationRequest("POST"), res, next);
+      expect(AuditLogDao.createAuditLog).not.toHaveBeenCalled();
+      res.emit("finish");
+
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "IMPERSONATED_WRITE",
+        actorId: mockAdmin.id,
+        targetUserId: mockUser.id,
+        details: { method: "POST", path: "/api/v1/books", statusCode: 201 },
+      });
+    });
+
+    it("should not record reads", async () => {
+      const res = finishableResponse();
+
+      await protect(impersonationRequest("GET"), res, next);
+      res.emit("finish");
+
+      expect(AuditLogDao.createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it("should reject writes when impersonation writes are blocked", async () => {
+      (config.impersonation as any).blockWrites = true;
+
+      await protect(impersonationRequest("DELETE"), finishableResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.IMPERSONATION_WRITES_BLOCKED)
+      );
+    });
+
+    it("should reject the token once the admin lost the right to manage users", async () => {
+      vi.mocked(UserDao.findUserById).mockImplementation(async (id) =>
+        id === mockAdmin.id ? { ...mockAdmin, role: "editor" } : mockUser
+      );
+      const req = impersonationRequest("GET");
+
+      await protect(req, finishableResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new UnauthorizedError(ErrorMessages.IMPERSONATION_REVOKED)
+      );
+      expect(req.user).toBeUndefined();
+    });
+  });
+
+  describe("disallowApiKey", () => {
+    it("should reject requests authenticated with an API key", () => {
+      const next = vi.fn();
+      const req = { apiKey: { id: "api-key-id" } } as unknown as Request;
+
+      disallowApiKey(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.API_KEY_NOT_ALLOWED)
+      );
+    });
+
+    it("should reject requests made while impersonating the user", () => {
+      const next = vi.fn();
+      const req = {
+        user: { id: "user-id" },
+        impersonator: { id: "admin-id" },
+      } as unknown as Request;
+
+      disallowApiKey(req, mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        new ForbiddenError(ErrorMessages.IMPERSONATION_NOT_ALLOWED)
+      );
+    });
+
+    it("should let JWT-authenticated requests through", () => {
+      const next = vi.fn();
+
+      disallowApiKey(mockRequest({ id: "user-id" }), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
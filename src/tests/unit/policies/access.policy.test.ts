@@ -0,0 +1,57 @@
+import { ErrorMessages } from "@/constants";
+import { ForbiddenError } from "@/errors/error-types";
+import {
+  Permission,
+  assertCanManageRecord,
+  canManageRecord,
+  hasPermission,
+} from "@/policies/access.policy";
+import { describe, expect, it } from "vitest";
+
+const ownerId = "owner-user-id";
+const record = { createdById: ownerId };
+
+describe("Access Policy", () => {
+  describe("hasPermission", () => {
+    it("should only grant user management to admins", () => {
+      expect(hasPermission("user", Permission.USERS_MANAGE)).toBe(false);
+      expect(hasPermission("editor", Permission.USERS_MANAGE)).toBe(false);
+      expect(hasPermission("admin", Permission.USERS_MANAGE)).toBe(true);
+    });
+
+    it("should let every role create catalog records", () => {
+      for (const role of ["user", "editor", "admin"] as const) {
+        expect(hasPermission(role, Permission.CATALOG_CREATE)).toBe(true);
+      }
+    });
+  });
+
+  describe("canManageRecord", () => {
+    it("should allow the owner regardless of role", () => {
+      expect(canManageRecord({ id: ownerId, role: "user" }, record)).toBe(true);
+    });
+
+    it("should deny other regular users", () => {
+      expect(
+        canManageRecord({ id: "someone-else", role: "user" }, record)
+      ).toBe(false);
+    });
+
+    it("should allow editors and admins to manage any record", () => {
+      expect(canManageRecord({ id: "an-editor", role: "editor" }, record)).toBe(
+        true
+      );
+      expect(canManageRecord({ id: "an-admin", role: "admin" }, record)).toBe(
+        true
+      );
+    });
+  });
+
+  describe("assertCanManageRecord", () => {
+    it("should throw ForbiddenError when the actor cannot manage the record", () => {
+      expect(() =>
+        assertCanManageRecord({ id: "someone-else", role: "user" }, record)
+      ).toThrowError(new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION));
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  ALL_SCOPES,
+  Scope,
+  formatScopeClaim,
+  getRoleScopes,
+  hasScopes,
+  parseScopeClaim,
+} from "@/policies/scope.policy";
+import { describe, expect, it } from "vitest";
+
+describe("Scope Policy", () => {
+  describe("getRoleScopes", () => {
+    it("should only grant the admin scope to admins", () => {
+      expect(getRoleScopes("user")).not.toContain(Scope.ADMIN);
+      expect(getRoleScopes("editor")).not.toContain(Scope.ADMIN);
+      expect(getRoleScopes("admin")).toEqual(ALL_SCOPES);
+    });
+  });
+
+  describe("parseScopeClaim", () => {
+    it("should round-trip a formatted claim and drop unknown scopes", () => {
+      const claim = formatScopeClaim([Scope.BOOKS_READ, Scope.AUTHORS_WRITE]);
+
+      expect(claim).toBe("books:read authors:write");
+      expect(parseScopeClaim(`${claim} books:delete`)).toEqual([
+        Scope.BOOKS_READ,
+        Scope.AUTHORS_WRITE,
+      ]);
+      expect(parseScopeClaim("")).toEqual([]);
+    });
+  });
+
+  describe("hasScopes", () => {
+    it("should require every listed scope", () => {
+      const granted = [Scope.BOOKS_READ, Scope.FAVORITES_WRITE];
+
+      expect(hasScopes(granted, [Scope.BOOKS_READ])).toBe(true);
+      expect(hasScopes(granted, [Scope.BOOKS_READ, Scope.BOOKS_WRITE])).toBe(
+        false
+      );
+      expect(hasScopes(granted, [])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import AuditLogDao from "@/dao/audit-log.dao";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
+import UserDao from "@/dao/user.dao";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "@/errors/error-types";
+import type { Actor } from "@/policies/access.policy";
+import AdminService from "@/services/admin.service";
+import { verifyToken } from "@/utils/jwt";
+import type { User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/user.dao");
+vi.mock("@/dao/refresh-token.dao");
+vi.mock("@/dao/session.dao");
+vi.mock("@/dao/audit-log.dao");
+
+const mockAdmin: Actor = { id: "admin-user-id", role: "admin" };
+
+const mockTargetUser: User = {
+  id: "target-user-id",
+  email: "target@example.com",
+  password: "hashed-password",
+  name: "Target User",
+  role: "user",
+  emailVerifiedAt: null,
+  suspendedAt: null,
+  suspensionReason: null,
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedStep: null,
+  totpRecoveryCodes: [],
+  tokenVersion: 0,
+  createdAt: new Date("2023-01-01T10:00:00.000Z"),
+  updatedAt: new Date("2023-01-01T11:00:00.000Z"),
+};
+
+describe("AdminService", () => {
+  beforeEach(() => {
+    vi.mocked(UserDao.findUserById).mockReset();
+    vi.mocked(UserDao.findAllUsers).mockReset();
+    vi.mocked(UserDao.suspendUser).mockReset();
+    vi.mocked(UserDao.unsuspendUser).mockReset();
+    vi.mocked(UserDao.updateRole).mockReset();
+    vi.mocked(UserDao.incrementTokenVersion).mockReset();
+    vi.mocked(RefreshTokenDao.revokeAllTokensForUser).mockReset();
+    vi.mocked(SessionDao.revokeAllSessionsForUser).mockReset();
+    vi.mocked(AuditLogDao.createAuditLog).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("listUsers", () => {
+    it("should return users without passwords and pagination meta", async () => {
+      vi.mocked(UserDao.findAllUsers).mockResolvedValue({
+        users: [mockTargetUser],
+        totalItems: 11,
+      });
+
+      const result = await AdminService.listUsers({
+        page: 2,
+        limit: 5,
+        search: "target",
+      });
+
+      expect(UserDao.findAllUsers).toHaveBeenCalledWith(
+        2,
+        5,
+        undefined,
+        "target"
+      );
+      expect(result.data[0]).not.toHaveProperty("password");
+      expect(result.data[0]!.suspendedAt).toBeNull();
+      expect(result.meta).toEqual({
+        totalItems: 11,
+        itemCount: 1,
+        itemsPerPage: 5,
+        totalPages: 3,
+        currentPage: 2,
+      });
+    });
+  });
+
+  describe("suspendUser", () => {
+    it("should suspend the user, revoke refresh tokens and record the admin", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockTargetUser);
+      vi.mocked(UserDao.suspendUser).mockResolvedValue({
+        ...mockTargetUser,
+        suspendedAt: new Date(),
+        suspensionReason: "Spam",
+      });
+
+      const result = await AdminService.suspendUser(
+        mockAdmin,
+        mockTargetUser.id,
+        { reason: "Spam" }
+      );
+
+      expect(UserDao.suspendUser).toHaveBeenCalledWith(
+        mockTargetUser.id,
+        "Spam"
+      );
+      expect(RefreshTokenDao.revokeAllTokensForUser).toHaveBeenCalledWith(
+        mockTargetUser.id
+      );
+      expect(SessionDao.revokeAllSessionsForUser).toHaveBeenCalledWith(
+        mockTargetUser.id
+      );
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "USER_SUSPENDED",
+        actorId: mockAdmin.id,
+        targetUserId: mockTargetUser.id,
+        details: { reason: "Spam" },
+      });
+      expect(result.suspensionReason).toBe("Spam");
+    });
+
+    it("should throw BadRequestError if the user is already suspended", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockTargetUser,
+        suspendedAt: new Date(),
+      });
+
+      await expect(
+        AdminService.suspendUser(mockAdmin, mockTargetUser.id, {})
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.USER_ALREADY_SUSPENDED)
+      );
+      expect(AuditLogDao.createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to let an admin suspend themselves", async () => {
+      await expect(
+        AdminService.suspendUser(mockAdmin, mockAdmin.id, {})
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.CANNOT_MODIFY_OWN_ACCOUNT)
+      );
+      expect(UserDao.suspendUser).not.toHaveBeenCalled();
+    });
+
+    it("should throw NotFoundError for an unknown user", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(null);
+
+      await expect(
+        AdminService.suspendUser(mockAdmin, "unknown-user-id", {})
+      ).rejects.toThrowError(new NotFoundError(ErrorMessages.USER_NOT_FOUND));
+    });
+  });
+
+  describe("unsuspendUser", () => {
+    it("should lift the suspension and record the admin", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockTargetUser,
+        suspendedAt: new Date(),
+      });
+      vi.mocked(UserDao.unsuspendUser).mockResolvedValue(mockTargetUser);
+
+      await AdminService.unsuspendUser(mockAdmin, mockTargetUser.id);
+
+      expect(UserDao.unsuspendUser).toHaveBeenCalledWith(mockTargetUser.id);
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "USER_UNSUSPENDED",
+        actorId: mockAdmin.id,
+        targetUserId: mockTargetUser.id,
+      });
+    });
+
+    it("should throw BadRequestError if the user is not suspended", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockTargetUser);
+
+      await expect(
+        AdminService.unsuspendUser(mockAdmin, mockTargetUser.id)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.USER_NOT_SUSPENDED)
+      );
+    });
+  });
+
+  describe("changeUserRole", () => {
+    it("should update the role and record the previous and new role", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockTargetUser);
+      vi.mocked(UserDao.updateRole).mockResolvedValue({
+        ...mockTargetUser,
+        role: "editor",
+      });
+
+      const result = await AdminService.changeUserRole(
+        mockAdmin,
+        mockTargetUser.id,
+        { role: "editor" }
+      );
+
+      expect(UserDao.updateRole).toHaveBeenCalledWith(
+        mockTargetUser.id,
+        "editor"
+      );
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "USER_ROLE_CHANGED",
+        actorId: mockAdmin.id,
+        targetUserId: mockTargetUser.id,
+        details: { from: "user", to: "editor" },
+      });
+      expect(result.role).toBe("editor");
+    });
+  });
+
+  describe("forceLogoutUser", () => {
+    it("should bump the token version, revoke refresh tokens and record the admin", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockTargetUser);
+
+      await AdminService.forceLogoutUser(mockAdmin, mockTargetUser.id);
+
+      expect(UserDao.incrementTokenVersion).toHaveBeenCalledWith(
+        mockTargetUser.id
+      );
+      expect(RefreshTokenDao.revokeAllTokensForUser).toHaveBeenCalledWith(
+        mockTargetUser.id
+      );
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "USER_FORCE_LOGOUT",
+        actorId: mockAdmin.id,
+        targetUserId: mockTargetUser.id,
+      });
+    });
+  });
+
+  describe("impersonateUser", () => {
+    const originalJwtSecret = config.jwt.secret;
+
+    beforeEach(() => {
+      (config.jwt as any).secret =
+        "test-super-secret-key-for-unit-tests-min-32-chars";
+    });
+
+    afterEach(() => {
+      (config.jwt as any).secret = originalJwtSecret;
+    });
+
+    it("should issue a token for the user that names the admin and record it", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockTargetUser);
+
+      const result = await AdminService.impersonateUser(
+        mockAdmin,
+        mockTargetUser.id
+      );
+
+      expect(verifyToken(result.token)).toMatchObject({
+        userId: mockTargetUser.id,
+        act: { sub: mockAdmin.id },
+      });
+      expect(verifyToken(result.token)).not.toHaveProperty("sid");
+      expect(result.expiresIn).toBe(config.impersonation.expiresIn);
+      expect(result.user.id).toBe(mockTargetUser.id);
+      expect(AuditLogDao.createAuditLog).toHaveBeenCalledWith({
+        action: "USER_IMPERSONATED",
+        actorId: mockAdmin.id,
+        targetUserId: mockTargetUser.id,
+        details: { expiresIn: config.impersonation.expiresIn },
+      });
+    });
+
+    it("should refuse to impersonate another administrator", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockTargetUser,
+        role: "admin",
+      });
+
+      await expect(
+        AdminService.impersonateUser(mockAdmin, mockTargetUser.id)
+      ).rejects.toThrowError(
+        new ForbiddenError(ErrorMessages.CANNOT_IMPERSONATE_ADMIN)
+      );
+      expect(AuditLogDao.createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to impersonate the admin's own account", async () => {
+      await expect(
+        AdminService.impersonateUser(mockAdmin, mockAdmin.id)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.CANNOT_MODIFY_OWN_ACCOUNT)
+      );
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { ErrorMessages } from "@/constants";
+import ApiKeyDao from "@/dao/api-key.dao";
+import UserDao from "@/dao/user.dao";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "@/errors/error-types";
+import { Scope, getRoleScopes } from "@/policies/scope.policy";
+import ApiKeyService from "@/services/api-key.service";
+import { hashToken } from "@/utils/token";
+import type { ApiKey, User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/api-key.dao");
+vi.mock("@/dao/user.dao");
+
+const mockUserId = "user-id-for-testing";
+
+const mockApiKey: ApiKey = {
+  id: "api-key-id",
+  name: "Nightly import job",
+  prefix: "bh_abcdefgh",
+  keyHash: "stored-key-hash",
+  scope: "read_only",
+  scopes: ["books:read"],
+  expiresAt: null,
+  lastUsedAt: null,
+  revokedAt: null,
+  createdAt: new Date("2023-01-01T10:00:00.000Z"),
+  userId: mockUserId,
+};
+
+const mockUser = {
+  id: mockUserId,
+  email: "test@example.com",
+  role: "user",
+} as User;
+
+describe("ApiKeyService", () => {
+  beforeEach(() => {
+    vi.mocked(ApiKeyDao.createApiKey).mockReset();
+    vi.mocked(ApiKeyDao.findApiKeysByUser).mockReset();
+    vi.mocked(ApiKeyDao.findActiveApiKeyByHash).mockReset();
+    vi.mocked(ApiKeyDao.revokeApiKey).mockReset();
+    vi.mocked(ApiKeyDao.touchLastUsed).mockReset();
+    vi.mocked(UserDao.findUserById).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("createApiKey", () => {
+    it("should store only the hash and return the plain key once", async () => {
+      vi.mocked(ApiKeyDao.createApiKey).mockImplementation(
+        async (keyData) => ({ ...mockApiKey, ...keyData }) as ApiKey
+      );
+      const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+
+      const result = await ApiKeyService.createApiKey(mockUser, {
+        name: "Nightly import job",
+        scope: "read_write",
+        scopes: [Scope.BOOKS_READ, Scope.FAVORITES_WRITE],
+        expiresAt,
+      });
+
+      expect(result.key).toMatch(/^bh_/);
+      expect(ApiKeyDao.createApiKey).toHaveBeenCalledWith({
+        userId: mockUserId,
+        name: "Nightly import job",
+        prefix: result.key.slice(0, 11),
+        keyHash: hashToken(result.key),
+        scope: "read_write",
+        scopes: [Scope.BOOKS_READ, Scope.FAVORITES_WRITE],
+        expiresAt,
+      });
+      expect(result.apiKey).not.toHaveProperty("keyHash");
+      expect(result.apiKey.prefix).toBe(result.key.slice(0, 11));
+    });
+
+    it("should default to every scope of the owner's role", async () => {
+      vi.mocked(ApiKeyDao.createApiKey).mockImplementation(
+        async (keyData) => ({ ...mockApiKey, ...keyData }) as ApiKey
+      );
+
+      const result = await ApiKeyService.createApiKey(mockUser, {
+        name: "Nightly import job",
+        scope: "read_only",
+      });
+
+      expect(result.apiKey.scopes).toEqual(getRoleScopes("user"));
+      expect(result.apiKey.scopes).not.toContain(Scope.ADMIN);
+    });
+
+    it("should refuse scopes the owner's role does not have", async () => {
+      await expect(
+        ApiKeyService.createApiKey(mockUser, {
+          name: "Nightly import job",
+          scope: "read_write",
+          scopes: [Scope.ADMIN],
+        })
+      ).rejects.toThrowError(
+        new ForbiddenError(ErrorMessages.API_KEY_SCOPE_NOT_ALLOWED)
+      );
+      expect(ApiKeyDao.createApiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listApiKeys", () => {
+    it("should return the user's keys without their hashes", async () => {
+      vi.mocked(ApiKeyDao.findApiKeysByUser).mockResolvedValue([mockApiKey]);
+
+      const result = await ApiKeyService.listApiKeys(mockUser);
+
+      expect(ApiKeyDao.findApiKeysByUser).toHaveBeenCalledWith(mockUserId);
+      expect(result).toHaveLength(1);
+      expect(result[0]).not.toHaveProperty("keyHash");
+      expect(result[0]).not.toHaveProperty("userId");
+    });
+  });
+
+  describe("revokeApiKey", () => {
+    it("should revoke a key owned by the user", async () => {
+      vi.mocked(ApiKeyDao.revokeApiKey).mockResolvedValue(true);
+
+      await ApiKeyService.revokeApiKey(mockUserId, mockApiKey.id);
+
+      expect(ApiKeyDao.revokeApiKey).toHaveBeenCalledWith(
+        mockApiKey.id,
+        mockUserId
+      );
+    });
+
+    it("should throw NotFoundError for an unknown or foreign key", async () => {
+      vi.mocked(ApiKeyDao.revokeApiKey).mockResolvedValue(false);
+
+      await expect(
+        ApiKeyService.revokeApiKey(mockUserId, "someone-elses-key")
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.API_KEY_NOT_FOUND)
+      );
+    });
+  });
+
+  describe("authenticate", () => {
+    it("should resolve the key to its owner and record the use", async () => {
+      vi.mocked(ApiKeyDao.findActiveApiKeyByHash).mockResolvedValue(mockApiKey);
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUser);
+
+      const result = await ApiKeyService.authenticate("bh_presented-key");
+
+      expect(ApiKeyDao.findActiveApiKeyByHash).toHaveBeenCalledWith(
+        hashToken("bh_presented-key")
+      );
+      expect(ApiKeyDao.touchLastUsed).toHaveBeenCalledWith(mockApiKey.id);
+      expect(result).toEqual({
+        apiKey: mockApiKey,
+        user: mockUser,
+        scopes: [Scope.BOOKS_READ],
+      });
+    });
+
+    it("should give keys created before scopes existed the owner's role scopes", async () => {
+      vi.mocked(ApiKeyDao.findActiveApiKeyByHash).mockResolvedValue({
+        ...mockApiKey,
+        scopes: [],
+      });
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUser,
+        role: "admin",
+      });
+
+      const result = await ApiKeyService.authenticate("bh_presented-key");
+
+      expect(result.scopes).toEqual(getRoleScopes("admin"));
+    });
+
+    it("should throw UnauthorizedError for an unknown, revoked or expired key", async () => {
+      vi.mocked(ApiKeyDao.findActiveApiKeyByHash).mockResolvedValue(null);
+
+      await expect(
+        ApiKeyService.authenticate("bh_unknown-key")
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.API_KEY_INVALID)
+      );
+      expect(ApiKeyDao.touchLastUsed).not.toHaveBeenCalled();
+    });
+  });
+});
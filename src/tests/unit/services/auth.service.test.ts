@@ -1,18 +1,34 @@
 import { config } from "@/config";
-import { ErrorMessages } from "@/constants";
+import { ErrorCodes, ErrorMessages } from "@/constants";
+import OneTimeTokenDao from "@/dao/one-time-token.dao";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
 import UserDao from "@/dao/user.dao";
 import type { LoginUserDto, RegisterUserDto } from "@/dto/auth.dto";
 import {
   BadRequestError,
+  ForbiddenError,
   NotFoundError,
+  TooManyRequestsError,
   UnauthorizedError,
 } from "@/errors/error-types";
+import { mailer } from "@/mail";
+import type { OutboxMailer } from "@/mail/outbox.mailer";
 import AuthService from "@/services/auth.service";
-import { hashPassword } from "@/utils/password";
-import type { User } from "@prisma/client";
+import BruteForceService from "@/services/brute-force.service";
+import TwoFactorService from "@/services/two-factor.service";
+import { signMfaChallengeToken, signToken, verifyToken } from "@/utils/jwt";
+import { comparePassword, hashPassword } from "@/utils/password";
+import { hashToken } from "@/utils/token";
+import type { OneTimeToken, RefreshToken, Session, User } from "@prisma/client";
+import bcrypt from "bcryptjs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("@/dao/user.dao");
+vi.mock("@/dao/refresh-token.dao");
+vi.mock("@/dao/one-time-token.dao");
+vi.mock("@/dao/session.dao");
+vi.mock("@/services/brute-force.service");
 
 const testUserPassword = "Password123!";
 
@@ -21,10 +37,17 @@ const mockUserFromDb: User = {
   email: "test@example.com",
   password: "this will be replaced by actual hash or mocked hash",
   name: "Test User From DB",
+  role: "user",
+  tokenVersion: 0,
+  emailVerifiedAt: null,
+  suspendedAt: null,
+  suspensionReason: null,
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedStep: null,
+  totpRecoveryCodes: [],
   createdAt: new Date("2023-01-01T10:00:00.000Z"),
   updatedAt: new Date("2023-01-01T11:00:00.000Z"),
-  favoriteBookIds: ["book-fav-1"],
-  favoriteAuthorIds: ["author-fav-1"],
 };
 
 const mockRegisterDto: RegisterUserDto = {
@@ -38,13 +61,57 @@ const mockLoginDto: LoginUserDto = {
   password: testUserPassword,
 };
 
+const testContext = { ip: "203.0.113.7", userAgent: "vitest-agent/1.0" };
+
+const mockSession: Session = {
+  id: "session-id-for-testing",
+  familyId: "session-family-for-testing",
+  userAgent: testContext.userAgent,
+  ip: testContext.ip,
+  lastSeenAt: new Date(),
+  expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  createdAt: new Date(),
+  userId: mockUserFromDb.id,
+};
+
 const originalJwtSecret = config.jwt.secret;
+const originalSaltRounds = config.bcryptSaltRounds;
 
 describe("AuthService", () => {
   beforeEach(() => {
     vi.mocked(UserDao.createUser).mockReset();
     vi.mocked(UserDao.findUserByEmail).mockReset();
     vi.mocked(UserDao.findUserById).mockReset();
+    vi.mocked(RefreshTokenDao.createRefreshToken).mockReset();
+    vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockReset();
+    vi.mocked(RefreshTokenDao.markRefreshTokenAsUsed).mockReset();
+    vi.mocked(RefreshTokenDao.revokeTokenFamily).mockReset();
+    vi.mocked(RefreshTokenDao.revokeAllTokensForUser).mockReset();
+    vi.mocked(UserDao.incrementTokenVersion).mockReset();
+    vi.mocked(UserDao.updatePassword).mockReset();
+    vi.mocked(UserDao.updatePasswordHash).mockReset();
+    vi.mocked(UserDao.markEmailVerified).mockReset();
+    vi.mocked(UserDao.updateProfile).mockReset();
+    vi.mocked(UserDao.updateEmail).mockReset();
+    vi.mocked(UserDao.deleteUserAccount).mockReset();
+    vi.mocked(OneTimeTokenDao.createToken).mockReset();
+    vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockReset();
+    vi.mocked(OneTimeTokenDao.consumeToken).mockReset();
+    vi.mocked(OneTimeTokenDao.invalidateTokensForUser).mockReset();
+    vi.mocked(BruteForceService.guardLogin).mockReset();
+    vi.mocked(BruteForceService.recordLoginFailure).mockReset();
+    vi.mocked(BruteForceService.clearLoginFailures).mockReset();
+    vi.mocked(BruteForceService.guardRegistration).mockReset();
+    vi.mocked(BruteForceService.guardPasswordReset).mockReset();
+    vi.mocked(BruteForceService.guardMagicLink).mockReset();
+    vi.mocked(BruteForceService.guardVerificationResend).mockReset();
+    vi.mocked(SessionDao.upsertSession).mockReset();
+    vi.mocked(SessionDao.upsertSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionDao.revokeSessionByFamily).mockReset();
+    vi.mocked(SessionDao.findSessionById).mockReset();
+    vi.mocked(SessionDao.revokeSession).mockReset();
+    vi.mocked(SessionDao.revokeAllSessionsForUser).mockReset();
 
     if (
       !config.jwt.secret ||
@@ -58,6 +125,7 @@ describe("AuthService", () => {
 
   afterEach(() => {
     (config.jwt as any).secret = originalJwtSecret;
+    (config as any).bcryptSaltRounds = originalSaltRounds;
     vi.restoreAllMocks();
   });
 
@@ -69,16 +137,26 @@ describe("AuthService", () => {
         email: mockRegisterDto.email,
         password: actualHashedPassword,
         name: mockRegisterDto.name || null,
+        role: "user" as const,
+        tokenVersion: 0,
+        emailVerifiedAt: null,
+        suspendedAt: null,
+        suspensionReason: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
         createdAt: new Date(),
         updatedAt: new Date(),
-        favoriteAuthorIds: [],
-        favoriteBookIds: [],
       };
 
       vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
       vi.mocked(UserDao.createUser).mockResolvedValue(dbUserToCreate);
 
-      const result = await AuthService.registerUser(mockRegisterDto);
+      const result = await AuthService.registerUser(
+        mockRegisterDto,
+        testContext
+      );
 
       expect(UserDao.findUserByEmail).toHaveBeenCalledWith(
         mockRegisterDto.email
@@ -95,15 +173,40 @@ describe("AuthService", () => {
       expect(result.user.name).toBe(mockRegisterDto.name);
       expect(result.user.id).toBe(dbUserToCreate.id);
       expect(result.user).not.toHaveProperty("password");
-      expect(result.user).not.toHaveProperty("favoriteBookIds");
       expect(result.token).toEqual(expect.any(String));
+      expect(result.refreshToken).toEqual(expect.any(String));
+      expect(RefreshTokenDao.createRefreshToken).toHaveBeenCalledWith({
+        userId: dbUserToCreate.id,
+        tokenHash: hashToken(result.refreshToken),
+        familyId: expect.any(String),
+        expiresAt: expect.any(Date),
+      });
+      const refreshTokenData = vi.mocked(RefreshTokenDao.createRefreshToken)
+        .mock.calls[0]![0];
+      expect(SessionDao.upsertSession).toHaveBeenCalledWith({
+        userId: dbUserToCreate.id,
+        familyId: refreshTokenData.familyId,
+        userAgent: testContext.userAgent,
+        ip: testContext.ip,
+        expiresAt: refreshTokenData.expiresAt,
+      });
+      expect(verifyToken(result.token)?.sid).toBe(mockSession.id);
+      expect(OneTimeTokenDao.createToken).toHaveBeenCalledWith({
+        userId: dbUserToCreate.id,
+        purpose: "EMAIL_VERIFICATION",
+        tokenHash: expect.any(String),
+        expiresAt: expect.any(Date),
+      });
+      expect(
+        (mailer as OutboxMailer).getLatestMessage(mockRegisterDto.email)
+      ).toBeDefined();
     });
 
     it("should throw BadRequestError if email already exists", async () => {
       vi.mocked(UserDao.findUserByEmail).mockResolvedValue(mockUserFromDb);
 
       await expect(
-        AuthService.registerUser(mockRegisterDto)
+        AuthService.registerUser(mockRegisterDto, testContext)
       ).rejects.toThrowError(
         new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS)
       );
@@ -120,20 +223,56 @@ describe("AuthService", () => {
       };
       vi.mocked(UserDao.findUserByEmail).mockResolvedValue(userForLoginTest);
 
-      const result = await AuthService.loginUser(mockLoginDto);
+      const result = await AuthService.loginUser(mockLoginDto, testContext);
+      if (result.mfaRequired) {
+        throw new Error("Expected a token pair, got an MFA challenge.");
+      }
 
       expect(UserDao.findUserByEmail).toHaveBeenCalledWith(mockLoginDto.email);
       expect(result.user.email).toBe(mockLoginDto.email);
       expect(result.user.id).toBe(userForLoginTest.id);
       expect(result.user).not.toHaveProperty("password");
-      expect(result.user).not.toHaveProperty("favoriteAuthorIds");
       expect(result.token).toEqual(expect.any(String));
     });
 
+    it("should upgrade an outdated password hash after a successful login", async () => {
+      const outdatedHash = await bcrypt.hash(testUserPassword, 4);
+      (config as any).bcryptSaltRounds = 5;
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        password: outdatedHash,
+      });
+
+      await AuthService.loginUser(mockLoginDto, testContext);
+
+      expect(UserDao.updatePasswordHash).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        expect.any(String)
+      );
+      const upgradedHash = vi.mocked(UserDao.updatePasswordHash).mock
+        .calls[0]![1];
+      expect(upgradedHash).not.toBe(outdatedHash);
+      expect(await comparePassword(testUserPassword, upgradedHash)).toBe(true);
+      expect(UserDao.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("should not rewrite a hash made with the current settings", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await AuthService.loginUser(mockLoginDto, testContext);
+
+      expect(UserDao.updatePasswordHash).not.toHaveBeenCalled();
+    });
+
     it("should throw UnauthorizedError if user not found", async () => {
       vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
 
-      await expect(AuthService.loginUser(mockLoginDto)).rejects.toThrowError(
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(
         new UnauthorizedError(ErrorMessages.INVALID_CREDENTIALS)
       );
     });
@@ -148,36 +287,1010 @@ describe("AuthService", () => {
         userWithDifferentPassword
       );
 
-      await expect(AuthService.loginUser(mockLoginDto)).rejects.toThrowError(
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(
         new UnauthorizedError(ErrorMessages.INVALID_CREDENTIALS)
       );
     });
+
+    it("should throw ForbiddenError with a code if the account is suspended", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+        suspendedAt: new Date(),
+      });
+
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(
+        new ForbiddenError(
+          ErrorMessages.ACCOUNT_SUSPENDED,
+          ErrorCodes.ACCOUNT_SUSPENDED
+        )
+      );
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should record failures and clear them after a successful login", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(UnauthorizedError);
+      expect(BruteForceService.recordLoginFailure).toHaveBeenCalledWith(
+        mockLoginDto.email,
+        testContext.ip
+      );
+
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+      await AuthService.loginUser(mockLoginDto, testContext);
+
+      expect(BruteForceService.clearLoginFailures).toHaveBeenCalledWith(
+        mockUserFromDb.email
+      );
+    });
+
+    it("should not check the password while the caller is locked out", async () => {
+      vi.mocked(BruteForceService.guardLogin).mockRejectedValue(
+        new TooManyRequestsError(undefined, 60)
+      );
+
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(TooManyRequestsError);
+      expect(UserDao.findUserByEmail).not.toHaveBeenCalled();
+    });
+
+    it("should email the account owner when a failure locks the account", async () => {
+      const outbox = mailer as OutboxMailer;
+      outbox.clear();
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword("ADifferentPassword"),
+      });
+      vi.mocked(BruteForceService.recordLoginFailure).mockResolvedValue(
+        lockedUntil
+      );
+
+      await expect(
+        AuthService.loginUser(mockLoginDto, testContext)
+      ).rejects.toThrowError(UnauthorizedError);
+
+      const mail = outbox.getLatestMessage(mockUserFromDb.email);
+      expect(mail?.subject).toBe("Your account was temporarily locked");
+      expect(mail?.text).toContain(lockedUntil.toUTCString());
+    });
   });
 
-  describe("getMe", () => {
-    it("should return omitPasswordFromResult for a valid user ID", async () => {
-      const userWithFavorites = {
+  describe("two-factor login", () => {
+    const userWithTwoFactor: User = {
+      ...mockUserFromDb,
+      totpSecret: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+      totpEnabledAt: new Date("2023-01-02T10:00:00.000Z"),
+    };
+
+    it("should return an MFA challenge instead of tokens when 2FA is enabled", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...userWithTwoFactor,
+        password: await hashPassword(testUserPassword),
+      });
+
+      const result = await AuthService.loginUser(mockLoginDto, testContext);
+
+      expect(result).toEqual({
+        mfaRequired: true,
+        mfaToken: expect.any(String),
+      });
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+      // The challenge must not work as an access token
+      expect(verifyToken(result.mfaToken!)).toBeNull();
+    });
+
+    it("should issue tokens once a valid second factor is supplied", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(userWithTwoFactor);
+      const verifySpy = vi
+        .spyOn(TwoFactorService, "verifySecondFactor")
+        .mockResolvedValue(true);
+
+      const result = await AuthService.completeMfaLogin(
+        {
+          mfaToken: signMfaChallengeToken({
+            userId: userWithTwoFactor.id,
+            tokenVersion: userWithTwoFactor.tokenVersion,
+          }),
+          code: "123456",
+        },
+        testContext
+      );
+
+      expect(verifySpy).toHaveBeenCalledWith(userWithTwoFactor, "123456");
+      expect(result.user.twoFactorEnabled).toBe(true);
+      expect(result.token).toEqual(expect.any(String));
+      expect(RefreshTokenDao.createRefreshToken).toHaveBeenCalled();
+    });
+
+    it("should throw UnauthorizedError for an invalid second factor", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(userWithTwoFactor);
+      vi.spyOn(TwoFactorService, "verifySecondFactor").mockResolvedValue(false);
+
+      await expect(
+        AuthService.completeMfaLogin(
+          {
+            mfaToken: signMfaChallengeToken({
+              userId: userWithTwoFactor.id,
+              tokenVersion: userWithTwoFactor.tokenVersion,
+            }),
+            code: "123456",
+          },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.TWO_FACTOR_CODE_INVALID)
+      );
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+      expect(BruteForceService.recordLoginFailure).toHaveBeenCalledWith(
+        userWithTwoFactor.email,
+        testContext.ip
+      );
+    });
+
+    it("should reject an access token presented as a challenge", async () => {
+      const accessToken = signToken({
+        userId: userWithTwoFactor.id,
+        email: userWithTwoFactor.email,
+        tokenVersion: userWithTwoFactor.tokenVersion,
+        role: userWithTwoFactor.role,
+      });
+
+      await expect(
+        AuthService.completeMfaLogin(
+          { mfaToken: accessToken, code: "123456" },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.MFA_TOKEN_INVALID)
+      );
+      expect(UserDao.findUserById).not.toHaveBeenCalled();
+    });
+
+    it("should reject a challenge issued before the token version changed", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...userWithTwoFactor,
+        tokenVersion: userWithTwoFactor.tokenVersion + 1,
+      });
+
+      await expect(
+        AuthService.completeMfaLogin(
+          {
+            mfaToken: signMfaChallengeToken({
+              userId: userWithTwoFactor.id,
+              tokenVersion: userWithTwoFactor.tokenVersion,
+            }),
+            code: "123456",
+          },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.MFA_TOKEN_INVALID)
+      );
+    });
+  });
+
+  describe("refreshAuthTokens", () => {
+    const rawRefreshToken = "raw-refresh-token-for-testing";
+    const storedRefreshToken: RefreshToken = {
+      id: "refresh-token-id",
+      tokenHash: hashToken(rawRefreshToken),
+      familyId: "refresh-token-family",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      usedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    it("should rotate a valid refresh token within the same family", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue(
+        storedRefreshToken
+      );
+      vi.mocked(RefreshTokenDao.markRefreshTokenAsUsed).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUserFromDb);
+
+      const result = await AuthService.refreshAuthTokens(
+        rawRefreshToken,
+        testContext
+      );
+
+      expect(RefreshTokenDao.findRefreshTokenByHash).toHaveBeenCalledWith(
+        storedRefreshToken.tokenHash
+      );
+      expect(RefreshTokenDao.markRefreshTokenAsUsed).toHaveBeenCalledWith(
+        storedRefreshToken.id
+      );
+      expect(RefreshTokenDao.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: mockUserFromDb.id,
+          familyId: storedRefreshToken.familyId,
+        })
+      );
+      expect(SessionDao.upsertSession).toHaveBeenCalledWith(
+        expect.objectContaining({ familyId: storedRefreshToken.familyId })
+      );
+      expect(result.refreshToken).not.toBe(rawRefreshToken);
+      expect(result.token).toEqual(expect.any(String));
+      expect(result.user.id).toBe(mockUserFromDb.id);
+    });
+
+    it("should throw UnauthorizedError if the refresh token is unknown", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue(null);
+
+      await expect(
+        AuthService.refreshAuthTokens(rawRefreshToken, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_INVALID)
+      );
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should throw UnauthorizedError if the refresh token has expired", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue({
+        ...storedRefreshToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(
+        AuthService.refreshAuthTokens(rawRefreshToken, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_INVALID)
+      );
+      expect(RefreshTokenDao.markRefreshTokenAsUsed).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the whole family when an already used token is replayed", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue({
+        ...storedRefreshToken,
+        usedAt: new Date(),
+      });
+
+      await expect(
+        AuthService.refreshAuthTokens(rawRefreshToken, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_REUSED)
+      );
+      expect(RefreshTokenDao.revokeTokenFamily).toHaveBeenCalledWith(
+        storedRefreshToken.familyId
+      );
+      expect(SessionDao.revokeSessionByFamily).toHaveBeenCalledWith(
+        storedRefreshToken.familyId
+      );
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the family if the token was claimed concurrently", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue(
+        storedRefreshToken
+      );
+      vi.mocked(RefreshTokenDao.markRefreshTokenAsUsed).mockResolvedValue(
+        false
+      );
+
+      await expect(
+        AuthService.refreshAuthTokens(rawRefreshToken, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.REFRESH_TOKEN_REUSED)
+      );
+      expect(RefreshTokenDao.revokeTokenFamily).toHaveBeenCalledWith(
+        storedRefreshToken.familyId
+      );
+    });
+
+    it("should refuse to rotate tokens for a suspended user", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue(
+        storedRefreshToken
+      );
+      vi.mocked(RefreshTokenDao.markRefreshTokenAsUsed).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
         ...mockUserFromDb,
-        id: "getme-user-id",
-        favoriteBookIds: ["book101", "book102"],
-        favoriteAuthorIds: ["author201"],
-      };
-      vi.mocked(UserDao.findUserById).mockResolvedValue(userWithFavorites);
+        suspendedAt: new Date(),
+      });
+
+      await expect(
+        AuthService.refreshAuthTokens(rawRefreshToken, testContext)
+      ).rejects.toThrowError(
+        new ForbiddenError(
+          ErrorMessages.ACCOUNT_SUSPENDED,
+          ErrorCodes.ACCOUNT_SUSPENDED
+        )
+      );
+      expect(RefreshTokenDao.createRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("logoutUser", () => {
+    const rawRefreshToken = "raw-refresh-token-for-logout";
+    const storedRefreshToken: RefreshToken = {
+      id: "logout-refresh-token-id",
+      tokenHash: hashToken(rawRefreshToken),
+      familyId: "logout-refresh-token-family",
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      usedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    it("should revoke the family and session of the supplied refresh token", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue(
+        storedRefreshToken
+      );
+
+      await AuthService.logoutUser(mockUserFromDb.id, rawRefreshToken);
+
+      expect(RefreshTokenDao.revokeTokenFamily).toHaveBeenCalledWith(
+        storedRefreshToken.familyId
+      );
+      expect(SessionDao.revokeSessionByFamily).toHaveBeenCalledWith(
+        storedRefreshToken.familyId
+      );
+    });
+
+    it("should not revoke a refresh token that belongs to another user", async () => {
+      vi.mocked(RefreshTokenDao.findRefreshTokenByHash).mockResolvedValue({
+        ...storedRefreshToken,
+        userId: "someone-else",
+      });
+
+      await AuthService.logoutUser(mockUserFromDb.id, rawRefreshToken);
+
+      expect(RefreshTokenDao.revokeTokenFamily).not.toHaveBeenCalled();
+    });
+
+    it("should sign out the current session if no refresh token is supplied", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue(mockSession);
+
+      await AuthService.logoutUser(
+        mockUserFromDb.id,
+        undefined,
+        mockSession.id
+      );
+
+      expect(RefreshTokenDao.findRefreshTokenByHash).not.toHaveBeenCalled();
+      expect(SessionDao.revokeSession).toHaveBeenCalledWith(mockSession.id);
+      expect(RefreshTokenDao.revokeTokenFamily).toHaveBeenCalledWith(
+        mockSession.familyId
+      );
+    });
+
+    it("should throw BadRequestError without a refresh token or session", async () => {
+      await expect(
+        AuthService.logoutUser(mockUserFromDb.id)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.LOGOUT_SESSION_REQUIRED)
+      );
+    });
+  });
+
+  describe("logoutAllSessions", () => {
+    it("should bump the token version and revoke all refresh tokens and sessions", async () => {
+      await AuthService.logoutAllSessions(mockUserFromDb.id);
+
+      expect(UserDao.incrementTokenVersion).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+      expect(RefreshTokenDao.revokeAllTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+      expect(SessionDao.revokeAllSessionsForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+    });
+  });
+
+  describe("requestPasswordReset", () => {
+    const outbox = mailer as OutboxMailer;
+
+    beforeEach(() => {
+      outbox.clear();
+    });
+
+    it("should store a hashed reset token and email the reset link", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(mockUserFromDb);
+
+      await AuthService.requestPasswordReset(mockUserFromDb.email, testContext);
+
+      expect(OneTimeTokenDao.invalidateTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        "PASSWORD_RESET"
+      );
+      const mail = outbox.getLatestMessage(mockUserFromDb.email);
+      expect(mail).toBeDefined();
+
+      const rawToken = new URL(
+        mail!.text.match(/https?:\/\/\S+/)![0]
+      ).searchParams.get("token");
+      expect(rawToken).toEqual(expect.any(String));
+      expect(OneTimeTokenDao.createToken).toHaveBeenCalledWith({
+        userId: mockUserFromDb.id,
+        purpose: "PASSWORD_RESET",
+        tokenHash: hashToken(rawToken!),
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it("should silently do nothing if no account exists for the email", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        AuthService.requestPasswordReset("nobody@example.com", testContext)
+      ).resolves.toBeUndefined();
+
+      expect(OneTimeTokenDao.createToken).not.toHaveBeenCalled();
+      expect(outbox.getMessages()).toHaveLength(0);
+    });
+  });
+
+  describe("resetPassword", () => {
+    const rawResetToken = "raw-reset-token";
+    const storedResetToken: OneTimeToken = {
+      id: "reset-token-id",
+      purpose: "PASSWORD_RESET",
+      tokenHash: hashToken(rawResetToken),
+      email: null,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    it("should consume the token, update the password and revoke refresh tokens", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedResetToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.updatePassword).mockResolvedValue(mockUserFromDb);
+
+      await AuthService.resetPassword({
+        token: rawResetToken,
+        password: "NewPassword123!",
+      });
+
+      expect(OneTimeTokenDao.findActiveTokenByHash).toHaveBeenCalledWith(
+        storedResetToken.tokenHash,
+        "PASSWORD_RESET"
+      );
+      expect(UserDao.updatePassword).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        expect.any(String)
+      );
+      const newHash = vi.mocked(UserDao.updatePassword).mock.calls[0]![1];
+      expect(await comparePassword("NewPassword123!", newHash)).toBe(true);
+      expect(RefreshTokenDao.revokeAllTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+      expect(BruteForceService.clearLoginFailures).toHaveBeenCalledWith(
+        mockUserFromDb.email
+      );
+    });
+
+    it("should throw BadRequestError for an unknown or expired token", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(null);
+
+      await expect(
+        AuthService.resetPassword({
+          token: rawResetToken,
+          password: "NewPassword123!",
+        })
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.PASSWORD_RESET_TOKEN_INVALID)
+      );
+      expect(UserDao.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestError if the token was consumed concurrently", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedResetToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(false);
+
+      await expect(
+        AuthService.resetPassword({
+          token: rawResetToken,
+          password: "NewPassword123!",
+        })
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.PASSWORD_RESET_TOKEN_INVALID)
+      );
+      expect(UserDao.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requestMagicLink", () => {
+    const outbox = mailer as OutboxMailer;
+
+    beforeEach(() => {
+      outbox.clear();
+    });
+
+    it("should store a hashed token bound to the email and send the link", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(mockUserFromDb);
+
+      await AuthService.requestMagicLink(mockUserFromDb.email, testContext);
+
+      expect(BruteForceService.guardMagicLink).toHaveBeenCalledWith(
+        mockUserFromDb.email,
+        testContext.ip
+      );
+      expect(OneTimeTokenDao.invalidateTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        "MAGIC_LINK"
+      );
+      const mail = outbox.getLatestMessage(mockUserFromDb.email);
+      const rawToken = new URL(
+        mail!.text.match(/https?:\/\/\S+/)![0]
+      ).searchParams.get("token");
+      expect(OneTimeTokenDao.createToken).toHaveBeenCalledWith({
+        userId: mockUserFromDb.id,
+        purpose: "MAGIC_LINK",
+        tokenHash: hashToken(rawToken!),
+        expiresAt: expect.any(Date),
+        email: mockUserFromDb.email,
+      });
+    });
 
-      const result = await AuthService.getMe(userWithFavorites.id);
+    it("should silently do nothing if no account exists for the email", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+
+      await expect(
+        AuthService.requestMagicLink("nobody@example.com", testContext)
+      ).resolves.toBeUndefined();
+
+      expect(OneTimeTokenDao.createToken).not.toHaveBeenCalled();
+      expect(outbox.getMessages()).toHaveLength(0);
+    });
+  });
+
+  describe("consumeMagicLink", () => {
+    const rawSignInToken = "raw-magic-link-token";
+    const storedSignInToken: OneTimeToken = {
+      id: "magic-link-token-id",
+      purpose: "MAGIC_LINK",
+      tokenHash: hashToken(rawSignInToken),
+      email: mockUserFromDb.email,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    it("should consume the token and sign the user in", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedSignInToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUserFromDb);
+
+      const result = await AuthService.consumeMagicLink(
+        { token: rawSignInToken },
+        testContext
+      );
+
+      expect(OneTimeTokenDao.findActiveTokenByHash).toHaveBeenCalledWith(
+        storedSignInToken.tokenHash,
+        "MAGIC_LINK"
+      );
+      expect(OneTimeTokenDao.consumeToken).toHaveBeenCalledWith(
+        storedSignInToken.id
+      );
+      expect(result).toMatchObject({
+        user: { id: mockUserFromDb.id, email: mockUserFromDb.email },
+        token: expect.any(String),
+        refreshToken: expect.any(String),
+      });
+      expect(BruteForceService.clearLoginFailures).toHaveBeenCalledWith(
+        mockUserFromDb.email
+      );
+    });
+
+    it("should return a two-factor challenge when 2FA is enabled", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedSignInToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        totpEnabledAt: new Date(),
+      });
+
+      const result = await AuthService.consumeMagicLink(
+        { token: rawSignInToken },
+        testContext
+      );
+
+      expect(result).toEqual({
+        mfaRequired: true,
+        mfaToken: expect.any(String),
+      });
+      expect(SessionDao.upsertSession).not.toHaveBeenCalled();
+    });
 
-      expect(UserDao.findUserById).toHaveBeenCalledWith(userWithFavorites.id);
-      expect(result.id).toBe(userWithFavorites.id);
-      expect(result.email).toBe(userWithFavorites.email);
+    it("should throw BadRequestError for an unknown, expired or used token", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValueOnce(
+        null
+      );
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValueOnce(
+        storedSignInToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(false);
+
+      await expect(
+        AuthService.consumeMagicLink({ token: rawSignInToken }, testContext)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID)
+      );
+      await expect(
+        AuthService.consumeMagicLink({ token: rawSignInToken }, testContext)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID)
+      );
+      expect(UserDao.findUserById).not.toHaveBeenCalled();
+    });
+
+    it("should reject the link once the account's email has changed", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedSignInToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        email: "changed@example.com",
+      });
+
+      await expect(
+        AuthService.consumeMagicLink({ token: rawSignInToken }, testContext)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.MAGIC_LINK_TOKEN_INVALID)
+      );
+      expect(SessionDao.upsertSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyEmail", () => {
+    const rawVerificationToken = "raw-verification-token";
+    const storedVerificationToken: OneTimeToken = {
+      id: "verification-token-id",
+      purpose: "EMAIL_VERIFICATION",
+      tokenHash: hashToken(rawVerificationToken),
+      email: null,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    it("should consume the token and mark the email as verified", async () => {
+      const verifiedAt = new Date();
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedVerificationToken
+      );
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.markEmailVerified).mockResolvedValue({
+        ...mockUserFromDb,
+        emailVerifiedAt: verifiedAt,
+      });
+
+      const result = await AuthService.verifyEmail(rawVerificationToken);
+
+      expect(OneTimeTokenDao.findActiveTokenByHash).toHaveBeenCalledWith(
+        storedVerificationToken.tokenHash,
+        "EMAIL_VERIFICATION"
+      );
+      expect(UserDao.markEmailVerified).toHaveBeenCalledWith(mockUserFromDb.id);
+      expect(result.emailVerifiedAt).toEqual(verifiedAt);
       expect(result).not.toHaveProperty("password");
-      expect(result).toHaveProperty(
-        "favoriteBookIds",
-        userWithFavorites.favoriteBookIds
+    });
+
+    it("should throw BadRequestError for an unknown or expired token", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(null);
+
+      await expect(
+        AuthService.verifyEmail(rawVerificationToken)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.EMAIL_VERIFICATION_TOKEN_INVALID)
+      );
+      expect(UserDao.markEmailVerified).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resendEmailVerification", () => {
+    const outbox = mailer as OutboxMailer;
+
+    beforeEach(() => {
+      outbox.clear();
+    });
+
+    it("should replace outstanding tokens and email a new verification link", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUserFromDb);
+
+      await AuthService.resendEmailVerification(mockUserFromDb.id, testContext);
+
+      expect(BruteForceService.guardVerificationResend).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        testContext.ip
       );
-      expect(result).toHaveProperty(
-        "favoriteAuthorIds",
-        userWithFavorites.favoriteAuthorIds
+      expect(OneTimeTokenDao.invalidateTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        "EMAIL_VERIFICATION"
       );
+      const mail = outbox.getLatestMessage(mockUserFromDb.email);
+      const rawToken = new URL(
+        mail!.text.match(/https?:\/\/\S+/)![0]
+      ).searchParams.get("token");
+      expect(OneTimeTokenDao.createToken).toHaveBeenCalledWith({
+        userId: mockUserFromDb.id,
+        purpose: "EMAIL_VERIFICATION",
+        tokenHash: hashToken(rawToken!),
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it("should throw BadRequestError if the email is already verified", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(
+        AuthService.resendEmailVerification(mockUserFromDb.id, testContext)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.EMAIL_ALREADY_VERIFIED)
+      );
+      expect(OneTimeTokenDao.createToken).not.toHaveBeenCalled();
+      expect(outbox.getMessages()).toHaveLength(0);
+    });
+  });
+
+  describe("changePassword", () => {
+    it("should update the password, revoke refresh tokens and issue a new token pair", async () => {
+      const currentHash = await hashPassword(testUserPassword);
+      const userWithPassword = { ...mockUserFromDb, password: currentHash };
+      vi.mocked(UserDao.findUserById).mockResolvedValue(userWithPassword);
+      vi.mocked(UserDao.updatePassword).mockResolvedValue({
+        ...userWithPassword,
+        tokenVersion: 1,
+      });
+
+      const result = await AuthService.changePassword(
+        mockUserFromDb.id,
+        {
+          currentPassword: testUserPassword,
+          newPassword: "NewPassword123!",
+        },
+        testContext
+      );
+
+      const newHash = vi.mocked(UserDao.updatePassword).mock.calls[0]![1];
+      expect(await comparePassword("NewPassword123!", newHash)).toBe(true);
+      expect(RefreshTokenDao.revokeAllTokensForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+      expect(SessionDao.revokeAllSessionsForUser).toHaveBeenCalledWith(
+        mockUserFromDb.id
+      );
+      expect(result.token).toEqual(expect.any(String));
+      expect(result.refreshToken).toEqual(expect.any(String));
+    });
+
+    it("should throw BadRequestError if the current password is incorrect", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await expect(
+        AuthService.changePassword(
+          mockUserFromDb.id,
+          {
+            currentPassword: "WrongPassword123!",
+            newPassword: "NewPassword123!",
+          },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.CURRENT_PASSWORD_INCORRECT)
+      );
+      expect(UserDao.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestError if the new password equals the current one", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await expect(
+        AuthService.changePassword(
+          mockUserFromDb.id,
+          {
+            currentPassword: testUserPassword,
+            newPassword: testUserPassword,
+          },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.NEW_PASSWORD_SAME_AS_CURRENT)
+      );
+      expect(UserDao.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requestEmailChange", () => {
+    const outbox = mailer as OutboxMailer;
+    const newEmail = "changed.address@example.com";
+
+    beforeEach(async () => {
+      outbox.clear();
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+    });
+
+    it("should store a token bound to the new address and email it there", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+
+      await AuthService.requestEmailChange(mockUserFromDb.id, {
+        email: newEmail,
+        currentPassword: testUserPassword,
+      });
+
+      const mail = outbox.getLatestMessage(newEmail);
+      const rawToken = new URL(
+        mail!.text.match(/https?:\/\/\S+/)![0]
+      ).searchParams.get("token");
+      expect(OneTimeTokenDao.createToken).toHaveBeenCalledWith({
+        userId: mockUserFromDb.id,
+        purpose: "EMAIL_CHANGE",
+        tokenHash: hashToken(rawToken!),
+        expiresAt: expect.any(Date),
+        email: newEmail,
+      });
+      expect(outbox.getMessages(mockUserFromDb.email)).toHaveLength(0);
+    });
+
+    it("should throw BadRequestError if the new email is already taken", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        id: "another-user-id",
+        email: newEmail,
+      });
+
+      await expect(
+        AuthService.requestEmailChange(mockUserFromDb.id, {
+          email: newEmail,
+          currentPassword: testUserPassword,
+        })
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS)
+      );
+      expect(OneTimeTokenDao.createToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmEmailChange", () => {
+    const outbox = mailer as OutboxMailer;
+    const newEmail = "changed.address@example.com";
+    const rawChangeToken = "raw-email-change-token";
+    const storedChangeToken: OneTimeToken = {
+      id: "email-change-token-id",
+      purpose: "EMAIL_CHANGE",
+      tokenHash: hashToken(rawChangeToken),
+      email: newEmail,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: null,
+      createdAt: new Date(),
+      userId: mockUserFromDb.id,
+    };
+
+    beforeEach(() => {
+      outbox.clear();
+    });
+
+    it("should switch the email and notify the previous address", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedChangeToken
+      );
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+      vi.mocked(OneTimeTokenDao.consumeToken).mockResolvedValue(true);
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUserFromDb);
+      vi.mocked(UserDao.updateEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        email: newEmail,
+        emailVerifiedAt: new Date(),
+      });
+
+      const result = await AuthService.confirmEmailChange(rawChangeToken);
+
+      expect(UserDao.updateEmail).toHaveBeenCalledWith(
+        mockUserFromDb.id,
+        newEmail
+      );
+      expect(result.email).toBe(newEmail);
+      expect(outbox.getLatestMessage(mockUserFromDb.email)).toBeDefined();
+    });
+
+    it("should throw BadRequestError for an unknown or expired token", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(null);
+
+      await expect(
+        AuthService.confirmEmailChange(rawChangeToken)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.EMAIL_CHANGE_TOKEN_INVALID)
+      );
+      expect(UserDao.updateEmail).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestError if the new email was taken in the meantime", async () => {
+      vi.mocked(OneTimeTokenDao.findActiveTokenByHash).mockResolvedValue(
+        storedChangeToken
+      );
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUserFromDb,
+        id: "another-user-id",
+        email: newEmail,
+      });
+
+      await expect(
+        AuthService.confirmEmailChange(rawChangeToken)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.EMAIL_ALREADY_EXISTS)
+      );
+      expect(UserDao.updateEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteAccount", () => {
+    it("should delete the account after checking the current password", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await AuthService.deleteAccount(mockUserFromDb.id, testUserPassword);
+
+      expect(UserDao.deleteUserAccount).toHaveBeenCalledWith(mockUserFromDb.id);
+    });
+
+    it("should throw BadRequestError and keep the account if the password is incorrect", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserFromDb,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await expect(
+        AuthService.deleteAccount(mockUserFromDb.id, "WrongPassword123!")
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.CURRENT_PASSWORD_INCORRECT)
+      );
+      expect(UserDao.deleteUserAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getMe", () => {
+    it("should return omitPasswordFromResult for a valid user ID", async () => {
+      const getMeUser = { ...mockUserFromDb, id: "getme-user-id" };
+      vi.mocked(UserDao.findUserById).mockResolvedValue(getMeUser);
+
+      const result = await AuthService.getMe(getMeUser.id);
+
+      expect(UserDao.findUserById).toHaveBeenCalledWith(getMeUser.id);
+      expect(result.id).toBe(getMeUser.id);
+      expect(result.email).toBe(getMeUser.email);
+      expect(result).not.toHaveProperty("password");
     });
 
     it("should throw NotFoundError if user not found for getMe", async () => {
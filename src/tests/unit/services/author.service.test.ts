@@ -11,6 +11,7 @@ import {
   ForbiddenError,
   NotFoundError,
 } from "@/errors/error-types";
+import type { Actor } from "@/policies/access.policy";
 import AuthorService from "@/services/author.service";
 import type { Author } from "@prisma/client";
 import { Prisma } from "@prisma/client";
@@ -21,15 +22,17 @@ vi.mock("@/dao/author.dao");
 const mockAuthorId = "mockAuthorId123";
 const mockUserId = "mockUserId456";
 const anotherMockUserId = "anotherUserId789";
+const mockUser: Actor = { id: mockUserId, role: "user" };
+const mockEditor: Actor = { id: "mockEditorIdDEF", role: "editor" };
 
 const mockAuthorFromDaoBase: Author & { isFavorite?: boolean } = {
   id: mockAuthorId,
   name: "George Orwell",
   bio: "English novelist, essayist, journalist and critic.",
   createdById: mockUserId,
-  favoritedByIds: [],
   createdAt: new Date(),
   updatedAt: new Date(),
+  favoriteCount: 0,
   isFavorite: false,
 };
 
@@ -59,7 +62,7 @@ describe("AuthorService", () => {
         createdById: mockUserId,
         createdAt: new Date(),
         updatedAt: new Date(),
-        favoritedByIds: [],
+        favoriteCount: 0,
       };
       vi.mocked(AuthorDao.createAuthor).mockResolvedValue(plainAuthor);
       const result = await AuthorService.createAuthor(createDto, mockUserId);
@@ -184,7 +187,7 @@ describe("AuthorService", () => {
       },
     ];
 
-    it("should call DAO.findAllAuthors with both filterByCreatedById and requestingUserIdForFavoriteStatus", async () => {
+    it("should list every author with the user's favorite status", async () => {
       vi.mocked(AuthorDao.findAllAuthors).mockResolvedValue({
         authors: mockAuthorsListFromDao,
         totalItems: 2,
@@ -192,6 +195,26 @@ describe("AuthorService", () => {
       const query: PaginationQueryDto = { page: 1, limit: 10 };
       await AuthorService.getAllAuthors(query, mockUserId);
 
+      expect(AuthorDao.findAllAuthors).toHaveBeenCalledWith(
+        1,
+        10,
+        undefined,
+        undefined,
+        undefined,
+        mockUserId
+      );
+    });
+
+    it("should call DAO.findAllAuthors with both filterByCreatedById and requestingUserIdForFavoriteStatus when mine is set", async () => {
+      vi.mocked(AuthorDao.findAllAuthors).mockResolvedValue({
+        authors: mockAuthorsListFromDao,
+        totalItems: 2,
+      });
+      await AuthorService.getAllAuthors(
+        { page: 1, limit: 10, mine: true },
+        mockUserId
+      );
+
       expect(AuthorDao.findAllAuthors).toHaveBeenCalledWith(
         1,
         10,
@@ -264,7 +287,7 @@ describe("AuthorService", () => {
       const result = await AuthorService.updateAuthor(
         mockAuthorId,
         updateDto,
-        mockUserId
+        mockUser
       );
 
       expect(AuthorDao.findAuthorById).toHaveBeenCalledWith(mockAuthorId);
@@ -285,7 +308,7 @@ describe("AuthorService", () => {
       );
 
       await expect(
-        AuthorService.updateAuthor(mockAuthorId, updateDto, mockUserId)
+        AuthorService.updateAuthor(mockAuthorId, updateDto, mockUser)
       ).rejects.toThrowError(
         new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION)
       );
@@ -293,10 +316,25 @@ describe("AuthorService", () => {
       expect(AuthorDao.updateAuthor).not.toHaveBeenCalled();
     });
 
+    it("should let an editor update an author created by another user", async () => {
+      vi.mocked(AuthorDao.findAuthorById).mockResolvedValue({
+        ...authorForUpdateOwnershipCheck,
+        createdById: anotherMockUserId,
+      });
+      vi.mocked(AuthorDao.updateAuthor).mockResolvedValue(updatedAuthorFromDao);
+
+      await AuthorService.updateAuthor(mockAuthorId, updateDto, mockEditor);
+
+      expect(AuthorDao.updateAuthor).toHaveBeenCalledWith(
+        mockAuthorId,
+        updateDto
+      );
+    });
+
     it("should throw NotFoundError if author to update not found", async () => {
       vi.mocked(AuthorDao.findAuthorById).mockResolvedValue(null);
       await expect(
-        AuthorService.updateAuthor("nonExistentId", updateDto, mockUserId)
+        AuthorService.updateAuthor("nonExistentId", updateDto, mockUser)
       ).rejects.toThrowError(new NotFoundError(ErrorMessages.AUTHOR_NOT_FOUND));
     });
   });
@@ -315,7 +353,7 @@ describe("AuthorService", () => {
       );
       vi.mocked(AuthorDao.deleteAuthor).mockResolvedValue(deletedAuthorFromDao);
 
-      await AuthorService.deleteAuthor(mockAuthorId, mockUserId);
+      await AuthorService.deleteAuthor(mockAuthorId, mockUser);
 
       expect(AuthorDao.findAuthorById).toHaveBeenCalledWith(mockAuthorId);
       expect(AuthorDao.deleteAuthor).toHaveBeenCalledWith(mockAuthorId);
@@ -331,7 +369,7 @@ describe("AuthorService", () => {
       );
 
       await expect(
-        AuthorService.deleteAuthor(mockAuthorId, mockUserId)
+        AuthorService.deleteAuthor(mockAuthorId, mockUser)
       ).rejects.toThrowError(
         new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION)
       );
@@ -339,6 +377,21 @@ describe("AuthorService", () => {
       expect(AuthorDao.deleteAuthor).not.toHaveBeenCalled();
     });
 
+    it("should let an admin delete an author created by another user", async () => {
+      vi.mocked(AuthorDao.findAuthorById).mockResolvedValue({
+        ...authorForDeleteOwnershipCheck,
+        createdById: anotherMockUserId,
+      });
+      vi.mocked(AuthorDao.deleteAuthor).mockResolvedValue(deletedAuthorFromDao);
+
+      await AuthorService.deleteAuthor(mockAuthorId, {
+        id: "mockAdminId",
+        role: "admin",
+      });
+
+      expect(AuthorDao.deleteAuthor).toHaveBeenCalledWith(mockAuthorId);
+    });
+
     it("should rethrow Prisma conflict error during delete for referential integrity", async () => {
       vi.mocked(AuthorDao.findAuthorById).mockResolvedValue(
         authorForDeleteOwnershipCheck
@@ -354,7 +407,7 @@ describe("AuthorService", () => {
       vi.mocked(AuthorDao.deleteAuthor).mockRejectedValue(prismaError);
 
       await expect(
-        AuthorService.deleteAuthor(mockAuthorId, mockUserId)
+        AuthorService.deleteAuthor(mockAuthorId, mockUser)
       ).rejects.toThrowError(
         new ConflictError(ErrorMessages.CANNOT_DELETE_AUTHOR_WITH_BOOKS)
       );
@@ -8,6 +8,7 @@ import {
   ForbiddenError,
   NotFoundError,
 } from "@/errors/error-types";
+import type { Actor } from "@/policies/access.policy";
 import BookService from "@/services/book.service";
 import type { Author, Book, BookAuthor } from "@prisma/client";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
@@ -19,6 +20,8 @@ const mockBookId = "mockBookId123";
 const mockAuthorId = "mockAuthorId456";
 const mockUserId = "mockUserId789";
 const anotherMockUserId = "anotherUserIdABC";
+const mockUser: Actor = { id: mockUserId, role: "user" };
+const mockEditor: Actor = { id: "mockEditorIdDEF", role: "editor" };
 
 type SlimAuthor = { id: string; name: string };
 type DaoBookAuthor = BookAuthor & { author: SlimAuthor };
@@ -34,9 +37,9 @@ const mockAuthorPrisma: Author = {
   name: "Test Author",
   bio: "A test author bio.",
   createdById: mockUserId,
-  favoritedByIds: [],
   createdAt: new Date("2023-01-01T10:00:00.000Z"),
   updatedAt: new Date("2023-01-01T11:00:00.000Z"),
+  favoriteCount: 0,
 };
 
 const mockBookFromDaoBase: ServiceBookOutput = {
@@ -45,9 +48,11 @@ const mockBookFromDaoBase: ServiceBookOutput = {
   isbn: "1234567890",
   publishedDate: new Date("2023-01-01T00:00:00.000Z"),
   createdById: mockUserId,
-  favoritedByIds: [],
   createdAt: new Date("2023-01-02T10:00:00.000Z"),
   updatedAt: new Date("2023-01-02T11:00:00.000Z"),
+  favoriteCount: 0,
+  averageRating: null,
+  ratingCount: 0,
   authors: [
     {
       id: `ba-join-${mockBookId}-${mockAuthorId}`,
@@ -94,9 +99,11 @@ describe("BookService", () => {
         isbn: createDto.isbn ?? null,
         publishedDate: createDto.publishedDate ?? null,
         createdById: mockUserId,
-        favoritedByIds: [],
         createdAt: expect.any(Date) as Date,
         updatedAt: expect.any(Date) as Date,
+        favoriteCount: 0,
+        averageRating: null,
+        ratingCount: 0,
         authors: createDto.authorIds.map((authId) => ({
           id: `ba-join-${newBookId}-${authId}`,
           bookId: newBookId,
@@ -139,9 +146,11 @@ describe("BookService", () => {
         isbn: createDto.isbn!,
         publishedDate: new Date(),
         createdById: anotherMockUserId,
-        favoritedByIds: [],
         createdAt: new Date(),
         updatedAt: new Date(),
+        favoriteCount: 0,
+        averageRating: null,
+        ratingCount: 0,
       };
       vi.mocked(BookDao.findBookByIsbn).mockResolvedValue(existingBook);
       await expect(
@@ -163,9 +172,11 @@ describe("BookService", () => {
         isbn: null,
         publishedDate: dtoWithoutIsbn.publishedDate ?? null,
         createdById: mockUserId,
-        favoritedByIds: [],
         createdAt: expect.any(Date) as Date,
         updatedAt: expect.any(Date) as Date,
+        favoriteCount: 0,
+        averageRating: null,
+        ratingCount: 0,
         authors: dtoWithoutIsbn.authorIds.map((authId) => ({
           id: `ba-join-${newBookId}-${authId}`,
           bookId: newBookId,
@@ -240,13 +251,30 @@ describe("BookService", () => {
         10,
         undefined,
         undefined,
-        mockUserId,
+        undefined,
         undefined,
         mockUserId
       );
       expect(result.data).toEqual(mockServiceOutputBooks);
       expect(result.meta.totalItems).toBe(20);
     });
+
+    it("should only list the user's own books when mine is set", async () => {
+      vi.mocked(BookDao.findAllBooks).mockResolvedValue(paginatedDaoResult);
+      await BookService.getAllBooks(
+        { page: 1, limit: 10, mine: true },
+        mockUserId
+      );
+      expect(BookDao.findAllBooks).toHaveBeenCalledWith(
+        1,
+        10,
+        undefined,
+        undefined,
+        mockUserId,
+        undefined,
+        mockUserId
+      );
+    });
   });
 
   describe("updateBook", () => {
@@ -262,9 +290,11 @@ describe("BookService", () => {
       isbn: "1234567890",
       publishedDate: new Date("2023-01-01T00:00:00.000Z"),
       createdById: mockUserId,
-      favoritedByIds: [],
       createdAt: new Date("2023-01-02T10:00:00.000Z"),
       updatedAt: new Date("2023-01-02T11:00:00.000Z"),
+      favoriteCount: 0,
+      averageRating: null,
+      ratingCount: 0,
       authors: [
         {
           id: `ba-join-orig-${mockBookId}-${mockAuthorId}`,
@@ -283,9 +313,11 @@ describe("BookService", () => {
       isbn: bookFromDbBeforeUpdate.isbn,
       publishedDate: updateDto.publishedDate ?? null,
       createdById: mockUserId,
-      favoritedByIds: bookFromDbBeforeUpdate.favoritedByIds,
       createdAt: bookFromDbBeforeUpdate.createdAt,
       updatedAt: expect.any(Date) as Date,
+      favoriteCount: 0,
+      averageRating: null,
+      ratingCount: 0,
       authors: updateDto.authorIds!.map((authId) => ({
         id: `ba-join-updated-${mockBookId}-${authId}`,
         bookId: mockBookId,
@@ -303,7 +335,7 @@ describe("BookService", () => {
       const result = await BookService.updateBook(
         mockBookId,
         updateDto,
-        mockUserId
+        mockUser
       );
 
       expect(result!.title).toBe(updateDto.title);
@@ -318,16 +350,29 @@ describe("BookService", () => {
       };
       vi.mocked(BookDao.findBookById).mockResolvedValue(bookOwnedByAnother);
       await expect(
-        BookService.updateBook(mockBookId, updateDto, mockUserId)
+        BookService.updateBook(mockBookId, updateDto, mockUser)
       ).rejects.toThrowError(
         new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION)
       );
     });
 
+    it("should let an editor update a book created by another user", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue({
+        ...bookFromDbBeforeUpdate,
+        createdById: anotherMockUserId,
+      });
+      vi.mocked(AuthorDao.findAuthorById).mockResolvedValue(mockAuthorPrisma);
+      vi.mocked(BookDao.updateBook).mockResolvedValue(updatedBookFromDaoMock);
+
+      await BookService.updateBook(mockBookId, updateDto, mockEditor);
+
+      expect(BookDao.updateBook).toHaveBeenCalledWith(mockBookId, updateDto);
+    });
+
     it("should throw NotFoundError if book to update not found", async () => {
       vi.mocked(BookDao.findBookById).mockResolvedValue(null);
       await expect(
-        BookService.updateBook("nonExistentId", updateDto, mockUserId)
+        BookService.updateBook("nonExistentId", updateDto, mockUser)
       ).rejects.toThrowError(new NotFoundError(ErrorMessages.BOOK_NOT_FOUND));
     });
 
@@ -340,7 +385,7 @@ describe("BookService", () => {
       vi.mocked(BookDao.findBookById).mockResolvedValue(bookFromDbBeforeUpdate);
       vi.mocked(AuthorDao.findAuthorById).mockResolvedValueOnce(null);
       await expect(
-        BookService.updateBook(mockBookId, dtoWithInvalidAuthor, mockUserId)
+        BookService.updateBook(mockBookId, dtoWithInvalidAuthor, mockUser)
       ).rejects.toThrowError(
         new NotFoundError(`Author with ID ${invalidAuthorId} not found.`)
       );
@@ -355,14 +400,16 @@ describe("BookService", () => {
         isbn: newIsbn,
         publishedDate: new Date(),
         createdById: anotherMockUserId,
-        favoritedByIds: [],
         createdAt: new Date(),
         updatedAt: new Date(),
+        favoriteCount: 0,
+        averageRating: null,
+        ratingCount: 0,
       };
       vi.mocked(BookDao.findBookById).mockResolvedValue(bookFromDbBeforeUpdate);
       vi.mocked(BookDao.findBookByIsbn).mockResolvedValue(existingBookWithIsbn);
       await expect(
-        BookService.updateBook(mockBookId, dtoWithNewIsbn, mockUserId)
+        BookService.updateBook(mockBookId, dtoWithNewIsbn, mockUser)
       ).rejects.toThrowError(
         new ConflictError(ErrorMessages.ISBN_ALREADY_EXISTS)
       );
@@ -383,7 +430,7 @@ describe("BookService", () => {
       const result = await BookService.updateBook(
         mockBookId,
         dtoWithSameIsbn,
-        mockUserId
+        mockUser
       );
       expect(BookDao.findBookByIsbn).not.toHaveBeenCalledWith(
         dtoWithSameIsbn.isbn
@@ -399,9 +446,11 @@ describe("BookService", () => {
         isbn: bookFromDbBeforeUpdate.isbn,
         publishedDate: bookFromDbBeforeUpdate.publishedDate,
         createdById: bookFromDbBeforeUpdate.createdById,
-        favoritedByIds: bookFromDbBeforeUpdate.favoritedByIds,
         createdAt: bookFromDbBeforeUpdate.createdAt,
         updatedAt: expect.any(Date) as Date,
+        favoriteCount: 0,
+        averageRating: null,
+        ratingCount: 0,
         authors: bookFromDbBeforeUpdate.authors,
       };
       vi.mocked(BookDao.findBookById).mockResolvedValue(bookFromDbBeforeUpdate);
@@ -412,7 +461,7 @@ describe("BookService", () => {
       const result = await BookService.updateBook(
         mockBookId,
         dtoWithoutAuthorIds,
-        mockUserId
+        mockUser
       );
 
       expect(AuthorDao.findAuthorById).not.toHaveBeenCalled();
@@ -428,9 +477,11 @@ describe("BookService", () => {
       isbn: mockBookFromDaoBase.isbn,
       publishedDate: mockBookFromDaoBase.publishedDate,
       createdById: mockUserId,
-      favoritedByIds: mockBookFromDaoBase.favoritedByIds,
       createdAt: mockBookFromDaoBase.createdAt,
       updatedAt: mockBookFromDaoBase.updatedAt,
+      favoriteCount: 0,
+      averageRating: null,
+      ratingCount: 0,
       authors: mockBookFromDaoBase.authors,
       isFavorite: undefined,
     };
@@ -445,7 +496,7 @@ describe("BookService", () => {
       vi.mocked(BookDao.deleteBook).mockResolvedValue(
         deletedBookDaoResponseMock
       );
-      await BookService.deleteBook(mockBookId, mockUserId);
+      await BookService.deleteBook(mockBookId, mockUser);
       expect(BookDao.deleteBook).toHaveBeenCalledWith(mockBookId);
     });
 
@@ -456,10 +507,22 @@ describe("BookService", () => {
       };
       vi.mocked(BookDao.findBookById).mockResolvedValue(bookOwnedByAnother);
       await expect(
-        BookService.deleteBook(mockBookId, mockUserId)
+        BookService.deleteBook(mockBookId, mockUser)
       ).rejects.toThrowError(
         new ForbiddenError(ErrorMessages.UNAUTHORIZED_ACTION)
       );
     });
+
+    it("should let an editor delete a book created by another user", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue({
+        ...bookToDeleteDbState,
+        createdById: anotherMockUserId,
+      });
+      vi.mocked(BookDao.deleteBook).mockResolvedValue(
+        deletedBookDaoResponseMock
+      );
+      await BookService.deleteBook(mockBookId, mockEditor);
+      expect(BookDao.deleteBook).toHaveBeenCalledWith(mockBookId);
+    });
   });
 });
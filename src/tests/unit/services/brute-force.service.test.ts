@@ -0,0 +1,161 @@
+import { config } from "@/config";
+import { TooManyRequestsError } from "@/errors/error-types";
+import BruteForceService from "@/services/brute-force.service";
+import { attemptStore } from "@/throttle";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const email = "victim@example.com";
+const ip = "203.0.113.7";
+
+const originalBruteForceConfig = { ...config.bruteForce };
+
+describe("BruteForceService", () => {
+  let waitSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    Object.assign(config.bruteForce, {
+      windowMinutes: 15,
+      lockoutMinutes: 15,
+      maxLoginFailuresPerAccount: 3,
+      maxLoginFailuresPerIp: 5,
+      delayAfterFailures: 1,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      maxRegistrationsPerIp: 2,
+      maxPasswordResetsPerAccount: 2,
+      maxPasswordResetsPerIp: 5,
+      maxMagicLinksPerAccount: 2,
+      maxMagicLinksPerIp: 5,
+      maxVerificationResendsPerAccount: 2,
+      maxVerificationResendsPerIp: 5,
+    });
+    waitSpy = vi
+      .spyOn(BruteForceService as any, "wait")
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    Object.assign(config.bruteForce, originalBruteForceConfig);
+    vi.restoreAllMocks();
+  });
+
+  describe("getLoginDelayMs", () => {
+    it("should double the delay per failure up to the maximum", () => {
+      expect(BruteForceService.getLoginDelayMs(0)).toBe(0);
+      expect(BruteForceService.getLoginDelayMs(1)).toBe(100);
+      expect(BruteForceService.getLoginDelayMs(2)).toBe(200);
+      expect(BruteForceService.getLoginDelayMs(3)).toBe(300);
+      expect(BruteForceService.getLoginDelayMs(10)).toBe(300);
+    });
+  });
+
+  describe("login", () => {
+    it("should not delay an account without failures", async () => {
+      await BruteForceService.guardLogin(email, ip);
+
+      expect(waitSpy).not.toHaveBeenCalled();
+    });
+
+    it("should delay an account that keeps failing", async () => {
+      await BruteForceService.recordLoginFailure(email, ip);
+      await BruteForceService.recordLoginFailure(email, ip);
+
+      await BruteForceService.guardLogin(email, ip);
+
+      expect(waitSpy).toHaveBeenCalledWith(200);
+    });
+
+    it("should lock the account once the limit is reached and report it once", async () => {
+      expect(await BruteForceService.recordLoginFailure(email, ip)).toBeNull();
+      expect(await BruteForceService.recordLoginFailure(email, ip)).toBeNull();
+      const lockedUntil = await BruteForceService.recordLoginFailure(email, ip);
+
+      expect(lockedUntil).toBeInstanceOf(Date);
+      const error = await BruteForceService.guardLogin(
+        email.toUpperCase(),
+        "198.51.100.1"
+      ).catch((e) => e);
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.statusCode).toBe(429);
+      expect(error.retryAfterSeconds).toBe(15 * 60);
+    });
+
+    it("should lock an IP that fails across many accounts", async () => {
+      for (let i = 0; i < 5; i++) {
+        await BruteForceService.recordLoginFailure(`user${i}@example.com`, ip);
+      }
+
+      await expect(
+        BruteForceService.guardLogin("someone-else@example.com", ip)
+      ).rejects.toThrowError(TooManyRequestsError);
+      await expect(
+        BruteForceService.guardLogin("someone-else@example.com", "198.51.100.1")
+      ).resolves.toBeUndefined();
+    });
+
+    it("should forget account failures after clearLoginFailures", async () => {
+      await BruteForceService.recordLoginFailure(email, ip);
+      await BruteForceService.recordLoginFailure(email, ip);
+
+      await BruteForceService.clearLoginFailures(email);
+
+      expect(await attemptStore.getCount(`login:account:${email}`)).toBe(0);
+      expect(await attemptStore.getCount(`login:ip:${ip}`)).toBe(2);
+    });
+  });
+
+  describe("guardRegistration", () => {
+    it("should reject registrations from an IP over the limit", async () => {
+      await BruteForceService.guardRegistration(ip);
+      await BruteForceService.guardRegistration(ip);
+
+      await expect(
+        BruteForceService.guardRegistration(ip)
+      ).rejects.toThrowError(TooManyRequestsError);
+    });
+  });
+
+  describe("guardPasswordReset", () => {
+    it("should reject reset requests for an account over the limit", async () => {
+      await BruteForceService.guardPasswordReset(email, ip);
+      await BruteForceService.guardPasswordReset(email, "198.51.100.1");
+
+      await expect(
+        BruteForceService.guardPasswordReset(email, "192.0.2.1")
+      ).rejects.toThrowError(TooManyRequestsError);
+      await expect(
+        BruteForceService.guardPasswordReset("other@example.com", ip)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("guardMagicLink", () => {
+    it("should count sign-in link requests separately from password resets", async () => {
+      await BruteForceService.guardPasswordReset(email, ip);
+      await BruteForceService.guardPasswordReset(email, ip);
+
+      await expect(
+        BruteForceService.guardMagicLink(email, ip)
+      ).resolves.toBeUndefined();
+      await BruteForceService.guardMagicLink(email, "198.51.100.1");
+
+      await expect(
+        BruteForceService.guardMagicLink(email, "192.0.2.1")
+      ).rejects.toThrowError(TooManyRequestsError);
+    });
+  });
+
+  describe("guardVerificationResend", () => {
+    it("should reject resend requests for an account over the limit", async () => {
+      await BruteForceService.guardVerificationResend("user-id", ip);
+      await BruteForceService.guardVerificationResend("user-id", ip);
+
+      await expect(
+        BruteForceService.guardVerificationResend("user-id", "192.0.2.1")
+      ).rejects.toThrowError(TooManyRequestsError);
+      await expect(
+        BruteForceService.guardVerificationResend("other-user-id", "192.0.2.1")
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { ErrorMessages } from "@/constants";
+import BookDao from "@/dao/book.dao";
+import CollectionDao from "@/dao/collection.dao";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import CollectionService from "@/services/collection.service";
+import type { Book, Collection, CollectionItem } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/book.dao");
+vi.mock("@/dao/collection.dao");
+
+const mockUserId = "user-id-for-testing";
+
+const mockCollection = (
+  overrides: Partial<Collection> = {}
+): Collection & { _count: { items: number } } => ({
+  id: "collection-1",
+  name: "Summer 2026",
+  description: null,
+  visibility: "PRIVATE",
+  createdAt: new Date("2024-01-01T10:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T10:00:00.000Z"),
+  userId: mockUserId,
+  _count: { items: 2 },
+  ...overrides,
+});
+
+const mockBook = (id: string): Book & { authors: any[] } => ({
+  id,
+  title: `Book ${id}`,
+  isbn: null,
+  publishedDate: null,
+  createdAt: new Date("2023-12-01T10:00:00.000Z"),
+  updatedAt: new Date("2023-12-01T10:00:00.000Z"),
+  favoriteCount: 0,
+  averageRating: null,
+  ratingCount: 0,
+  createdById: "someone-else",
+  authors: [],
+});
+
+const mockItem = (
+  bookId: string,
+  position: number
+): CollectionItem & { book: Book & { authors: any[] } } => ({
+  id: `item-${bookId}`,
+  note: null,
+  position,
+  addedAt: new Date("2024-01-02T10:00:00.000Z"),
+  collectionId: "collection-1",
+  bookId,
+  book: mockBook(bookId),
+});
+
+describe("CollectionService", () => {
+  beforeEach(() => {
+    vi.mocked(BookDao.findBookById).mockReset();
+    vi.mocked(CollectionDao.findCollectionById).mockReset();
+    vi.mocked(CollectionDao.findAllCollections).mockReset();
+    vi.mocked(CollectionDao.findCollectionItem).mockReset();
+    vi.mocked(CollectionDao.findCollectionItems).mockReset();
+    vi.mocked(CollectionDao.addCollectionItem).mockReset();
+    vi.mocked(CollectionDao.updateCollectionItemNote).mockReset();
+    vi.mocked(CollectionDao.moveCollectionItem).mockReset();
+    vi.mocked(CollectionDao.deleteCollectionItem).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("getCollection", () => {
+    it("should return the collection with its item count and without the owner id", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+
+      const result = await CollectionService.getCollection(
+        mockUserId,
+        "collection-1"
+      );
+
+      expect(result).toMatchObject({ id: "collection-1", itemCount: 2 });
+      expect(result).not.toHaveProperty("userId");
+      expect(result).not.toHaveProperty("_count");
+    });
+
+    it("should throw NotFoundError for a collection of another user", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection({ userId: "someone-else", visibility: "PUBLIC" })
+      );
+
+      await expect(
+        CollectionService.getCollection(mockUserId, "collection-1")
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.COLLECTION_NOT_FOUND)
+      );
+    });
+  });
+
+  describe("getSharedCollectionItems", () => {
+    it("should list the items of an unlisted collection", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection({ userId: "someone-else", visibility: "UNLISTED" })
+      );
+      vi.mocked(CollectionDao.findCollectionItems).mockResolvedValue({
+        items: [mockItem("book-1", 0)],
+        totalItems: 3,
+      });
+
+      const result = await CollectionService.getSharedCollectionItems(
+        "collection-1",
+        { page: 1, limit: 1 }
+      );
+
+      expect(CollectionDao.findCollectionItems).toHaveBeenCalledWith(
+        "collection-1",
+        1,
+        1
+      );
+      expect(result.data).toEqual([
+        {
+          book: expect.objectContaining({ id: "book-1" }),
+          note: null,
+          position: 0,
+          addedAt: expect.any(Date),
+        },
+      ]);
+      expect(result.meta).toMatchObject({ totalItems: 3, totalPages: 3 });
+    });
+
+    it("should throw NotFoundError for a private collection", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+
+      await expect(
+        CollectionService.getSharedCollectionItems("collection-1", {
+          page: 1,
+          limit: 10,
+        })
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.COLLECTION_NOT_FOUND)
+      );
+      expect(CollectionDao.findCollectionItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPublicCollections", () => {
+    it("should only list public collections", async () => {
+      vi.mocked(CollectionDao.findAllCollections).mockResolvedValue({
+        collections: [],
+        totalItems: 0,
+      });
+
+      await CollectionService.getPublicCollections({
+        page: 1,
+        limit: 10,
+        search: "summer",
+      });
+
+      expect(CollectionDao.findAllCollections).toHaveBeenCalledWith(
+        1,
+        10,
+        undefined,
+        "summer",
+        undefined,
+        "PUBLIC"
+      );
+    });
+  });
+
+  describe("addCollectionItem", () => {
+    it("should add a book created by someone else", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(CollectionDao.findCollectionItem).mockResolvedValue(null);
+      vi.mocked(CollectionDao.addCollectionItem).mockResolvedValue(
+        mockItem("book-1", 2)
+      );
+
+      const result = await CollectionService.addCollectionItem(
+        mockUserId,
+        "collection-1",
+        { bookId: "book-1", note: "First" }
+      );
+
+      expect(CollectionDao.addCollectionItem).toHaveBeenCalledWith(
+        "collection-1",
+        { bookId: "book-1", note: "First" }
+      );
+      expect(result.position).toBe(2);
+    });
+
+    it("should throw ConflictError if the book is already in the collection", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(CollectionDao.findCollectionItem).mockResolvedValue(
+        mockItem("book-1", 0)
+      );
+
+      await expect(
+        CollectionService.addCollectionItem(mockUserId, "collection-1", {
+          bookId: "book-1",
+        })
+      ).rejects.toThrowError(
+        new ConflictError(ErrorMessages.BOOK_ALREADY_IN_COLLECTION)
+      );
+      expect(CollectionDao.addCollectionItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateCollectionItem", () => {
+    it("should update the note and move the item", async () => {
+      const item = mockItem("book-1", 2);
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+      vi.mocked(CollectionDao.findCollectionItem).mockResolvedValue(item);
+      vi.mocked(CollectionDao.updateCollectionItemNote).mockResolvedValue({
+        ...item,
+        note: "Reread",
+      });
+      vi.mocked(CollectionDao.moveCollectionItem).mockResolvedValue({
+        ...item,
+        note: "Reread",
+        position: 0,
+      });
+
+      const result = await CollectionService.updateCollectionItem(
+        mockUserId,
+        "collection-1",
+        "book-1",
+        { note: "Reread", position: 0 }
+      );
+
+      expect(CollectionDao.moveCollectionItem).toHaveBeenCalledWith(
+        "collection-1",
+        item.id,
+        0
+      );
+      expect(result).toMatchObject({ note: "Reread", position: 0 });
+    });
+  });
+
+  describe("removeCollectionItem", () => {
+    it("should throw NotFoundError if the book is not in the collection", async () => {
+      vi.mocked(CollectionDao.findCollectionById).mockResolvedValue(
+        mockCollection()
+      );
+      vi.mocked(CollectionDao.deleteCollectionItem).mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        CollectionService.removeCollectionItem(
+          mockUserId,
+          "collection-1",
+          "book-1"
+        )
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.BOOK_NOT_IN_COLLECTION)
+      );
+    });
+  });
+});
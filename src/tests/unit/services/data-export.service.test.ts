@@ -0,0 +1,234 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import ApiKeyDao from "@/dao/api-key.dao";
+import AuditLogDao from "@/dao/audit-log.dao";
+import AuthorDao from "@/dao/author.dao";
+import BookDao from "@/dao/book.dao";
+import CollectionDao from "@/dao/collection.dao";
+import FavoriteDao from "@/dao/favorite.dao";
+import OidcDao from "@/dao/oidc.dao";
+import ReviewDao from "@/dao/review.dao";
+import SessionDao from "@/dao/session.dao";
+import UserDao from "@/dao/user.dao";
+import { NotFoundError, TooManyRequestsError } from "@/errors/error-types";
+import DataExportService from "@/services/data-export.service";
+import type { ApiKey, Book, Favorite, Session, User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/user.dao");
+vi.mock("@/dao/book.dao");
+vi.mock("@/dao/author.dao");
+vi.mock("@/dao/favorite.dao");
+vi.mock("@/dao/collection.dao");
+vi.mock("@/dao/review.dao");
+vi.mock("@/dao/session.dao");
+vi.mock("@/dao/api-key.dao");
+vi.mock("@/dao/oidc.dao");
+vi.mock("@/dao/audit-log.dao");
+
+const mockUser: User = {
+  id: "user-id-for-testing",
+  email: "export@example.com",
+  password: "stored-password-hash",
+  name: "Export User",
+  role: "user",
+  tokenVersion: 0,
+  emailVerifiedAt: null,
+  suspendedAt: null,
+  suspensionReason: null,
+  totpSecret: "JBSWY3DPEHPK3PXP",
+  totpEnabledAt: new Date(),
+  totpLastUsedStep: null,
+  totpRecoveryCodes: ["hashed-recovery-code"],
+  createdAt: new Date("2023-01-01T10:00:00.000Z"),
+  updatedAt: new Date("2023-01-01T11:00:00.000Z"),
+};
+
+const mockFavorite: Favorite = {
+  id: "favorite-id",
+  targetType: "BOOK",
+  targetId: "book-fav-1",
+  note: "Read this summer",
+  position: 0,
+  createdAt: new Date("2023-02-01T10:00:00.000Z"),
+  userId: "user-id-for-testing",
+};
+
+const mockBook = (id: string) =>
+  ({ id, title: `Book ${id}`, authors: [] }) as unknown as Book & {
+    authors: any[];
+  };
+
+const readExport = async (content: AsyncIterable<string>) => {
+  let json = "";
+  for await (const chunk of content) {
+    json += chunk;
+  }
+  return JSON.parse(json);
+};
+
+describe("DataExportService", () => {
+  const originalMaxPerWindow = config.dataExport.maxPerWindow;
+
+  beforeEach(() => {
+    vi.mocked(UserDao.findUserById).mockReset();
+    vi.mocked(UserDao.findUserById).mockResolvedValue(mockUser);
+    vi.mocked(BookDao.findAllBooks).mockReset();
+    vi.mocked(BookDao.findAllBooks).mockResolvedValue({
+      books: [],
+      totalItems: 0,
+    });
+    vi.mocked(BookDao.findBooksByIds).mockReset();
+    vi.mocked(BookDao.findBooksByIds).mockResolvedValue([]);
+    vi.mocked(AuthorDao.findAllAuthors).mockReset();
+    vi.mocked(AuthorDao.findAllAuthors).mockResolvedValue({
+      authors: [],
+      totalItems: 0,
+    });
+    vi.mocked(AuthorDao.findAuthorsByIds).mockReset();
+    vi.mocked(FavoriteDao.findFavoritesByUser).mockReset();
+    vi.mocked(FavoriteDao.findFavoritesByUser).mockResolvedValue([]);
+    vi.mocked(FavoriteDao.findAllFavoritesByUser).mockReset();
+    vi.mocked(FavoriteDao.findAllFavoritesByUser).mockResolvedValue([]);
+    vi.mocked(CollectionDao.findCollectionsWithItemsByUser).mockReset();
+    vi.mocked(CollectionDao.findCollectionsWithItemsByUser).mockResolvedValue(
+      []
+    );
+    vi.mocked(ReviewDao.findReviewsByUser).mockReset();
+    vi.mocked(ReviewDao.findReviewsByUser).mockResolvedValue([]);
+    vi.mocked(SessionDao.findSessionsByUser).mockReset();
+    vi.mocked(SessionDao.findSessionsByUser).mockResolvedValue([]);
+    vi.mocked(ApiKeyDao.findApiKeysByUser).mockReset();
+    vi.mocked(ApiKeyDao.findApiKeysByUser).mockResolvedValue([]);
+    vi.mocked(OidcDao.findIdentitiesByUser).mockReset();
+    vi.mocked(OidcDao.findIdentitiesByUser).mockResolvedValue([]);
+    vi.mocked(AuditLogDao.findAuditLogsForUser).mockReset();
+    vi.mocked(AuditLogDao.findAuditLogsForUser).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    (config.dataExport as any).maxPerWindow = originalMaxPerWindow;
+    vi.restoreAllMocks();
+  });
+
+  it("should export the profile without the password hash or second-factor secrets", async () => {
+    const { fileName, content } = await DataExportService.createUserExport(
+      mockUser.id
+    );
+    const result = await readExport(content);
+
+    expect(fileName).toMatch(/^beehive-export-user-id-for-testing-.+\.json$/);
+    expect(result.profile).toMatchObject({
+      id: mockUser.id,
+      email: mockUser.email,
+    });
+    expect(result.profile).not.toHaveProperty("password");
+    expect(result.profile).not.toHaveProperty("totpSecret");
+    expect(result.profile).not.toHaveProperty("totpRecoveryCodes");
+    expect(Object.keys(result)).toEqual([
+      "exportedAt",
+      "profile",
+      "books",
+      "authors",
+      "favoriteBooks",
+      "favoriteAuthors",
+      "favorites",
+      "collections",
+      "reviews",
+      "sessions",
+      "apiKeys",
+      "identities",
+      "auditLog",
+    ]);
+  });
+
+  it("should page through created books until a short page comes back", async () => {
+    const fullPage = Array.from({ length: 100 }, (_, index) =>
+      mockBook(`book-${index}`)
+    );
+    vi.mocked(BookDao.findAllBooks)
+      .mockResolvedValueOnce({ books: fullPage, totalItems: 101 })
+      .mockResolvedValueOnce({
+        books: [mockBook("book-100")],
+        totalItems: 101,
+      });
+
+    const { content } = await DataExportService.createUserExport(mockUser.id);
+    const result = await readExport(content);
+
+    expect(result.books).toHaveLength(101);
+    expect(BookDao.findAllBooks).toHaveBeenCalledTimes(2);
+    expect(BookDao.findAllBooks).toHaveBeenLastCalledWith(
+      2,
+      100,
+      "id:asc",
+      undefined,
+      mockUser.id
+    );
+  });
+
+  it("should include favorites, sessions and API keys without internal secrets", async () => {
+    vi.mocked(FavoriteDao.findFavoritesByUser).mockImplementation(
+      async (_userId, targetType) =>
+        targetType === "BOOK" ? [mockFavorite] : []
+    );
+    vi.mocked(FavoriteDao.findAllFavoritesByUser).mockResolvedValue([
+      mockFavorite,
+    ]);
+    vi.mocked(BookDao.findBooksByIds).mockResolvedValue([
+      mockBook("book-fav-1"),
+    ]);
+    vi.mocked(SessionDao.findSessionsByUser).mockResolvedValue([
+      { id: "session-id", familyId: "refresh-family" } as Session,
+    ]);
+    vi.mocked(ApiKeyDao.findApiKeysByUser).mockResolvedValue([
+      { id: "api-key-id", keyHash: "stored-key-hash" } as ApiKey,
+    ]);
+
+    const { content } = await DataExportService.createUserExport(mockUser.id);
+    const result = await readExport(content);
+
+    expect(BookDao.findBooksByIds).toHaveBeenCalledWith(["book-fav-1"]);
+    expect(result.favoriteBooks).toEqual([
+      expect.objectContaining({ id: "book-fav-1" }),
+    ]);
+    expect(result.favoriteAuthors).toEqual([]);
+    expect(result.favorites).toEqual([
+      {
+        id: mockFavorite.id,
+        targetType: "BOOK",
+        targetId: "book-fav-1",
+        note: "Read this summer",
+        position: 0,
+        createdAt: mockFavorite.createdAt.toISOString(),
+      },
+    ]);
+    expect(AuthorDao.findAuthorsByIds).not.toHaveBeenCalled();
+    expect(result.sessions).toEqual([{ id: "session-id" }]);
+    expect(result.apiKeys).toEqual([{ id: "api-key-id" }]);
+  });
+
+  it("should refuse further exports once the per-user limit is reached", async () => {
+    (config.dataExport as any).maxPerWindow = 2;
+
+    await DataExportService.createUserExport(mockUser.id);
+    await DataExportService.createUserExport(mockUser.id);
+
+    const error = await DataExportService.createUserExport(mockUser.id).catch(
+      (caught) => caught
+    );
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect(error.message).toBe(ErrorMessages.DATA_EXPORT_RATE_LIMITED);
+    expect(error.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it("should throw NotFoundError if the user no longer exists", async () => {
+    vi.mocked(UserDao.findUserById).mockResolvedValue(null);
+
+    await expect(
+      DataExportService.createUserExport(mockUser.id)
+    ).rejects.toThrowError(
+      new NotFoundError(ErrorMessages.USER_FOR_TOKEN_NOT_FOUND)
+    );
+  });
+});
@@ -0,0 +1,439 @@
+import { ErrorMessages } from "@/constants";
+import AuthorDao from "@/dao/author.dao";
+import BookDao from "@/dao/book.dao";
+import FavoriteDao from "@/dao/favorite.dao";
+import { BadRequestError, NotFoundError } from "@/errors/error-types";
+import FavoriteService from "@/services/favorite.service";
+import { type Book, type Favorite, Prisma } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/book.dao");
+vi.mock("@/dao/author.dao");
+vi.mock("@/dao/favorite.dao");
+
+const mockUserId = "user-id-for-testing";
+
+const mockBook = (id: string) =>
+  ({
+    id,
+    title: `Book ${id}`,
+    createdById: "someone-else",
+    authors: [],
+  }) as unknown as Book & { authors: any[] };
+
+const mockFavorite = (targetId: string, position: number): Favorite => ({
+  id: `favorite-${targetId}`,
+  targetType: "BOOK",
+  targetId,
+  note: null,
+  position,
+  createdAt: new Date(`2024-01-0${position + 1}T10:00:00.000Z`),
+  userId: mockUserId,
+});
+
+describe("FavoriteService", () => {
+  beforeEach(() => {
+    vi.mocked(BookDao.findBookById).mockReset();
+    vi.mocked(BookDao.findAllBooks).mockReset();
+    vi.mocked(BookDao.findBooksByIds).mockReset();
+    vi.mocked(BookDao.findMatchingBookIds).mockReset();
+    vi.mocked(BookDao.findBooksByIdsForUser).mockReset();
+    vi.mocked(BookDao.findMostFavoritedBooks).mockReset();
+    vi.mocked(AuthorDao.findAuthorById).mockReset();
+    vi.mocked(AuthorDao.findAuthorsByIds).mockReset();
+    vi.mocked(FavoriteDao.findFavorite).mockReset();
+    vi.mocked(FavoriteDao.findFavoritesByUser).mockReset();
+    vi.mocked(FavoriteDao.createFavorite).mockReset();
+    vi.mocked(FavoriteDao.updateFavoriteNote).mockReset();
+    vi.mocked(FavoriteDao.moveFavorite).mockReset();
+    vi.mocked(FavoriteDao.deleteFavorite).mockReset();
+    vi.mocked(FavoriteDao.findFavoritesForTargets).mockReset();
+    vi.mocked(FavoriteDao.applyFavoriteChanges).mockReset();
+    vi.mocked(FavoriteDao.findMostFavoritedSince).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("addBookToFavorites", () => {
+    it("should favorite a book created by someone else, with a note", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(null);
+      vi.mocked(FavoriteDao.createFavorite).mockResolvedValue({
+        ...mockFavorite("book-1", 3),
+        note: "For the book club",
+      });
+
+      const result = await FavoriteService.addBookToFavorites(
+        mockUserId,
+        "book-1",
+        { note: "For the book club" }
+      );
+
+      expect(FavoriteDao.createFavorite).toHaveBeenCalledWith({
+        userId: mockUserId,
+        targetType: "BOOK",
+        targetId: "book-1",
+        note: "For the book club",
+      });
+      expect(result).toEqual({
+        targetType: "BOOK",
+        targetId: "book-1",
+        note: "For the book club",
+        position: 3,
+        addedAt: expect.any(Date),
+      });
+    });
+
+    it("should throw BadRequestError if the book is already a favorite", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(
+        mockFavorite("book-1", 0)
+      );
+
+      await expect(
+        FavoriteService.addBookToFavorites(mockUserId, "book-1")
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.ITEM_ALREADY_IN_FAVORITES("Book"))
+      );
+      expect(FavoriteDao.createFavorite).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestError if a concurrent request added the favorite", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(null);
+      vi.mocked(FavoriteDao.createFavorite).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+
+      await expect(
+        FavoriteService.addBookToFavorites(mockUserId, "book-1")
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.ITEM_ALREADY_IN_FAVORITES("Book"))
+      );
+    });
+  });
+
+  describe("removeBookFromFavorites", () => {
+    it("should throw BadRequestError if the book is not a favorite", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.deleteFavorite).mockResolvedValue({ count: 0 });
+
+      await expect(
+        FavoriteService.removeBookFromFavorites(mockUserId, "book-1")
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.ITEM_NOT_IN_FAVORITES("Book"))
+      );
+    });
+  });
+
+  describe("getFavoriteBooks", () => {
+    it("should page through favorites in manual order after filtering by search", async () => {
+      vi.mocked(FavoriteDao.findFavoritesByUser).mockResolvedValue([
+        mockFavorite("book-c", 0),
+        mockFavorite("book-a", 1),
+        mockFavorite("book-b", 2),
+      ]);
+      vi.mocked(BookDao.findMatchingBookIds).mockResolvedValue([
+        "book-b",
+        "book-c",
+      ]);
+      vi.mocked(BookDao.findBooksByIds).mockResolvedValue([mockBook("book-b")]);
+
+      const result = await FavoriteService.getFavoriteBooks(mockUserId, {
+        page: 2,
+        limit: 1,
+        sortBy: "position:asc",
+        search: "dune",
+      });
+
+      expect(FavoriteDao.findFavoritesByUser).toHaveBeenCalledWith(
+        mockUserId,
+        "BOOK",
+        "position",
+        "asc"
+      );
+      expect(BookDao.findBooksByIds).toHaveBeenCalledWith(["book-b"]);
+      expect(result.data).toEqual([
+        expect.objectContaining({
+          id: "book-b",
+          isFavorite: true,
+          favorite: expect.objectContaining({ position: 2 }),
+        }),
+      ]);
+      expect(result.meta).toMatchObject({ totalItems: 2, totalPages: 2 });
+    });
+
+    it("should let the book DAO sort by title within the favorites", async () => {
+      vi.mocked(FavoriteDao.findFavoritesByUser).mockResolvedValue([
+        mockFavorite("book-a", 0),
+        mockFavorite("book-b", 1),
+      ]);
+      vi.mocked(BookDao.findAllBooks).mockResolvedValue({
+        books: [mockBook("book-b"), mockBook("book-a")],
+        totalItems: 2,
+      });
+
+      const result = await FavoriteService.getFavoriteBooks(mockUserId, {
+        page: 1,
+        limit: 10,
+        sortBy: "title:desc",
+      });
+
+      expect(BookDao.findAllBooks).toHaveBeenCalledWith(
+        1,
+        10,
+        "title:desc",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        ["book-a", "book-b"]
+      );
+      expect(result.data.map((book) => book.id)).toEqual(["book-b", "book-a"]);
+    });
+
+    it("should return an empty page without loading books when there are no favorites", async () => {
+      vi.mocked(FavoriteDao.findFavoritesByUser).mockResolvedValue([]);
+
+      const result = await FavoriteService.getFavoriteBooks(mockUserId, {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(BookDao.findBooksByIds).not.toHaveBeenCalled();
+      expect(result.data).toEqual([]);
+      expect(result.meta.totalItems).toBe(0);
+    });
+  });
+
+  describe("updateFavoriteBook", () => {
+    it("should update the note and move the favorite", async () => {
+      const favorite = mockFavorite("book-1", 2);
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(favorite);
+      vi.mocked(FavoriteDao.updateFavoriteNote).mockResolvedValue({
+        ...favorite,
+        note: "Reread",
+      });
+      vi.mocked(FavoriteDao.moveFavorite).mockResolvedValue({
+        ...favorite,
+        note: "Reread",
+        position: 0,
+      });
+
+      const result = await FavoriteService.updateFavoriteBook(
+        mockUserId,
+        "book-1",
+        { note: "Reread", position: 0 }
+      );
+
+      expect(FavoriteDao.updateFavoriteNote).toHaveBeenCalledWith(
+        favorite.id,
+        "Reread"
+      );
+      expect(FavoriteDao.moveFavorite).toHaveBeenCalledWith(
+        mockUserId,
+        "BOOK",
+        favorite.id,
+        0
+      );
+      expect(result).toMatchObject({ note: "Reread", position: 0 });
+    });
+
+    it("should throw NotFoundError if the book is not a favorite", async () => {
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(null);
+
+      await expect(
+        FavoriteService.updateFavoriteBook(mockUserId, "book-1", {
+          position: 0,
+        })
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.FAVORITE_NOT_FOUND("Book"))
+      );
+    });
+  });
+
+  describe("setBookFavorite", () => {
+    it("should return the existing favorite without creating another", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.findFavorite).mockResolvedValue(
+        mockFavorite("book-1", 1)
+      );
+
+      const result = await FavoriteService.setBookFavorite(
+        mockUserId,
+        "book-1",
+        {
+          isFavorite: true,
+        }
+      );
+
+      expect(FavoriteDao.createFavorite).not.toHaveBeenCalled();
+      expect(FavoriteDao.updateFavoriteNote).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        targetType: "BOOK",
+        targetId: "book-1",
+        isFavorite: true,
+        favorite: expect.objectContaining({ position: 1 }),
+      });
+    });
+
+    it("should succeed when unfavoriting a book that is not a favorite", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(FavoriteDao.deleteFavorite).mockResolvedValue({ count: 0 });
+
+      const result = await FavoriteService.setBookFavorite(
+        mockUserId,
+        "book-1",
+        {
+          isFavorite: false,
+        }
+      );
+
+      expect(result).toEqual({
+        targetType: "BOOK",
+        targetId: "book-1",
+        isFavorite: false,
+        favorite: null,
+      });
+    });
+  });
+
+  describe("applyBulkFavorites", () => {
+    it("should report each operation and apply only the net changes", async () => {
+      vi.mocked(BookDao.findBooksByIds).mockResolvedValue([
+        mockBook("book-1"),
+        mockBook("book-2"),
+      ]);
+      vi.mocked(AuthorDao.findAuthorsByIds).mockResolvedValue([]);
+      vi.mocked(FavoriteDao.findFavoritesForTargets).mockResolvedValue([
+        mockFavorite("book-2", 0),
+      ]);
+
+      const results = await FavoriteService.applyBulkFavorites(mockUserId, {
+        operations: [
+          { action: "add", targetType: "BOOK", targetId: "book-1" },
+          { action: "add", targetType: "BOOK", targetId: "book-2" },
+          { action: "remove", targetType: "AUTHOR", targetId: "author-1" },
+          { action: "remove", targetType: "BOOK", targetId: "book-2" },
+          { action: "add", targetType: "BOOK", targetId: "book-1" },
+        ],
+      });
+
+      expect(results.map(({ result }) => result)).toEqual([
+        "added",
+        "unchanged",
+        "unchanged",
+        "removed",
+        "unchanged",
+      ]);
+      expect(FavoriteDao.applyFavoriteChanges).toHaveBeenCalledWith(
+        mockUserId,
+        {
+          added: [{ targetType: "BOOK", targetId: "book-1" }],
+          removed: [{ targetType: "BOOK", targetId: "book-2" }],
+        }
+      );
+    });
+
+    it("should change nothing if an item to add does not exist", async () => {
+      vi.mocked(BookDao.findBooksByIds).mockResolvedValue([mockBook("book-1")]);
+      vi.mocked(AuthorDao.findAuthorsByIds).mockResolvedValue([]);
+
+      await expect(
+        FavoriteService.applyBulkFavorites(mockUserId, {
+          operations: [
+            { action: "add", targetType: "BOOK", targetId: "book-1" },
+            { action: "add", targetType: "AUTHOR", targetId: "author-1" },
+          ],
+        })
+      ).rejects.toMatchObject({
+        message: ErrorMessages.BULK_FAVORITES_REJECTED,
+        errors: [
+          {
+            index: 1,
+            action: "add",
+            targetType: "AUTHOR",
+            targetId: "author-1",
+            message: ErrorMessages.AUTHOR_NOT_FOUND,
+          },
+        ],
+      });
+      expect(FavoriteDao.applyFavoriteChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPopularBooks", () => {
+    const popularBook = (id: string, favoriteCount: number) => ({
+      ...mockBook(id),
+      favoriteCount,
+      isFavorite: false,
+    });
+
+    it("should rank by the stored favorite count for the all window", async () => {
+      vi.mocked(BookDao.findMostFavoritedBooks).mockResolvedValue({
+        books: [popularBook("book-1", 9), popularBook("book-2", 4)],
+        totalItems: 12,
+      });
+
+      const result = await FavoriteService.getPopularBooks(
+        { page: 1, limit: 2, window: "all" },
+        mockUserId
+      );
+
+      expect(BookDao.findMostFavoritedBooks).toHaveBeenCalledWith(
+        1,
+        2,
+        mockUserId
+      );
+      expect(FavoriteDao.findMostFavoritedSince).not.toHaveBeenCalled();
+      expect(result.data.map((book) => book.popularity)).toEqual([
+        { window: "all", favoriteCount: 9 },
+        { window: "all", favoriteCount: 4 },
+      ]);
+      expect(result.meta).toMatchObject({ totalItems: 12, totalPages: 6 });
+    });
+
+    it("should rank by favorites added within the window", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-08T00:00:00.000Z"));
+      vi.mocked(FavoriteDao.findMostFavoritedSince).mockResolvedValue({
+        counts: [
+          { targetId: "book-2", count: 3 },
+          { targetId: "book-gone", count: 2 },
+          { targetId: "book-1", count: 1 },
+        ],
+        totalItems: 13,
+      });
+      vi.mocked(BookDao.findBooksByIdsForUser).mockResolvedValue([
+        popularBook("book-1", 9),
+        popularBook("book-2", 4),
+      ]);
+
+      const result = await FavoriteService.getPopularBooks(
+        { page: 2, limit: 3, window: "7d" },
+        mockUserId
+      );
+
+      expect(FavoriteDao.findMostFavoritedSince).toHaveBeenCalledWith(
+        "BOOK",
+        new Date("2024-03-01T00:00:00.000Z"),
+        3,
+        3
+      );
+      expect(BookDao.findMostFavoritedBooks).not.toHaveBeenCalled();
+      expect(
+        result.data.map((book) => [book.id, book.popularity.favoriteCount])
+      ).toEqual([
+        ["book-2", 3],
+        ["book-1", 1],
+      ]);
+      expect(result.meta).toMatchObject({ totalItems: 13, currentPage: 2 });
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import OidcDao from "@/dao/oidc.dao";
+import UserDao from "@/dao/user.dao";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "@/errors/error-types";
+import AuthService from "@/services/auth.service";
+import OidcService from "@/services/oidc.service";
+import { MockOidcIssuer } from "@/tests/integration/helpers/oidc-issuer.helper";
+import { hashToken } from "@/utils/token";
+import type { OidcIdentity, OidcLoginRequest, User } from "@prisma/client";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+vi.mock("@/dao/oidc.dao");
+vi.mock("@/dao/user.dao");
+
+const mockUser = {
+  id: "user-id-for-testing",
+  email: "oidc.user@example.com",
+  emailVerifiedAt: new Date("2023-01-01T10:00:00.000Z"),
+} as User;
+
+const authResponse = {
+  user: { id: mockUser.id },
+  token: "access-token",
+  refreshToken: "refresh-token",
+} as Awaited<ReturnType<typeof AuthService.signInVerifiedUser>>;
+
+const testContext = { ip: "203.0.113.7", userAgent: "vitest-agent/1.0" };
+
+const originalOidcProviders = config.oidc.providers;
+
+describe("OidcService", () => {
+  const issuer = new MockOidcIssuer("beehive-client", "beehive-secret");
+  // Stands in for the oidc_login_requests collection
+  const loginRequests = new Map<string, OidcLoginRequest>();
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    (config.oidc as any).providers = JSON.stringify([
+      {
+        name: "acme",
+        issuer: issuer.issuer,
+        clientId: issuer.clientId,
+        clientSecret: issuer.clientSecret,
+      },
+    ]);
+    issuer.idTokenOverrides = {};
+    loginRequests.clear();
+
+    vi.mocked(OidcDao.createLoginRequest).mockReset();
+    vi.mocked(OidcDao.consumeLoginRequest).mockReset();
+    vi.mocked(OidcDao.findIdentity).mockReset();
+    vi.mocked(OidcDao.createIdentity).mockReset();
+    vi.mocked(OidcDao.touchIdentity).mockReset();
+    vi.mocked(UserDao.findUserByEmail).mockReset();
+    vi.mocked(UserDao.createUser).mockReset();
+
+    vi.mocked(OidcDao.createLoginRequest).mockImplementation(
+      async (requestData) => {
+        const request = {
+          ...requestData,
+          id: `request-${loginRequests.size}`,
+          createdAt: new Date(),
+        };
+        loginRequests.set(requestData.stateHash, request);
+        return request;
+      }
+    );
+    vi.mocked(OidcDao.consumeLoginRequest).mockImplementation(
+      async (stateHash) => {
+        const request = loginRequests.get(stateHash) ?? null;
+        loginRequests.delete(stateHash);
+        return request;
+      }
+    );
+    vi.mocked(OidcDao.findIdentity).mockResolvedValue(null);
+    vi.spyOn(AuthService, "signInVerifiedUser").mockResolvedValue(authResponse);
+  });
+
+  afterEach(() => {
+    (config.oidc as any).providers = originalOidcProviders;
+    vi.restoreAllMocks();
+  });
+
+  const loginAtProvider = async () => {
+    const authorizationUrl = await OidcService.startLogin("acme");
+    return issuer.authorize(authorizationUrl);
+  };
+
+  describe("startLogin", () => {
+    it("should redirect to the provider with a PKCE challenge and remember the state", async () => {
+      const authorizationUrl = new URL(await OidcService.startLogin("acme"));
+
+      expect(authorizationUrl.origin).toBe(issuer.issuer);
+      expect(authorizationUrl.searchParams.get("client_id")).toBe(
+        issuer.clientId
+      );
+      expect(authorizationUrl.searchParams.get("redirect_uri")).toBe(
+        `${config.apiBaseUrl}/api/v1/auth/oidc/acme/callback`
+      );
+      expect(authorizationUrl.searchParams.get("code_challenge_method")).toBe(
+        "S256"
+      );
+
+      const state = authorizationUrl.searchParams.get("state")!;
+      const storedRequest = loginRequests.get(hashToken(state));
+      expect(storedRequest).toMatchObject({
+        provider: "acme",
+        nonce: authorizationUrl.searchParams.get("nonce"),
+      });
+      // Only the challenge leaves the server, never the verifier
+      expect(authorizationUrl.toString()).not.toContain(
+        storedRequest!.codeVerifier
+      );
+    });
+
+    it("should throw NotFoundError for an unknown provider", async () => {
+      await expect(OidcService.startLogin("unknown")).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.OIDC_PROVIDER_NOT_FOUND)
+      );
+    });
+  });
+
+  describe("completeLogin", () => {
+    it("should create a verified account for a new identity and sign it in", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(null);
+      vi.mocked(UserDao.createUser).mockResolvedValue(mockUser);
+      const { code, state } = await loginAtProvider();
+
+      const result = await OidcService.completeLogin(
+        "acme",
+        { code, state },
+        testContext
+      );
+
+      expect(result).toBe(authResponse);
+      expect(UserDao.createUser).toHaveBeenCalledWith({
+        email: issuer.user.email,
+        name: issuer.user.name,
+        passwordHash: expect.any(String),
+        emailVerifiedAt: expect.any(Date),
+      });
+      expect(OidcDao.createIdentity).toHaveBeenCalledWith({
+        provider: "acme",
+        subject: issuer.user.sub,
+        email: issuer.user.email,
+        userId: mockUser.id,
+      });
+      expect(AuthService.signInVerifiedUser).toHaveBeenCalledWith(
+        mockUser,
+        testContext
+      );
+    });
+
+    it("should sign in the account already linked to the identity", async () => {
+      vi.mocked(OidcDao.findIdentity).mockResolvedValue({
+        id: "identity-id",
+        user: mockUser,
+      } as OidcIdentity & { user: User });
+      const { code, state } = await loginAtProvider();
+
+      await OidcService.completeLogin("acme", { code, state }, testContext);
+
+      expect(OidcDao.findIdentity).toHaveBeenCalledWith(
+        "acme",
+        issuer.user.sub
+      );
+      expect(OidcDao.touchIdentity).toHaveBeenCalledWith("identity-id");
+      expect(UserDao.findUserByEmail).not.toHaveBeenCalled();
+      expect(AuthService.signInVerifiedUser).toHaveBeenCalledWith(
+        mockUser,
+        testContext
+      );
+    });
+
+    it("should link an existing account with the same verified email", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(mockUser);
+      const { code, state } = await loginAtProvider();
+
+      await OidcService.completeLogin("acme", { code, state }, testContext);
+
+      expect(UserDao.createUser).not.toHaveBeenCalled();
+      expect(OidcDao.createIdentity).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id })
+      );
+    });
+
+    it("should not link an account whose email was never verified", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue({
+        ...mockUser,
+        emailVerifiedAt: null,
+      });
+      const { code, state } = await loginAtProvider();
+
+      await expect(
+        OidcService.completeLogin("acme", { code, state }, testContext)
+      ).rejects.toThrowError(
+        new ConflictError(ErrorMessages.OIDC_ACCOUNT_EMAIL_NOT_VERIFIED)
+      );
+      expect(OidcDao.createIdentity).not.toHaveBeenCalled();
+    });
+
+    it("should reject an identity whose email the provider has not verified", async () => {
+      issuer.idTokenOverrides = { email_verified: false };
+      const { code, state } = await loginAtProvider();
+
+      await expect(
+        OidcService.completeLogin("acme", { code, state }, testContext)
+      ).rejects.toThrowError(
+        new ForbiddenError(ErrorMessages.OIDC_EMAIL_NOT_VERIFIED)
+      );
+    });
+
+    it("should reject an unknown or replayed state", async () => {
+      vi.mocked(UserDao.findUserByEmail).mockResolvedValue(mockUser);
+      const { code, state } = await loginAtProvider();
+      await OidcService.completeLogin("acme", { code, state }, testContext);
+
+      await expect(
+        OidcService.completeLogin("acme", { code, state }, testContext)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.OIDC_LOGIN_REQUEST_INVALID)
+      );
+    });
+
+    it("should reject an ID token with a different nonce", async () => {
+      issuer.idTokenOverrides = { nonce: "another-nonce" };
+      const { code, state } = await loginAtProvider();
+
+      await expect(
+        OidcService.completeLogin("acme", { code, state }, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.OIDC_LOGIN_FAILED)
+      );
+    });
+
+    it("should fail when the code verifier does not match the challenge", async () => {
+      const { code, state } = await loginAtProvider();
+      loginRequests.get(hashToken(state))!.codeVerifier = "tampered-verifier";
+
+      await expect(
+        OidcService.completeLogin("acme", { code, state }, testContext)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.OIDC_LOGIN_FAILED)
+      );
+    });
+
+    it("should fail when the provider returns an error instead of a code", async () => {
+      const { state } = await loginAtProvider();
+
+      await expect(
+        OidcService.completeLogin(
+          "acme",
+          { state, error: "access_denied" },
+          testContext
+        )
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.OIDC_LOGIN_FAILED)
+      );
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { ErrorMessages } from "@/constants";
+import BookDao from "@/dao/book.dao";
+import ReviewDao from "@/dao/review.dao";
+import { ConflictError, NotFoundError } from "@/errors/error-types";
+import ReviewService from "@/services/review.service";
+import { type Book, Prisma, type Review } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/book.dao");
+vi.mock("@/dao/review.dao");
+
+const mockUserId = "user-id-for-testing";
+
+const mockBook = (id: string): Book & { authors: any[] } => ({
+  id,
+  title: `Book ${id}`,
+  isbn: null,
+  publishedDate: null,
+  createdAt: new Date("2023-12-01T10:00:00.000Z"),
+  updatedAt: new Date("2023-12-01T10:00:00.000Z"),
+  favoriteCount: 0,
+  averageRating: null,
+  ratingCount: 0,
+  createdById: "someone-else",
+  authors: [],
+});
+
+const mockReview = (
+  overrides: Partial<Review> = {}
+): Review & { user: { id: string; name: string | null } } => ({
+  id: "review-1",
+  rating: 4,
+  title: null,
+  body: null,
+  createdAt: new Date("2024-01-01T10:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T10:00:00.000Z"),
+  userId: mockUserId,
+  bookId: "book-1",
+  user: { id: mockUserId, name: "Test Reader" },
+  ...overrides,
+});
+
+describe("ReviewService", () => {
+  beforeEach(() => {
+    vi.mocked(BookDao.findBookById).mockReset();
+    vi.mocked(ReviewDao.findReview).mockReset();
+    vi.mocked(ReviewDao.findReviewsByBook).mockReset();
+    vi.mocked(ReviewDao.createReview).mockReset();
+    vi.mocked(ReviewDao.updateReview).mockReset();
+    vi.mocked(ReviewDao.deleteReview).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("getBookReviews", () => {
+    it("should list reviews with their reviewer and without the user id", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReviewsByBook).mockResolvedValue({
+        reviews: [mockReview()],
+        totalItems: 5,
+      });
+
+      const result = await ReviewService.getBookReviews("book-1", {
+        page: 2,
+        limit: 1,
+        sortBy: "rating:desc",
+      });
+
+      expect(ReviewDao.findReviewsByBook).toHaveBeenCalledWith(
+        "book-1",
+        2,
+        1,
+        "rating",
+        "desc"
+      );
+      expect(result.data[0]).toMatchObject({
+        id: "review-1",
+        rating: 4,
+        reviewer: { id: mockUserId, name: "Test Reader" },
+      });
+      expect(result.data[0]).not.toHaveProperty("userId");
+      expect(result.data[0]).not.toHaveProperty("user");
+      expect(result.meta).toMatchObject({ totalItems: 5, currentPage: 2 });
+    });
+
+    it("should throw NotFoundError if the book does not exist", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(null);
+
+      await expect(
+        ReviewService.getBookReviews("book-1", {})
+      ).rejects.toThrowError(new NotFoundError(ErrorMessages.BOOK_NOT_FOUND));
+      expect(ReviewDao.findReviewsByBook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createReview", () => {
+    it("should review a book created by someone else", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReview).mockResolvedValue(null);
+      vi.mocked(ReviewDao.createReview).mockResolvedValue(
+        mockReview({ rating: 5, title: "Loved it" })
+      );
+
+      const result = await ReviewService.createReview(mockUserId, "book-1", {
+        rating: 5,
+        title: "Loved it",
+      });
+
+      expect(ReviewDao.createReview).toHaveBeenCalledWith(
+        mockUserId,
+        "book-1",
+        { rating: 5, title: "Loved it" }
+      );
+      expect(result).toMatchObject({ rating: 5, title: "Loved it" });
+    });
+
+    it("should throw ConflictError if the user already reviewed the book", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReview).mockResolvedValue(mockReview());
+
+      await expect(
+        ReviewService.createReview(mockUserId, "book-1", { rating: 3 })
+      ).rejects.toThrowError(
+        new ConflictError(ErrorMessages.REVIEW_ALREADY_EXISTS)
+      );
+      expect(ReviewDao.createReview).not.toHaveBeenCalled();
+    });
+
+    it("should throw ConflictError if a concurrent request created the review", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReview).mockResolvedValue(null);
+      vi.mocked(ReviewDao.createReview).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+
+      await expect(
+        ReviewService.createReview(mockUserId, "book-1", { rating: 3 })
+      ).rejects.toThrowError(
+        new ConflictError(ErrorMessages.REVIEW_ALREADY_EXISTS)
+      );
+    });
+  });
+
+  describe("updateReview", () => {
+    it("should update the user's own review", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReview).mockResolvedValue(mockReview());
+      vi.mocked(ReviewDao.updateReview).mockResolvedValue(
+        mockReview({ rating: 2, body: null })
+      );
+
+      const result = await ReviewService.updateReview(mockUserId, "book-1", {
+        rating: 2,
+        body: null,
+      });
+
+      expect(ReviewDao.updateReview).toHaveBeenCalledWith("review-1", {
+        rating: 2,
+        body: null,
+      });
+      expect(result.rating).toBe(2);
+    });
+
+    it("should throw NotFoundError if the user has not reviewed the book", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.findReview).mockResolvedValue(null);
+
+      await expect(
+        ReviewService.updateReview(mockUserId, "book-1", { rating: 2 })
+      ).rejects.toThrowError(new NotFoundError(ErrorMessages.REVIEW_NOT_FOUND));
+      expect(ReviewDao.updateReview).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteReview", () => {
+    it("should throw NotFoundError if the user has not reviewed the book", async () => {
+      vi.mocked(BookDao.findBookById).mockResolvedValue(mockBook("book-1"));
+      vi.mocked(ReviewDao.deleteReview).mockResolvedValue({ count: 0 });
+
+      await expect(
+        ReviewService.deleteReview(mockUserId, "book-1")
+      ).rejects.toThrowError(new NotFoundError(ErrorMessages.REVIEW_NOT_FOUND));
+    });
+  });
+});
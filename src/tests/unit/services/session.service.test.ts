@@ -0,0 +1,163 @@
+import { config } from "@/config";
+import { ErrorMessages } from "@/constants";
+import RefreshTokenDao from "@/dao/refresh-token.dao";
+import SessionDao from "@/dao/session.dao";
+import { NotFoundError, UnauthorizedError } from "@/errors/error-types";
+import SessionService from "@/services/session.service";
+import type { Session } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/session.dao");
+vi.mock("@/dao/refresh-token.dao");
+
+const mockUserId = "user-id-for-testing";
+
+const mockSession: Session = {
+  id: "session-id",
+  familyId: "refresh-token-family",
+  userAgent: "Mozilla/5.0",
+  ip: "203.0.113.7",
+  lastSeenAt: new Date(),
+  expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  revokedAt: null,
+  createdAt: new Date("2023-01-01T10:00:00.000Z"),
+  userId: mockUserId,
+};
+
+describe("SessionService", () => {
+  beforeEach(() => {
+    vi.mocked(SessionDao.findSessionById).mockReset();
+    vi.mocked(SessionDao.findActiveSessionsByUser).mockReset();
+    vi.mocked(SessionDao.touchLastSeen).mockReset();
+    vi.mocked(SessionDao.revokeSession).mockReset();
+    vi.mocked(RefreshTokenDao.revokeTokenFamily).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("listSessions", () => {
+    it("should flag the session making the request as current", async () => {
+      vi.mocked(SessionDao.findActiveSessionsByUser).mockResolvedValue([
+        mockSession,
+        { ...mockSession, id: "other-session-id", familyId: "other-family" },
+      ]);
+
+      const result = await SessionService.listSessions(
+        mockUserId,
+        mockSession.id
+      );
+
+      expect(SessionDao.findActiveSessionsByUser).toHaveBeenCalledWith(
+        mockUserId
+      );
+      expect(result).toEqual([
+        {
+          id: mockSession.id,
+          userAgent: mockSession.userAgent,
+          ip: mockSession.ip,
+          createdAt: mockSession.createdAt,
+          lastSeenAt: mockSession.lastSeenAt,
+          current: true,
+        },
+        expect.objectContaining({ id: "other-session-id", current: false }),
+      ]);
+      expect(result[0]).not.toHaveProperty("familyId");
+    });
+  });
+
+  describe("revokeSession", () => {
+    it("should revoke the session and its refresh token family", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue(mockSession);
+
+      await SessionService.revokeSession(mockUserId, mockSession.id);
+
+      expect(SessionDao.revokeSession).toHaveBeenCalledWith(mockSession.id);
+      expect(RefreshTokenDao.revokeTokenFamily).toHaveBeenCalledWith(
+        mockSession.familyId
+      );
+    });
+
+    it("should throw NotFoundError for another user's session", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue({
+        ...mockSession,
+        userId: "someone-else",
+      });
+
+      await expect(
+        SessionService.revokeSession(mockUserId, mockSession.id)
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.SESSION_NOT_FOUND)
+      );
+      expect(SessionDao.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it("should throw NotFoundError for an already revoked session", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue({
+        ...mockSession,
+        revokedAt: new Date(),
+      });
+
+      await expect(
+        SessionService.revokeSession(mockUserId, mockSession.id)
+      ).rejects.toThrowError(
+        new NotFoundError(ErrorMessages.SESSION_NOT_FOUND)
+      );
+      expect(RefreshTokenDao.revokeTokenFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("assertSessionActive", () => {
+    it("should not touch a session seen within the update interval", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue(mockSession);
+
+      await SessionService.assertSessionActive(mockSession.id, mockUserId);
+
+      expect(SessionDao.touchLastSeen).not.toHaveBeenCalled();
+    });
+
+    it("should update last seen once the interval has passed", async () => {
+      const intervalMs = config.session.lastSeenUpdateIntervalSeconds * 1000;
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue({
+        ...mockSession,
+        lastSeenAt: new Date(Date.now() - intervalMs - 1000),
+      });
+
+      await SessionService.assertSessionActive(mockSession.id, mockUserId);
+
+      expect(SessionDao.touchLastSeen).toHaveBeenCalledWith(
+        mockSession.id,
+        expect.any(Date)
+      );
+    });
+
+    it("should throw UnauthorizedError for a revoked session", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValue({
+        ...mockSession,
+        revokedAt: new Date(),
+      });
+
+      await expect(
+        SessionService.assertSessionActive(mockSession.id, mockUserId)
+      ).rejects.toThrowError(
+        new UnauthorizedError(ErrorMessages.SESSION_REVOKED)
+      );
+    });
+
+    it("should throw UnauthorizedError if the session is missing or not the user's", async () => {
+      vi.mocked(SessionDao.findSessionById).mockResolvedValueOnce(null);
+      vi.mocked(SessionDao.findSessionById).mockResolvedValueOnce({
+        ...mockSession,
+        userId: "someone-else",
+      });
+
+      await expect(
+        SessionService.assertSessionActive(mockSession.id, mockUserId)
+      ).rejects.toThrowError(UnauthorizedError);
+      await expect(
+        SessionService.assertSessionActive(mockSession.id, mockUserId)
+      ).rejects.toThrowError(UnauthorizedError);
+    });
+  });
+});
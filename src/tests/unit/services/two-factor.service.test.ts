@@ -0,0 +1,223 @@
+import { ErrorMessages } from "@/constants";
+import UserDao from "@/dao/user.dao";
+import { BadRequestError } from "@/errors/error-types";
+import TwoFactorService from "@/services/two-factor.service";
+import { hashPassword } from "@/utils/password";
+import { hashToken } from "@/utils/token";
+import {
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+} from "@/utils/totp";
+import type { User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/dao/user.dao");
+
+const testUserPassword = "Password123!";
+const totpSecret = generateTotpSecret();
+const recoveryCode = "a1b2c-3d4e5";
+
+const mockUser: User = {
+  id: "user-id-for-testing",
+  email: "test@example.com",
+  password: "this will be replaced by an actual hash",
+  name: "Test User",
+  role: "user",
+  tokenVersion: 0,
+  emailVerifiedAt: null,
+  suspendedAt: null,
+  suspensionReason: null,
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedStep: null,
+  totpRecoveryCodes: [],
+  createdAt: new Date("2023-01-01T10:00:00.000Z"),
+  updatedAt: new Date("2023-01-01T11:00:00.000Z"),
+};
+
+const mockUserWithTwoFactor: User = {
+  ...mockUser,
+  totpSecret,
+  totpEnabledAt: new Date("2023-01-02T10:00:00.000Z"),
+  totpRecoveryCodes: [hashToken(recoveryCode), hashToken("f6a7b-8c9d0")],
+};
+
+const currentCode = () => generateTotpCode(totpSecret, getTotpStep());
+
+describe("TwoFactorService", () => {
+  beforeEach(() => {
+    vi.mocked(UserDao.findUserById).mockReset();
+    vi.mocked(UserDao.setPendingTotpSecret).mockReset();
+    vi.mocked(UserDao.enableTwoFactor).mockReset();
+    vi.mocked(UserDao.disableTwoFactor).mockReset();
+    vi.mocked(UserDao.claimTotpStep).mockReset();
+    vi.mocked(UserDao.consumeRecoveryCode).mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("startSetup", () => {
+    it("should store a pending secret and return an otpauth URI for it", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUser);
+
+      const result = await TwoFactorService.startSetup(mockUser.id);
+
+      expect(UserDao.setPendingTotpSecret).toHaveBeenCalledWith(
+        mockUser.id,
+        result.secret
+      );
+      expect(result.otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+    });
+
+    it("should throw BadRequestError if 2FA is already enabled", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUserWithTwoFactor);
+
+      await expect(
+        TwoFactorService.startSetup(mockUser.id)
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.TWO_FACTOR_ALREADY_ENABLED)
+      );
+      expect(UserDao.setPendingTotpSecret).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmSetup", () => {
+    it("should enable 2FA and return recovery codes that are stored hashed", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUser,
+        totpSecret,
+      });
+
+      const result = await TwoFactorService.confirmSetup(
+        mockUser.id,
+        currentCode()
+      );
+
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(UserDao.enableTwoFactor).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.any(Number),
+        result.recoveryCodes.map((code) => hashToken(code))
+      );
+    });
+
+    it("should throw BadRequestError for a wrong code", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUser,
+        totpSecret,
+      });
+
+      await expect(
+        TwoFactorService.confirmSetup(
+          mockUser.id,
+          currentCode() === "000000" ? "111111" : "000000"
+        )
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.TWO_FACTOR_CODE_INVALID)
+      );
+      expect(UserDao.enableTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestError if setup was never started", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue(mockUser);
+
+      await expect(
+        TwoFactorService.confirmSetup(mockUser.id, "123456")
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.TWO_FACTOR_SETUP_NOT_STARTED)
+      );
+    });
+  });
+
+  describe("verifySecondFactor", () => {
+    it("should accept a current TOTP code once its step is claimed", async () => {
+      vi.mocked(UserDao.claimTotpStep).mockResolvedValue(true);
+
+      await expect(
+        TwoFactorService.verifySecondFactor(
+          mockUserWithTwoFactor,
+          currentCode()
+        )
+      ).resolves.toBe(true);
+      expect(UserDao.claimTotpStep).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.any(Number)
+      );
+    });
+
+    it("should reject a TOTP code whose step was already used", async () => {
+      vi.mocked(UserDao.claimTotpStep).mockResolvedValue(false);
+
+      await expect(
+        TwoFactorService.verifySecondFactor(
+          mockUserWithTwoFactor,
+          currentCode()
+        )
+      ).resolves.toBe(false);
+    });
+
+    it("should accept and consume an unused recovery code", async () => {
+      vi.mocked(UserDao.consumeRecoveryCode).mockResolvedValue(true);
+
+      await expect(
+        TwoFactorService.verifySecondFactor(
+          mockUserWithTwoFactor,
+          " A1B2C-3D4E5 "
+        )
+      ).resolves.toBe(true);
+      expect(UserDao.consumeRecoveryCode).toHaveBeenCalledWith(
+        mockUser.id,
+        mockUserWithTwoFactor.totpRecoveryCodes,
+        hashToken(recoveryCode)
+      );
+    });
+
+    it("should reject an unknown recovery code", async () => {
+      await expect(
+        TwoFactorService.verifySecondFactor(
+          mockUserWithTwoFactor,
+          "00000-00000"
+        )
+      ).resolves.toBe(false);
+      expect(UserDao.consumeRecoveryCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("disable", () => {
+    it("should turn 2FA off after checking the password and a code", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserWithTwoFactor,
+        password: await hashPassword(testUserPassword),
+      });
+      vi.mocked(UserDao.claimTotpStep).mockResolvedValue(true);
+
+      await TwoFactorService.disable(mockUser.id, {
+        currentPassword: testUserPassword,
+        code: currentCode(),
+      });
+
+      expect(UserDao.disableTwoFactor).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it("should throw BadRequestError and keep 2FA on if the password is incorrect", async () => {
+      vi.mocked(UserDao.findUserById).mockResolvedValue({
+        ...mockUserWithTwoFactor,
+        password: await hashPassword(testUserPassword),
+      });
+
+      await expect(
+        TwoFactorService.disable(mockUser.id, {
+          currentPassword: "WrongPassword123!",
+          code: currentCode(),
+        })
+      ).rejects.toThrowError(
+        new BadRequestError(ErrorMessages.CURRENT_PASSWORD_INCORRECT)
+      );
+      expect(UserDao.disableTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { MemoryAttemptStore } from "@/throttle/memory.attempt-store";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("MemoryAttemptStore", () => {
+  const windowMs = 60 * 1000;
+  let store: MemoryAttemptStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new MemoryAttemptStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count attempts per key within the window", async () => {
+    expect(await store.increment("a", windowMs)).toBe(1);
+    expect(await store.increment("a", windowMs)).toBe(2);
+    expect(await store.increment("b", windowMs)).toBe(1);
+
+    expect(await store.getCount("a")).toBe(2);
+    expect(await store.getCount("unknown")).toBe(0);
+  });
+
+  it("should start a new window once the current one expires", async () => {
+    await store.increment("a", windowMs);
+    vi.advanceTimersByTime(windowMs / 2);
+    // Later attempts do not extend the window
+    await store.increment("a", windowMs);
+    vi.advanceTimersByTime(windowMs / 2);
+
+    expect(await store.getCount("a")).toBe(0);
+    expect(await store.increment("a", windowMs)).toBe(1);
+  });
+
+  it("should hold a lock until it expires and restart counting", async () => {
+    await store.increment("a", windowMs);
+    const until = new Date(Date.now() + windowMs);
+
+    await store.lock("a", until);
+
+    expect(await store.getLockedUntil("a")).toEqual(until);
+    expect(await store.getCount("a")).toBe(0);
+
+    vi.advanceTimersByTime(windowMs);
+    expect(await store.getLockedUntil("a")).toBeNull();
+  });
+
+  it("should clear the counter and lock on reset", async () => {
+    await store.increment("a", windowMs);
+    await store.lock("a", new Date(Date.now() + windowMs));
+    await store.increment("a", windowMs);
+
+    await store.reset("a");
+
+    expect(await store.getCount("a")).toBe(0);
+    expect(await store.getLockedUntil("a")).toBeNull();
+  });
+});
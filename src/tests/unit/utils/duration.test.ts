@@ -0,0 +1,27 @@
+import { parseDurationSeconds } from "@/utils/duration";
+import { describe, expect, it } from "vitest";
+
+describe("Duration Utilities", () => {
+  describe("parseDurationSeconds", () => {
+    it("should parse short units", () => {
+      expect(parseDurationSeconds("15m")).toBe(900);
+      expect(parseDurationSeconds("2h")).toBe(7200);
+    });
+
+    it("should parse long unit names, weeks and years", () => {
+      expect(parseDurationSeconds("7 days")).toBe(7 * 86400);
+      expect(parseDurationSeconds("1w")).toBe(7 * 86400);
+      expect(parseDurationSeconds("1y")).toBe(31557600);
+    });
+
+    it("should count a bare number as seconds", () => {
+      expect(parseDurationSeconds(" 300 ")).toBe(300);
+    });
+
+    it.each(["", "soon", "-5m", "500ms"])("should reject %j", (duration) => {
+      expect(() => parseDurationSeconds(duration)).toThrow(
+        `Invalid duration "${duration}"`
+      );
+    });
+  });
+});
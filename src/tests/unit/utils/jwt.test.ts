@@ -0,0 +1,227 @@
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { config } from "@/config";
+import { type JwtPayload, signToken, verifyToken } from "@/utils/jwt";
+import {
+  getPublicJwks,
+  loadJwtKeyRing,
+  resetJwtKeyRing,
+} from "@/utils/jwt-keys";
+import jwt from "jsonwebtoken";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const pemPair = (type: "rsa" | "ed25519") => {
+  const { privateKey, publicKey } =
+    type === "rsa"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : generateKeyPairSync("ed25519");
+  return {
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+};
+
+const rsaKey = pemPair("rsa");
+const edKey = pemPair("ed25519");
+
+const payload: JwtPayload = {
+  userId: "user-id",
+  email: "test@example.com",
+  tokenVersion: 0,
+  role: "user",
+};
+
+const originalJwtConfig = { ...config.jwt };
+
+const useKeys = (
+  keys: { kid: string; privateKey?: string; publicKey?: string }[],
+  signingKeyId = ""
+) => {
+  (config.jwt as any).keys = JSON.stringify(keys);
+  (config.jwt as any).signingKeyId = signingKeyId;
+  resetJwtKeyRing();
+};
+
+describe("JWT utilities", () => {
+  beforeEach(() => {
+    (config.jwt as any).secret =
+      "test-super-secret-key-for-unit-tests-min-32-chars";
+    (config.jwt as any).keys = "";
+    (config.jwt as any).keysDir = "";
+    (config.jwt as any).signingKeyId = "";
+    resetJwtKeyRing();
+  });
+
+  afterEach(() => {
+    Object.assign(config.jwt, originalJwtConfig);
+    resetJwtKeyRing();
+    vi.useRealTimers();
+  });
+
+  describe("with JWT_SECRET only", () => {
+    it("should sign HS256 tokens with issuer and audience claims", () => {
+      const token = signToken(payload);
+
+      expect(jwt.decode(token, { complete: true })?.header.alg).toBe("HS256");
+      expect(verifyToken(token)).toMatchObject({
+        ...payload,
+        iss: config.jwt.issuer,
+        aud: config.jwt.audience,
+      });
+    });
+
+    it("should reject a token issued for another audience or issuer", () => {
+      const token = signToken(payload);
+
+      (config.jwt as any).audience = "another-service";
+      expect(verifyToken(token)).toBeNull();
+
+      (config.jwt as any).audience = originalJwtConfig.audience;
+      (config.jwt as any).issuer = "someone-else";
+      expect(verifyToken(token)).toBeNull();
+    });
+  });
+
+  describe.each([
+    { algorithm: "RS256", key: rsaKey },
+    { algorithm: "EdDSA", key: edKey },
+  ])("with an $algorithm key", ({ algorithm, key }) => {
+    beforeEach(() => {
+      useKeys([{ kid: "key-1", privateKey: key.privateKey }]);
+    });
+
+    it("should sign with the key id in the header and verify", () => {
+      const token = signToken(payload);
+
+      expect(jwt.decode(token, { complete: true })?.header).toMatchObject({
+        alg: algorithm,
+        kid: "key-1",
+      });
+      expect(verifyToken(token)).toMatchObject(payload);
+    });
+
+    it("should reject a tampered token", () => {
+      const [header, , signature] = signToken(payload).split(".");
+      const forgedPayload = Buffer.from(
+        JSON.stringify({ ...payload, role: "admin" })
+      ).toString("base64url");
+
+      expect(verifyToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+    });
+
+    it("should reject an expired token", () => {
+      vi.useFakeTimers();
+      const token = signToken(payload);
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(verifyToken(token)).toBeNull();
+    });
+
+    it("should reject a token for another audience", () => {
+      const token = signToken(payload);
+
+      (config.jwt as any).audience = "another-service";
+
+      expect(verifyToken(token)).toBeNull();
+    });
+  });
+
+  describe("key rotation", () => {
+    it("should keep verifying tokens signed by a retired key", () => {
+      useKeys([{ kid: "old", privateKey: edKey.privateKey }]);
+      const oldToken = signToken(payload);
+
+      useKeys(
+        [
+          { kid: "old", publicKey: edKey.publicKey },
+          { kid: "new", privateKey: rsaKey.privateKey },
+        ],
+        "new"
+      );
+      const newToken = signToken(payload);
+
+      expect(jwt.decode(newToken, { complete: true })?.header.kid).toBe("new");
+      expect(verifyToken(oldToken)).toMatchObject(payload);
+      expect(verifyToken(newToken)).toMatchObject(payload);
+    });
+
+    it("should reject tokens whose key was removed", () => {
+      useKeys([{ kid: "old", privateKey: edKey.privateKey }]);
+      const oldToken = signToken(payload);
+
+      useKeys([{ kid: "new", privateKey: rsaKey.privateKey }]);
+
+      expect(verifyToken(oldToken)).toBeNull();
+    });
+
+    it("should stop accepting HS256 tokens once JWT_SECRET is removed", () => {
+      const hsToken = signToken(payload);
+      useKeys([{ kid: "key-1", privateKey: edKey.privateKey }]);
+
+      expect(verifyToken(hsToken)).toMatchObject(payload);
+
+      (config.jwt as any).secret = "";
+      expect(verifyToken(hsToken)).toBeNull();
+    });
+  });
+
+  describe("loadJwtKeyRing", () => {
+    it("should require a signing key id when several private keys are loaded", () => {
+      const keysJson = JSON.stringify([
+        { kid: "a", privateKey: edKey.privateKey },
+        { kid: "b", privateKey: rsaKey.privateKey },
+      ]);
+
+      expect(() => loadJwtKeyRing({ keysJson })).toThrowError(
+        /JWT_SIGNING_KEY_ID/
+      );
+      expect(
+        loadJwtKeyRing({ keysJson, signingKeyId: "b" }).signingKey?.kid
+      ).toBe("b");
+    });
+
+    it("should load private and public keys from a directory", async () => {
+      const keysDir = await mkdtemp(path.join(tmpdir(), "jwt-keys-"));
+      try {
+        await writeFile(path.join(keysDir, "current.pem"), edKey.privateKey);
+        await writeFile(path.join(keysDir, "retired.pem"), rsaKey.publicKey);
+
+        const keyRing = loadJwtKeyRing({ keysDir });
+
+        expect(keyRing.signingKey?.kid).toBe("current");
+        expect(keyRing.keys.get("retired")).toMatchObject({
+          algorithm: "RS256",
+          privateKey: undefined,
+        });
+      } finally {
+        await rm(keysDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getPublicJwks", () => {
+    it("should publish only the public half of every key", () => {
+      useKeys(
+        [
+          { kid: "ed", privateKey: edKey.privateKey },
+          { kid: "rsa", publicKey: rsaKey.publicKey },
+        ],
+        "ed"
+      );
+
+      const { keys } = getPublicJwks();
+
+      expect(keys).toEqual([
+        expect.objectContaining({ kid: "ed", alg: "EdDSA", kty: "OKP" }),
+        expect.objectContaining({ kid: "rsa", alg: "RS256", kty: "RSA" }),
+      ]);
+      for (const key of keys) {
+        expect(key).not.toHaveProperty("d");
+        expect(key.use).toBe("sig");
+      }
+    });
+  });
+});
@@ -3,10 +3,11 @@ import {
   comparePassword,
   hashPassword,
   omitPasswordFromResult,
+  verifyPassword,
 } from "@/utils/password";
 import type { User } from "@prisma/client";
 import bcrypt from "bcryptjs";
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it } from "vitest";
 
 describe("Password Utilities", () => {
   const plainPassword = "StrongPassword123!";
@@ -58,6 +59,74 @@ describe("Password Utilities", () => {
     });
   });
 
+  describe("verifyPassword", () => {
+    const originalSaltRounds = config.bcryptSaltRounds;
+    const originalAlgorithm = config.passwordHashing.algorithm;
+    const originalScrypt = config.passwordHashing.scrypt;
+
+    const useScrypt = () => {
+      (config.passwordHashing as any).algorithm = "scrypt";
+      (config.passwordHashing as any).scrypt = {
+        cost: 1024,
+        blockSize: 8,
+        parallelization: 1,
+      };
+    };
+
+    afterEach(() => {
+      (config as any).bcryptSaltRounds = originalSaltRounds;
+      (config.passwordHashing as any).algorithm = originalAlgorithm;
+      (config.passwordHashing as any).scrypt = originalScrypt;
+    });
+
+    it("should not ask for a rehash of a hash made with the current settings", async () => {
+      const hashedPassword = await hashPassword(plainPassword);
+
+      expect(await verifyPassword(plainPassword, hashedPassword)).toEqual({
+        isMatch: true,
+        needsRehash: false,
+      });
+    });
+
+    it("should ask for a rehash when the bcrypt cost has gone up", async () => {
+      const hashedPassword = await bcrypt.hash(plainPassword, 4);
+      (config as any).bcryptSaltRounds = 5;
+
+      expect(await verifyPassword(plainPassword, hashedPassword)).toEqual({
+        isMatch: true,
+        needsRehash: true,
+      });
+    });
+
+    it("should verify bcrypt hashes and ask for a rehash after switching to scrypt", async () => {
+      const bcryptHash = await hashPassword(plainPassword);
+      useScrypt();
+
+      expect(await verifyPassword(plainPassword, bcryptHash)).toEqual({
+        isMatch: true,
+        needsRehash: true,
+      });
+
+      const scryptHash = await hashPassword(plainPassword);
+      expect(scryptHash).toMatch(/^\$scrypt\$/);
+      expect(await verifyPassword(plainPassword, scryptHash)).toEqual({
+        isMatch: true,
+        needsRehash: false,
+      });
+    });
+
+    it("should never ask for a rehash when the password does not match", async () => {
+      const hashedPassword = await bcrypt.hash(plainPassword, 4);
+
+      expect(await verifyPassword("WrongPassword123!", hashedPassword)).toEqual(
+        { isMatch: false, needsRehash: false }
+      );
+      expect(
+        await verifyPassword(plainPassword, "not-a-known-hash-format")
+      ).toEqual({ isMatch: false, needsRehash: false });
+    });
+  });
+
   describe("omitPasswordFromResult", () => {
     it("should remove the password field from a user object", () => {
       const userWithPassword = {
@@ -65,10 +134,17 @@ describe("Password Utilities", () => {
         email: "test@example.com",
         password: "hashedpassword",
         name: "Test User",
+        role: "user",
+        tokenVersion: 0,
+        emailVerifiedAt: null,
+        suspendedAt: null,
+        suspensionReason: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
         createdAt: new Date(),
         updatedAt: new Date(),
-        favoriteBookIds: [],
-        favoriteAuthorIds: [],
       } as User;
 
       const userWithoutPassword = omitPasswordFromResult(userWithPassword);
@@ -77,16 +153,46 @@ describe("Password Utilities", () => {
       expect(userWithoutPassword).toHaveProperty("email", "test@example.com");
     });
 
+    it("should remove the two-factor secrets from a user object", () => {
+      const userWithTwoFactor = {
+        id: "1",
+        email: "test@example.com",
+        password: "hashedpassword",
+        name: "Test User",
+        role: "user",
+        tokenVersion: 0,
+        emailVerifiedAt: null,
+        suspendedAt: null,
+        suspensionReason: null,
+        totpSecret: "JBSWY3DPEHPK3PXP",
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: 1,
+        totpRecoveryCodes: ["hashed-recovery-code"],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as User;
+
+      const result = omitPasswordFromResult(userWithTwoFactor);
+      expect(result).not.toHaveProperty("totpSecret");
+      expect(result).not.toHaveProperty("totpRecoveryCodes");
+      expect(result).toHaveProperty("totpEnabledAt");
+    });
+
     it("should return the same object if password field does not exist", () => {
       const userWithoutPasswordInput = {
         id: "1",
         email: "test@example.com",
         name: "Test User",
+        role: "user",
+        tokenVersion: 0,
+        emailVerifiedAt: null,
+        suspendedAt: null,
+        suspensionReason: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
         createdAt: new Date(),
         updatedAt: new Date(),
-        favoriteBookIds: [],
-        favoriteAuthorIds: [],
-      } as Omit<User, "password"> as User;
+      } as Omit<User, "password" | "totpSecret" | "totpRecoveryCodes"> as User;
 
       const result = omitPasswordFromResult(userWithoutPasswordInput);
       expect(result).toEqual(userWithoutPasswordInput);
@@ -0,0 +1,109 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+} from "@/utils/totp";
+import { describe, expect, it } from "vitest";
+
+// The SHA-1 seed from RFC 6238 appendix B, base32-encoded
+const rfcSecret = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP Utilities", () => {
+  describe("base32", () => {
+    it("should round-trip arbitrary bytes", () => {
+      const bytes = Buffer.from([0, 1, 2, 253, 254, 255, 42]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it("should encode the RFC 6238 seed to its well-known value", () => {
+      expect(rfcSecret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    });
+
+    it("should reject characters outside the base32 alphabet", () => {
+      expect(() => base32Decode("ABC1")).toThrow();
+    });
+  });
+
+  describe("generateTotpCode", () => {
+    it.each([
+      [59, "287082"],
+      [1111111109, "081804"],
+      [1111111111, "050471"],
+      [1234567890, "005924"],
+      [2000000000, "279037"],
+    ])(
+      "should match the RFC 6238 test vector at %i seconds",
+      (seconds, code) => {
+        expect(generateTotpCode(rfcSecret, getTotpStep(seconds * 1000))).toBe(
+          code
+        );
+      }
+    );
+  });
+
+  describe("verifyTotpCode", () => {
+    const now = 1111111111 * 1000;
+
+    it("should return the matching time step for a current code", () => {
+      const step = getTotpStep(now);
+      expect(verifyTotpCode(rfcSecret, "050471", now)).toBe(step);
+    });
+
+    it("should accept a code from the previous step to allow clock drift", () => {
+      const previousStep = getTotpStep(now) - 1;
+      const code = generateTotpCode(rfcSecret, previousStep);
+      expect(verifyTotpCode(rfcSecret, code, now)).toBe(previousStep);
+    });
+
+    it("should reject codes outside the drift window", () => {
+      const code = generateTotpCode(rfcSecret, getTotpStep(now) - 2);
+      expect(verifyTotpCode(rfcSecret, code, now)).toBeNull();
+    });
+
+    it("should reject malformed codes", () => {
+      expect(verifyTotpCode(rfcSecret, "12345", now)).toBeNull();
+      expect(verifyTotpCode(rfcSecret, "abcdef", now)).toBeNull();
+    });
+  });
+
+  describe("generateTotpSecret", () => {
+    it("should generate a 160-bit base32 secret", () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe("buildOtpauthUri", () => {
+    it("should build a URI authenticator apps understand", () => {
+      const uri = new URL(
+        buildOtpauthUri(rfcSecret, "test@example.com", "Beehive")
+      );
+      expect(uri.protocol).toBe("otpauth:");
+      expect(uri.host).toBe("totp");
+      expect(decodeURIComponent(uri.pathname)).toBe(
+        "/Beehive:test@example.com"
+      );
+      expect(uri.searchParams.get("secret")).toBe(rfcSecret);
+      expect(uri.searchParams.get("issuer")).toBe("Beehive");
+      expect(uri.searchParams.get("digits")).toBe("6");
+      expect(uri.searchParams.get("period")).toBe("30");
+    });
+  });
+
+  describe("generateRecoveryCodes", () => {
+    it("should generate the requested number of distinct codes", () => {
+      const codes = generateRecoveryCodes(10);
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      for (const code of codes) {
+        expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      }
+    });
+  });
+});
@@ -0,0 +1,16 @@
+// Counts attempts per key (e.g. "login:account:<email>") and holds lockouts.
+// The in-memory store only protects a single process; deployments running
+// several instances should implement this contract on a shared store (Redis,
+// a database collection, ...) so every instance sees the same counters.
+export interface AttemptStore {
+  // Adds an attempt and returns the number of attempts in the current window.
+  // The window starts with the first attempt and is not extended by later ones.
+  increment(key: string, windowMs: number): Promise<number>;
+  getCount(key: string): Promise<number>;
+  // Starts a lockout and clears the counter, so counting restarts once it ends
+  lock(key: string, until: Date): Promise<void>;
+  // Returns the end of an active lockout, or null
+  getLockedUntil(key: string): Promise<Date | null>;
+  // Clears both the counter and any lockout
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,9 @@
+import type { AttemptStore } from "./attempt-store";
+import { MemoryAttemptStore } from "./memory.attempt-store";
+
+// Swap in a shared AttemptStore implementation here when running more than one instance
+const createAttemptStore = (): AttemptStore => new MemoryAttemptStore();
+
+export const attemptStore = createAttemptStore();
+
+export type { AttemptStore } from "./attempt-store";
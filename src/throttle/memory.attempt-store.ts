@@ -0,0 +1,74 @@
+import type { AttemptStore } from "./attempt-store";
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+// Expired entries are swept once the maps grow past this size
+const SWEEP_THRESHOLD = 10_000;
+
+export class MemoryAttemptStore implements AttemptStore {
+  private readonly counters = new Map<string, Counter>();
+  private readonly locks = new Map<string, number>();
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const counter = this.getActiveCounter(key, now);
+    const updated = counter
+      ? { ...counter, count: counter.count + 1 }
+      : { count: 1, expiresAt: now + windowMs };
+    this.counters.set(key, updated);
+    this.sweepIfNeeded(now);
+    return updated.count;
+  }
+
+  async getCount(key: string) {
+    return this.getActiveCounter(key, Date.now())?.count ?? 0;
+  }
+
+  async lock(key: string, until: Date) {
+    this.counters.delete(key);
+    this.locks.set(key, until.getTime());
+  }
+
+  async getLockedUntil(key: string) {
+    const lockedUntil = this.locks.get(key);
+    if (lockedUntil === undefined) return null;
+    if (lockedUntil <= Date.now()) {
+      this.locks.delete(key);
+      return null;
+    }
+    return new Date(lockedUntil);
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key);
+    this.locks.delete(key);
+  }
+
+  clear() {
+    this.counters.clear();
+    this.locks.clear();
+  }
+
+  private getActiveCounter(key: string, now: number) {
+    const counter = this.counters.get(key);
+    if (!counter) return undefined;
+    if (counter.expiresAt <= now) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  private sweepIfNeeded(now: number) {
+    if (this.counters.size + this.locks.size < SWEEP_THRESHOLD) return;
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+    for (const [key, lockedUntil] of this.locks) {
+      if (lockedUntil <= now) this.locks.delete(key);
+    }
+  }
+}
@@ -1,10 +1,19 @@
 import type { PaginationQueryDto } from "@/dto/shared.dto";
-import type { User } from "@prisma/client";
+import type { Scope } from "@/policies/scope.policy";
+import type { ApiKey, User } from "@prisma/client";
 
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      // Set when the request was authenticated with an API key instead of a JWT
+      apiKey?: ApiKey;
+      // Session behind the access token, when authenticated with a JWT
+      sessionId?: string;
+      // Scopes granted to the token or API key the request was made with
+      scopes?: Scope[];
+      // The administrator acting as req.user, when using an impersonation token
+      impersonator?: User;
       query: PaginationQueryDto & Record<string, any>;
       pagination?: { page: number; limit: number };
     }
@@ -0,0 +1,16 @@
+import ms from "ms";
+
+const toMilliseconds = (duration: string) => {
+  if (/^\d+$/.test(duration)) return Number(duration) * 1000;
+  // ms throws on an empty string and returns undefined for text it cannot parse
+  return duration ? ms(duration as ms.StringValue) : undefined;
+};
+
+// Durations like "15m", "7 days" or "1w"; a bare number counts seconds
+export const parseDurationSeconds = (duration: string) => {
+  const milliseconds = toMilliseconds(duration.trim());
+  if (milliseconds === undefined || !(milliseconds >= 1000)) {
+    throw new Error(`Invalid duration "${duration}"`);
+  }
+  return Math.floor(milliseconds / 1000);
+};
@@ -0,0 +1,136 @@
+import {
+  type JsonWebKey,
+  type KeyObject,
+  createPrivateKey,
+  createPublicKey,
+} from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { config } from "@/config";
+
+export type JwtKeyAlgorithm = "RS256" | "EdDSA";
+
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtKeyAlgorithm;
+  publicKey: KeyObject;
+  // Missing for retired keys that only verify tokens issued before a rotation
+  privateKey?: KeyObject;
+}
+
+export interface JwtKeyRing {
+  keys: Map<string, JwtKey>;
+  // Undefined when no asymmetric keys are configured (HS256 with JWT_SECRET)
+  signingKey?: JwtKey;
+}
+
+interface JwtKeySource {
+  kid: string;
+  privateKey?: string;
+  publicKey?: string;
+}
+
+const getAlgorithm = (kid: string, key: KeyObject): JwtKeyAlgorithm => {
+  switch (key.asymmetricKeyType) {
+    case "rsa":
+      return "RS256";
+    case "ed25519":
+      return "EdDSA";
+    default:
+      throw new Error(
+        `JWT key "${kid}" has unsupported type "${key.asymmetricKeyType}"; use RSA or Ed25519.`
+      );
+  }
+};
+
+const toJwtKey = ({ kid, privateKey, publicKey }: JwtKeySource): JwtKey => {
+  if (!privateKey && !publicKey) {
+    throw new Error(`JWT key "${kid}" has neither a private nor a public key.`);
+  }
+  const privateKeyObject = privateKey
+    ? createPrivateKey(privateKey)
+    : undefined;
+  const publicKeyObject = publicKey
+    ? createPublicKey(publicKey)
+    : createPublicKey(privateKeyObject!);
+
+  return {
+    kid,
+    algorithm: getAlgorithm(kid, publicKeyObject),
+    publicKey: publicKeyObject,
+    privateKey: privateKeyObject,
+  };
+};
+
+const readKeySourcesFromDir = (keysDir: string): JwtKeySource[] =>
+  readdirSync(keysDir)
+    .filter((fileName) => fileName.endsWith(".pem"))
+    .map((fileName) => {
+      const pem = readFileSync(path.join(keysDir, fileName), "utf8");
+      const kid = path.basename(fileName, ".pem");
+      return pem.includes("PRIVATE KEY")
+        ? { kid, privateKey: pem }
+        : { kid, publicKey: pem };
+    });
+
+export const loadJwtKeyRing = (options: {
+  keysJson?: string;
+  keysDir?: string;
+  signingKeyId?: string;
+}): JwtKeyRing => {
+  const sources: JwtKeySource[] = [
+    ...(options.keysJson ? JSON.parse(options.keysJson) : []),
+    ...(options.keysDir ? readKeySourcesFromDir(options.keysDir) : []),
+  ];
+
+  const keys = new Map<string, JwtKey>();
+  for (const source of sources) {
+    if (keys.has(source.kid)) {
+      throw new Error(`JWT key id "${source.kid}" is configured twice.`);
+    }
+    keys.set(source.kid, toJwtKey(source));
+  }
+
+  const signingKeys = [...keys.values()].filter((key) => key.privateKey);
+  if (options.signingKeyId) {
+    const signingKey = keys.get(options.signingKeyId);
+    if (!signingKey?.privateKey) {
+      throw new Error(
+        `JWT signing key "${options.signingKeyId}" is not a loaded private key.`
+      );
+    }
+    return { keys, signingKey };
+  }
+  if (signingKeys.length > 1) {
+    throw new Error(
+      "Several JWT private keys are loaded; set JWT_SIGNING_KEY_ID to pick one."
+    );
+  }
+  return { keys, signingKey: signingKeys[0] };
+};
+
+let keyRing: JwtKeyRing | undefined;
+
+export const getJwtKeyRing = () => {
+  keyRing ??= loadJwtKeyRing({
+    keysJson: config.jwt.keys,
+    keysDir: config.jwt.keysDir,
+    signingKeyId: config.jwt.signingKeyId,
+  });
+  return keyRing;
+};
+
+// Forces the next getJwtKeyRing call to reload keys from config
+export const resetJwtKeyRing = () => {
+  keyRing = undefined;
+};
+
+// Public halves of every loaded key, as served at /.well-known/jwks.json
+export const getPublicJwks = (): { keys: JsonWebKey[] } => ({
+  keys: [...getJwtKeyRing().keys.values()].map((key) => ({
+    ...key.publicKey.export({ format: "jwk" }),
+    kid: key.kid,
+    alg: key.algorithm,
+    use: "sig",
+  })),
+});
@@ -1,36 +1,163 @@
+import { sign as cryptoSign, verify as cryptoVerify } from "node:crypto";
 import { config } from "@/config";
+import { parseDurationSeconds } from "@/utils/duration";
+import { type JwtKey, getJwtKeyRing } from "@/utils/jwt-keys";
 import logger from "@/utils/logger";
-import jwt, { type SignOptions } from "jsonwebtoken";
+import type { Role } from "@prisma/client";
+import jwt from "jsonwebtoken";
 
 export interface JwtPayload {
   userId: string;
   email: string;
+  // Must match User.tokenVersion; bumping the version revokes every token issued before
+  tokenVersion: number;
+  role: Role;
+  // Space-delimited scopes the token is limited to; tokens issued before
+  // scopes existed have none and get every scope of the user's role
+  scope?: string;
+  // Session the token was issued for; missing on tokens issued before sessions existed
+  sid?: string;
+  // Actor claim (RFC 8693), only on impersonation tokens: the administrator
+  // acting as the user the token is issued for
+  act?: { sub: string };
 }
 
-const signOptions: SignOptions = {
-  expiresIn: config.jwt.expiresIn as SignOptions["expiresIn"],
-  algorithm: "HS256",
+// Proves the password step of a login; only accepted by POST /auth/login/mfa
+export interface MfaChallengePayload {
+  userId: string;
+  tokenVersion: number;
+  purpose: "mfa";
+}
+
+const toBase64UrlJson = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// jsonwebtoken does not support EdDSA, so those tokens are signed with node:crypto directly
+const signEdDsa = (claims: object, key: JwtKey) => {
+  const signingInput = `${toBase64UrlJson({ alg: "EdDSA", typ: "JWT", kid: key.kid })}.${toBase64UrlJson(claims)}`;
+  const signature = cryptoSign(
+    null,
+    Buffer.from(signingInput),
+    key.privateKey!
+  );
+  return `${signingInput}.${signature.toString("base64url")}`;
 };
 
-export const signToken = (payload: JwtPayload) => {
+const signClaims = (claims: object, expiresIn: string) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const fullClaims = {
+    ...claims,
+    iat: issuedAt,
+    exp: issuedAt + parseDurationSeconds(expiresIn),
+    iss: config.jwt.issuer,
+    aud: config.jwt.audience,
+  };
+
+  const { signingKey } = getJwtKeyRing();
+  if (signingKey?.algorithm === "EdDSA") {
+    return signEdDsa(fullClaims, signingKey);
+  }
+  if (signingKey) {
+    return jwt.sign(fullClaims, signingKey.privateKey!, {
+      algorithm: "RS256",
+      keyid: signingKey.kid,
+    });
+  }
+
   // ensure secret is available
   if (!config.jwt.secret) {
-    logger.fatal("JWT secret missing; cannot sign token");
+    logger.fatal("No JWT signing key or secret configured; cannot sign token");
     throw new Error("Token signing failed");
   }
-  return jwt.sign(payload, config.jwt.secret, signOptions);
+  return jwt.sign(fullClaims, config.jwt.secret, { algorithm: "HS256" });
 };
 
-export const verifyToken = (token: string) => {
-  // cannot verify without secret
-  if (!config.jwt.secret) {
-    logger.error("JWT secret missing; cannot verify token");
-    return null;
+export const signToken = (payload: JwtPayload) =>
+  signClaims(payload, config.jwt.expiresIn);
+
+// Short-lived and without a refresh token, so impersonation ends on its own
+export const signImpersonationToken = (
+  payload: JwtPayload & Required<Pick<JwtPayload, "act">>
+) => signClaims(payload, config.impersonation.expiresIn);
+
+export const signMfaChallengeToken = (
+  payload: Omit<MfaChallengePayload, "purpose">
+) =>
+  signClaims(
+    { ...payload, purpose: "mfa" },
+    config.twoFactor.challengeExpiresIn
+  );
+
+// Mirrors the checks jsonwebtoken applies to the algorithms it supports
+const verifyEdDsa = (token: string, key: JwtKey) => {
+  const [header, payload, signature] = token.split(".");
+  const isSignatureValid = cryptoVerify(
+    null,
+    Buffer.from(`${header}.${payload}`),
+    key.publicKey,
+    Buffer.from(signature ?? "", "base64url")
+  );
+  if (!isSignatureValid) {
+    throw new jwt.JsonWebTokenError("invalid signature");
+  }
+
+  const claims = jwt.decode(token) as jwt.JwtPayload;
+  if (typeof claims.exp !== "number") {
+    throw new jwt.JsonWebTokenError("jwt exp missing");
+  }
+  if (claims.exp <= Math.floor(Date.now() / 1000)) {
+    throw new jwt.TokenExpiredError("jwt expired", new Date(claims.exp * 1000));
   }
+  if (claims.iss !== config.jwt.issuer) {
+    throw new jwt.JsonWebTokenError("jwt issuer invalid");
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(config.jwt.audience)) {
+    throw new jwt.JsonWebTokenError("jwt audience invalid");
+  }
+  return claims;
+};
+
+const verifyWithKeyRing = (token: string): jwt.JwtPayload => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded) {
+    throw new jwt.JsonWebTokenError("jwt malformed");
+  }
+  const { alg, kid } = decoded.header;
+  const claimOptions = {
+    issuer: config.jwt.issuer,
+    audience: config.jwt.audience,
+  };
 
+  // HS256 stays accepted while JWT_SECRET is set, so tokens issued before a
+  // switch to asymmetric keys remain valid until they expire
+  if (alg === "HS256") {
+    if (!config.jwt.secret) {
+      throw new jwt.JsonWebTokenError("HS256 tokens are not accepted");
+    }
+    return jwt.verify(token, config.jwt.secret, {
+      ...claimOptions,
+      algorithms: ["HS256"],
+    }) as jwt.JwtPayload;
+  }
+
+  const key = kid ? getJwtKeyRing().keys.get(kid) : undefined;
+  if (!key || key.algorithm !== alg) {
+    throw new jwt.JsonWebTokenError("unknown signing key");
+  }
+  if (key.algorithm === "EdDSA") {
+    return verifyEdDsa(token, key);
+  }
+  return jwt.verify(token, key.publicKey, {
+    ...claimOptions,
+    algorithms: ["RS256"],
+  }) as jwt.JwtPayload;
+};
+
+const verifySignedToken = (token: string) => {
   try {
     // verify token and return payload
-    return jwt.verify(token, config.jwt.secret) as JwtPayload;
+    return verifyWithKeyRing(token);
   } catch (err: unknown) {
     // log expired tokens at info
     if (err instanceof jwt.TokenExpiredError) {
@@ -55,3 +182,16 @@ export const verifyToken = (token: string) => {
     return null;
   }
 };
+
+// Access tokens never carry a purpose, so a challenge token cannot be used as one
+export const verifyToken = (token: string) => {
+  const payload = verifySignedToken(token);
+  if (!payload || "purpose" in payload) return null;
+  return payload as unknown as JwtPayload;
+};
+
+export const verifyMfaChallengeToken = (token: string) => {
+  const payload = verifySignedToken(token);
+  if (!payload || payload.purpose !== "mfa") return null;
+  return payload as unknown as MfaChallengePayload;
+};
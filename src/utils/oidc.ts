@@ -0,0 +1,203 @@
+import {
+  type JsonWebKey,
+  type KeyObject,
+  createHash,
+  createPublicKey,
+} from "node:crypto";
+import { generateOpaqueToken } from "@/utils/token";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+
+const OidcProviderSchema = z.object({
+  // Used in the /auth/oidc/:provider routes
+  name: z.string().regex(/^[a-z0-9-]+$/),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  // Omitted for public clients, which rely on PKCE alone
+  clientSecret: z.string().optional(),
+  scopes: z.string().default("openid email profile"),
+  // Defaults to this API's callback route
+  redirectUri: z.string().url().optional(),
+});
+
+export type OidcProvider = z.infer<typeof OidcProviderSchema>;
+
+export const parseOidcProviders = (providersJson: string) =>
+  z.array(OidcProviderSchema).parse(JSON.parse(providersJson));
+
+export interface OidcIssuerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcIdTokenClaims extends jwt.JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+// Signature algorithms jsonwebtoken can verify for ID tokens
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "PS256", "ES256"];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const metadataCache = new Map<string, OidcIssuerMetadata>();
+const jwksCache = new Map<string, Map<string, KeyObject>>();
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(
+      `OIDC request to ${url} failed with ${response.status}: ${JSON.stringify(body)}`
+    );
+  }
+  return body;
+};
+
+export const discoverIssuer = async (issuer: string) => {
+  const cached = metadataCache.get(issuer);
+  if (cached) return cached;
+
+  const metadata = (await fetchJson(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+  )) as OidcIssuerMetadata;
+  if (metadata.issuer !== issuer) {
+    throw new Error(
+      `OIDC discovery for ${issuer} returned issuer ${metadata.issuer}`
+    );
+  }
+  metadataCache.set(issuer, metadata);
+  return metadata;
+};
+
+// RFC 7636 verifier and its S256 challenge
+export const generatePkcePair = () => {
+  const codeVerifier = generateOpaqueToken(32);
+  const codeChallenge = createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+  return { codeVerifier, codeChallenge };
+};
+
+export const buildAuthorizationUrl = (
+  metadata: OidcIssuerMetadata,
+  provider: OidcProvider,
+  params: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+  }
+) => {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", provider.scopes);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+};
+
+// Returns the raw ID token from the token response
+export const exchangeAuthorizationCode = async (
+  metadata: OidcIssuerMetadata,
+  provider: OidcProvider,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+) => {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  // client_secret_basic, with both parts form-encoded as RFC 6749 requires
+  if (provider.clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokenResponse = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+  if (typeof tokenResponse?.id_token !== "string") {
+    throw new Error("OIDC token response did not include an id_token");
+  }
+  return tokenResponse.id_token as string;
+};
+
+const loadJwks = async (jwksUri: string) => {
+  const { keys } = (await fetchJson(jwksUri)) as { keys: JsonWebKey[] };
+  const keyMap = new Map<string, KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.use && jwk.use !== "sig") continue;
+    keyMap.set(
+      typeof jwk.kid === "string" ? jwk.kid : "",
+      createPublicKey({ key: jwk, format: "jwk" })
+    );
+  }
+  jwksCache.set(jwksUri, keyMap);
+  return keyMap;
+};
+
+// A token without a kid is only accepted when the provider publishes a single key
+const findKey = (keyMap: Map<string, KeyObject> | undefined, kid?: string) => {
+  if (!keyMap) return undefined;
+  if (kid) return keyMap.get(kid);
+  return keyMap.size === 1 ? [...keyMap.values()][0] : undefined;
+};
+
+// Refetches the key set once when the kid is unknown, to pick up provider key rotation
+const getSigningKey = async (jwksUri: string, kid?: string) => {
+  const key =
+    findKey(jwksCache.get(jwksUri), kid) ??
+    findKey(await loadJwks(jwksUri), kid);
+  if (!key) {
+    throw new Error(`OIDC signing key "${kid}" not found at ${jwksUri}`);
+  }
+  return key;
+};
+
+export const verifyIdToken = async (
+  metadata: OidcIssuerMetadata,
+  provider: OidcProvider,
+  idToken: string,
+  expectedNonce: string
+) => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new Error("OIDC id_token is malformed");
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: metadata.issuer,
+    audience: provider.clientId,
+  }) as OidcIdTokenClaims;
+
+  if (claims.nonce !== expectedNonce) {
+    throw new Error("OIDC id_token nonce does not match the login request");
+  }
+  if (!claims.sub) {
+    throw new Error("OIDC id_token has no subject");
+  }
+  return claims;
+};
@@ -1,28 +1,50 @@
-import { config } from "@/config";
+import { findPasswordHasherFor, getPasswordHasher } from "@/hashing";
 import type { User } from "@prisma/client";
-import bcrypt from "bcryptjs";
 
 export const hashPassword = async (password: string) => {
   // Defensive check
   if (!password) {
     throw new Error("Password cannot be empty for hashing.");
   }
-  return bcrypt.hash(password, config.bcryptSaltRounds);
+  return getPasswordHasher().hash(password);
 };
 
-export const comparePassword = async (
+// needsRehash is only meaningful for a match: the hash was made with another
+// algorithm or older parameters and should be replaced while the plain
+// password is at hand
+export const verifyPassword = async (
   password: string,
   hashedPassword: string
 ) => {
   // Defensive check
   if (!password || !hashedPassword) {
-    return false;
+    return { isMatch: false, needsRehash: false };
+  }
+
+  const hasher = findPasswordHasherFor(hashedPassword);
+  if (!hasher || !(await hasher.verify(password, hashedPassword))) {
+    return { isMatch: false, needsRehash: false };
   }
-  return bcrypt.compare(password, hashedPassword);
+
+  const currentHasher = getPasswordHasher();
+  return {
+    isMatch: true,
+    needsRehash:
+      hasher.algorithm !== currentHasher.algorithm ||
+      currentHasher.needsRehash(hashedPassword),
+  };
 };
 
-// We dont want to return the password in the response
-export const omitPasswordFromResult = (user: User): Omit<User, "password"> => {
-  const { password, ...userWithoutPassword } = user;
+export const comparePassword = async (
+  password: string,
+  hashedPassword: string
+) => (await verifyPassword(password, hashedPassword)).isMatch;
+
+// We dont want to return the password (or the second-factor secrets) in the response
+export const omitPasswordFromResult = (
+  user: User
+): Omit<User, "password" | "totpSecret" | "totpRecoveryCodes"> => {
+  const { password, totpSecret, totpRecoveryCodes, ...userWithoutPassword } =
+    user;
   return userWithoutPassword;
 };
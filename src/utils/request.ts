@@ -1,15 +1,36 @@
 import type { PaginationQueryDto } from "@/dto/shared.dto";
 import type { NextFunction, Request, RequestHandler, Response } from "express";
 
-export type PaginatedRequestHandler<P = any, ResBody = any, ReqBody = any> = (
-  req: Request<P, ResBody, ReqBody, PaginationQueryDto>,
+// Details about the caller that services need but should not read from Express directly
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export const getRequestContext = (
+  req: Pick<Request, "ip" | "headers">
+): RequestContext => ({
+  ip: req.ip,
+  userAgent: req.headers["user-agent"],
+});
+
+export type PaginatedRequestHandler<
+  P = any,
+  ResBody = any,
+  ReqBody = any,
+  ReqQuery extends Pick<
+    PaginationQueryDto,
+    "page" | "limit"
+  > = PaginationQueryDto,
+> = (
+  req: Request<P, ResBody, ReqBody, ReqQuery>,
   res: Response,
   next: NextFunction
 ) => Promise<void>;
 
-export function withPagination<T extends PaginatedRequestHandler>(
-  handler: T
-): RequestHandler {
+export function withPagination<
+  T extends PaginatedRequestHandler<any, any, any, any>,
+>(handler: T): RequestHandler {
   return async (req, res, next) => {
     const page = Number(req.query.page ?? 1);
     const limit = Number(req.query.limit ?? 10);
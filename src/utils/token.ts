@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "node:crypto";
+
+const DEFAULT_TOKEN_BYTES = 48;
+
+// Opaque, URL-safe random token handed to the client (never stored as-is)
+export const generateOpaqueToken = (byteLength = DEFAULT_TOKEN_BYTES) =>
+  randomBytes(byteLength).toString("base64url");
+
+// Tokens are stored as SHA-256 digests so a database leak does not expose usable tokens
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+export const addHours = (date: Date, hours: number) =>
+  new Date(date.getTime() + hours * 60 * 60 * 1000);
+
+export const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
@@ -1,10 +1,35 @@
+import type { AdminUserOutput } from "@/dto/admin.dto";
 import type { UserOutput } from "@/dto/auth.dto";
 import type { User } from "@prisma/client";
 import { omitPasswordFromResult } from "./password";
 
 // Simple user object generator, to filter out other irrelevant fields when returning login and logout response
 export const generateSimpleUserObject = (user: User): UserOutput => {
-  const { id, email, name, createdAt, updatedAt } =
-    omitPasswordFromResult(user);
-  return { id, email, name: name ?? "", createdAt, updatedAt };
+  const {
+    id,
+    email,
+    name,
+    role,
+    emailVerifiedAt,
+    totpEnabledAt,
+    createdAt,
+    updatedAt,
+  } = omitPasswordFromResult(user);
+  return {
+    id,
+    email,
+    name: name ?? "",
+    role,
+    emailVerifiedAt,
+    twoFactorEnabled: totpEnabledAt !== null,
+    createdAt,
+    updatedAt,
+  };
 };
+
+// Administrators additionally see the moderation state of the account
+export const generateAdminUserObject = (user: User): AdminUserOutput => ({
+  ...generateSimpleUserObject(user),
+  suspendedAt: user.suspendedAt,
+  suspensionReason: user.suspensionReason,
+});